@@ -25,6 +25,28 @@ import { IPolygonEvent } from './src/interfaces/ipolygon-event';
 import { IPolylineEvent } from './src/interfaces/ipolyline-event';
 import { IMapEventLookup } from './src/interfaces/imap-event-lookup';
 import { ILabelOptions } from './src/interfaces/ilabel-options';
+import { IMockEventArgs } from './src/interfaces/imock-event-args';
+import { IGeoJsonGeometry } from './src/interfaces/igeojson-geometry';
+import { IGeoJsonFeature } from './src/interfaces/igeojson-feature';
+import { IGeoJsonFeatureCollection } from './src/interfaces/igeojson-feature-collection';
+import { IGeoJsonFeatureEvent } from './src/interfaces/igeojson-feature-event';
+import { IGeoJsonStyle } from './src/interfaces/igeojson-style';
+import { ICluster } from './src/interfaces/icluster';
+import { IClusterEngineOptions } from './src/interfaces/icluster-engine-options';
+import { IClusterAggregation } from './src/interfaces/icluster-aggregation';
+import { IHeatmapPoint } from './src/interfaces/iheatmap-point';
+import { IHeatmapGradientStop } from './src/interfaces/iheatmap-gradient-stop';
+import { ITileLayerOptions } from './src/interfaces/itile-layer-options';
+import { IWmsOptions } from './src/interfaces/iwms-options';
+import { IWmsFeatureInfoEvent } from './src/interfaces/iwms-feature-info-event';
+import { IGroundOverlayOptions } from './src/interfaces/iground-overlay-options';
+import { IGroundOverlayEvent } from './src/interfaces/iground-overlay-event';
+import { ICircleOptions } from './src/interfaces/icircle-options';
+import { ICircleEvent } from './src/interfaces/icircle-event';
+import { IDrawingCompleteEvent } from './src/interfaces/idrawing-complete-event';
+import { IKmlParseResult } from './src/interfaces/ikml-parse-result';
+import { IKmlFeatureEvent } from './src/interfaces/ikml-feature-event';
+import { IWktGeometry } from './src/interfaces/iwkt-geometry';
 
 ///
 /// import module models
@@ -40,8 +62,30 @@ import { SpiderClusterMarker } from './src/models/spider-cluster-marker';
 import { ClusterPlacementMode } from './src/models/cluster-placement-mode';
 import { ClusterClickAction } from './src/models/cluster-click-action';
 import { CanvasOverlay} from './src/models/canvas-overlay';
+import { GeoJsonConversions } from './src/models/geojson-conversions';
+import { GeoMath } from './src/models/geo-math';
+import { GeoPredicates } from './src/models/geo-predicates';
+import { PathSimplifier } from './src/models/path-simplifier';
+import { PolylineEncoding } from './src/models/polyline-encoding';
+import { WktConversions } from './src/models/wkt-conversions';
+import { MapProjection } from './src/models/map-projection';
+import { ClusterEngine } from './src/models/cluster-engine';
+import { ClusterAggregationType } from './src/models/cluster-aggregation-type';
+import { ClusterAggregator } from './src/models/cluster-aggregator';
+import { ClusterMemberList } from './src/models/cluster-member-list';
+import { HeatmapRadiusUnit } from './src/models/heatmap-radius-unit';
+import { TileLayer } from './src/models/tile-layer';
+import { WmsRequest } from './src/models/wms-request';
+import { GroundOverlay } from './src/models/ground-overlay';
+import { Circle } from './src/models/circle';
+import { DrawingMode } from './src/models/drawing-mode';
 import { BingLayer } from './src/models/bing/bing-layer';
 import { BingClusterLayer } from './src/models/bing/bing-cluster-layer';
+import { BingClusterEngineAdapter } from './src/models/bing/bing-cluster-engine-adapter';
+import { BingTileLayer } from './src/models/bing/bing-tile-layer';
+import { BingGroundOverlay } from './src/models/bing/bing-ground-overlay';
+import { BingCircle } from './src/models/bing/bing-circle';
+import { BingVertexTracker } from './src/models/bing/bing-vertex-tracker';
 import { BingSpiderClusterMarker } from './src/models/bing/bing-spider-cluster-marker';
 import { BingInfoWindow } from './src/models/bing/bing-info-window';
 import { BingMarker } from './src/models/bing/bing-marker';
@@ -55,6 +99,24 @@ import { GooglePolygon } from './src/models/google/google-polygon';
 import { GooglePolyline } from './src/models/google/google-polyline';
 import { GoogleMapEventsLookup } from './src/models/google/google-events-lookup';
 import { GoogleCanvasOverlay } from './src/models/google/google-canvas-overlay';
+import { GoogleClusterEngineAdapter } from './src/models/google/google-cluster-engine-adapter';
+import { GoogleSpiderClusterMarker } from './src/models/google/google-spider-cluster-marker';
+import { GoogleTileLayer } from './src/models/google/google-tile-layer';
+import { GoogleGroundOverlay } from './src/models/google/google-ground-overlay';
+import { GoogleCircle } from './src/models/google/google-circle';
+import { MockMap } from './src/models/mock/mock-map';
+import { MockEvents } from './src/models/mock/mock-events';
+import { MockLayer } from './src/models/mock/mock-layer';
+import { MockClusterLayer } from './src/models/mock/mock-cluster-layer';
+import { MockInfoWindow } from './src/models/mock/mock-info-window';
+import { MockMarker } from './src/models/mock/mock-marker';
+import { MockPolygon } from './src/models/mock/mock-polygon';
+import { MockPolyline } from './src/models/mock/mock-polyline';
+import { MockMapLabel } from './src/models/mock/mock-label';
+import { MockCanvasOverlay } from './src/models/mock/mock-canvas-overlay';
+import { MockTileLayer } from './src/models/mock/mock-tile-layer';
+import { MockGroundOverlay } from './src/models/mock/mock-ground-overlay';
+import { MockCircle } from './src/models/mock/mock-circle';
 
 ///
 /// import module components
@@ -70,6 +132,14 @@ import { MapPolylineDirective } from './src/components/map-polyline';
 import { MapMarkerLayerDirective } from './src/components/map-marker-layer';
 import { MapPolygonLayerDirective } from './src/components/map-polygon-layer';
 import { MapPolylineLayerDirective } from './src/components/map-polyline-layer';
+import { MapGeoJsonLayerDirective } from './src/components/map-geojson-layer';
+import { MapHeatmapLayerDirective } from './src/components/map-heatmap-layer';
+import { MapTileLayerDirective } from './src/components/map-tile-layer';
+import { MapWmsLayerDirective } from './src/components/map-wms-layer';
+import { MapGroundOverlayDirective } from './src/components/map-ground-overlay';
+import { MapCircleDirective } from './src/components/map-circle';
+import { MapDrawingToolsDirective } from './src/components/map-drawing-tools';
+import { MapKmlLayerDirective } from './src/components/map-kml-layer';
 
 ///
 /// import module services
@@ -83,6 +153,8 @@ import { MarkerService } from './src/services/marker.service';
 import { ClusterService } from './src/services/cluster.service';
 import { PolygonService } from './src/services/polygon.service';
 import { PolylineService } from './src/services/polyline.service';
+import { EditHistoryService } from './src/services/edit-history.service';
+import { KmlParserService } from './src/services/kml-parser.service';
 import { BingMapServiceFactory,
     BingMapServiceFactoryFactory, BingMapLoaderFactory } from './src/services/bing/bing-map.service.factory';
 import { BingMapService } from './src/services/bing/bing-map.service';
@@ -105,6 +177,16 @@ import { GoogleMapService } from './src/services/google/google-map.service';
 import { GoogleMarkerService } from './src/services/google/google-marker.service';
 import { GooglePolygonService } from './src/services/google/google-polygon.service';
 import { GooglePolylineService } from './src/services/google/google-polyline.service';
+import { MockMapServiceFactory,
+    MockMapServiceFactoryFactory, MockMapLoaderFactory } from './src/services/mock/mock-map.service.factory';
+import { MockMapService } from './src/services/mock/mock-map.service';
+import { MockMapAPILoader } from './src/services/mock/mock-map.api-loader.service';
+import { MockInfoBoxService } from './src/services/mock/mock-infobox.service';
+import { MockMarkerService } from './src/services/mock/mock-marker.service';
+import { MockLayerService } from './src/services/mock/mock-layer.service';
+import { MockClusterService } from './src/services/mock/mock-cluster.service';
+import { MockPolygonService } from './src/services/mock/mock-polygon.service';
+import { MockPolylineService } from './src/services/mock/mock-polyline.service';
 
 ///
 /// export publics components, models, interfaces etc for external reuse.
@@ -116,18 +198,35 @@ export {
     MapPolylineDirective, InfoBoxActionDirective, MapMarkerLayerDirective, MapPolygonLayerDirective, MapLayerDirective,
     ClusterLayerDirective, MapPolylineLayerDirective, MapTypeId, Marker, MarkerTypeId, InfoWindow, Layer, ClusterPlacementMode,
     ClusterClickAction, SpiderClusterMarker, Polygon, Polyline, CanvasOverlay, MapService, MapServiceFactory, MarkerService,
-    InfoBoxService, MapAPILoader, WindowRef, DocumentRef, LayerService, PolygonService, PolylineService, ClusterService
+    InfoBoxService, MapAPILoader, WindowRef, DocumentRef, LayerService, PolygonService, PolylineService, ClusterService,
+    IGeoJsonGeometry, IGeoJsonFeature, IGeoJsonFeatureCollection, IGeoJsonFeatureEvent, IGeoJsonStyle, MapGeoJsonLayerDirective,
+    GeoJsonConversions, ICluster, IClusterEngineOptions, ClusterEngine, IClusterAggregation, ClusterAggregationType,
+    ClusterAggregator, ClusterMemberList, IHeatmapPoint, IHeatmapGradientStop, HeatmapRadiusUnit, MapHeatmapLayerDirective,
+    ITileLayerOptions, TileLayer, MapTileLayerDirective, IWmsOptions, IWmsFeatureInfoEvent, WmsRequest, MapWmsLayerDirective,
+    IGroundOverlayOptions, IGroundOverlayEvent, GroundOverlay, MapGroundOverlayDirective,
+    ICircleOptions, ICircleEvent, Circle, MapCircleDirective,
+    IDrawingCompleteEvent, DrawingMode, MapDrawingToolsDirective, EditHistoryService, GeoMath, GeoPredicates,
+    PathSimplifier, PolylineEncoding, IKmlParseResult, IKmlFeatureEvent, KmlParserService, MapKmlLayerDirective,
+    IWktGeometry, WktConversions, MapProjection
 };
 export {
     BingMapServiceFactory, BingMapAPILoaderConfig, BingMapService, BingInfoBoxService,
     BingMarkerService, BingPolygonService, BingPolylineService, BingMapAPILoader,
     BingLayerService, BingClusterService, BingLayer, BingMarker, BingPolyline, BingMapEventsLookup, BingPolygon,
-    BingInfoWindow, BingClusterLayer, BingSpiderClusterMarker, BingCanvasOverlay
+    BingInfoWindow, BingClusterLayer, BingSpiderClusterMarker, BingCanvasOverlay, BingClusterEngineAdapter, BingTileLayer,
+    BingGroundOverlay, BingCircle, BingVertexTracker
 };
 export {
     GoogleClusterService, GoogleInfoBoxService, GoogleLayerService, GoogleMapAPILoader, GoogleMapAPILoaderConfig,
     GoogleMapServiceFactory, GoogleMapService, GoogleMarkerService, GooglePolygonService, GooglePolylineService,
-    GoogleMarker, GoogleInfoWindow, GooglePolygon, GooglePolyline, GoogleMapEventsLookup, GoogleCanvasOverlay
+    GoogleMarker, GoogleInfoWindow, GooglePolygon, GooglePolyline, GoogleMapEventsLookup, GoogleCanvasOverlay,
+    GoogleClusterEngineAdapter, GoogleSpiderClusterMarker, GoogleTileLayer, GoogleGroundOverlay, GoogleCircle
+};
+export {
+    MockMapServiceFactory, MockMapService, MockMapAPILoader, MockInfoBoxService, MockMarkerService, MockLayerService,
+    MockClusterService, MockPolygonService, MockPolylineService, MockMap, MockEvents, MockLayer, MockClusterLayer,
+    MockInfoWindow, MockMarker, MockPolygon, MockPolyline, MockMapLabel, MockCanvasOverlay, IMockEventArgs,
+    MockTileLayer, MockGroundOverlay, MockCircle
 };
 
 ///
@@ -145,7 +244,15 @@ export {
         ClusterLayerDirective,
         MapMarkerLayerDirective,
         MapPolygonLayerDirective,
-        MapPolylineLayerDirective
+        MapPolylineLayerDirective,
+        MapGeoJsonLayerDirective,
+        MapHeatmapLayerDirective,
+        MapTileLayerDirective,
+        MapWmsLayerDirective,
+        MapGroundOverlayDirective,
+        MapCircleDirective,
+        MapDrawingToolsDirective,
+        MapKmlLayerDirective
     ],
     imports: [CommonModule],
     exports: [
@@ -160,7 +267,15 @@ export {
         ClusterLayerDirective,
         MapMarkerLayerDirective,
         MapPolygonLayerDirective,
-        MapPolylineLayerDirective
+        MapPolylineLayerDirective,
+        MapGeoJsonLayerDirective,
+        MapHeatmapLayerDirective,
+        MapTileLayerDirective,
+        MapWmsLayerDirective,
+        MapGroundOverlayDirective,
+        MapCircleDirective,
+        MapDrawingToolsDirective,
+        MapKmlLayerDirective
     ]
 })
 export class MapModule {
@@ -173,7 +288,8 @@ export class MapModule {
                     { provide: MapServiceFactory, deps: [MapAPILoader, NgZone], useFactory: BingMapServiceFactoryFactory },
                 loader ? { provide: MapAPILoader, useValue: loader } : { provide: MapAPILoader, useFactory: BingMapLoaderFactory },
                 DocumentRef,
-                WindowRef
+                WindowRef,
+                KmlParserService
             ]
         };
     }
@@ -185,7 +301,8 @@ export class MapModule {
                 { provide: MapServiceFactory, deps: [MapAPILoader, NgZone], useFactory: BingMapServiceFactoryFactory },
                 { provide: MapAPILoader, useFactory: BingMapLoaderFactory },
                 DocumentRef,
-                WindowRef
+                WindowRef,
+                KmlParserService
             ]
         };
     }
@@ -197,7 +314,21 @@ export class MapModule {
                 { provide: MapServiceFactory, deps: [MapAPILoader, NgZone], useFactory: GoogleMapServiceFactoryFactory },
                 { provide: MapAPILoader, useFactory: GoogleMapLoaderFactory },
                 DocumentRef,
-                WindowRef
+                WindowRef,
+                KmlParserService
+            ]
+        };
+    }
+
+    static forRootTesting(): ModuleWithProviders {
+        return {
+            ngModule: MapModule,
+            providers: [
+                { provide: MapServiceFactory, deps: [MapAPILoader, NgZone], useFactory: MockMapServiceFactoryFactory },
+                { provide: MapAPILoader, useFactory: MockMapLoaderFactory },
+                DocumentRef,
+                WindowRef,
+                KmlParserService
             ]
         };
     }
@@ -1,6 +1,6 @@
 import { IClusterIconInfo } from '../interfaces/icluster-icon-info';
 import { Directive, EventEmitter, OnInit, OnDestroy, OnChanges, SimpleChange,
-    ContentChildren, Input, ViewContainerRef } from '@angular/core';
+    ContentChildren, Input, Output, ViewContainerRef } from '@angular/core';
 import { Marker } from '../models/marker';
 import { Layer } from '../models/layer';
 import { ClusterPlacementMode } from '../models/cluster-placement-mode';
@@ -8,8 +8,13 @@ import { ClusterClickAction } from '../models/cluster-click-action';
 import { IPoint } from '../interfaces/ipoint';
 import { IClusterOptions } from '../interfaces/icluster-options';
 import { IMarkerIconInfo} from '../interfaces/imarker-icon-info';
+import { IMarkerEvent } from '../interfaces/imarker-event';
 import { ClusterService } from '../services/cluster.service';
 import { ISpiderClusterOptions } from '../interfaces/ispider-cluster-options';
+import { IClusterAggregation } from '../interfaces/icluster-aggregation';
+import { ClusterAggregator } from '../models/cluster-aggregator';
+import { ClusterAggregationType } from '../models/cluster-aggregation-type';
+import { MarkerTypeId } from '../models/marker-type-id';
 import { MapMarkerDirective } from './map-marker';
 import { MapLayerDirective } from './map-layer';
 
@@ -49,6 +54,8 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
     ///
     /// Field declarations
     ///
+    private _aggregateText: string;
+    private _aggregations: Array<IClusterAggregation>;
     private _clusteringEnabled = true;
     private _clusterPlacementMode: ClusterPlacementMode = ClusterPlacementMode.MeanValue;
     private _clusterClickAction: ClusterClickAction = ClusterClickAction.ZoomIntoCluster;
@@ -57,9 +64,16 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
     private _gridSize: number;
     private _layerOffset: IPoint;
     private _iconInfo: IMarkerIconInfo;
+    private _memberListPageSize = 10;
+    private _memberListTemplate: (m: Marker) => string;
     private _minimumClusterSize: number;
+    private _pieChartCategoryKey: string;
+    private _pieChartColors: Map<string, string>;
+    private _pieChartInnerRadiusRatio = 0.5;
     private _styles: Array<IClusterIconInfo>;
+    private _useClusterEngine = false;
     private _useDynamicSizeMarker = false;
+    private _usePieChartMarker = false;
     private _dynamicMarkerBaseSize = 18;
     private _dynamicMarkerRanges: Map<number, string> = new Map<number, string>([
         [10, 'rgba(20, 180, 20, 0.5)'],
@@ -67,12 +81,34 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
         [Number.MAX_SAFE_INTEGER , 'rgba(255, 40, 40, 0.5)']
     ]);
     private _zoomOnClick = true;
-    private _iconCreationCallback: (m: Array<Marker>, i: IMarkerIconInfo) => string;
+    private _iconCreationCallback: (m: Array<Marker>, i: IMarkerIconInfo, a?: Map<string, any>) => string;
 
     ///
     /// Property defintions
     ///
 
+    /**
+     * Gets or sets the name of the aggregate (see {@link Aggregations}) to display as the cluster text instead of the
+     * number of markers in the cluster. When {@link UseDynamicSizeMarkers} is enabled, the aggregate also drives the size
+     * of the dynamic marker. This property can only be set on creation of the layer.
+     *
+     * @memberof ClusterLayerDirective
+     */
+    @Input()
+        public get AggregateText(): string  { return this._aggregateText; }
+        public set AggregateText(val: string) { this._aggregateText = val; }
+
+    /**
+     * Gets or sets the aggregations computed over the Metadata of the markers in each cluster. The aggregates are passed
+     * to the {@link CustomMarkerCallback} and attached to the native cluster pushpin (metadata.aggregates on Bing, the
+     * aggregates property of the cluster passed to clusterclick on Google). This property can only be set on creation of the layer.
+     *
+     * @memberof ClusterLayerDirective
+     */
+    @Input()
+        public get Aggregations(): Array<IClusterAggregation>  { return this._aggregations; }
+        public set Aggregations(val: Array<IClusterAggregation>) { this._aggregations = val; }
+
     /**
      * Gets or sets the the Cluster Click Action {@link ClusterClickAction}.
      *
@@ -104,24 +140,34 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
     /**
      * Gets or sets the callback invoked to create a custom cluster marker. Note that when {@link UseDynamicSizeMarkers} is enabled,
      * you cannot set a custom marker callback.
+     * The callback receives the markers in the cluster, the icon info to hydrate and, if {@link Aggregations} are
+     * declared, the aggregates computed for the cluster.
      *
      * @memberof ClusterLayerDirective
      */
     @Input()
-        public get CustomMarkerCallback(): (m: Array<Marker>, i: IMarkerIconInfo) => string  { return this._iconCreationCallback; }
-        public set CustomMarkerCallback(val: (m: Array<Marker>, i: IMarkerIconInfo) => string) {
+        public get CustomMarkerCallback(): (m: Array<Marker>, i: IMarkerIconInfo, a?: Map<string, any>) => string  {
+            return this._iconCreationCallback;
+        }
+        public set CustomMarkerCallback(val: (m: Array<Marker>, i: IMarkerIconInfo, a?: Map<string, any>) => string) {
             if (this._useDynamicSizeMarker) {
                 throw(
                     new Error(`You cannot set a custom marker callback when UseDynamicSizeMarkers is set to true.
                     Set UseDynamicSizeMakers to false.`)
                 );
             }
+            if (this._usePieChartMarker) {
+                throw(
+                    new Error(`You cannot set a custom marker callback when UsePieChartMarkers is set to true.
+                    Set UsePieChartMarkers to false.`)
+                );
+            }
             this._iconCreationCallback = val;
         }
 
     /**
      * Gets or sets the base size of dynamic markers in pixels. The actualy size of the dynamic marker is based on this.
-     * See {@link UseDynamicSizeMarkers}.
+     * Also applies to pie chart markers. See {@link UseDynamicSizeMarkers} and {@link UsePieChartMarkers}.
      *
      * @memberof ClusterLayerDirective
      */
@@ -168,6 +214,27 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
         public get LayerOffset(): IPoint  { return this._layerOffset; }
         public set LayerOffset(val: IPoint) { this._layerOffset = val; }
 
+    /**
+     * Gets or sets the number of members per page in the member list shown for {@link ClusterClickAction.ListMembers}.
+     * Defaults to 10.
+     *
+     * @memberof ClusterLayerDirective
+     */
+    @Input()
+        public get MemberListPageSize(): number  { return this._memberListPageSize; }
+        public set MemberListPageSize(val: number) { this._memberListPageSize = val; }
+
+    /**
+     * Gets or sets the function creating the html for an entry in the member list shown for
+     * {@link ClusterClickAction.ListMembers}. The function receives the member marker. Defaults to
+     * {@link ClusterMemberList.DefaultTemplate}, which uses the marker title or Metadata.
+     *
+     * @memberof ClusterLayerDirective
+     */
+    @Input()
+        public get MemberListTemplate(): (m: Marker) => string  { return this._memberListTemplate; }
+        public set MemberListTemplate(val: (m: Marker) => string) { this._memberListTemplate = val; }
+
     /**
      * Gets or sets the minimum pins required to form a cluster
      *
@@ -178,6 +245,36 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
         public get MinimumClusterSize(): number  { return this._minimumClusterSize; }
         public set MinimumClusterSize(val: number) { this._minimumClusterSize = val; }
 
+    /**
+     * Gets or sets the Metadata key by which the members of a cluster are grouped into the slices of pie chart markers.
+     * See {@link UsePieChartMarkers}.
+     *
+     * @memberof ClusterLayerDirective
+     */
+    @Input()
+        public get PieChartCategoryKey(): string  { return this._pieChartCategoryKey; }
+        public set PieChartCategoryKey(val: string) { this._pieChartCategoryKey = val; }
+
+    /**
+     * Gets or sets the slice colors of pie chart markers. The map contains key/value pairs, with the keys being the
+     * categories and the values the colors. Categories without a color use a default palette. See {@link UsePieChartMarkers}.
+     *
+     * @memberof ClusterLayerDirective
+     */
+    @Input()
+        public get PieChartColors(): Map<string, string>  { return this._pieChartColors; }
+        public set PieChartColors(val: Map<string, string>) { this._pieChartColors = val; }
+
+    /**
+     * Gets or sets the ratio of the inner to the outer radius of pie chart markers. 0 draws a pie, values between 0 and 1
+     * draw a donut. Defaults to 0.5. See {@link UsePieChartMarkers}.
+     *
+     * @memberof ClusterLayerDirective
+     */
+    @Input()
+        public get PieChartInnerRadiusRatio(): number  { return this._pieChartInnerRadiusRatio; }
+        public set PieChartInnerRadiusRatio(val: number) { this._pieChartInnerRadiusRatio = val; }
+
     /**
      * Gets or sets the options for spider clustering behavior. See {@link ISpiderClusterOptions}
      *
@@ -197,6 +294,17 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
         public get Styles(): Array<IClusterIconInfo> { return this._styles; }
         public set Styles(val: Array<IClusterIconInfo>) { this._styles = val; }
 
+    /**
+     * Gets or sets whether to use the built-in {@link ClusterEngine} instead of the provider clustering. The built-in engine
+     * produces the same clusters on all providers for the same GridSize and MinimumClusterSize and does not require the
+     * Google marker clusterer script. This property can only be set on creation of the layer.
+     *
+     * @memberof ClusterLayerDirective
+     */
+    @Input()
+        public get UseClusterEngine(): boolean { return this._useClusterEngine; }
+        public set UseClusterEngine(val: boolean) { this._useClusterEngine = val; }
+
     /**
      * Gets or sets whether to use dynamic markers. Dynamic markers change in size and color depending on the number of
      * pins in the cluster. If set to true, this will take precendence over any custom marker creation.
@@ -206,11 +314,36 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
     @Input()
         public get UseDynamicSizeMarkers(): boolean { return this._useDynamicSizeMarker; }
         public set UseDynamicSizeMarkers(val: boolean) {
+            if (val && this._usePieChartMarker) {
+                throw(new Error('You cannot use dynamic size markers when UsePieChartMarkers is set to true.'));
+            }
             this._useDynamicSizeMarker = val;
             if (val) {
-                this._iconCreationCallback = (m: Array<Marker>, info: IMarkerIconInfo) => {
+                this._iconCreationCallback = (m: Array<Marker>, info: IMarkerIconInfo, a?: Map<string, any>) => {
                     return ClusterLayerDirective.CreateDynamicSizeMarker(
-                        m.length, info, this._dynamicMarkerBaseSize, this._dynamicMarkerRanges);
+                        m.length, info, this._dynamicMarkerBaseSize, this._dynamicMarkerRanges, a, this._aggregateText);
+                };
+            }
+        }
+
+    /**
+     * Gets or sets whether to use pie chart markers. Pie chart markers group the members of a cluster by the
+     * {@link PieChartCategoryKey} Metadata key and draw a slice per category, with the total in the center.
+     * If set to true, this will take precendence over any custom marker creation.
+     *
+     * @memberof ClusterLayerDirective
+     */
+    @Input()
+        public get UsePieChartMarkers(): boolean { return this._usePieChartMarker; }
+        public set UsePieChartMarkers(val: boolean) {
+            if (val && this._useDynamicSizeMarker) {
+                throw(new Error('You cannot use pie chart markers when UseDynamicSizeMarkers is set to true.'));
+            }
+            this._usePieChartMarker = val;
+            if (val) {
+                this._iconCreationCallback = (m: Array<Marker>, info: IMarkerIconInfo) => {
+                    return ClusterLayerDirective.CreatePieChartMarker(m, info, this._dynamicMarkerBaseSize,
+                        this._pieChartCategoryKey, this._pieChartColors, this._pieChartInnerRadiusRatio);
                 };
             }
         }
@@ -234,6 +367,18 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
         public get ZoomOnClick(): boolean { return this._zoomOnClick; }
         public set ZoomOnClick(val: boolean) { this._zoomOnClick = val; }
 
+    ///
+    /// Delegates
+    ///
+
+    /**
+     * This event emitter gets emitted when the user selects a member in the member list shown for
+     * {@link ClusterClickAction.ListMembers}.
+     *
+     * @memberof ClusterLayerDirective
+     */
+    @Output() public MarkerClick: EventEmitter<IMarkerEvent> = new EventEmitter<IMarkerEvent>();
+
     /**
      * Creates the dynamic size marker to be used for cluster markers if UseDynamicSizeMarkers is set to true.
      *
@@ -245,15 +390,23 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
      * @param ranges - The ranges to use to calculate breakpoints and colors for dynamic markers.
      * The map contains key/value pairs, with the keys being
      * the breakpoint sizes and the values the colors to be used for the dynamic marker in that range.
+     * @param aggregates - Optional. The aggregates computed for the cluster. See {@link Aggregations}.
+     * @param aggregate - Optional. The name of the aggregate to size the marker by. If the aggregate is not numeric,
+     * the number of markers is used.
      * @returns - An string containing the SVG for the marker.
      *
      * @memberof ClusterLayerDirective
      */
     public static CreateDynamicSizeMarker(size: number, info: IMarkerIconInfo,
-                                             baseMarkerSize: number, ranges: Map<number, string>): string {
+                                             baseMarkerSize: number, ranges: Map<number, string>,
+                                             aggregates?: Map<string, any>, aggregate?: string): string {
         const mr: number = baseMarkerSize;
         const outline: number = mr * 0.35;
-        const total: number = size;
+        let total: number = size;
+        if (aggregates && aggregate && aggregates.has(aggregate)) {
+            const t: number = parseFloat(ClusterAggregator.ToText(aggregates.get(aggregate)));
+            if (!isNaN(t)) { total = Math.max(t, 1); }
+        }
         const r: number = Math.log(total) / Math.log(10) * 5 + mr;
         const d: number = r * 2;
         let fillColor: string;
@@ -273,6 +426,50 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
         return svg.join('');
     }
 
+    /**
+     * Creates the pie chart marker to be used for cluster markers if UsePieChartMarkers is set to true. The marker is
+     * cached by its size and category distribution, so clusters with identical distributions share the marker image.
+     *
+     * @param markers - The markers in the cluster.
+     * @param info  - The icon info to be used. This will be hydrated with
+     * the actualy dimensions of the created markers and is used by the underlying model/services
+     * to correctly offset the marker for correct positioning.
+     * @param baseMarkerSize - The base size for pie chart markers.
+     * @param categoryKey - The Metadata key by which to group the markers. Markers without the key form an unnamed category.
+     * @param colors - Optional. The slice colors by category.
+     * @param innerRadiusRatio - Optional. The ratio of the inner to the outer radius. 0 draws a pie.
+     * @returns - An string containing the SVG for the marker.
+     *
+     * @memberof ClusterLayerDirective
+     */
+    public static CreatePieChartMarker(markers: Array<Marker>, info: IMarkerIconInfo, baseMarkerSize: number,
+                                          categoryKey: string, colors?: Map<string, string>, innerRadiusRatio?: number): string {
+        const counts: Map<string, number> = categoryKey ?
+            ClusterAggregator.Aggregate(markers, [{ key: categoryKey, type: ClusterAggregationType.CountByCategory }]).get(categoryKey) :
+            new Map<string, number>();
+        let categorized: number = 0;
+        counts.forEach(v => categorized += v);
+        if (markers.length > categorized) { counts.set('', (counts.get('') || 0) + markers.length - categorized); }
+
+        const categories: Map<string, number> = new Map<string, number>();
+        Array.from(counts.keys()).sort().forEach(k => categories.set(k, counts.get(k)));
+        const r: number = Math.log(Math.max(markers.length, 1)) / Math.log(10) * 5 + baseMarkerSize;
+        const d: number = r * 2;
+        const key: Array<string> = new Array<string>();
+        categories.forEach((v, k) => key.push(`${k}=${v}=${colors && colors.has(k) ? colors.get(k) : ''}`));
+
+        info.markerType = MarkerTypeId.PieChartMarker;
+        info.id = `pie|${d}|${innerRadiusRatio || 0}|${key.join('|')}`;
+        info.size = { width: d, height: d };
+        info.categories = categories;
+        info.categoryColors = colors;
+        info.innerRadiusRatio = innerRadiusRatio;
+        info.color = 'rgba(0, 0, 0, 0.5)';
+        info.markerOffsetRatio = { x: 0.5, y: 0.5 };
+        info.textOffset = { x: 0, y: r - 8 };
+        return <string>Marker.CreateMarker(info);
+    }
+
     ///
     /// Constructor
     ///
@@ -308,6 +505,16 @@ export class ClusterLayerDirective extends MapLayerDirective implements OnInit,
                 new Error('You cannot change the ClusterClickAction after the layer has been added to the layerservice.')
             );
         }
+        if (changes['UseClusterEngine']) {
+            throw (
+                new Error('You cannot change UseClusterEngine after the layer has been added to the layerservice.')
+            );
+        }
+        if (changes['Aggregations'] || changes['AggregateText']) {
+            throw (
+                new Error('You cannot change Aggregations or AggregateText after the layer has been added to the layerservice.')
+            );
+        }
 
         const options: IClusterOptions = { id: this._id };
         if (changes['ClusteringEnabled']) { options.clusteringEnabled = this._clusteringEnabled; }
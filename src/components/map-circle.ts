@@ -0,0 +1,425 @@
+import {
+    Directive, Input, Output, OnDestroy, OnChanges, EventEmitter,
+    ContentChild, AfterContentInit, SimpleChanges, NgZone
+} from '@angular/core';
+import { ICircleOptions } from '../interfaces/icircle-options';
+import { ICircleEvent } from '../interfaces/icircle-event';
+import { MapService } from '../services/map.service';
+import { Circle } from '../models/circle';
+import { InfoBoxComponent } from './infobox';
+
+/**
+ * internal counter to use as ids for circles.
+ */
+let circleId = 1000000;
+
+/**
+ *
+ * MapCircleDirective renders a circle with a radius in meters inside a {@link MapComponent}.
+ *
+ * ### Example
+ * ```typescript
+ * import {Component} from '@angular/core';
+ * import {MapComponent, MapCircleDirective} from '...';
+ *
+ * @Component({
+ *  selector: 'my-map,
+ *  styles: [`
+ *   .map-container { height: 300px; }
+ * `],
+ * template: `
+ *   <x-map [Latitude]="lat" [Longitude]="lng" [Zoom]="zoom">
+ *      <x-map-circle [Latitude]="lat" [Longitude]="lng" [Radius]="5000" [Editable]="true"
+ *          (RadiusChanged)="_radiusChanged($event)"></x-map-circle>
+ *   </x-map>
+ * `
+ * })
+ * ```
+ *
+ *
+ * @export
+ */
+@Directive({
+    selector: 'x-map-circle'
+})
+export class MapCircleDirective implements OnDestroy, OnChanges, AfterContentInit {
+
+    ///
+    /// Field declarations
+    ///
+    private _circlePromise: Promise<Circle>;
+    private _id: number;
+
+    ///
+    /// Any InfoBox that is a direct children of the circle
+    ///
+    @ContentChild(InfoBoxComponent) protected _infoBox: InfoBoxComponent;
+
+    /**
+     * Gets or sets whether this circle handles mouse events.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public Clickable = true;
+
+    /**
+     * If set to true, the user can drag this circle over the map.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public Draggable = false;
+
+    /**
+     * If set to true, the user can change the radius of the circle by dragging a handle on its edge.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public Editable = false;
+
+    /**
+     * The fill color of the circle.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public FillColor: string;
+
+    /**
+     * The fill opacity between 0.0 and 1.0
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public FillOpacity: number;
+
+    /**
+     * The latitude of the center of the circle.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public Latitude: number;
+
+    /**
+     * The longitude of the center of the circle.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public Longitude: number;
+
+    /**
+     * Arbitary metadata to assign to the circle. This is useful for events
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public Metadata: Map<string, any> = new Map<string, any>();
+
+    /**
+     * The radius of the circle in meters on the surface of the earth.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public Radius: number = 0;
+
+    /**
+     * The stroke color.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public StrokeColor: string;
+
+    /**
+     * The stroke opacity between 0.0 and 1.0
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public StrokeOpacity: number;
+
+    /**
+     * The stroke width in pixels.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public StrokeWeight: number;
+
+    /**
+     * Whether this circle is visible on the map. Defaults to true.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public Visible: boolean;
+
+    /**
+     * The zIndex compared to other polys.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Input() public zIndex: number;
+
+    ///
+    /// Delegate definitions
+    ///
+
+    /**
+     * This event is fired when the user moves the center of the circle. The event contains the new center.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() CenterChanged: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is fired when the DOM click event is fired on the circle.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() Click: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is fired when the DOM dblclick event is fired on the circle.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() DblClick: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is repeatedly fired while the user drags the circle.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() Drag: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is fired when the user stops dragging the circle.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() DragEnd: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is fired when the user starts dragging the circle.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() DragStart: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is fired when the DOM mousedown event is fired on the circle.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() MouseDown: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is fired when the DOM mousemove event is fired on the circle.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() MouseMove: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is fired on circle mouseout.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() MouseOut: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is fired on circle mouseover.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() MouseOver: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is fired whe the DOM mouseup event is fired on the circle
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() MouseUp: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is fired when the user changes the radius of the circle. The event contains the new radius.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() RadiusChanged: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    /**
+     * This event is fired when the circle is right-clicked on.
+     *
+     * @memberof MapCircleDirective
+     */
+    @Output() RightClick: EventEmitter<ICircleEvent> = new EventEmitter<ICircleEvent>();
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets a promise resolved with the underlying {@link Circle} once the circle has been created.
+     *
+     * @readonly
+     * @memberof MapCircleDirective
+     */
+    public get Circle(): Promise<Circle> { return this._circlePromise; }
+
+    /**
+     * Get the id of the circle.
+     *
+     * @readonly
+     * @memberof MapCircleDirective
+     */
+    public get Id(): number { return this._id; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MapCircleDirective.
+     * @param _mapService - Concreate implementation of a {@link MapService}.
+     * @param _zone - Concreate implementation of a {@link NgZone} service.
+     *
+     * @memberof MapCircleDirective
+     */
+    constructor(private _mapService: MapService, private _zone: NgZone) {
+        this._id = circleId++;
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Called after the content intialization of the directive is complete. Part of the ng Component life cycle.
+     *
+     * @memberof MapCircleDirective
+     */
+    ngAfterContentInit(): void {
+        this._zone.runOutsideAngular(() => {
+            this._circlePromise = this._mapService.CreateCircle({
+                id: this._id,
+                center: this.Latitude != null && this.Longitude != null ? { latitude: this.Latitude, longitude: this.Longitude } : null,
+                clickable: this.Clickable,
+                draggable: this.Draggable,
+                editable: this.Editable,
+                fillColor: this.FillColor,
+                fillOpacity: this.FillOpacity,
+                metadata: this.Metadata,
+                radius: this.Radius,
+                strokeColor: this.StrokeColor,
+                strokeOpacity: this.StrokeOpacity,
+                strokeWeight: this.StrokeWeight,
+                visible: this.Visible,
+                zIndex: this.zIndex
+            });
+            this._circlePromise.then(c => this.AddEventListeners(c));
+        });
+    }
+
+    /**
+     * Called when changes to the databoud properties occur. Part of the ng Component life cycle.
+     *
+     * @param changes - Changes that have occured.
+     *
+     * @memberof MapCircleDirective
+     */
+    ngOnChanges(changes: SimpleChanges): any {
+        if (!this._circlePromise) { return; }
+        const o: ICircleOptions = this.GenerateCircleChangeSet(changes);
+        this._circlePromise.then(c => {
+            if (changes['Latitude'] || changes['Longitude']) { c.SetCenter({ latitude: this.Latitude, longitude: this.Longitude }); }
+            if (changes['Radius']) { c.SetRadius(this.Radius); }
+            if (o != null) { c.SetOptions(o); }
+        });
+    }
+
+    /**
+     * Called when the circle is being destroyed. Part of the ng Component life cycle. Release resources.
+     *
+     * @memberof MapCircleDirective
+     */
+    ngOnDestroy() {
+        if (this._circlePromise) { this._circlePromise.then(c => c.Delete()); }
+    }
+
+    /**
+     * Obtains a string representation of the circle Id.
+     * @returns - string representation of the circle id.
+     * @memberof MapCircleDirective
+     */
+    public toString(): string { return 'MapCircle-' + this._id.toString(); }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Wires up the event receivers.
+     *
+     * @param circle - The circle to listen to.
+     *
+     * @memberof MapCircleDirective
+     */
+    private AddEventListeners(circle: Circle) {
+        const _getEventArg: (e: MouseEvent) => ICircleEvent = e => {
+            return {
+                Circle: this,
+                Click: e,
+                Center: circle.GetCenter(),
+                Radius: circle.GetRadius()
+            };
+        };
+        const handlers = [
+            { name: 'centerchanged', emitter: this.CenterChanged },
+            { name: 'click', emitter: this.Click },
+            { name: 'dblclick', emitter: this.DblClick },
+            { name: 'drag', emitter: this.Drag },
+            { name: 'dragend', emitter: this.DragEnd },
+            { name: 'dragstart', emitter: this.DragStart },
+            { name: 'mousedown', emitter: this.MouseDown },
+            { name: 'mousemove', emitter: this.MouseMove },
+            { name: 'mouseout', emitter: this.MouseOut },
+            { name: 'mouseover', emitter: this.MouseOver },
+            { name: 'mouseup', emitter: this.MouseUp },
+            { name: 'radiuschanged', emitter: this.RadiusChanged },
+            { name: 'rightclick', emitter: this.RightClick }
+        ];
+        handlers.forEach(obj => circle.AddListener(obj.name, (ev: MouseEvent) => {
+            this._zone.run(() => {
+                if (obj.name === 'click' && this._infoBox != null) {
+                    this._infoBox.Open(this._mapService.GetCoordinatesFromClick(ev));
+                }
+                obj.emitter.emit(_getEventArg(ev));
+            });
+        }));
+    }
+
+    /**
+     * Generates ICircleOptions change set from directive settings.
+     *
+     * @param changes - {@link SimpleChanges} identifying the changes that occured.
+     * @returns - {@link ICircleOptions} containing the circle options, or null if no options changed.
+     *
+     * @memberof MapCircleDirective
+     */
+    private GenerateCircleChangeSet(changes: SimpleChanges): ICircleOptions {
+        const options: ICircleOptions = { id: this._id };
+        let hasOptions: boolean = false;
+        if (changes['Clickable']) { options.clickable = this.Clickable; hasOptions = true; }
+        if (changes['Draggable']) { options.draggable = this.Draggable; hasOptions = true; }
+        if (changes['Editable']) { options.editable = this.Editable; hasOptions = true; }
+        if (changes['FillColor'] || changes['FillOpacity']) {
+            options.fillColor = this.FillColor;
+            options.fillOpacity = this.FillOpacity;
+            hasOptions = true;
+        }
+        if (changes['StrokeColor'] || changes['StrokeOpacity']) {
+            options.strokeColor = this.StrokeColor;
+            options.strokeOpacity = this.StrokeOpacity;
+            hasOptions = true;
+        }
+        if (changes['StrokeWeight']) { options.strokeWeight = this.StrokeWeight; hasOptions = true; }
+        if (changes['Visible']) { options.visible = this.Visible; hasOptions = true; }
+        if (changes['zIndex']) { options.zIndex = this.zIndex; hasOptions = true; }
+        return hasOptions ? options : null;
+    }
+
+}
@@ -0,0 +1,449 @@
+import {
+    Directive, Input, Output, OnDestroy, OnChanges, EventEmitter,
+    AfterContentInit, SimpleChanges, NgZone
+} from '@angular/core';
+import { Subscription } from 'rxjs';
+import { ILatLong } from '../interfaces/ilatlong';
+import { IPolygonOptions } from '../interfaces/ipolygon-options';
+import { IDrawingCompleteEvent } from '../interfaces/idrawing-complete-event';
+import { MapService } from '../services/map.service';
+import { DrawingMode } from '../models/drawing-mode';
+import { Circle } from '../models/circle';
+import { Polygon } from '../models/polygon';
+import { Polyline } from '../models/polyline';
+
+/**
+ * internal counter to use as ids for drawn shapes.
+ */
+let shapeId = 1000000;
+
+/**
+ * MapDrawingToolsDirective puts a {@link MapComponent} into a drawing mode in which the user sketches markers,
+ * polylines, polygons, rectangles or circles. While a shape is being drawn, a rubber-band preview follows the mouse.
+ *
+ * - Marker: click to place the marker.
+ * - Polyline and Polygon: click to add vertices, double-click or press Enter to finish.
+ * - Rectangle: click the first corner, then click the opposite corner.
+ * - Circle: click the center, then click to set the radius.
+ *
+ * Double click zoom is disabled while a drawing mode is active. Bing Maps cannot disable double click zoom alone, so
+ * zooming is disabled altogether there.
+ *
+ * Escape cancels the shape in progress. The finished geometry is emitted as {@link IMarkerOptions},
+ * {@link IPolylineOptions} or {@link IPolygonOptions}; rectangles and circles are emitted as polygons, circles
+ * with their center and radius (in meters) in the metadata. The directive does not add the shapes to the map.
+ *
+ * ### Example
+ * ```typescript
+ * import {Component} from '@angular/core';
+ * import {MapComponent, DrawingMode} from '...';
+ *
+ * @Component({
+ *  selector: 'my-map-cmp',
+ *  styles: [`
+ *   .map-container {
+ *     height: 300px;
+ *   }
+ * `],
+ * template: `
+ *   <x-map [Latitude]="lat" [Longitude]="lng" [Zoom]="zoom">
+ *      <x-map-drawing-tools [Mode]="_mode" (DrawingComplete)="_drawn($event)"></x-map-drawing-tools>
+ *      <x-map-polygon *ngFor="let p of _polygons" [Paths]="p.paths"></x-map-polygon>
+ *   </x-map>
+ * `
+ * })
+ * ```
+ *
+ * @export
+ */
+@Directive({
+    selector: 'x-map-drawing-tools'
+})
+export class MapDrawingToolsDirective implements OnDestroy, OnChanges, AfterContentInit {
+
+    ///
+    /// Field declarations
+    ///
+    private _events: Array<Subscription> = new Array<Subscription>();
+    private _keyHandler: (e: KeyboardEvent) => void;
+    private _preview: Promise<Polygon | Polyline | Circle> = null;
+    private _vertices: Array<ILatLong> = new Array<ILatLong>();
+
+    /**
+     * The fill color of drawn polygons, rectangles and circles.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    @Input() public FillColor: string = '#0078d7';
+
+    /**
+     * The fill opacity between 0.0 and 1.0
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    @Input() public FillOpacity: number = 0.3;
+
+    /**
+     * The icon of drawn markers. Leave empty to use the default marker.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    @Input() public MarkerIconUrl: string;
+
+    /**
+     * The current drawing mode. Set to {@link DrawingMode.None} to stop drawing.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    @Input() public Mode: DrawingMode = DrawingMode.None;
+
+    /**
+     * The stroke color.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    @Input() public StrokeColor: string = '#0078d7';
+
+    /**
+     * The stroke opacity between 0.0 and 1.0
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    @Input() public StrokeOpacity: number = 1;
+
+    /**
+     * The stroke width in pixels.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    @Input() public StrokeWeight: number = 2;
+
+    ///
+    /// Delegates
+    ///
+
+    /**
+     * This event is fired when the user cancels a shape in progress.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    @Output() public DrawingCancel: EventEmitter<DrawingMode> = new EventEmitter<DrawingMode>();
+
+    /**
+     * This event is fired when the user finishes a shape. The event contains the options describing the shape.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    @Output() public DrawingComplete: EventEmitter<IDrawingCompleteEvent> = new EventEmitter<IDrawingCompleteEvent>();
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets whether a shape is currently being drawn.
+     *
+     * @readonly
+     * @memberof MapDrawingToolsDirective
+     */
+    public get IsDrawing(): boolean { return this._vertices.length > 0; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MapDrawingToolsDirective.
+     * @param _mapService - Concreate implementation of a {@link MapService}.
+     * @param _zone - Concreate implementation of a {@link NgZone} service.
+     * @memberof MapDrawingToolsDirective
+     */
+    constructor(private _mapService: MapService, private _zone: NgZone) { }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Cancels the shape in progress.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    public Cancel(): void {
+        if (!this.IsDrawing) { return; }
+        this.Reset();
+        this.DrawingCancel.emit(this.Mode);
+    }
+
+    /**
+     * Finishes the polyline or polygon in progress, provided it has enough vertices.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    public Finish(): void {
+        const v: Array<ILatLong> = this._vertices.slice();
+        if (this.Mode === DrawingMode.Polyline && v.length >= 2) {
+            this.Complete({
+                Mode: this.Mode,
+                Polyline: {
+                    id: shapeId++,
+                    path: v,
+                    strokeColor: this.StrokeColor,
+                    strokeOpacity: this.StrokeOpacity,
+                    strokeWeight: this.StrokeWeight
+                }
+            });
+        }
+        else if (this.Mode === DrawingMode.Polygon && v.length >= 3) {
+            this.Complete({ Mode: this.Mode, Polygon: this.GetPolygonOptions(v) });
+        }
+    }
+
+    /**
+     * Called after Component content initialization. Part of ng Component life cycle.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    public ngAfterContentInit() {
+        this._events.push(this._mapService.SubscribeToMapEvent<any>('click').subscribe(e => this.OnClick(e)));
+        this._events.push(this._mapService.SubscribeToMapEvent<any>('dblclick').subscribe(e => this.OnDblClick(e)));
+        this._events.push(this._mapService.SubscribeToMapEvent<any>('mousemove').subscribe(e => this.OnMouseMove(e)));
+        this._keyHandler = (e: KeyboardEvent) => {
+            if (this.Mode === DrawingMode.None || !this.IsDrawing) { return; }
+            if (e.key === 'Escape' || e.key === 'Esc') { this._zone.run(() => this.Cancel()); }
+            else if (e.key === 'Enter') { this._zone.run(() => this.Finish()); }
+        };
+        this._zone.runOutsideAngular(() => document.addEventListener('keydown', this._keyHandler));
+        if (this.Mode !== DrawingMode.None) { this._mapService.SetMapOptions({ disableDoubleClickZoom: true }); }
+    }
+
+    /**
+     * Reacts to changes in data-bound properties of the component. Changing the mode cancels the shape in progress.
+     *
+     * @param changes - collection of changes.
+     * @memberof MapDrawingToolsDirective
+     */
+    public ngOnChanges(changes: SimpleChanges) {
+        if (!changes['Mode'] || changes['Mode'].isFirstChange()) { return; }
+        this.Cancel();
+        this._mapService.SetMapOptions({ disableDoubleClickZoom: this.Mode !== DrawingMode.None });
+    }
+
+    /**
+     * Called on component destruction. Frees the resources used by the component. Part of the ng Component life cycle.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    public ngOnDestroy() {
+        this.Reset();
+        this._events.forEach(s => s.unsubscribe());
+        this._events.splice(0);
+        if (this._keyHandler) { document.removeEventListener('keydown', this._keyHandler); }
+        if (this.Mode !== DrawingMode.None) { this._mapService.SetMapOptions({ disableDoubleClickZoom: false }); }
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Emits a finished shape and clears the shape in progress.
+     *
+     * @param e - The event to emit.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    private Complete(e: IDrawingCompleteEvent): void {
+        this.Reset();
+        this.DrawingComplete.emit(e);
+    }
+
+    /**
+     * Gets the polygon options for a ring using the configured styles.
+     *
+     * @param path - The ring.
+     * @returns - The polygon options.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    private GetPolygonOptions(path: Array<ILatLong>): IPolygonOptions {
+        return {
+            id: shapeId++,
+            paths: path,
+            fillColor: this.FillColor,
+            fillOpacity: this.FillOpacity,
+            strokeColor: this.StrokeColor,
+            strokeOpacity: this.StrokeOpacity,
+            strokeWeight: this.StrokeWeight
+        };
+    }
+
+    /**
+     * Gets the ring of the rectangle spanned by two corners.
+     *
+     * @param a - The first corner.
+     * @param b - The opposite corner.
+     * @returns - The ring.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    private GetRectangle(a: ILatLong, b: ILatLong): Array<ILatLong> {
+        return [
+            { latitude: a.latitude, longitude: a.longitude },
+            { latitude: a.latitude, longitude: b.longitude },
+            { latitude: b.latitude, longitude: b.longitude },
+            { latitude: b.latitude, longitude: a.longitude }
+        ];
+    }
+
+    /**
+     * Handles map clicks: places markers, adds vertices and completes rectangles and circles.
+     *
+     * @param e - The native map event.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    private OnClick(e: any): void {
+        const loc: ILatLong = this._mapService.GetCoordinatesFromClick(e);
+        if (loc == null || this.Mode === DrawingMode.None) { return; }
+        const last: ILatLong = this._vertices.length > 0 ? this._vertices[this._vertices.length - 1] : null;
+        if (last && last.latitude === loc.latitude && last.longitude === loc.longitude) { return; }
+
+        switch (this.Mode) {
+            case DrawingMode.Marker:
+                this.Complete({
+                    Mode: this.Mode,
+                    Marker: { position: loc, icon: this.MarkerIconUrl }
+                });
+                break;
+            case DrawingMode.Rectangle:
+                if (this._vertices.length === 0) { this.StartShape(loc); }
+                else { this.Complete({ Mode: this.Mode, Polygon: this.GetPolygonOptions(this.GetRectangle(this._vertices[0], loc)) }); }
+                break;
+            case DrawingMode.Circle:
+                if (this._vertices.length === 0) { this.StartShape(loc); }
+                else {
+                    const c: ILatLong = this._vertices[0];
+                    const r: number = Circle.GetDistance(c, loc);
+                    const o: IPolygonOptions = this.GetPolygonOptions(Circle.GetGeodesicPath(c, r));
+                    o.metadata = new Map<string, any>([['center', c], ['radius', r]]);
+                    this.Complete({ Mode: this.Mode, Polygon: o });
+                }
+                break;
+            default:
+                if (this._vertices.length === 0) { this.StartShape(loc); }
+                else {
+                    this._vertices.push(loc);
+                    this.UpdatePreview(loc);
+                }
+        }
+    }
+
+    /**
+     * Handles map double clicks: finishes polylines and polygons. The clicks preceding the double click have
+     * already added the final vertex.
+     *
+     * @param e - The native map event.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    private OnDblClick(e: any): void {
+        if (this.Mode !== DrawingMode.Polyline && this.Mode !== DrawingMode.Polygon) { return; }
+        this.Finish();
+    }
+
+    /**
+     * Handles map mouse moves: updates the rubber-band preview.
+     *
+     * @param e - The native map event.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    private OnMouseMove(e: any): void {
+        if (!this.IsDrawing || this.Mode === DrawingMode.None) { return; }
+        const loc: ILatLong = this._mapService.GetCoordinatesFromClick(e);
+        if (loc != null) { this.UpdatePreview(loc); }
+    }
+
+    /**
+     * Clears the shape in progress and removes the preview.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    private Reset(): void {
+        this._vertices.splice(0);
+        if (this._preview) { this._preview.then(p => p.Delete()); }
+        this._preview = null;
+    }
+
+    /**
+     * Starts a new shape and creates its preview.
+     *
+     * @param loc - The first vertex, corner or center.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    private StartShape(loc: ILatLong): void {
+        this._vertices.push(loc);
+        this._zone.runOutsideAngular(() => {
+            if (this.Mode === DrawingMode.Polyline) {
+                this._preview = <Promise<Polyline>>this._mapService.CreatePolyline({
+                    id: shapeId++,
+                    clickable: false,
+                    path: [loc],
+                    strokeColor: this.StrokeColor,
+                    strokeOpacity: this.StrokeOpacity,
+                    strokeWeight: this.StrokeWeight
+                });
+            }
+            else if (this.Mode === DrawingMode.Circle) {
+                this._preview = this._mapService.CreateCircle({
+                    id: shapeId++,
+                    center: loc,
+                    clickable: false,
+                    fillColor: this.FillColor,
+                    fillOpacity: this.FillOpacity,
+                    radius: 0,
+                    strokeColor: this.StrokeColor,
+                    strokeOpacity: this.StrokeOpacity,
+                    strokeWeight: this.StrokeWeight
+                });
+            }
+            else {
+                const o: IPolygonOptions = this.GetPolygonOptions([loc]);
+                o.clickable = false;
+                this._preview = this._mapService.CreatePolygon(o);
+            }
+        });
+    }
+
+    /**
+     * Updates the preview geometry to follow the mouse.
+     *
+     * @param loc - The current mouse location.
+     *
+     * @memberof MapDrawingToolsDirective
+     */
+    private UpdatePreview(loc: ILatLong): void {
+        if (this._preview == null) { return; }
+        const v: Array<ILatLong> = this._vertices.slice();
+        const mode: DrawingMode = this.Mode;
+        this._preview.then(p => {
+            if (this._vertices.length === 0) { return; }
+            switch (mode) {
+                case DrawingMode.Polyline:
+                    (<Polyline>p).SetPath(v.concat([loc]));
+                    break;
+                case DrawingMode.Polygon:
+                    (<Polygon>p).SetPaths(v.concat([loc]));
+                    break;
+                case DrawingMode.Rectangle:
+                    (<Polygon>p).SetPaths(this.GetRectangle(v[0], loc));
+                    break;
+                case DrawingMode.Circle:
+                    (<Circle>p).SetRadius(Circle.GetDistance(v[0], loc));
+                    break;
+            }
+        });
+    }
+}
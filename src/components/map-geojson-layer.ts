@@ -0,0 +1,429 @@
+import {
+    Directive, SimpleChange, Input, Output, OnDestroy, OnChanges,
+    EventEmitter, AfterContentInit, NgZone
+} from '@angular/core';
+import { IPoint } from '../interfaces/ipoint';
+import { ILatLong } from '../interfaces/ilatlong';
+import { IMarkerOptions } from '../interfaces/imarker-options';
+import { IMarkerIconInfo } from '../interfaces/imarker-icon-info';
+import { IPolygonOptions } from '../interfaces/ipolygon-options';
+import { IPolylineOptions } from '../interfaces/ipolyline-options';
+import { IGeoJsonGeometry } from '../interfaces/igeojson-geometry';
+import { IGeoJsonFeature } from '../interfaces/igeojson-feature';
+import { IGeoJsonFeatureCollection } from '../interfaces/igeojson-feature-collection';
+import { IGeoJsonFeatureEvent } from '../interfaces/igeojson-feature-event';
+import { IGeoJsonStyle } from '../interfaces/igeojson-style';
+import { LayerService } from '../services/layer.service';
+import { MarkerService } from '../services/marker.service';
+import { PolygonService } from '../services/polygon.service';
+import { PolylineService } from '../services/polyline.service';
+import { Layer } from '../models/layer';
+import { Marker } from '../models/marker';
+import { Polygon } from '../models/polygon';
+import { Polyline } from '../models/polyline';
+
+/**
+ * internal counter to use as ids for geojson layers.
+ */
+let layerId = 1000000;
+
+/**
+ * MapGeoJsonLayerDirective renders a GeoJSON FeatureCollection on a {@link MapComponent}. Points and MultiPoints are rendered
+ * as markers, LineStrings and MultiLineStrings as polylines and Polygons (including holes) and MultiPolygons as polygons. Feature
+ * properties are copied into the Metadata of the generated entities.
+ *
+ * ### Example
+ * ```typescript
+ * import {Component} from '@angular/core';
+ * import {MapComponent} from '...';
+ *
+ * @Component({
+ *  selector: 'my-map-cmp',
+ *  styles: [`
+ *   .map-container {
+ *     height: 300px;
+ *   }
+ * `],
+ * template: `
+ *   <x-map [Latitude]="lat" [Longitude]="lng" [Zoom]="zoom">
+ *      <x-map-geojson-layer [FeatureCollection]="_features" (FeatureClick)="_click($event)"></x-map-geojson-layer>
+ *   </x-map>
+ * `
+ * })
+ * ```
+ *
+ * @export
+ */
+@Directive({
+    selector: 'x-map-geojson-layer'
+})
+export class MapGeoJsonLayerDirective implements OnDestroy, OnChanges, AfterContentInit {
+
+    ///
+    /// Field declarations
+    ///
+    private _id: number;
+    private _layerPromise: Promise<Layer>;
+    private _features: Map<Marker|Polygon|Polyline, IGeoJsonFeature> = new Map<Marker|Polygon|Polyline, IGeoJsonFeature>();
+
+    /**
+     * The GeoJSON FeatureCollection to render in the layer.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    @Input() public FeatureCollection: IGeoJsonFeatureCollection;
+
+    /**
+     * Information to generate custom markers for the Point and MultiPoint features of the layer.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    @Input() public IconInfo: IMarkerIconInfo;
+
+    /**
+     * Gets or sets An offset applied to the positioning of the layer.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    @Input() public LayerOffset: IPoint = null;
+
+    /**
+     * Callback invoked for each feature to obtain the style of the entities generated for the feature. Return null
+     * or undefined to use the provider defaults.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    @Input() public StyleCallback: (feature: IGeoJsonFeature) => IGeoJsonStyle;
+
+    /**
+     * Sets the visibility of the layer
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    @Input() public Visible: boolean;
+
+    /**
+     * Gets or sets the z-index of the layer. If not used, layers get stacked in the order created.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    @Input() public ZIndex: number = 0;
+
+    ///
+    /// Delegates
+    ///
+
+    /**
+     * This event emitter gets emitted when the user clicks an entity in the layer. The event carries the source feature.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    @Output() public FeatureClick: EventEmitter<IGeoJsonFeatureEvent> = new EventEmitter<IGeoJsonFeatureEvent>();
+
+    /**
+     * This event is fired when the mouse leaves an entity in the layer. The event carries the source feature.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    @Output() public FeatureMouseOut: EventEmitter<IGeoJsonFeatureEvent> = new EventEmitter<IGeoJsonFeatureEvent>();
+
+    /**
+     * This event is fired when the mouse hovers over an entity in the layer. The event carries the source feature.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    @Output() public FeatureMouseOver: EventEmitter<IGeoJsonFeatureEvent> = new EventEmitter<IGeoJsonFeatureEvent>();
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets the id of the geojson layer.
+     *
+     * @readonly
+     * @memberof MapGeoJsonLayerDirective
+     */
+    public get Id(): number { return this._id; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MapGeoJsonLayerDirective.
+     * @param _layerService - Concreate implementation of a {@link LayerService}.
+     * @param _markerService - Concreate implementation of a {@link MarkerService}.
+     * @param _polygonService - Concreate implementation of a {@link PolygonService}.
+     * @param _polylineService - Concreate implementation of a {@link PolylineService}.
+     * @param _zone - Concreate implementation of a {@link NgZone} service.
+     * @memberof MapGeoJsonLayerDirective
+     */
+    constructor(
+        private _layerService: LayerService,
+        private _markerService: MarkerService,
+        private _polygonService: PolygonService,
+        private _polylineService: PolylineService,
+        private _zone: NgZone) {
+        this._id = layerId++;
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Called after Component content initialization. Part of ng Component life cycle.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    public ngAfterContentInit() {
+        this._zone.runOutsideAngular(() => {
+            const fakeLayerDirective: any = {
+                Id : this._id,
+                Visible: this.Visible,
+                LayerOffset: this.LayerOffset,
+                ZIndex: this.ZIndex
+            };
+            this._layerService.AddLayer(fakeLayerDirective);
+            this._layerPromise = this._layerService.GetNativeLayer(fakeLayerDirective);
+            this._layerPromise.then(l => {
+                l.SetVisible(this.Visible);
+                if (this.FeatureCollection) {
+                    this._zone.runOutsideAngular(() => this.UpdateFeatures());
+                }
+            });
+        });
+    }
+
+    /**
+     * Called on component destruction. Frees the resources used by the component. Part of the ng Component life cycle.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    public ngOnDestroy() {
+        this._features.clear();
+        this._layerPromise.then(l => {
+            l.Delete();
+        });
+    }
+
+    /**
+     * Reacts to changes in data-bound properties of the component and actuates property changes in the underling layer model.
+     *
+     * @param changes - collection of changes.
+     * @memberof MapGeoJsonLayerDirective
+     */
+    public ngOnChanges(changes: { [key: string]: SimpleChange }) {
+        if ((changes['FeatureCollection'] && !changes['FeatureCollection'].firstChange) ||
+            (changes['StyleCallback'] && !changes['StyleCallback'].firstChange) ||
+            (changes['IconInfo'] && !changes['IconInfo'].firstChange)
+        ) {
+            this._zone.runOutsideAngular(() => {
+                this.UpdateFeatures();
+            });
+        }
+        if (changes['Visible'] && !changes['Visible'].firstChange) {
+            this._layerPromise.then(l => l.SetVisible(this.Visible));
+        }
+        if ((changes['ZIndex'] && !changes['ZIndex'].firstChange) ||
+            (changes['LayerOffset'] && !changes['LayerOffset'].firstChange)
+        ) {
+            throw (new Error('You cannot change ZIndex or LayerOffset after the layer has been created.'));
+        }
+    }
+
+    /**
+     * Obtains a string representation of the Layer Id.
+     * @returns - string representation of the layer id.
+     * @memberof MapGeoJsonLayerDirective
+     */
+    public toString(): string { return 'MapGeoJsonLayer-' + this._id.toString(); }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Adds the click and hover event listeners for an entity.
+     *
+     * @param e - the entity for which to add the events.
+     * @param getLocation - delegate translating the native event into geo coordinates.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    private AddEventListeners(e: Marker|Polygon|Polyline, getLocation: (ev: MouseEvent) => ILatLong): void {
+        const args = (ev: MouseEvent): IGeoJsonFeatureEvent => {
+            return {
+                Feature: this._features.get(e),
+                Entity: e,
+                Click: ev,
+                Location: getLocation(ev)
+            };
+        };
+        const handlers = [
+            { name: 'click', handler: (ev: MouseEvent) => this.FeatureClick.emit(args(ev)) },
+            { name: 'mouseout', handler: (ev: MouseEvent) => this.FeatureMouseOut.emit(args(ev)) },
+            { name: 'mouseover', handler: (ev: MouseEvent) => this.FeatureMouseOver.emit(args(ev)) }
+        ];
+        handlers.forEach((obj) => e.AddListener(obj.name, obj.handler));
+    }
+
+    /**
+     * Translates a GeoJSON position ([longitude, latitude]) into an {@link ILatLong}.
+     *
+     * @param position - The GeoJSON position.
+     * @returns - The geo coordinates.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    private ToLatLong(position: Array<number>): ILatLong {
+        return { latitude: position[1], longitude: position[0] };
+    }
+
+    /**
+     * Translates a GeoJSON linear ring into a path. The closing position of the ring is dropped as the providers
+     * close the polygon paths themselves.
+     *
+     * @param ring - The GeoJSON linear ring.
+     * @returns - The path.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    private ToPath(ring: Array<Array<number>>): Array<ILatLong> {
+        const path: Array<ILatLong> = ring.map(p => this.ToLatLong(p));
+        if (path.length > 1 &&
+            path[0].latitude === path[path.length - 1].latitude &&
+            path[0].longitude === path[path.length - 1].longitude) {
+            path.pop();
+        }
+        return path;
+    }
+
+    /**
+     * Translates a GeoJSON geometry into marker, polygon and polyline options. GeometryCollections are processed recursively.
+     *
+     * @param geometry - The geometry to translate.
+     * @param feature - The feature the geometry belongs to.
+     * @param style - The style for the feature.
+     * @param metadata - The metadata for the feature.
+     * @param target - The options collections to which to add the translated options.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     */
+    private TranslateGeometry(geometry: IGeoJsonGeometry, feature: IGeoJsonFeature, style: IGeoJsonStyle, metadata: Map<string, any>,
+        target: {
+            markers: Array<IMarkerOptions>, markerFeatures: Array<IGeoJsonFeature>,
+            polygons: Array<IPolygonOptions>, polygonFeatures: Array<IGeoJsonFeature>,
+            polylines: Array<IPolylineOptions>, polylineFeatures: Array<IGeoJsonFeature>
+        }): void {
+        if (geometry == null) { return; }
+        const addMarker = (position: Array<number>) => {
+            const o: IMarkerOptions = {
+                position: this.ToLatLong(position),
+                metadata: metadata
+            };
+            if (style.icon) { o.icon = style.icon; }
+            if (style.title) { o.title = style.title; }
+            if (style.visible != null) { o.visible = style.visible; }
+            target.markers.push(o);
+            target.markerFeatures.push(feature);
+        };
+        const addPolygon = (rings: Array<Array<Array<number>>>) => {
+            const o: IPolygonOptions = Object.assign(<IPolygonOptions>{}, style, {
+                id: target.polygons.length,
+                paths: rings.map(r => this.ToPath(r)),
+                metadata: metadata
+            });
+            delete (<any>o).icon;
+            target.polygons.push(o);
+            target.polygonFeatures.push(feature);
+        };
+        const addPolyline = (positions: Array<Array<number>>) => {
+            const o: IPolylineOptions = Object.assign(<IPolylineOptions>{}, style, {
+                id: target.polylines.length,
+                path: positions.map(p => this.ToLatLong(p)),
+                metadata: metadata
+            });
+            delete (<any>o).icon;
+            delete (<any>o).fillColor;
+            delete (<any>o).fillOpacity;
+            target.polylines.push(o);
+            target.polylineFeatures.push(feature);
+        };
+
+        switch (geometry.type) {
+            case 'Point': addMarker(geometry.coordinates); break;
+            case 'MultiPoint': geometry.coordinates.forEach(c => addMarker(c)); break;
+            case 'LineString': addPolyline(geometry.coordinates); break;
+            case 'MultiLineString': geometry.coordinates.forEach(c => addPolyline(c)); break;
+            case 'Polygon': addPolygon(geometry.coordinates); break;
+            case 'MultiPolygon': geometry.coordinates.forEach(c => addPolygon(c)); break;
+            case 'GeometryCollection':
+                (geometry.geometries || []).forEach(g => this.TranslateGeometry(g, feature, style, metadata, target));
+                break;
+            default:
+                throw (new Error(`GeoJSON geometry type ${(<any>geometry).type} is not supported.`));
+        }
+    }
+
+    /**
+     * Sets or updates the entities based on the feature collection. This will place the markers, polygons and polylines
+     * on the map and register the associated events.
+     *
+     * @memberof MapGeoJsonLayerDirective
+     * @method
+     */
+    private UpdateFeatures(): void {
+        if (this._layerPromise == null) {
+            return;
+        }
+        this._layerPromise.then(l => {
+            const target = {
+                markers: new Array<IMarkerOptions>(), markerFeatures: new Array<IGeoJsonFeature>(),
+                polygons: new Array<IPolygonOptions>(), polygonFeatures: new Array<IGeoJsonFeature>(),
+                polylines: new Array<IPolylineOptions>(), polylineFeatures: new Array<IGeoJsonFeature>()
+            };
+            const features: Array<IGeoJsonFeature> = (this.FeatureCollection && this.FeatureCollection.features) ?
+                this.FeatureCollection.features : [];
+            features.forEach(f => {
+                const style: IGeoJsonStyle = (this.StyleCallback ? this.StyleCallback(f) : null) || {};
+                const metadata: Map<string, any> = new Map<string, any>();
+                if (f.properties) {
+                    Object.keys(f.properties).forEach(k => metadata.set(k, f.properties[k]));
+                }
+                this.TranslateGeometry(f.geometry, f, style, metadata, target);
+            });
+
+            // generate the promises for the entities
+            const id: number = l.GetOptions().id;
+            Promise.all([
+                target.markers.length > 0 ? this._layerService.CreateMarkers(target.markers, this.IconInfo) : Promise.resolve([]),
+                target.polygons.length > 0 ? this._layerService.CreatePolygons(id, target.polygons) : Promise.resolve([]),
+                target.polylines.length > 0 ? this._layerService.CreatePolylines(id, target.polylines) : Promise.resolve([])
+            ]).then(values => {
+                const entities: Array<Marker|Polygon|Polyline> = new Array<Marker|Polygon|Polyline>();
+                this._features.clear();
+                (<Array<Marker>>values[0]).forEach((m, i) => {
+                    this._features.set(m, target.markerFeatures[i]);
+                    this.AddEventListeners(m, ev => this._markerService.GetCoordinatesFromClick(ev));
+                    entities.push(m);
+                });
+                (<Array<Polygon>>values[1]).forEach((p, i) => {
+                    this._features.set(p, target.polygonFeatures[i]);
+                    this.AddEventListeners(p, ev => this._polygonService.GetCoordinatesFromClick(ev));
+                    entities.push(p);
+                });
+                (<Array<Polyline|Array<Polyline>>>values[2]).forEach((p, i) => {
+                    (Array.isArray(p) ? p : [p]).forEach(line => {
+                        this._features.set(line, target.polylineFeatures[i]);
+                        this.AddEventListeners(line, ev => this._polylineService.GetCoordinatesFromClick(ev));
+                        entities.push(line);
+                    });
+                });
+                l.SetEntities(<Array<Marker>>entities);
+            });
+        });
+    }
+
+}
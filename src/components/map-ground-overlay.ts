@@ -0,0 +1,194 @@
+import {
+    Directive, SimpleChange, Input, Output, OnDestroy, OnChanges,
+    EventEmitter, AfterContentInit, NgZone
+} from '@angular/core';
+import { IBox } from '../interfaces/ibox';
+import { ILatLong } from '../interfaces/ilatlong';
+import { IGroundOverlayEvent } from '../interfaces/iground-overlay-event';
+import { MapService } from '../services/map.service';
+import { GroundOverlay } from '../models/ground-overlay';
+
+/**
+ * internal counter to use as ids for ground overlays.
+ */
+let overlayId = 1000000;
+
+/**
+ * MapGroundOverlayDirective drapes an image, such as a scanned site plan or a radar image, over a geographic bounding box
+ * on a {@link MapComponent}.
+ *
+ * ### Example
+ * ```typescript
+ * import {Component} from '@angular/core';
+ * import {MapComponent} from '...';
+ *
+ * @Component({
+ *  selector: 'my-map-cmp',
+ *  styles: [`
+ *   .map-container {
+ *     height: 300px;
+ *   }
+ * `],
+ * template: `
+ *   <x-map [Latitude]="lat" [Longitude]="lng" [Zoom]="zoom">
+ *      <x-map-ground-overlay [ImageUrl]="'plan.png'" [Bounds]="_bounds" [Opacity]="0.8" (Click)="_click($event)">
+ *      </x-map-ground-overlay>
+ *   </x-map>
+ * `
+ * })
+ * ```
+ *
+ * @export
+ */
+@Directive({
+    selector: 'x-map-ground-overlay'
+})
+export class MapGroundOverlayDirective implements OnDestroy, OnChanges, AfterContentInit {
+
+    ///
+    /// Field declarations
+    ///
+    private _id: number;
+    private _overlayPromise: Promise<GroundOverlay>;
+
+    /**
+     * The geographic bounds the image is stretched over.
+     *
+     * @memberof MapGroundOverlayDirective
+     */
+    @Input() public Bounds: IBox;
+
+    /**
+     * The url of the image.
+     *
+     * @memberof MapGroundOverlayDirective
+     */
+    @Input() public ImageUrl: string;
+
+    /**
+     * The opacity of the image, between 0 and 1.
+     *
+     * @memberof MapGroundOverlayDirective
+     */
+    @Input() public Opacity: number = 1;
+
+    /**
+     * The clockwise rotation of the image around the center of its bounds in degrees.
+     *
+     * @memberof MapGroundOverlayDirective
+     */
+    @Input() public Rotation: number = 0;
+
+    /**
+     * Sets the visibility of the overlay.
+     *
+     * @memberof MapGroundOverlayDirective
+     */
+    @Input() public Visible: boolean = true;
+
+    ///
+    /// Delegates
+    ///
+
+    /**
+     * This event emitter gets emitted when the user clicks the image. The event contains the clicked location.
+     *
+     * @memberof MapGroundOverlayDirective
+     */
+    @Output() public Click: EventEmitter<IGroundOverlayEvent> = new EventEmitter<IGroundOverlayEvent>();
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets the id of the overlay.
+     *
+     * @readonly
+     * @memberof MapGroundOverlayDirective
+     */
+    public get Id(): number { return this._id; }
+
+    /**
+     * Gets a promise resolved with the underlying {@link GroundOverlay} once the overlay has been created.
+     *
+     * @readonly
+     * @memberof MapGroundOverlayDirective
+     */
+    public get GroundOverlay(): Promise<GroundOverlay> { return this._overlayPromise; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MapGroundOverlayDirective.
+     * @param _mapService - Concreate implementation of a {@link MapService}.
+     * @param _zone - Concreate implementation of a {@link NgZone} service.
+     * @memberof MapGroundOverlayDirective
+     */
+    constructor(
+        private _mapService: MapService,
+        private _zone: NgZone) {
+        this._id = overlayId++;
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Called after Component content initialization. Part of ng Component life cycle.
+     *
+     * @memberof MapGroundOverlayDirective
+     */
+    public ngAfterContentInit() {
+        if (!this.ImageUrl || !this.Bounds) { throw (new Error('ImageUrl and Bounds are required for the ground overlay.')); }
+        this._zone.runOutsideAngular(() => {
+            this._overlayPromise = this._mapService.CreateGroundOverlay({
+                id: this._id,
+                bounds: this.Bounds,
+                imageUrl: this.ImageUrl,
+                opacity: this.Opacity,
+                rotation: this.Rotation,
+                visible: this.Visible
+            });
+            this._overlayPromise.then(o => o.AddListener('click', (loc: ILatLong, e: MouseEvent) => {
+                this._zone.run(() => this.Click.emit({ GroundOverlay: o, Click: e, Location: loc }));
+            }));
+        });
+    }
+
+    /**
+     * Called on component destruction. Frees the resources used by the component. Part of the ng Component life cycle.
+     *
+     * @memberof MapGroundOverlayDirective
+     */
+    public ngOnDestroy() {
+        if (this._overlayPromise) { this._overlayPromise.then(o => o.Delete()); }
+    }
+
+    /**
+     * Reacts to changes in data-bound properties of the component and actuates property changes in the underling overlay model.
+     *
+     * @param changes - collection of changes.
+     * @memberof MapGroundOverlayDirective
+     */
+    public ngOnChanges(changes: { [key: string]: SimpleChange }) {
+        if (!this._overlayPromise) { return; }
+        this._overlayPromise.then(o => {
+            if (changes['Bounds']) { o.SetBounds(this.Bounds); }
+            if (changes['ImageUrl']) { o.SetImageUrl(this.ImageUrl); }
+            if (changes['Opacity']) { o.SetOpacity(this.Opacity); }
+            if (changes['Rotation']) { o.SetRotation(this.Rotation); }
+            if (changes['Visible']) { o.SetVisible(this.Visible); }
+        });
+    }
+
+    /**
+     * Obtains a string representation of the overlay Id.
+     * @returns - string representation of the overlay id.
+     * @memberof MapGroundOverlayDirective
+     */
+    public toString(): string { return 'MapGroundOverlay-' + this._id.toString(); }
+}
@@ -0,0 +1,311 @@
+import { Directive, SimpleChange, Input, OnDestroy, OnChanges, AfterContentInit, NgZone } from '@angular/core';
+import { IPoint } from '../interfaces/ipoint';
+import { ISize } from '../interfaces/isize';
+import { ILatLong } from '../interfaces/ilatlong';
+import { IHeatmapPoint } from '../interfaces/iheatmap-point';
+import { IHeatmapGradientStop } from '../interfaces/iheatmap-gradient-stop';
+import { MapService } from '../services/map.service';
+import { CanvasOverlay } from '../models/canvas-overlay';
+import { MapProjection } from '../models/map-projection';
+import { HeatmapRadiusUnit } from '../models/heatmap-radius-unit';
+
+/**
+ * internal counter to use as ids for heatmap layers.
+ */
+let layerId = 1000000;
+
+/**
+ * MapHeatmapLayerDirective renders a kernel density heatmap of weighted locations on a {@link MapComponent}. The heatmap is
+ * drawn on a canvas overlay and redrawn whenever the map view changes.
+ *
+ * ### Example
+ * ```typescript
+ * import {Component} from '@angular/core';
+ * import {MapComponent} from '...';
+ *
+ * @Component({
+ *  selector: 'my-map-cmp',
+ *  styles: [`
+ *   .map-container {
+ *     height: 300px;
+ *   }
+ * `],
+ * template: `
+ *   <x-map [Latitude]="lat" [Longitude]="lng" [Zoom]="zoom">
+ *      <x-map-heatmap-layer [Points]="_points" [Radius]="25"></x-map-heatmap-layer>
+ *   </x-map>
+ * `
+ * })
+ * ```
+ *
+ * @export
+ */
+@Directive({
+    selector: 'x-map-heatmap-layer'
+})
+export class MapHeatmapLayerDirective implements OnDestroy, OnChanges, AfterContentInit {
+
+    ///
+    /// Field declarations
+    ///
+    private _id: number;
+    private _canvas: CanvasOverlay;
+    private _palette: Uint8ClampedArray;
+    private _defaultGradient: Array<IHeatmapGradientStop> = [
+        { offset: 0.25, color: 'rgb(0, 0, 255)' },
+        { offset: 0.55, color: 'rgb(0, 255, 0)' },
+        { offset: 0.85, color: 'rgb(255, 255, 0)' },
+        { offset: 1, color: 'rgb(255, 0, 0)' }
+    ];
+
+    /**
+     * The gradient stops used to colorize the normalized intensity. Defaults to a blue, green, yellow, red ramp.
+     *
+     * @memberof MapHeatmapLayerDirective
+     */
+    @Input() public Gradient: Array<IHeatmapGradientStop>;
+
+    /**
+     * The intensity at which the heatmap reaches the last gradient stop. If not set (or 0), the largest point weight is used.
+     *
+     * @memberof MapHeatmapLayerDirective
+     */
+    @Input() public MaxIntensity: number = 0;
+
+    /**
+     * The opacity of the heatmap, between 0 and 1.
+     *
+     * @memberof MapHeatmapLayerDirective
+     */
+    @Input() public Opacity: number = 0.6;
+
+    /**
+     * The weighted locations to render.
+     *
+     * @memberof MapHeatmapLayerDirective
+     */
+    @Input() public Points: Array<IHeatmapPoint> = new Array<IHeatmapPoint>();
+
+    /**
+     * The radius of influence of each point. Interpreted according to {@link RadiusUnit}.
+     *
+     * @memberof MapHeatmapLayerDirective
+     */
+    @Input() public Radius: number = 20;
+
+    /**
+     * The unit of the {@link Radius}. Meter radii are converted to pixels for the current zoom and map center.
+     *
+     * @memberof MapHeatmapLayerDirective
+     */
+    @Input() public RadiusUnit: HeatmapRadiusUnit = HeatmapRadiusUnit.Pixels;
+
+    /**
+     * The zoom level at which a pixel {@link Radius} is drawn unscaled. Ignored unless ScaleRadiusWithZoom is true.
+     *
+     * @memberof MapHeatmapLayerDirective
+     */
+    @Input() public ReferenceZoom: number = 10;
+
+    /**
+     * Whether to scale a pixel {@link Radius} with the zoom level, doubling it with each zoom level above the
+     * ReferenceZoom and halving it with each level below. Ignored for meter radii, which always scale with the map.
+     *
+     * @memberof MapHeatmapLayerDirective
+     */
+    @Input() public ScaleRadiusWithZoom: boolean = false;
+
+    /**
+     * Sets the visibility of the heatmap.
+     *
+     * @memberof MapHeatmapLayerDirective
+     */
+    @Input() public Visible: boolean = true;
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets the id of the heatmap layer.
+     *
+     * @readonly
+     * @memberof MapHeatmapLayerDirective
+     */
+    public get Id(): number { return this._id; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MapHeatmapLayerDirective.
+     * @param _mapService - Concreate implementation of a {@link MapService}.
+     * @param _zone - Concreate implementation of a {@link NgZone} service.
+     * @memberof MapHeatmapLayerDirective
+     */
+    constructor(
+        private _mapService: MapService,
+        private _zone: NgZone) {
+        this._id = layerId++;
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Called after Component content initialization. Part of ng Component life cycle.
+     *
+     * @memberof MapHeatmapLayerDirective
+     */
+    public ngAfterContentInit() {
+        this._zone.runOutsideAngular(() => {
+            this._mapService.CreateCanvasOverlay((el, projection) => this.DrawHeatmap(el, projection)).then(c => {
+                this._canvas = c;
+                this._canvas.Redraw(true);
+            });
+        });
+    }
+
+    /**
+     * Called on component destruction. Frees the resources used by the component. Part of the ng Component life cycle.
+     *
+     * @memberof MapHeatmapLayerDirective
+     */
+    public ngOnDestroy() {
+        if (this._canvas) { this._canvas.Delete(); }
+    }
+
+    /**
+     * Reacts to changes in data-bound properties of the component and actuates property changes in the underling layer model.
+     *
+     * @param changes - collection of changes.
+     * @memberof MapHeatmapLayerDirective
+     */
+    public ngOnChanges(changes: { [key: string]: SimpleChange }) {
+        if (changes['Gradient']) { this._palette = null; }
+        if (this._canvas) {
+            this._zone.runOutsideAngular(() => this._canvas.Redraw(true));
+        }
+    }
+
+    /**
+     * Obtains a string representation of the Layer Id.
+     * @returns - string representation of the layer id.
+     * @memberof MapHeatmapLayerDirective
+     */
+    public toString(): string { return 'MapHeatmapLayer-' + this._id.toString(); }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Colorizes the accumulated intensities on the canvas using the gradient palette.
+     *
+     * @param ctx - Canvas drawing context.
+     * @param size - The size of the area to colorize.
+     * @memberof MapHeatmapLayerDirective
+     */
+    private Colorize(ctx: CanvasRenderingContext2D, size: ISize): void {
+        if (size.width <= 0 || size.height <= 0) { return; }
+        const palette: Uint8ClampedArray = this.GetPalette();
+        const opacity: number = Math.max(0, Math.min(1, this.Opacity == null ? 1 : this.Opacity));
+        const image: ImageData = ctx.getImageData(0, 0, size.width, size.height);
+        const data: Uint8ClampedArray = image.data;
+        for (let i = 3, len = data.length; i < len; i += 4) {
+            const a: number = data[i];
+            if (a === 0) { continue; }
+            const o: number = a * 4;
+            data[i - 3] = palette[o];
+            data[i - 2] = palette[o + 1];
+            data[i - 1] = palette[o + 2];
+            data[i] = palette[o + 3] * opacity;
+        }
+        ctx.putImageData(image, 0, 0);
+    }
+
+    /**
+     * Draws the heatmap. Called by the Canvas overlay.
+     *
+     * @param el - The canvas on which to draw the heatmap.
+     * @param projection - The projection for the current map view.
+     * @memberof MapHeatmapLayerDirective
+     */
+    private DrawHeatmap(el: HTMLCanvasElement, projection: MapProjection): void {
+        if (!this.Visible || this.Points == null || this.Points.length === 0 || projection == null) { return; }
+        const points: Array<IHeatmapPoint> = this.Points;
+        const radius: number = this.GetPixelRadius(projection.Zoom, projection.Center);
+        if (radius <= 0) { return; }
+        const locs: Array<IPoint> = projection.ToPixel(points);
+        const size: ISize = { width: el.width, height: el.height };
+        const ctx: CanvasRenderingContext2D = el.getContext('2d');
+        let max: number = this.MaxIntensity;
+        if (!max || max <= 0) {
+            max = points.reduce((m, p) => Math.max(m, p.weight != null ? p.weight : 1), 0);
+        }
+        if (max <= 0) { return; }
+
+        ctx.save();
+        ctx.clearRect(0, 0, size.width, size.height);
+        ctx.globalCompositeOperation = 'source-over';
+        for (let i = 0, len = locs.length; i < len; i++) {
+            const loc: IPoint = locs[i];
+            // Don't draw the kernel if it does not touch the view.
+            if (loc.x < -radius || loc.y < -radius || loc.x > size.width + radius || loc.y > size.height + radius) { continue; }
+            const w: number = points[i].weight != null ? points[i].weight : 1;
+            if (w <= 0) { continue; }
+            const g: CanvasGradient = ctx.createRadialGradient(loc.x, loc.y, 0, loc.x, loc.y, radius);
+            g.addColorStop(0, 'rgba(0, 0, 0, 1)');
+            g.addColorStop(1, 'rgba(0, 0, 0, 0)');
+            ctx.globalAlpha = Math.min(1, w / max);
+            ctx.fillStyle = g;
+            ctx.fillRect(loc.x - radius, loc.y - radius, radius * 2, radius * 2);
+        }
+        ctx.restore();
+        this.Colorize(ctx, size);
+    }
+
+    /**
+     * Creates the 256 entry RGBA lookup table for the gradient.
+     *
+     * @returns - The palette.
+     * @memberof MapHeatmapLayerDirective
+     */
+    private GetPalette(): Uint8ClampedArray {
+        if (this._palette) { return this._palette; }
+        const stops: Array<IHeatmapGradientStop> = this.Gradient && this.Gradient.length > 0 ? this.Gradient : this._defaultGradient;
+        const c: HTMLCanvasElement = document.createElement('canvas');
+        c.width = 256;
+        c.height = 1;
+        const ctx: CanvasRenderingContext2D = c.getContext('2d');
+        const g: CanvasGradient = ctx.createLinearGradient(0, 0, 256, 0);
+        stops.forEach(s => g.addColorStop(Math.max(0, Math.min(1, s.offset)), s.color));
+        ctx.fillStyle = g;
+        ctx.fillRect(0, 0, 256, 1);
+        this._palette = ctx.getImageData(0, 0, 256, 1).data;
+        return this._palette;
+    }
+
+    /**
+     * Gets the kernel radius in pixels for the current view.
+     *
+     * @param zoom - The current zoom level.
+     * @param center - The current map center.
+     * @returns - The radius in pixels.
+     * @memberof MapHeatmapLayerDirective
+     */
+    private GetPixelRadius(zoom: number, center: ILatLong): number {
+        if (this.Radius == null || this.Radius <= 0) { return 0; }
+        if (this.RadiusUnit === HeatmapRadiusUnit.Meters) {
+            // Ground resolution (meters per pixel) of the web mercator projection at the center latitude.
+            const resolution: number = Math.cos(center.latitude * Math.PI / 180) * 2 * Math.PI * 6378137 / (256 * Math.pow(2, zoom));
+            return this.Radius / resolution;
+        }
+        if (this.ScaleRadiusWithZoom) {
+            return this.Radius * Math.pow(2, zoom - this.ReferenceZoom);
+        }
+        return this.Radius;
+    }
+}
@@ -0,0 +1,343 @@
+import {
+    Directive, SimpleChange, Input, Output, OnDestroy, OnChanges,
+    EventEmitter, AfterContentInit, NgZone
+} from '@angular/core';
+import { IPoint } from '../interfaces/ipoint';
+import { ILatLong } from '../interfaces/ilatlong';
+import { IMarkerIconInfo } from '../interfaces/imarker-icon-info';
+import { IKmlFeatureEvent } from '../interfaces/ikml-feature-event';
+import { IKmlParseResult } from '../interfaces/ikml-parse-result';
+import { LayerService } from '../services/layer.service';
+import { MarkerService } from '../services/marker.service';
+import { PolygonService } from '../services/polygon.service';
+import { PolylineService } from '../services/polyline.service';
+import { KmlParserService } from '../services/kml-parser.service';
+import { Layer } from '../models/layer';
+import { Marker } from '../models/marker';
+import { Polygon } from '../models/polygon';
+import { Polyline } from '../models/polyline';
+
+/**
+ * internal counter to use as ids for kml layers.
+ */
+let layerId = 1000000;
+
+/**
+ * MapKmlLayerDirective renders a KML or GPX document on a {@link MapComponent}. The document is parsed locally with the
+ * {@link KmlParserService}, either from a string or from a local file, for example one selected with a file input. The name,
+ * description and extended data of the source elements are available in the Metadata of the generated entities.
+ *
+ * ### Example
+ * ```typescript
+ * import {Component} from '@angular/core';
+ * import {MapComponent} from '...';
+ *
+ * @Component({
+ *  selector: 'my-map-cmp',
+ *  styles: [`
+ *   .map-container {
+ *     height: 300px;
+ *   }
+ * `],
+ * template: `
+ *   <input type="file" accept=".kml,.gpx" (change)="_file = $event.target.files[0]">
+ *   <x-map [Latitude]="lat" [Longitude]="lng" [Zoom]="zoom">
+ *      <x-map-kml-layer [File]="_file" (FeatureClick)="_click($event)"></x-map-kml-layer>
+ *   </x-map>
+ * `
+ * })
+ * ```
+ *
+ * @export
+ */
+@Directive({
+    selector: 'x-map-kml-layer'
+})
+export class MapKmlLayerDirective implements OnDestroy, OnChanges, AfterContentInit {
+
+    ///
+    /// Field declarations
+    ///
+    private _id: number;
+    private _layerPromise: Promise<Layer>;
+    private _version: number = 0;
+
+    /**
+     * The KML or GPX document to render.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    @Input() public Data: string;
+
+    /**
+     * A local KML or GPX file to render, for example a file selected with a file input. Takes precedence over {@link Data}.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    @Input() public File: Blob;
+
+    /**
+     * Information to generate custom markers for the points of the document. Overrides the icons defined in the document.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    @Input() public IconInfo: IMarkerIconInfo;
+
+    /**
+     * Gets or sets An offset applied to the positioning of the layer.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    @Input() public LayerOffset: IPoint = null;
+
+    /**
+     * Sets the visibility of the layer
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    @Input() public Visible: boolean;
+
+    /**
+     * Gets or sets the z-index of the layer. If not used, layers get stacked in the order created.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    @Input() public ZIndex: number = 0;
+
+    ///
+    /// Delegates
+    ///
+
+    /**
+     * This event emitter gets emitted when the user clicks an entity in the layer.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    @Output() public FeatureClick: EventEmitter<IKmlFeatureEvent> = new EventEmitter<IKmlFeatureEvent>();
+
+    /**
+     * This event is fired when the mouse leaves an entity in the layer.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    @Output() public FeatureMouseOut: EventEmitter<IKmlFeatureEvent> = new EventEmitter<IKmlFeatureEvent>();
+
+    /**
+     * This event is fired when the mouse hovers over an entity in the layer.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    @Output() public FeatureMouseOver: EventEmitter<IKmlFeatureEvent> = new EventEmitter<IKmlFeatureEvent>();
+
+    /**
+     * This event is fired when the document has been parsed and rendered. The event carries the parsed options.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    @Output() public Loaded: EventEmitter<IKmlParseResult> = new EventEmitter<IKmlParseResult>();
+
+    /**
+     * This event is fired when the document could not be read or parsed.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    @Output() public LoadError: EventEmitter<Error> = new EventEmitter<Error>();
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets the id of the kml layer.
+     *
+     * @readonly
+     * @memberof MapKmlLayerDirective
+     */
+    public get Id(): number { return this._id; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MapKmlLayerDirective.
+     * @param _layerService - Concreate implementation of a {@link LayerService}.
+     * @param _markerService - Concreate implementation of a {@link MarkerService}.
+     * @param _polygonService - Concreate implementation of a {@link PolygonService}.
+     * @param _polylineService - Concreate implementation of a {@link PolylineService}.
+     * @param _kmlParser - An instance of the {@link KmlParserService}.
+     * @param _zone - Concreate implementation of a {@link NgZone} service.
+     * @memberof MapKmlLayerDirective
+     */
+    constructor(
+        private _layerService: LayerService,
+        private _markerService: MarkerService,
+        private _polygonService: PolygonService,
+        private _polylineService: PolylineService,
+        private _kmlParser: KmlParserService,
+        private _zone: NgZone) {
+        this._id = layerId++;
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Called after Component content initialization. Part of ng Component life cycle.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    public ngAfterContentInit() {
+        this._zone.runOutsideAngular(() => {
+            const fakeLayerDirective: any = {
+                Id : this._id,
+                Visible: this.Visible,
+                LayerOffset: this.LayerOffset,
+                ZIndex: this.ZIndex
+            };
+            this._layerService.AddLayer(fakeLayerDirective);
+            this._layerPromise = this._layerService.GetNativeLayer(fakeLayerDirective);
+            this._layerPromise.then(l => {
+                l.SetVisible(this.Visible);
+                if (this.Data || this.File) {
+                    this._zone.runOutsideAngular(() => this.Load());
+                }
+            });
+        });
+    }
+
+    /**
+     * Called on component destruction. Frees the resources used by the component. Part of the ng Component life cycle.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    public ngOnDestroy() {
+        this._version++;
+        this._layerPromise.then(l => {
+            l.Delete();
+        });
+    }
+
+    /**
+     * Reacts to changes in data-bound properties of the component and actuates property changes in the underling layer model.
+     *
+     * @param changes - collection of changes.
+     * @memberof MapKmlLayerDirective
+     */
+    public ngOnChanges(changes: { [key: string]: SimpleChange }) {
+        if ((changes['Data'] && !changes['Data'].firstChange) ||
+            (changes['File'] && !changes['File'].firstChange) ||
+            (changes['IconInfo'] && !changes['IconInfo'].firstChange)
+        ) {
+            this._zone.runOutsideAngular(() => {
+                this.Load();
+            });
+        }
+        if (changes['Visible'] && !changes['Visible'].firstChange) {
+            this._layerPromise.then(l => l.SetVisible(this.Visible));
+        }
+        if ((changes['ZIndex'] && !changes['ZIndex'].firstChange) ||
+            (changes['LayerOffset'] && !changes['LayerOffset'].firstChange)
+        ) {
+            throw (new Error('You cannot change ZIndex or LayerOffset after the layer has been created.'));
+        }
+    }
+
+    /**
+     * Obtains a string representation of the Layer Id.
+     * @returns - string representation of the layer id.
+     * @memberof MapKmlLayerDirective
+     */
+    public toString(): string { return 'MapKmlLayer-' + this._id.toString(); }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Adds the click and hover event listeners for an entity.
+     *
+     * @param e - the entity for which to add the events.
+     * @param getLocation - delegate translating the native event into geo coordinates.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    private AddEventListeners(e: Marker|Polygon|Polyline, getLocation: (ev: MouseEvent) => ILatLong): void {
+        const args = (ev: MouseEvent): IKmlFeatureEvent => {
+            return {
+                Entity: e,
+                Metadata: e.Metadata,
+                Click: ev,
+                Location: getLocation(ev)
+            };
+        };
+        const handlers = [
+            { name: 'click', handler: (ev: MouseEvent) => this.FeatureClick.emit(args(ev)) },
+            { name: 'mouseout', handler: (ev: MouseEvent) => this.FeatureMouseOut.emit(args(ev)) },
+            { name: 'mouseover', handler: (ev: MouseEvent) => this.FeatureMouseOver.emit(args(ev)) }
+        ];
+        handlers.forEach((obj) => e.AddListener(obj.name, obj.handler));
+    }
+
+    /**
+     * Reads and parses the document and renders it once parsed. Results of superseded loads are discarded.
+     *
+     * @memberof MapKmlLayerDirective
+     * @method
+     */
+    private Load(): void {
+        if (this._layerPromise == null) {
+            return;
+        }
+        const version: number = ++this._version;
+        const result: Promise<IKmlParseResult> = this.File ?
+            this._kmlParser.ReadFile(this.File) :
+            new Promise<IKmlParseResult>(resolve => resolve(this.Data ?
+                this._kmlParser.Parse(this.Data) : { markers: [], polygons: [], polylines: [] }));
+        Promise.all([this._layerPromise, result]).then(values => {
+            if (version !== this._version) { return; }
+            return this.Render(values[0], values[1]).then(() => {
+                if (version === this._version) { this._zone.run(() => this.Loaded.emit(values[1])); }
+            });
+        }).catch((e: Error) => {
+            if (version === this._version) { this._zone.run(() => this.LoadError.emit(e)); }
+        });
+    }
+
+    /**
+     * Places the markers, polygons and polylines of a parsed document in the layer and registers the associated events.
+     *
+     * @param l - The layer.
+     * @param result - The parsed document.
+     * @returns - A promise fullfilled once the entities have been placed.
+     *
+     * @memberof MapKmlLayerDirective
+     */
+    private Render(l: Layer, result: IKmlParseResult): Promise<void> {
+        const id: number = l.GetOptions().id;
+        return Promise.all([
+            result.markers.length > 0 ? this._layerService.CreateMarkers(result.markers, this.IconInfo) : Promise.resolve([]),
+            result.polygons.length > 0 ? this._layerService.CreatePolygons(id, result.polygons) : Promise.resolve([]),
+            result.polylines.length > 0 ? this._layerService.CreatePolylines(id, result.polylines) : Promise.resolve([])
+        ]).then(values => {
+            const entities: Array<Marker|Polygon|Polyline> = new Array<Marker|Polygon|Polyline>();
+            (<Array<Marker>>values[0]).forEach(m => {
+                this.AddEventListeners(m, ev => this._markerService.GetCoordinatesFromClick(ev));
+                entities.push(m);
+            });
+            (<Array<Polygon>>values[1]).forEach(p => {
+                this.AddEventListeners(p, ev => this._polygonService.GetCoordinatesFromClick(ev));
+                entities.push(p);
+            });
+            (<Array<Polyline|Array<Polyline>>>values[2]).forEach(p => {
+                (Array.isArray(p) ? p : [p]).forEach(line => {
+                    this.AddEventListeners(line, ev => this._polylineService.GetCoordinatesFromClick(ev));
+                    entities.push(line);
+                });
+            });
+            l.SetEntities(<Array<Marker>>entities);
+        });
+    }
+
+}
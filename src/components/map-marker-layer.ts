@@ -10,6 +10,7 @@ import { ILayerOptions } from '../interfaces/ilayer-options';
 import { IMarkerIconInfo } from '../interfaces/imarker-icon-info';
 import { IClusterIconInfo } from '../interfaces/icluster-icon-info';
 import { IClusterOptions } from '../interfaces/icluster-options';
+import { IClusterAggregation } from '../interfaces/icluster-aggregation';
 import { MarkerService } from '../services/marker.service';
 import { LayerService } from '../services/layer.service';
 import { ClusterService } from '../services/cluster.service';
@@ -63,18 +64,36 @@ export class MapMarkerLayerDirective implements OnDestroy, OnChanges, AfterConte
     private _service: LayerService;
     private _styles: Array<IClusterIconInfo>;
     private _useDynamicSizeMarker = false;
+    private _usePieChartMarker = false;
     private _dynamicMarkerBaseSize = 18;
     private _dynamicMarkerRanges: Map<number, string> = new Map<number, string>([
         [10, 'rgba(20, 180, 20, 0.5)'],
         [100, 'rgba(255, 210, 40, 0.5)'],
         [Number.MAX_SAFE_INTEGER , 'rgba(255, 40, 40, 0.5)']
     ]);
-    private _iconCreationCallback: (m: Array<Marker>, i: IMarkerIconInfo) => string;
+    private _iconCreationCallback: (m: Array<Marker>, i: IMarkerIconInfo, a?: Map<string, any>) => string;
     private _streaming: boolean = false;
     private _markers: Array<IMarkerOptions> = new Array<IMarkerOptions>();
     private _markersLast: Array<IMarkerOptions> = new Array<IMarkerOptions>();
 
 
+    /**
+     * Gets or sets the name of the aggregate to display as the cluster text. Only applies if {@link EnableClustering} is true.
+     * See {@link ClusterLayerDirective.AggregateText}. This property can only be set on creation of the layer.
+     *
+     * @memberof MapMarkerLayerDirective
+     */
+    @Input() public AggregateText: string;
+
+    /**
+     * Gets or sets the aggregations computed over the Metadata of the markers in each cluster. Only applies if
+     * {@link EnableClustering} is true. See {@link ClusterLayerDirective.Aggregations}. This property can only be set on
+     * creation of the layer.
+     *
+     * @memberof MapMarkerLayerDirective
+     */
+    @Input() public Aggregations: Array<IClusterAggregation>;
+
     /**
      * Gets or sets the the Cluster Click Action {@link ClusterClickAction}.
      *
@@ -100,18 +119,28 @@ export class MapMarkerLayerDirective implements OnDestroy, OnChanges, AfterConte
     /**
      * Gets or sets the callback invoked to create a custom cluster marker. Note that when {@link UseDynamicSizeMarkers} is enabled,
      * you cannot set a custom marker callback.
+     * The callback receives the markers in the cluster, the icon info to hydrate and, if {@link Aggregations} are
+     * declared, the aggregates computed for the cluster.
      *
      * @memberof MapMarkerLayerDirective
      */
     @Input()
-        public get CustomMarkerCallback(): (m: Array<Marker>, i: IMarkerIconInfo) => string  { return this._iconCreationCallback; }
-        public set CustomMarkerCallback(val: (m: Array<Marker>, i: IMarkerIconInfo) => string) {
+        public get CustomMarkerCallback(): (m: Array<Marker>, i: IMarkerIconInfo, a?: Map<string, any>) => string  {
+            return this._iconCreationCallback;
+        }
+        public set CustomMarkerCallback(val: (m: Array<Marker>, i: IMarkerIconInfo, a?: Map<string, any>) => string) {
             if (this._useDynamicSizeMarker) {
                 throw(
                     new Error(`You cannot set a custom marker callback when UseDynamicSizeMarkers is set to true.
                     Set UseDynamicSizeMakers to false.`)
                 );
             }
+            if (this._usePieChartMarker) {
+                throw(
+                    new Error(`You cannot set a custom marker callback when UsePieChartMarkers is set to true.
+                    Set UsePieChartMarkers to false.`)
+                );
+            }
             this._iconCreationCallback = val;
         }
 
@@ -165,6 +194,22 @@ export class MapMarkerLayerDirective implements OnDestroy, OnChanges, AfterConte
      */
     @Input() public LayerOffset: IPoint = null;
 
+    /**
+     * Gets or sets the number of members per page in the member list shown for {@link ClusterClickAction.ListMembers}.
+     * Defaults to 10.
+     *
+     * @memberof MapMarkerLayerDirective
+     */
+    @Input() public MemberListPageSize: number = 10;
+
+    /**
+     * Gets or sets the function creating the html for an entry in the member list shown for
+     * {@link ClusterClickAction.ListMembers}. See {@link ClusterLayerDirective.MemberListTemplate}.
+     *
+     * @memberof MapMarkerLayerDirective
+     */
+    @Input() public MemberListTemplate: (m: Marker) => string;
+
     /**
      *  IMarkerOptions array holding the marker info.
      *
@@ -182,6 +227,29 @@ export class MapMarkerLayerDirective implements OnDestroy, OnChanges, AfterConte
             }
         }
 
+    /**
+     * Gets or sets the Metadata key by which the members of a cluster are grouped into the slices of pie chart markers.
+     * See {@link UsePieChartMarkers}.
+     *
+     * @memberof MapMarkerLayerDirective
+     */
+    @Input() public PieChartCategoryKey: string;
+
+    /**
+     * Gets or sets the slice colors of pie chart markers by category. See {@link UsePieChartMarkers}.
+     *
+     * @memberof MapMarkerLayerDirective
+     */
+    @Input() public PieChartColors: Map<string, string>;
+
+    /**
+     * Gets or sets the ratio of the inner to the outer radius of pie chart markers. 0 draws a pie, values between 0 and 1
+     * draw a donut. Defaults to 0.5. See {@link UsePieChartMarkers}.
+     *
+     * @memberof MapMarkerLayerDirective
+     */
+    @Input() public PieChartInnerRadiusRatio: number = 0.5;
+
     /**
      * Gets or sets the cluster styles
      *
@@ -201,6 +269,14 @@ export class MapMarkerLayerDirective implements OnDestroy, OnChanges, AfterConte
         public get TreatNewMarkerOptionsAsStream(): boolean { return this._streaming; }
         public set TreatNewMarkerOptionsAsStream(val: boolean) { this._streaming = val; }
 
+    /**
+     * Gets or sets whether to use the built-in {@link ClusterEngine} instead of the provider clustering. Only applies if
+     * {@link EnableClustering} is true. This property can only be set on creation of the layer.
+     *
+     * @memberof MapMarkerLayerDirective
+     */
+    @Input() public UseClusterEngine: boolean = false;
+
     /**
      * Gets or sets whether to use dynamic markers. Dynamic markers change in size and color depending on the number of
      * pins in the cluster. If set to true, this will take precendence over any custom marker creation.
@@ -210,11 +286,36 @@ export class MapMarkerLayerDirective implements OnDestroy, OnChanges, AfterConte
     @Input()
         public get UseDynamicSizeMarkers(): boolean { return this._useDynamicSizeMarker; }
         public set UseDynamicSizeMarkers(val: boolean) {
+            if (val && this._usePieChartMarker) {
+                throw(new Error('You cannot use dynamic size markers when UsePieChartMarkers is set to true.'));
+            }
             this._useDynamicSizeMarker = val;
             if (val) {
-                this._iconCreationCallback = (m: Array<Marker>, info: IMarkerIconInfo) => {
+                this._iconCreationCallback = (m: Array<Marker>, info: IMarkerIconInfo, a?: Map<string, any>) => {
                     return ClusterLayerDirective.CreateDynamicSizeMarker(
-                        m.length, info, this._dynamicMarkerBaseSize, this._dynamicMarkerRanges);
+                        m.length, info, this._dynamicMarkerBaseSize, this._dynamicMarkerRanges, a, this.AggregateText);
+                };
+            }
+        }
+
+    /**
+     * Gets or sets whether to use pie chart markers. Pie chart markers group the members of a cluster by the
+     * {@link PieChartCategoryKey} Metadata key and draw a slice per category, with the total in the center.
+     * If set to true, this will take precendence over any custom marker creation.
+     *
+     * @memberof MapMarkerLayerDirective
+     */
+    @Input()
+        public get UsePieChartMarkers(): boolean { return this._usePieChartMarker; }
+        public set UsePieChartMarkers(val: boolean) {
+            if (val && this._useDynamicSizeMarker) {
+                throw(new Error('You cannot use pie chart markers when UseDynamicSizeMarkers is set to true.'));
+            }
+            this._usePieChartMarker = val;
+            if (val) {
+                this._iconCreationCallback = (m: Array<Marker>, info: IMarkerIconInfo) => {
+                    return ClusterLayerDirective.CreatePieChartMarker(m, info, this._dynamicMarkerBaseSize,
+                        this.PieChartCategoryKey, this.PieChartColors, this.PieChartInnerRadiusRatio);
                 };
             }
         }
@@ -254,7 +355,8 @@ export class MapMarkerLayerDirective implements OnDestroy, OnChanges, AfterConte
     @Output() public DynamicMarkerCreated: EventEmitter<IMarkerIconInfo> = new EventEmitter<IMarkerIconInfo>();
 
     /**
-     * This event emitter gets emitted when the user clicks a marker in the layer.
+     * This event emitter gets emitted when the user clicks a marker in the layer or selects a marker in the
+     * member list shown for {@link ClusterClickAction.ListMembers}.
      *
      * @memberof MapMarkerLayerDirective
      */
@@ -348,6 +450,13 @@ export class MapMarkerLayerDirective implements OnDestroy, OnChanges, AfterConte
                 fakeLayerDirective.IconInfo = this.ClusterIconInfo;
                 fakeLayerDirective.CustomMarkerCallback = this.CustomMarkerCallback;
                 fakeLayerDirective.UseDynamicSizeMarkers = this.UseDynamicSizeMarkers;
+                fakeLayerDirective.UsePieChartMarkers = this.UsePieChartMarkers;
+                fakeLayerDirective.MemberListPageSize = this.MemberListPageSize;
+                fakeLayerDirective.MemberListTemplate = this.MemberListTemplate;
+                fakeLayerDirective.MarkerClick = this.MarkerClick;
+                fakeLayerDirective.UseClusterEngine = this.UseClusterEngine;
+                fakeLayerDirective.Aggregations = this.Aggregations;
+                fakeLayerDirective.AggregateText = this.AggregateText;
                 this._clusterService.AddLayer(fakeLayerDirective);
                 this._layerPromise = this._clusterService.GetNativeLayer(fakeLayerDirective);
                 this._service = this._clusterService;
@@ -404,6 +513,13 @@ export class MapMarkerLayerDirective implements OnDestroy, OnChanges, AfterConte
                 throw (new Error('You cannot change EnableClustering after the layer has been created.'));
             }
         }
+        if (changes['UseClusterEngine'] && !changes['UseClusterEngine'].firstChange) {
+            throw (new Error('You cannot change UseClusterEngine after the layer has been created.'));
+        }
+        if ((changes['Aggregations'] && !changes['Aggregations'].firstChange) ||
+            (changes['AggregateText'] && !changes['AggregateText'].firstChange)) {
+            throw (new Error('You cannot change Aggregations or AggregateText after the layer has been created.'));
+        }
         if (changes['ClusterPlacementMode'] && !changes['ClusterPlacementMode'].firstChange && 'StopClustering' in this._service) {
             o.placementMode = this.ClusterPlacementMode;
             shouldSetOptions = true;
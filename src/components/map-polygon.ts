@@ -8,6 +8,9 @@ import { IPoint } from '../interfaces/ipoint';
 import { IPolygonEvent } from '../interfaces/ipolygon-event';
 import { ILatLong } from '../interfaces/ilatlong';
 import { PolygonService } from '../services/polygon.service';
+import { Polygon } from '../models/polygon';
+import { PolylineEncoding } from '../models/polyline-encoding';
+import { WktConversions } from '../models/wkt-conversions';
 import { InfoBoxComponent } from './infobox';
 
 let polygonId = 0;
@@ -79,6 +82,21 @@ export class MapPolygonDirective implements OnDestroy, OnChanges, AfterContentIn
      */
     @Input() public Editable = false;
 
+    /**
+     * The paths of the polygon in the encoded polyline format, one encoded polyline per ring. When set, takes precedence
+     * over {@link Paths}.
+     *
+     * @memberof MapPolygonDirective
+     */
+    @Input() public EncodedPaths: string | Array<string>;
+
+    /**
+     * The number of decimals the {@link EncodedPaths} were encoded with, typically 5 or 6. Defaults to 5.
+     *
+     * @memberof MapPolygonDirective
+     */
+    @Input() public EncodingPrecision = 5;
+
     /**
      * The fill color of the polygon.
      *
@@ -187,6 +205,14 @@ export class MapPolygonDirective implements OnDestroy, OnChanges, AfterContentIn
      */
     @Input() public Visible: boolean;
 
+    /**
+     * The paths of the polygon as Well-Known Text, for example a POLYGON or MULTIPOLYGON returned by PostGIS. When set,
+     * takes precedence over {@link Paths}.
+     *
+     * @memberof MapPolygonDirective
+     */
+    @Input() public Wkt: string;
+
     /**
      * The zIndex compared to other polys.
      *
@@ -283,6 +309,30 @@ export class MapPolygonDirective implements OnDestroy, OnChanges, AfterContentIn
      */
     @Output() PathChanged: EventEmitter<IPolygonEvent> = new EventEmitter<IPolygonEvent>();
 
+    /**
+     * This event is fired when the user inserts a vertex while editing the polygon. The event arguments contain the
+     * index and location of the new vertex.
+     *
+     * @memberof MapPolygonDirective
+     */
+    @Output() VertexInserted: EventEmitter<IPolygonEvent> = new EventEmitter<IPolygonEvent>();
+
+    /**
+     * This event is fired when the user moves a vertex while editing the polygon. The event arguments contain the
+     * index, new location and previous location of the vertex.
+     *
+     * @memberof MapPolygonDirective
+     */
+    @Output() VertexMoved: EventEmitter<IPolygonEvent> = new EventEmitter<IPolygonEvent>();
+
+    /**
+     * This event is fired when the user removes a vertex while editing the polygon. The event arguments contain the
+     * index and location of the removed vertex.
+     *
+     * @memberof MapPolygonDirective
+     */
+    @Output() VertexRemoved: EventEmitter<IPolygonEvent> = new EventEmitter<IPolygonEvent>();
+
     ///
     /// Property declarations
     ///
@@ -344,6 +394,17 @@ export class MapPolygonDirective implements OnDestroy, OnChanges, AfterContentIn
     /// Public methods
     ///
 
+    /**
+     * Gets the underlying polygon model once the polygon has been added to the map.
+     *
+     * @returns - Promise of the {@link Polygon}.
+     *
+     * @memberof MapPolygonDirective
+     */
+    public GetNativePolygon(): Promise<Polygon> {
+        return this._polygonService.GetNativePolygon(this);
+    }
+
     /**
      * Called after the content intialization of the directive is complete. Part of the ng Component life cycle.
      *
@@ -373,11 +434,15 @@ export class MapPolygonDirective implements OnDestroy, OnChanges, AfterContentIn
      * @memberof MapPolygonDirective
      */
     ngOnChanges(changes: SimpleChanges): any {
+        const decoded: boolean = (changes['EncodedPaths'] || changes['EncodingPrecision']) && this.EncodedPaths != null;
+        if (decoded) { this.Paths = PolylineEncoding.DecodePaths(this.EncodedPaths, this.EncodingPrecision); }
+        const parsed: boolean = changes['Wkt'] && this.Wkt != null;
+        if (parsed) { this.Paths = WktConversions.ToPaths(this.Wkt); }
         if (!this._addedToService) { return; }
 
         const o: IPolygonOptions = this.GeneratePolygonChangeSet(changes);
         if (o != null) { this._polygonService.SetOptions(this, o); }
-        if (changes['Paths'] && !changes['Paths'].isFirstChange()) {
+        if ((changes['Paths'] && !changes['Paths'].isFirstChange()) || decoded || parsed) {
             this._polygonService.UpdatePolygon(this);
         }
 
@@ -431,7 +496,10 @@ export class MapPolygonDirective implements OnDestroy, OnChanges, AfterContentIn
             { name: 'mouseover', handler: (ev: MouseEvent) => this.MouseOver.emit(_getEventArg(ev)) },
             { name: 'mouseup', handler: (ev: MouseEvent) => this.MouseUp.emit(_getEventArg(ev)) },
             { name: 'rightclick', handler: (ev: MouseEvent) => this.RightClick.emit(_getEventArg(ev)) },
-            { name: 'pathchanged', handler: (ev: IPolygonEvent) => this.PathChanged.emit(ev) }
+            { name: 'pathchanged', handler: (ev: IPolygonEvent) => this.PathChanged.emit(ev) },
+            { name: 'vertexinserted', handler: (ev: IPolygonEvent) => this.VertexInserted.emit(ev) },
+            { name: 'vertexmoved', handler: (ev: IPolygonEvent) => this.VertexMoved.emit(ev) },
+            { name: 'vertexremoved', handler: (ev: IPolygonEvent) => this.VertexRemoved.emit(ev) }
         ];
         handlers.forEach((obj) => {
             const os = this._polygonService.CreateEventObservable(obj.name, this).subscribe(obj.handler);
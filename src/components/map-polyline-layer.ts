@@ -5,7 +5,6 @@
 } from '@angular/core';
 import { Subscription } from 'rxjs';
 import { IPoint } from '../interfaces/ipoint';
-import { ISize } from '../interfaces/isize';
 import { ILatLong } from '../interfaces/ilatlong';
 import { IPolylineEvent } from '../interfaces/ipolyline-event';
 import { IPolylineOptions } from '../interfaces/ipolyline-options';
@@ -17,6 +16,8 @@ import { Layer } from '../models/layer';
 import { Polyline } from '../models/polyline';
 import { MapLabel } from '../models/map-label';
 import { CanvasOverlay } from '../models/canvas-overlay';
+import { MapProjection } from '../models/map-projection';
+import { PathSimplifier } from '../models/path-simplifier';
 
 /**
  * internal counter to use as ids for polylines.
@@ -74,6 +75,10 @@ export class MapPolylineLayerDirective implements OnDestroy, OnChanges, AfterCon
     private _streaming: boolean = false;
     private _polylines: Array<IPolylineOptions> = new Array<IPolylineOptions>();
     private _polylinesLast: Array<IPolylineOptions> = new Array<IPolylineOptions>();
+    private _simplified: Array<{polylines: Array<Polyline>, simplifier: PathSimplifier}> =
+        new Array<{polylines: Array<Polyline>, simplifier: PathSimplifier}>();
+    private _simplificationBand: number = -1;
+    private _zoomSubscription: Subscription;
 
     /**
      * Set the maximum zoom at which the polyline labels are visible. Ignored if ShowLabel is false.
@@ -132,6 +137,15 @@ export class MapPolylineLayerDirective implements OnDestroy, OnChanges, AfterCon
      */
     @Input() public ShowTooltips: boolean = true;
 
+    /**
+     * Sets the tolerance, in pixels, used to simplify the polylines for display. Simplified paths are computed once per
+     * zoom band and swapped in as the map zooms; GetPath on the polylines continues to return the full resolution geometry.
+     * Editable and draggable polylines are left at full resolution. Defaults to 0, which disables simplification.
+     *
+     * @memberof MapPolylineLayerDirective
+     */
+    @Input() public SimplificationTolerance: number = 0;
+
     /**
      * Sets whether to treat changes in the PolylineOptions as streams of new markers. In this mode, changing the
      * Array supplied in PolylineOptions will be incrementally drawn on the map as opposed to replace the polylines on the map.
@@ -252,7 +266,7 @@ export class MapPolylineLayerDirective implements OnDestroy, OnChanges, AfterCon
 
             Promise.all([
                     this._layerPromise,
-                    this._mapService.CreateCanvasOverlay(el => this.DrawLabels(el))
+                    this._mapService.CreateCanvasOverlay((el, projection) => this.DrawLabels(el, projection))
                 ]).then(values => {
                     values[0].SetVisible(this.Visible);
                     this._canvas = values[1];
@@ -265,6 +279,9 @@ export class MapPolylineLayerDirective implements OnDestroy, OnChanges, AfterCon
                     }
                 });
             this._service = this._layerService;
+            this._zoomSubscription = this._mapService.SubscribeToMapEvent<void>('zoomchanged').subscribe(() => {
+                this._zone.runOutsideAngular(() => this.UpdateSimplification(false));
+            });
         });
     }
 
@@ -275,6 +292,7 @@ export class MapPolylineLayerDirective implements OnDestroy, OnChanges, AfterCon
      */
     public ngOnDestroy() {
         this._tooltipSubscriptions.forEach(s => s.unsubscribe());
+        if (this._zoomSubscription) { this._zoomSubscription.unsubscribe(); }
         this._layerPromise.then(l => {
             l.Delete();
         });
@@ -312,6 +330,12 @@ export class MapPolylineLayerDirective implements OnDestroy, OnChanges, AfterCon
         if (changes['ShowTooltips'] && this._tooltip) {
             this.ManageTooltip(changes['ShowTooltips'].currentValue);
         }
+        if (changes['SimplificationTolerance'] && !changes['SimplificationTolerance'].firstChange) {
+            this._zone.runOutsideAngular(() => {
+                this._simplified.forEach(s => this.RestoreFullResolution(s));
+                this.UpdateSimplification(true);
+            });
+        }
     }
 
     /**
@@ -347,25 +371,23 @@ export class MapPolylineLayerDirective implements OnDestroy, OnChanges, AfterCon
      * Draws the polyline labels. Called by the Canvas overlay.
      *
      * @param el - The canvas on which to draw the labels.
+     * @param projection - The projection for the current map view.
      * @memberof MapPolylineLayerDirective
      */
-    private DrawLabels(el: HTMLCanvasElement): void {
-        if (this.ShowLabels) {
-            this._mapService.GetZoom().then(z => {
-                if (this.LabelMinZoom <= z && this.LabelMaxZoom >= z) {
-                    const ctx: CanvasRenderingContext2D = el.getContext('2d');
-                    const labels = this._labels.map(x => x.title);
-                    this._mapService.LocationsToPoints(this._labels.map(x => x.loc)).then(locs => {
-                        const size: ISize = this._mapService.MapSize;
-                        for (let i = 0, len = locs.length; i < len; i++) {
-                            // Don't draw the point if it is not in view. This greatly improves performance when zoomed in.
-                            if (locs[i].x >= 0 && locs[i].y >= 0 && locs[i].x <= size.width && locs[i].y <= size.height) {
-                                this.DrawText(ctx, locs[i], labels[i]);
-                            }
-                        }
-                    });
+    private DrawLabels(el: HTMLCanvasElement, projection: MapProjection): void {
+        if (this.ShowLabels && projection != null) {
+            const z: number = projection.Zoom;
+            if (this.LabelMinZoom <= z && this.LabelMaxZoom >= z) {
+                const ctx: CanvasRenderingContext2D = el.getContext('2d');
+                const labels = this._labels.map(x => x.title);
+                const locs: Array<IPoint> = projection.ToPixel(this._labels.map(x => x.loc));
+                for (let i = 0, len = locs.length; i < len; i++) {
+                    // Don't draw the point if it is not in view. This greatly improves performance when zoomed in.
+                    if (projection.Contains(locs[i])) {
+                        this.DrawText(ctx, locs[i], labels[i]);
+                    }
                 }
-            });
+            }
         }
     }
 
@@ -436,6 +458,36 @@ export class MapPolylineLayerDirective implements OnDestroy, OnChanges, AfterCon
         }
     }
 
+    /**
+     * Restores the full resolution paths of a batch of polylines and discards its simplifier.
+     *
+     * @param batch - The batch of polylines.
+     *
+     * @memberof MapPolylineLayerDirective
+     */
+    private RestoreFullResolution(batch: {polylines: Array<Polyline>, simplifier: PathSimplifier}): void {
+        if (batch.simplifier == null) { return; }
+        batch.polylines.forEach(x => { if (!x.GetEditable()) { x.SetPath(x.GetPath()); } });
+        batch.simplifier = null;
+    }
+
+    /**
+     * Displays the simplified paths of a batch of polylines for a zoom band. The simplifier is created on first use.
+     *
+     * @param batch - The batch of polylines.
+     * @param band - The zoom band.
+     *
+     * @memberof MapPolylineLayerDirective
+     */
+    private Simplify(batch: {polylines: Array<Polyline>, simplifier: PathSimplifier}, band: number): void {
+        if (batch.simplifier == null) {
+            batch.simplifier = new PathSimplifier(batch.polylines.map(x => [x.GetPath()]), this.SimplificationTolerance, false);
+        }
+        batch.polylines.forEach((x, i) => {
+            if (!x.GetEditable() && !x.GetDraggable()) { x.SetSimplifiedPath(batch.simplifier.GetPaths(i, band)[0]); }
+        });
+    }
+
     /**
      * Sets or updates the polyliness based on the polyline options. This will place the polylines on the map
      * and register the associated events.
@@ -476,9 +528,32 @@ export class MapPolylineLayerDirective implements OnDestroy, OnChanges, AfterCon
                     }
                 });
                 this._streaming ? l.AddEntities(y) : l.SetEntities(y);
+                if (!this._streaming) { this._simplified.splice(0); }
+                const batch: {polylines: Array<Polyline>, simplifier: PathSimplifier} = { polylines: y, simplifier: null };
+                this._simplified.push(batch);
+                if (this.SimplificationTolerance > 0) {
+                    this._mapService.GetZoom().then(z => this.Simplify(batch, PathSimplifier.GetBand(z)));
+                }
                 if (this._canvas) { this._canvas.Redraw(!this._streaming); }
             });
         });
     }
 
+    /**
+     * Swaps in the simplified paths for the current zoom band once the zoom band changes.
+     *
+     * @param force - True to apply the simplified paths even if the zoom band has not changed.
+     *
+     * @memberof MapPolylineLayerDirective
+     */
+    private UpdateSimplification(force: boolean): void {
+        if (!(this.SimplificationTolerance > 0) || this._simplified.length === 0) { return; }
+        this._mapService.GetZoom().then(z => {
+            const band: number = PathSimplifier.GetBand(z);
+            if (band === this._simplificationBand && !force) { return; }
+            this._simplificationBand = band;
+            this._simplified.forEach(s => this.Simplify(s, band));
+        });
+    }
+
 }
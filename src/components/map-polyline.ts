@@ -8,6 +8,9 @@ import { ILatLong } from '../interfaces/ilatlong';
 import { IPolylineOptions } from '../interfaces/ipolyline-options';
 import { PolylineService } from '../services/polyline.service';
 import { IPolylineEvent } from '../interfaces/ipolyline-event';
+import { Polyline } from '../models/polyline';
+import { PolylineEncoding } from '../models/polyline-encoding';
+import { WktConversions } from '../models/wkt-conversions';
 import { InfoBoxComponent } from './infobox';
 
 let polylineId = 0;
@@ -79,6 +82,21 @@ export class MapPolylineDirective implements OnDestroy, OnChanges, AfterContentI
      */
     @Input() public Editable = false;
 
+    /**
+     * The path of the polyline in the encoded polyline format returned by most routing backends. Specify an array of
+     * encoded polylines for complex polylines. When set, takes precedence over {@link Path}.
+     *
+     * @memberof MapPolylineDirective
+     */
+    @Input() public EncodedPath: string | Array<string>;
+
+    /**
+     * The number of decimals the {@link EncodedPath} was encoded with, typically 5 or 6. Defaults to 5.
+     *
+     * @memberof MapPolylineDirective
+     */
+    @Input() public EncodingPrecision = 5;
+
     /**
      * When true, edges of the polyline are interpreted as geodesic and will
      * follow the curvature of the Earth. When false, edges of the polyline are
@@ -148,6 +166,14 @@ export class MapPolylineDirective implements OnDestroy, OnChanges, AfterContentI
      */
     @Input() public Visible: boolean;
 
+    /**
+     * The path of the polyline as Well-Known Text, for example a LINESTRING or MULTILINESTRING returned by PostGIS. When
+     * set, takes precedence over {@link Path}.
+     *
+     * @memberof MapPolylineDirective
+     */
+    @Input() public Wkt: string;
+
     /**
      * The zIndex compared to other polys.
      *
@@ -236,6 +262,37 @@ export class MapPolylineDirective implements OnDestroy, OnChanges, AfterContentI
      */
     @Output() RightClick: EventEmitter<IPolylineEvent> = new EventEmitter<IPolylineEvent>();
 
+    /**
+     * This event is fired when editing has completed. The event arguments contain the original and the new path.
+     *
+     * @memberof MapPolylineDirective
+     */
+    @Output() PathChanged: EventEmitter<IPolylineEvent> = new EventEmitter<IPolylineEvent>();
+
+    /**
+     * This event is fired when the user inserts a vertex while editing the polyline. The event arguments contain the
+     * index and location of the new vertex.
+     *
+     * @memberof MapPolylineDirective
+     */
+    @Output() VertexInserted: EventEmitter<IPolylineEvent> = new EventEmitter<IPolylineEvent>();
+
+    /**
+     * This event is fired when the user moves a vertex while editing the polyline. The event arguments contain the
+     * index, new location and previous location of the vertex.
+     *
+     * @memberof MapPolylineDirective
+     */
+    @Output() VertexMoved: EventEmitter<IPolylineEvent> = new EventEmitter<IPolylineEvent>();
+
+    /**
+     * This event is fired when the user removes a vertex while editing the polyline. The event arguments contain the
+     * index and location of the removed vertex.
+     *
+     * @memberof MapPolylineDirective
+     */
+    @Output() VertexRemoved: EventEmitter<IPolylineEvent> = new EventEmitter<IPolylineEvent>();
+
     ///
     /// Property declarations
     ///
@@ -297,6 +354,17 @@ export class MapPolylineDirective implements OnDestroy, OnChanges, AfterContentI
     /// Public methods
     ///
 
+    /**
+     * Gets the underlying polyline model (or models, for complex paths) once the polyline has been added to the map.
+     *
+     * @returns - Promise of the {@link Polyline} (or an array thereof).
+     *
+     * @memberof MapPolylineDirective
+     */
+    public GetNativePolyline(): Promise<Polyline|Array<Polyline>> {
+        return this._polylineService.GetNativePolyline(this);
+    }
+
     /**
      * Called after the content intialization of the directive is complete. Part of the ng Component life cycle.
      *
@@ -326,13 +394,21 @@ export class MapPolylineDirective implements OnDestroy, OnChanges, AfterContentI
      * @memberof MapPolylineDirective
      */
     ngOnChanges(changes: SimpleChanges): any {
+        const decoded: boolean = (changes['EncodedPath'] || changes['EncodingPrecision']) && this.EncodedPath != null;
+        if (decoded) {
+            this.Path = Array.isArray(this.EncodedPath) ?
+                PolylineEncoding.DecodePaths(this.EncodedPath, this.EncodingPrecision) :
+                PolylineEncoding.Decode(this.EncodedPath, this.EncodingPrecision);
+        }
+        const parsed: boolean = changes['Wkt'] && this.Wkt != null;
+        if (parsed) { this.Path = WktConversions.ToPath(this.Wkt); }
         if (!this._addedToService) { return; }
 
         const o: IPolylineOptions = this.GeneratePolylineChangeSet(changes);
         if (o != null) {
             this._polylineService.SetOptions(this, o);
         }
-        if (changes['Path'] && !changes['Path'].isFirstChange()) {
+        if ((changes['Path'] && !changes['Path'].isFirstChange()) || decoded || parsed) {
             this._polylineService.UpdatePolyline(this);
         }
     }
@@ -384,6 +460,10 @@ export class MapPolylineDirective implements OnDestroy, OnChanges, AfterContentI
             { name: 'mouseover', handler: (ev: MouseEvent) => this.MouseOver.emit(_getEventArg(ev)) },
             { name: 'mouseup', handler: (ev: MouseEvent) => this.MouseUp.emit(_getEventArg(ev)) },
             { name: 'rightclick', handler: (ev: MouseEvent) => this.RightClick.emit(_getEventArg(ev)) },
+            { name: 'pathchanged', handler: (ev: IPolylineEvent) => this.PathChanged.emit(ev) },
+            { name: 'vertexinserted', handler: (ev: IPolylineEvent) => this.VertexInserted.emit(ev) },
+            { name: 'vertexmoved', handler: (ev: IPolylineEvent) => this.VertexMoved.emit(ev) },
+            { name: 'vertexremoved', handler: (ev: IPolylineEvent) => this.VertexRemoved.emit(ev) }
         ];
         handlers.forEach((obj) => {
             const os = this._polylineService.CreateEventObservable(obj.name, this).subscribe(obj.handler);
@@ -0,0 +1,200 @@
+import { Directive, SimpleChange, Input, OnDestroy, OnChanges, AfterContentInit, NgZone } from '@angular/core';
+import { IBox } from '../interfaces/ibox';
+import { ITileLayerOptions } from '../interfaces/itile-layer-options';
+import { MapService } from '../services/map.service';
+import { TileLayer } from '../models/tile-layer';
+
+/**
+ * internal counter to use as ids for tile layers.
+ */
+let layerId = 1000000;
+
+/**
+ * MapTileLayerDirective overlays custom map tiles on a {@link MapComponent}.
+ *
+ * ### Example
+ * ```typescript
+ * import {Component} from '@angular/core';
+ * import {MapComponent} from '...';
+ *
+ * @Component({
+ *  selector: 'my-map-cmp',
+ *  styles: [`
+ *   .map-container {
+ *     height: 300px;
+ *   }
+ * `],
+ * template: `
+ *   <x-map [Latitude]="lat" [Longitude]="lng" [Zoom]="zoom">
+ *      <x-map-tile-layer [TileUrl]="'https://tiles.example.com/{z}/{x}/{y}.png'" [Opacity]="0.7"></x-map-tile-layer>
+ *   </x-map>
+ * `
+ * })
+ * ```
+ *
+ * @export
+ */
+@Directive({
+    selector: 'x-map-tile-layer'
+})
+export class MapTileLayerDirective implements OnDestroy, OnChanges, AfterContentInit {
+
+    ///
+    /// Field declarations
+    ///
+    private _id: number;
+    private _layerPromise: Promise<TileLayer>;
+
+    /**
+     * Bounds outside of which no tiles are requested.
+     *
+     * @memberof MapTileLayerDirective
+     */
+    @Input() public Bounds: IBox;
+
+    /**
+     * The maximum zoom level at which tiles are shown.
+     *
+     * @memberof MapTileLayerDirective
+     */
+    @Input() public MaxZoom: number;
+
+    /**
+     * The minimum zoom level at which tiles are shown.
+     *
+     * @memberof MapTileLayerDirective
+     */
+    @Input() public MinZoom: number;
+
+    /**
+     * The opacity of the layer, between 0 and 1.
+     *
+     * @memberof MapTileLayerDirective
+     */
+    @Input() public Opacity: number = 1;
+
+    /**
+     * The size of a tile in pixels. Defaults to 256.
+     *
+     * @memberof MapTileLayerDirective
+     */
+    @Input() public TileSize: number = 256;
+
+    /**
+     * The url template of the tiles or a callback constructing the url. See {@link ITileLayerOptions.tileUrl}.
+     *
+     * @memberof MapTileLayerDirective
+     */
+    @Input() public TileUrl: string | ((x: number, y: number, zoom: number) => string);
+
+    /**
+     * Sets the visibility of the layer.
+     *
+     * @memberof MapTileLayerDirective
+     */
+    @Input() public Visible: boolean = true;
+
+    /**
+     * Gets or sets the z-index of the layer.
+     *
+     * @memberof MapTileLayerDirective
+     */
+    @Input() public ZIndex: number = 0;
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets the id of the tile layer.
+     *
+     * @readonly
+     * @memberof MapTileLayerDirective
+     */
+    public get Id(): number { return this._id; }
+
+    /**
+     * Gets a promise resolved with the underlying {@link TileLayer} once the layer has been created.
+     *
+     * @readonly
+     * @memberof MapTileLayerDirective
+     */
+    public get TileLayer(): Promise<TileLayer> { return this._layerPromise; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MapTileLayerDirective.
+     * @param _mapService - Concreate implementation of a {@link MapService}.
+     * @param _zone - Concreate implementation of a {@link NgZone} service.
+     * @memberof MapTileLayerDirective
+     */
+    constructor(
+        private _mapService: MapService,
+        private _zone: NgZone) {
+        this._id = layerId++;
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Called after Component content initialization. Part of ng Component life cycle.
+     *
+     * @memberof MapTileLayerDirective
+     */
+    public ngAfterContentInit() {
+        if (this.TileUrl == null) { throw (new Error('TileUrl is required for the tile layer.')); }
+        const o: ITileLayerOptions = {
+            id: this._id,
+            bounds: this.Bounds,
+            maxZoom: this.MaxZoom,
+            minZoom: this.MinZoom,
+            opacity: this.Opacity,
+            tileSize: this.TileSize,
+            tileUrl: this.TileUrl,
+            visible: this.Visible,
+            zIndex: this.ZIndex
+        };
+        this._zone.runOutsideAngular(() => {
+            this._layerPromise = this._mapService.CreateTileLayer(o);
+        });
+    }
+
+    /**
+     * Called on component destruction. Frees the resources used by the component. Part of the ng Component life cycle.
+     *
+     * @memberof MapTileLayerDirective
+     */
+    public ngOnDestroy() {
+        if (this._layerPromise) { this._layerPromise.then(l => l.Delete()); }
+    }
+
+    /**
+     * Reacts to changes in data-bound properties of the component and actuates property changes in the underling layer model.
+     *
+     * @param changes - collection of changes.
+     * @memberof MapTileLayerDirective
+     */
+    public ngOnChanges(changes: { [key: string]: SimpleChange }) {
+        if (!this._layerPromise) { return; }
+        if (['TileUrl', 'Bounds', 'MinZoom', 'MaxZoom', 'TileSize'].some(k => changes[k] && !changes[k].firstChange)) {
+            throw (new Error('You cannot change TileUrl, Bounds, MinZoom, MaxZoom or TileSize after the layer has been created.'));
+        }
+        this._layerPromise.then(l => {
+            if (changes['Opacity']) { l.SetOpacity(this.Opacity); }
+            if (changes['Visible']) { l.SetVisible(this.Visible); }
+            if (changes['ZIndex']) { l.SetZIndex(this.ZIndex); }
+        });
+    }
+
+    /**
+     * Obtains a string representation of the Layer Id.
+     * @returns - string representation of the layer id.
+     * @memberof MapTileLayerDirective
+     */
+    public toString(): string { return 'MapTileLayer-' + this._id.toString(); }
+}
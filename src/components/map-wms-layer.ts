@@ -0,0 +1,343 @@
+import {
+    Directive, SimpleChange, Input, Output, OnDestroy, OnChanges,
+    EventEmitter, AfterContentInit, NgZone
+} from '@angular/core';
+import { Subscription } from 'rxjs';
+import { IBox } from '../interfaces/ibox';
+import { ILatLong } from '../interfaces/ilatlong';
+import { ITileLayerOptions } from '../interfaces/itile-layer-options';
+import { IWmsOptions } from '../interfaces/iwms-options';
+import { IWmsFeatureInfoEvent } from '../interfaces/iwms-feature-info-event';
+import { MapService } from '../services/map.service';
+import { TileLayer } from '../models/tile-layer';
+import { WmsRequest } from '../models/wms-request';
+
+/**
+ * internal counter to use as ids for wms layers.
+ */
+let layerId = 1000000;
+
+/**
+ * MapWmsLayerDirective overlays the images of an OGC Web Map Service on a {@link MapComponent}. The map is requested tile by
+ * tile via WMS GetMap requests. Optionally, clicking the map issues a GetFeatureInfo request, the response of which is emitted
+ * via {@link FeatureInfo}.
+ *
+ * ### Example
+ * ```typescript
+ * import {Component} from '@angular/core';
+ * import {MapComponent} from '...';
+ *
+ * @Component({
+ *  selector: 'my-map-cmp',
+ *  styles: [`
+ *   .map-container {
+ *     height: 300px;
+ *   }
+ * `],
+ * template: `
+ *   <x-map [Latitude]="lat" [Longitude]="lng" [Zoom]="zoom">
+ *      <x-map-wms-layer [Url]="'https://example.com/wms'" [Layers]="'topp:states'" [EnableFeatureInfo]="true"
+ *          (FeatureInfo)="_info($event)"></x-map-wms-layer>
+ *   </x-map>
+ * `
+ * })
+ * ```
+ *
+ * @export
+ */
+@Directive({
+    selector: 'x-map-wms-layer'
+})
+export class MapWmsLayerDirective implements OnDestroy, OnChanges, AfterContentInit {
+
+    ///
+    /// Field declarations
+    ///
+    private _id: number;
+    private _layerPromise: Promise<TileLayer>;
+    private _clickSubscription: Subscription;
+
+    /**
+     * Bounds outside of which no tiles are requested.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public Bounds: IBox;
+
+    /**
+     * The coordinate reference system of the requests. See {@link IWmsOptions.crs}.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public Crs: string = 'EPSG:3857';
+
+    /**
+     * Whether to issue a GetFeatureInfo request when the map is clicked.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public EnableFeatureInfo: boolean = false;
+
+    /**
+     * The maximum number of features returned by GetFeatureInfo requests.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public FeatureCount: number = 1;
+
+    /**
+     * The image format of the GetMap requests.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public Format: string = 'image/png';
+
+    /**
+     * The format of the GetFeatureInfo responses.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public InfoFormat: string = 'text/html';
+
+    /**
+     * Comma separated list of the layers to request.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public Layers: string;
+
+    /**
+     * The maximum zoom level at which the layer is shown.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public MaxZoom: number;
+
+    /**
+     * The minimum zoom level at which the layer is shown.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public MinZoom: number;
+
+    /**
+     * The opacity of the layer, between 0 and 1.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public Opacity: number = 1;
+
+    /**
+     * Comma separated list of the layers to query with GetFeatureInfo. Defaults to {@link Layers}.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public QueryLayers: string;
+
+    /**
+     * Comma separated list of the styles to request, one per layer.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public Styles: string = '';
+
+    /**
+     * Whether to request transparent images.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public Transparent: boolean = true;
+
+    /**
+     * The base url of the WMS service.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public Url: string;
+
+    /**
+     * Additional (vendor specific) parameters appended to every request.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public VendorParams: { [key: string]: string | number | boolean };
+
+    /**
+     * The WMS version, 1.1.1 or 1.3.0.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public Version: string = '1.1.1';
+
+    /**
+     * Sets the visibility of the layer.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public Visible: boolean = true;
+
+    /**
+     * Gets or sets the z-index of the layer.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Input() public ZIndex: number = 0;
+
+    ///
+    /// Delegates
+    ///
+
+    /**
+     * This event emitter gets emitted with the response of the GetFeatureInfo request issued on a map click. Requires
+     * {@link EnableFeatureInfo}.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    @Output() public FeatureInfo: EventEmitter<IWmsFeatureInfoEvent> = new EventEmitter<IWmsFeatureInfoEvent>();
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets the id of the wms layer.
+     *
+     * @readonly
+     * @memberof MapWmsLayerDirective
+     */
+    public get Id(): number { return this._id; }
+
+    /**
+     * Gets the WMS options derived from the inputs.
+     *
+     * @readonly
+     * @memberof MapWmsLayerDirective
+     */
+    public get WmsOptions(): IWmsOptions {
+        return {
+            crs: this.Crs,
+            format: this.Format,
+            layers: this.Layers,
+            styles: this.Styles,
+            transparent: this.Transparent,
+            url: this.Url,
+            vendorParams: this.VendorParams,
+            version: this.Version
+        };
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MapWmsLayerDirective.
+     * @param _mapService - Concreate implementation of a {@link MapService}.
+     * @param _zone - Concreate implementation of a {@link NgZone} service.
+     * @memberof MapWmsLayerDirective
+     */
+    constructor(
+        private _mapService: MapService,
+        private _zone: NgZone) {
+        this._id = layerId++;
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Called after Component content initialization. Part of ng Component life cycle.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    public ngAfterContentInit() {
+        if (!this.Url || !this.Layers) { throw (new Error('Url and Layers are required for the wms layer.')); }
+        const wms: IWmsOptions = this.WmsOptions;
+        if (!WmsRequest.IsSupportedCrs(wms)) {
+            throw (new Error(`Unsupported WMS CRS ${wms.crs}. Use EPSG:3857, EPSG:4326 or CRS:84.`));
+        }
+        const o: ITileLayerOptions = {
+            id: this._id,
+            bounds: this.Bounds,
+            maxZoom: this.MaxZoom,
+            minZoom: this.MinZoom,
+            opacity: this.Opacity,
+            tileUrl: (x: number, y: number, zoom: number) => WmsRequest.GetMapUrl(wms, x, y, zoom),
+            visible: this.Visible,
+            zIndex: this.ZIndex
+        };
+        this._zone.runOutsideAngular(() => {
+            this._layerPromise = this._mapService.CreateTileLayer(o);
+        });
+        this._clickSubscription = this._mapService.SubscribeToMapEvent<any>('click').subscribe(e => {
+            if (this.EnableFeatureInfo && this.Visible) { this.QueryFeatureInfo(this._mapService.GetCoordinatesFromClick(e)); }
+        });
+    }
+
+    /**
+     * Called on component destruction. Frees the resources used by the component. Part of the ng Component life cycle.
+     *
+     * @memberof MapWmsLayerDirective
+     */
+    public ngOnDestroy() {
+        if (this._clickSubscription) { this._clickSubscription.unsubscribe(); }
+        if (this._layerPromise) { this._layerPromise.then(l => l.Delete()); }
+    }
+
+    /**
+     * Reacts to changes in data-bound properties of the component and actuates property changes in the underling layer model.
+     *
+     * @param changes - collection of changes.
+     * @memberof MapWmsLayerDirective
+     */
+    public ngOnChanges(changes: { [key: string]: SimpleChange }) {
+        if (!this._layerPromise) { return; }
+        if (['Url', 'Layers', 'Styles', 'Format', 'Transparent', 'Crs', 'Version', 'VendorParams', 'Bounds', 'MinZoom', 'MaxZoom']
+            .some(k => changes[k] && !changes[k].firstChange)) {
+            throw (new Error('You cannot change the WMS parameters, Bounds, MinZoom or MaxZoom after the layer has been created.'));
+        }
+        this._layerPromise.then(l => {
+            if (changes['Opacity']) { l.SetOpacity(this.Opacity); }
+            if (changes['Visible']) { l.SetVisible(this.Visible); }
+            if (changes['ZIndex']) { l.SetZIndex(this.ZIndex); }
+        });
+    }
+
+    /**
+     * Obtains a string representation of the Layer Id.
+     * @returns - string representation of the layer id.
+     * @memberof MapWmsLayerDirective
+     */
+    public toString(): string { return 'MapWmsLayer-' + this._id.toString(); }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Issues a GetFeatureInfo request for a location and emits the response.
+     *
+     * @param loc - The location to query.
+     * @memberof MapWmsLayerDirective
+     */
+    private QueryFeatureInfo(loc: ILatLong): void {
+        if (loc == null) { return; }
+        this._mapService.GetZoom().then(z => {
+            if ((this.MinZoom != null && z < this.MinZoom) || (this.MaxZoom != null && z > this.MaxZoom)) { return; }
+            const url: string = WmsRequest.GetFeatureInfoUrl(this.WmsOptions, loc, z, this.InfoFormat, this.QueryLayers, this.FeatureCount);
+            const request: XMLHttpRequest = new XMLHttpRequest();
+            const emit = () => this._zone.run(() => this.FeatureInfo.emit({
+                Content: request.status > 0 ? request.responseText : null,
+                ContentType: request.getResponseHeader('Content-Type'),
+                Location: loc,
+                Status: request.status,
+                Url: url
+            }));
+            request.open('GET', url, true);
+            request.onload = emit;
+            request.onerror = emit;
+            request.send();
+        });
+    }
+}
@@ -0,0 +1,10 @@
+import { MapCircleDirective } from '../components/map-circle';
+import { Circle } from '../models/circle';
+import { ILatLong } from './ilatlong';
+
+export interface ICircleEvent {
+    Circle: MapCircleDirective|Circle;
+    Click: MouseEvent;
+    Center?: ILatLong;
+    Radius?: number;
+}
@@ -0,0 +1,19 @@
+import { ILatLong } from './ilatlong';
+
+export interface ICircleOptions {
+    id: number;
+    center?: ILatLong;
+    clickable?: boolean;
+    draggable?: boolean;
+    editable?: boolean;
+    fillColor?: string;
+    fillOpacity?: number;
+    metadata?: Map<string, any>;
+    radius?: number;
+    strokeColor?: string;
+    strokeOpacity?: number;
+    strokeWeight?: number;
+    title?: string;
+    visible?: boolean;
+    zIndex?: number;
+}
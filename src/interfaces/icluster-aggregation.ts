@@ -0,0 +1,22 @@
+import { ClusterAggregationType } from '../models/cluster-aggregation-type';
+
+export interface IClusterAggregation {
+    /**
+     * The marker Metadata key to aggregate over.
+     * @memberof IClusterAggregation
+     */
+    key: string;
+
+    /**
+     * The name under which the aggregate is exposed. Defaults to the key. Use distinct names when aggregating the same
+     * key more than once.
+     * @memberof IClusterAggregation
+     */
+    name?: string;
+
+    /**
+     * The aggregation to compute. See {@link ClusterAggregationType}.
+     * @memberof IClusterAggregation
+     */
+    type: ClusterAggregationType;
+}
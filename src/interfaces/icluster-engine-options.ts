@@ -0,0 +1,53 @@
+import { ClusterPlacementMode } from '../models/cluster-placement-mode';
+
+/**
+ * This interface defines the options governing the behavior of the {@link ClusterEngine}.
+ *
+ * @export
+ */
+export interface IClusterEngineOptions {
+
+    /**
+     * The radius in pixels within which markers are grouped into a cluster. Default: 45
+     *
+     * @memberof IClusterEngineOptions
+     */
+    gridSize?: number;
+
+    /**
+     * The maximum zoom level at which markers are clustered. Above this zoom level, all markers are
+     * returned individually. Default: 20
+     *
+     * @memberof IClusterEngineOptions
+     */
+    maxZoom?: number;
+
+    /**
+     * The minimum number of markers required to form a cluster. Default: 2
+     *
+     * @memberof IClusterEngineOptions
+     */
+    minimumClusterSize?: number;
+
+    /**
+     * The minimum zoom level for which clusters are calculated. Default: 0
+     *
+     * @memberof IClusterEngineOptions
+     */
+    minZoom?: number;
+
+    /**
+     * Determines whether clusters are placed at the mean location of their markers or at the location of
+     * the first marker. Default: {@link ClusterPlacementMode.MeanValue}
+     *
+     * @memberof IClusterEngineOptions
+     */
+    placementMode?: ClusterPlacementMode;
+
+    /**
+     * The size of the map tiles in pixels. Default: 256
+     *
+     * @memberof IClusterEngineOptions
+     */
+    tileSize?: number;
+}
@@ -108,6 +108,15 @@ export interface IClusterOptions extends ILayerOptions {
          */
         styles?: Array<IClusterIconInfo>;
 
+        /**
+         * Whether to use the built-in {@link ClusterEngine} instead of the provider clustering. The built-in engine
+         * produces identical clusters across providers and does not require the Google marker clusterer script.
+         * This option can only be set on creation of the layer. Default: false
+         *
+         * @memberof IClusterOptions
+         */
+        useClusterEngine?: boolean;
+
         /**
          * A boolean indicating if the layer is visible or not.
          *
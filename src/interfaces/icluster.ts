@@ -0,0 +1,8 @@
+import { ILatLong } from './ilatlong';
+
+export interface ICluster<T> {
+    id: number;
+    count: number;
+    items: Array<T>;
+    location: ILatLong;
+}
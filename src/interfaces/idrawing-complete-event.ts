@@ -0,0 +1,11 @@
+import { DrawingMode } from '../models/drawing-mode';
+import { IMarkerOptions } from './imarker-options';
+import { IPolygonOptions } from './ipolygon-options';
+import { IPolylineOptions } from './ipolyline-options';
+
+export interface IDrawingCompleteEvent {
+    Mode: DrawingMode;
+    Marker?: IMarkerOptions;
+    Polygon?: IPolygonOptions;
+    Polyline?: IPolylineOptions;
+}
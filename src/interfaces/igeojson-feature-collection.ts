@@ -0,0 +1,7 @@
+import { IGeoJsonFeature } from './igeojson-feature';
+
+export interface IGeoJsonFeatureCollection {
+    type: 'FeatureCollection';
+    features: Array<IGeoJsonFeature>;
+    bbox?: Array<number>;
+}
@@ -0,0 +1,12 @@
+import { Marker } from '../models/marker';
+import { Polygon } from '../models/polygon';
+import { Polyline } from '../models/polyline';
+import { IGeoJsonFeature } from './igeojson-feature';
+import { ILatLong } from './ilatlong';
+
+export interface IGeoJsonFeatureEvent {
+    Feature: IGeoJsonFeature;
+    Entity: Marker|Polygon|Polyline;
+    Click: MouseEvent;
+    Location: ILatLong;
+}
@@ -0,0 +1,9 @@
+import { IGeoJsonGeometry } from './igeojson-geometry';
+
+export interface IGeoJsonFeature {
+    type: 'Feature';
+    id?: string | number;
+    geometry: IGeoJsonGeometry;
+    properties: { [key: string]: any };
+    bbox?: Array<number>;
+}
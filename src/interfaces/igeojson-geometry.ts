@@ -0,0 +1,14 @@
+/**
+ * GeoJSON geometry object as defined in RFC 7946. Positions are expressed as [longitude, latitude] arrays.
+ * The shape of coordinates depends on the type: Point (position), MultiPoint and LineString (array of positions),
+ * MultiLineString and Polygon (array of position arrays), MultiPolygon (array of polygons). GeometryCollection
+ * uses geometries instead of coordinates.
+ *
+ * @export
+ */
+export interface IGeoJsonGeometry {
+    type: 'Point' | 'MultiPoint' | 'LineString' | 'MultiLineString' | 'Polygon' | 'MultiPolygon' | 'GeometryCollection';
+    coordinates?: Array<any>;
+    geometries?: Array<IGeoJsonGeometry>;
+    bbox?: Array<number>;
+}
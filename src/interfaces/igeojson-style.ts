@@ -0,0 +1,17 @@
+/**
+ * Style information returned by the per feature style callback of the {@link MapGeoJsonLayerDirective}. Marker
+ * features use icon and title, line and polygon features use the stroke and fill settings.
+ *
+ * @export
+ */
+export interface IGeoJsonStyle {
+    fillColor?: string;
+    fillOpacity?: number;
+    icon?: string;
+    strokeColor?: string;
+    strokeOpacity?: number;
+    strokeWeight?: number;
+    title?: string;
+    visible?: boolean;
+    zIndex?: number;
+}
@@ -0,0 +1,8 @@
+import { GroundOverlay } from '../models/ground-overlay';
+import { ILatLong } from './ilatlong';
+
+export interface IGroundOverlayEvent {
+    GroundOverlay: GroundOverlay;
+    Click: MouseEvent;
+    Location: ILatLong;
+}
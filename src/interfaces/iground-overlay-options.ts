@@ -0,0 +1,39 @@
+import { IBox } from './ibox';
+
+export interface IGroundOverlayOptions {
+    /**
+     * The geographic bounds the image is stretched over.
+     * @memberof IGroundOverlayOptions
+     */
+    bounds: IBox;
+
+    /**
+     * The id of the overlay.
+     * @memberof IGroundOverlayOptions
+     */
+    id?: number;
+
+    /**
+     * The url of the image.
+     * @memberof IGroundOverlayOptions
+     */
+    imageUrl: string;
+
+    /**
+     * The opacity of the image, between 0 and 1. Defaults to 1.
+     * @memberof IGroundOverlayOptions
+     */
+    opacity?: number;
+
+    /**
+     * The clockwise rotation of the image around the center of its bounds in degrees. Defaults to 0.
+     * @memberof IGroundOverlayOptions
+     */
+    rotation?: number;
+
+    /**
+     * Whether the overlay is visible. Defaults to true.
+     * @memberof IGroundOverlayOptions
+     */
+    visible?: boolean;
+}
@@ -0,0 +1,13 @@
+export interface IHeatmapGradientStop {
+    /**
+     * The normalized intensity (between 0 and 1) at which the color applies.
+     * @memberof IHeatmapGradientStop
+     */
+    offset: number;
+
+    /**
+     * The css color for the stop.
+     * @memberof IHeatmapGradientStop
+     */
+    color: string;
+}
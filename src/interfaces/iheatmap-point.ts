@@ -0,0 +1,9 @@
+import { ILatLong } from './ilatlong';
+
+export interface IHeatmapPoint extends ILatLong {
+    /**
+     * The weight of the point. Defaults to 1.
+     * @memberof IHeatmapPoint
+     */
+    weight?: number;
+}
@@ -0,0 +1,11 @@
+import { Marker } from '../models/marker';
+import { Polygon } from '../models/polygon';
+import { Polyline } from '../models/polyline';
+import { ILatLong } from './ilatlong';
+
+export interface IKmlFeatureEvent {
+    Entity: Marker|Polygon|Polyline;
+    Metadata: Map<string, any>;
+    Click: MouseEvent;
+    Location: ILatLong;
+}
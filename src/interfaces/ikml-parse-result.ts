@@ -0,0 +1,15 @@
+import { IMarkerOptions } from './imarker-options';
+import { IPolygonOptions } from './ipolygon-options';
+import { IPolylineOptions } from './ipolyline-options';
+
+/**
+ * The result of parsing a KML or GPX document with the {@link KmlParserService}. The Metadata of each entry carries the
+ * name, description and extended data of the source element.
+ *
+ * @export
+ */
+export interface IKmlParseResult {
+    markers: Array<IMarkerOptions>;
+    polygons: Array<IPolygonOptions>;
+    polylines: Array<IPolylineOptions>;
+}
@@ -7,6 +7,7 @@ export interface IMapOptions {
     credentials?: string;
     customizeOverlays?: boolean;
     disableBirdseye?: boolean;
+    disableDoubleClickZoom?: boolean;
     disableKeyboardInput?: boolean;
     disableMouseInput?: boolean;
     disablePanning?: boolean;
@@ -14,6 +14,15 @@ export interface IMarkerIconInfo {
     id?: string;
 
     markerType: MarkerTypeId;
+
+    /**
+     * The name of the creator registered via {@link Marker.RegisterMarkerCreator}. Required for
+     * markers of type {@link MarkerTypeId.Custom}.
+     *
+     * @memberof IMarkerIconInfo
+     */
+    creator?: string;
+
     text?: string;
     fontName?: string;
     fontSize?: number;
@@ -26,6 +35,39 @@ export interface IMarkerIconInfo {
     points?: Array<IPoint>;
     strokeWidth?: number;
     url?: string;
+
+    /**
+     * The svg markup for {@link MarkerTypeId.SvgMarker} markers. The placeholders {color}, {text} and {rotation}
+     * are substituted with the corresponding icon info values. If not supplied, the markup is loaded from the url.
+     *
+     * @memberof IMarkerIconInfo
+     */
+    svg?: string;
+
     scaledSize?: ISize;
     scale?: number;
+
+    /**
+     * The category counts for {@link MarkerTypeId.PieChartMarker} markers. Each category is drawn as a slice
+     * proportional to its count.
+     *
+     * @memberof IMarkerIconInfo
+     */
+    categories?: Map<string, number>;
+
+    /**
+     * The slice colors by category for {@link MarkerTypeId.PieChartMarker} markers. Categories without a color
+     * are drawn using a default palette.
+     *
+     * @memberof IMarkerIconInfo
+     */
+    categoryColors?: Map<string, string>;
+
+    /**
+     * The ratio of the inner to the outer radius for {@link MarkerTypeId.PieChartMarker} markers. 0 (default) draws
+     * a pie, values between 0 and 1 draw a donut.
+     *
+     * @memberof IMarkerIconInfo
+     */
+    innerRadiusRatio?: number;
 }
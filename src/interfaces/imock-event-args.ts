@@ -0,0 +1,16 @@
+import { ILatLong } from './ilatlong';
+import { IPoint } from './ipoint';
+
+/**
+ * Event argument handed to listeners by the in-memory mock provider. It loosely mirrors the mouse event args of the
+ * native providers so that the GetCoordinatesFromClick implementations of the services work against it.
+ *
+ * @export
+ */
+export interface IMockEventArgs {
+    eventName: string;
+    target: any;
+    location?: ILatLong;
+    pixel?: IPoint;
+    [key: string]: any;
+}
@@ -8,4 +8,8 @@ export interface IPolygonEvent {
     Click: MouseEvent;
     OriginalPath?: Array<Array<ILatLong>>;
     NewPath?: Array<Array<ILatLong>>;
+    PathIndex?: number;
+    VertexIndex?: number;
+    Vertex?: ILatLong;
+    PreviousVertex?: ILatLong;
 }
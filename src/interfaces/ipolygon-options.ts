@@ -5,6 +5,8 @@ export interface IPolygonOptions {
     clickable?: boolean;
     draggable?: boolean;
     editable?: boolean;
+    encodedPaths?: string | Array<string>;
+    encodingPrecision?: number;
     fillColor?: string;
     fillOpacity?: number;
     geodesic?: boolean;
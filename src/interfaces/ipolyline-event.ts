@@ -6,4 +6,9 @@ import { IPoint } from './ipoint';
 export interface IPolylineEvent {
     Polyline: MapPolylineDirective|Polyline;
     Click: MouseEvent;
+    OriginalPath?: Array<ILatLong>;
+    NewPath?: Array<ILatLong>;
+    VertexIndex?: number;
+    Vertex?: ILatLong;
+    PreviousVertex?: ILatLong;
 }
@@ -5,6 +5,8 @@ export interface IPolylineOptions {
     clickable?: boolean;
     draggable?: boolean;
     editable?: boolean;
+    encodedPath?: string | Array<string>;
+    encodingPrecision?: number;
     geodesic?: boolean;
     path?: Array<ILatLong> | Array<Array<ILatLong>>;
     showTooltip?: boolean;
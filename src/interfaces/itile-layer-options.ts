@@ -0,0 +1,59 @@
+import { IBox } from './ibox';
+
+export interface ITileLayerOptions {
+    /**
+     * Bounds outside of which no tiles are requested.
+     * @memberof ITileLayerOptions
+     */
+    bounds?: IBox;
+
+    /**
+     * The layer id.
+     * @memberof ITileLayerOptions
+     */
+    id?: number;
+
+    /**
+     * The maximum zoom level at which tiles are shown.
+     * @memberof ITileLayerOptions
+     */
+    maxZoom?: number;
+
+    /**
+     * The minimum zoom level at which tiles are shown.
+     * @memberof ITileLayerOptions
+     */
+    minZoom?: number;
+
+    /**
+     * The opacity of the layer, between 0 and 1.
+     * @memberof ITileLayerOptions
+     */
+    opacity?: number;
+
+    /**
+     * The size of a tile in pixels. Defaults to 256.
+     * @memberof ITileLayerOptions
+     */
+    tileSize?: number;
+
+    /**
+     * The url template of the tiles. Supports the {x}, {y}, {z} (or {zoom}), {quadkey} and {bbox} placeholders, where
+     * {bbox} expands to the WGS84 tile edges as west,south,east,north. Alternatively, a callback constructing the url
+     * from the tile coordinates.
+     * @memberof ITileLayerOptions
+     */
+    tileUrl: string | ((x: number, y: number, zoom: number) => string);
+
+    /**
+     * Whether the layer is visible.
+     * @memberof ITileLayerOptions
+     */
+    visible?: boolean;
+
+    /**
+     * The z-index of the layer.
+     * @memberof ITileLayerOptions
+     */
+    zIndex?: number;
+}
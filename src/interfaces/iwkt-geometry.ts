@@ -0,0 +1,14 @@
+import { ILatLong } from './ilatlong';
+
+/**
+ * Geometry read from or written to Well-Known Text. The shape of coordinates depends on the type: Point (location),
+ * MultiPoint and LineString (path), MultiLineString and Polygon (array of paths), MultiPolygon (array of polygons).
+ * GeometryCollection uses geometries instead of coordinates. Polygon rings do not repeat the first vertex.
+ *
+ * @export
+ */
+export interface IWktGeometry {
+    type: 'Point' | 'MultiPoint' | 'LineString' | 'MultiLineString' | 'Polygon' | 'MultiPolygon' | 'GeometryCollection';
+    coordinates?: ILatLong | Array<ILatLong> | Array<Array<ILatLong>> | Array<Array<Array<ILatLong>>>;
+    geometries?: Array<IWktGeometry>;
+}
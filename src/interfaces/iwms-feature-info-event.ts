@@ -0,0 +1,33 @@
+import { ILatLong } from './ilatlong';
+
+export interface IWmsFeatureInfoEvent {
+    /**
+     * The response body of the GetFeatureInfo request.
+     * @memberof IWmsFeatureInfoEvent
+     */
+    Content: string;
+
+    /**
+     * The content type of the response.
+     * @memberof IWmsFeatureInfoEvent
+     */
+    ContentType: string;
+
+    /**
+     * The clicked location.
+     * @memberof IWmsFeatureInfoEvent
+     */
+    Location: ILatLong;
+
+    /**
+     * The http status of the response, or 0 if the request failed.
+     * @memberof IWmsFeatureInfoEvent
+     */
+    Status: number;
+
+    /**
+     * The GetFeatureInfo request url.
+     * @memberof IWmsFeatureInfoEvent
+     */
+    Url: string;
+}
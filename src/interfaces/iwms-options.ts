@@ -0,0 +1,50 @@
+export interface IWmsOptions {
+    /**
+     * The coordinate reference system of the requests. Supports EPSG:3857 (and its aliases EPSG:900913 and EPSG:102100),
+     * EPSG:4326 and CRS:84. Defaults to EPSG:3857.
+     * @memberof IWmsOptions
+     */
+    crs?: string;
+
+    /**
+     * The image format of the GetMap requests. Defaults to image/png.
+     * @memberof IWmsOptions
+     */
+    format?: string;
+
+    /**
+     * Comma separated list of the layers to request.
+     * @memberof IWmsOptions
+     */
+    layers: string;
+
+    /**
+     * Comma separated list of the styles to request, one per layer. Defaults to the default styles.
+     * @memberof IWmsOptions
+     */
+    styles?: string;
+
+    /**
+     * Whether to request transparent images. Defaults to true.
+     * @memberof IWmsOptions
+     */
+    transparent?: boolean;
+
+    /**
+     * The base url of the WMS service.
+     * @memberof IWmsOptions
+     */
+    url: string;
+
+    /**
+     * Additional (vendor specific) parameters appended to every request.
+     * @memberof IWmsOptions
+     */
+    vendorParams?: { [key: string]: string | number | boolean };
+
+    /**
+     * The WMS version, 1.1.1 or 1.3.0. Defaults to 1.1.1.
+     * @memberof IWmsOptions
+     */
+    version?: string;
+}
@@ -2,6 +2,7 @@ import { ILatLong } from '../../interfaces/ilatlong';
 import { BingConversions } from '../../services/bing/bing-conversions';
 import { CanvasOverlay } from '../canvas-overlay';
 import { MapLabel } from '../map-label';
+import { MapProjection } from '../map-projection';
 import { BingMapLabel } from './bing-label';
 
 /**
@@ -25,7 +26,7 @@ export class BingCanvasOverlay extends CanvasOverlay {
      * rendered for the current map view.
      * @memberof BingCanvasOverlay
      */
-    constructor(drawCallback: (canvas: HTMLCanvasElement) => void) {
+    constructor(drawCallback: (canvas: HTMLCanvasElement, projection: MapProjection) => void) {
         super(drawCallback);
     }
 
@@ -55,6 +56,19 @@ export class BingCanvasOverlay extends CanvasOverlay {
         return (<any>this).getMap();
     }
 
+    /**
+     * Gets a synchronous projection for the current map view.
+     *
+     * @returns - The {@link MapProjection}, or null if the overlay is not associated with a map.
+     * @memberof BingCanvasOverlay
+     * @method
+     */
+    public GetProjection(): MapProjection {
+        const map: Microsoft.Maps.Map = this.GetMap();
+        if (map == null) { return null; }
+        return new MapProjection(<ILatLong>map.getCenter(), map.getZoom(), { width: map.getWidth(), height: map.getHeight() });
+    }
+
     /**
      * Returns a MapLabel instance for the current platform that can be used as a tooltip.
      * This method only generates the map label. Content and placement is the responsibility
@@ -0,0 +1,374 @@
+import { ILatLong } from '../../interfaces/ilatlong';
+import { ICircleOptions } from '../../interfaces/icircle-options';
+import { BingConversions } from '../../services/bing/bing-conversions';
+import { Circle } from '../circle';
+
+/**
+ * Concrete implementation of a circle for Bing Maps V8. Bing does not have a circle primitive, so the circle is
+ * rendered as a {@link Microsoft.Maps.Polygon} approximating the geodesic circle. Dragging is implemented by tracking
+ * the mouse on the map while panning is disabled; editing shows a draggable handle on the east edge of the circle.
+ *
+ * @export
+ */
+export class BingCircle extends Circle {
+
+    ///
+    /// Field declarations
+    ///
+    private _center: ILatLong;
+    private _dragEvents: Array<Microsoft.Maps.IHandlerId> = new Array<Microsoft.Maps.IHandlerId>();
+    private _draggable: boolean = false;
+    private _editable: boolean = false;
+    private _events: Array<Microsoft.Maps.IHandlerId> = new Array<Microsoft.Maps.IHandlerId>();
+    private _handle: Microsoft.Maps.Pushpin = null;
+    private _handleEvents: Array<Microsoft.Maps.IHandlerId> = new Array<Microsoft.Maps.IHandlerId>();
+    private _listeners: Map<string, Array<Function>> = new Map<string, Array<Function>>();
+    private _metadata: Map<string, any> = new Map<string, any>();
+    private _polygon: Microsoft.Maps.Polygon;
+    private _radius: number;
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the circle metadata.
+     *
+     * @readonly
+     * @memberof BingCircle
+     */
+    public get Metadata(): Map<string, any> { return this._metadata; }
+
+    /**
+     * Gets the native primitve implementing the circle, in this case {@link Microsoft.Maps.Polygon}
+     *
+     * @readonly
+     * @memberof BingCircle
+     */
+    public get NativePrimitve(): Microsoft.Maps.Polygon { return this._polygon; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of BingCircle and adds it to the map.
+     * @param _map - The map hosting the circle.
+     * @param options - The circle options. See {@link ICircleOptions}.
+     *
+     * @memberof BingCircle
+     */
+    constructor(private _map: Microsoft.Maps.Map, options: ICircleOptions) {
+        super();
+        this._center = options.center ? { latitude: options.center.latitude, longitude: options.center.longitude } : null;
+        this._radius = options.radius || 0;
+        this._polygon = new Microsoft.Maps.Polygon(this.GetLocations(), BingConversions.TranslateCircleOptions(options));
+        this._map.entities.push(this._polygon);
+        this._events.push(Microsoft.Maps.Events.addHandler(this._polygon, 'mousedown', (e: Microsoft.Maps.IMouseEventArgs) => {
+            if (this._draggable) { this.StartDrag(e); }
+        }));
+        if (options.draggable) { this.SetDraggable(true); }
+        if (options.editable) { this.SetEditable(true); }
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Adds a delegate for an event. In addition to the mouse events, the circle supports the drag, dragend, dragstart,
+     * centerchanged and radiuschanged events raised by user interaction.
+     *
+     * @param eventType - String containing the event name.
+     * @param fn - Delegate function to execute when the event occurs.
+     *
+     * @memberof BingCircle
+     */
+    public AddListener(eventType: string, fn: Function): void {
+        const supportedEvents = ['click', 'dblclick', 'mousedown', 'mouseout', 'mouseover', 'mouseup', 'rightclick'];
+        if (supportedEvents.indexOf(eventType) !== -1) {
+            this._events.push(Microsoft.Maps.Events.addHandler(this._polygon, eventType, e => fn(e)));
+        }
+        else if (eventType === 'mousemove') {
+            let handlerId: Microsoft.Maps.IHandlerId;
+            this._events.push(Microsoft.Maps.Events.addHandler(this._polygon, 'mouseover', e => {
+                handlerId = Microsoft.Maps.Events.addHandler(this._map, 'mousemove', m => fn(m));
+            }));
+            this._events.push(Microsoft.Maps.Events.addHandler(this._polygon, 'mouseout', e => {
+                if (handlerId) { Microsoft.Maps.Events.removeHandler(handlerId); }
+            }));
+        }
+        else {
+            if (!this._listeners.has(eventType)) { this._listeners.set(eventType, new Array<Function>()); }
+            this._listeners.get(eventType).push(fn);
+        }
+    }
+
+    /**
+     * Deletes the circle.
+     *
+     * @memberof BingCircle
+     */
+    public Delete(): void {
+        this.EndDrag();
+        this.SetEditable(false);
+        this._events.forEach(e => Microsoft.Maps.Events.removeHandler(e));
+        this._events.splice(0);
+        this._listeners.clear();
+        this._map.entities.remove(this._polygon);
+    }
+
+    /**
+     * Gets the center of the circle.
+     *
+     * @returns - The center.
+     *
+     * @memberof BingCircle
+     */
+    public GetCenter(): ILatLong {
+        return this._center ? { latitude: this._center.latitude, longitude: this._center.longitude } : null;
+    }
+
+    /**
+     * Gets whether the circle is draggable.
+     *
+     * @returns - True if the circle is dragable, false otherwise.
+     *
+     * @memberof BingCircle
+     */
+    public GetDraggable(): boolean {
+        return this._draggable;
+    }
+
+    /**
+     * Gets whether the circle radius can be edited.
+     *
+     * @returns - True if the radius can be edited, false otherwise.
+     *
+     * @memberof BingCircle
+     */
+    public GetEditable(): boolean {
+        return this._editable;
+    }
+
+    /**
+     * Gets the radius of the circle.
+     *
+     * @returns - The radius in meters.
+     *
+     * @memberof BingCircle
+     */
+    public GetRadius(): number {
+        return this._radius;
+    }
+
+    /**
+     * Gets whether the circle is visible.
+     *
+     * @returns - True if the circle is visible, false otherwise.
+     *
+     * @memberof BingCircle
+     */
+    public GetVisible(): boolean {
+        return this._polygon.getVisible();
+    }
+
+    /**
+     * Sets the center of the circle.
+     *
+     * @param center - The center.
+     *
+     * @memberof BingCircle
+     */
+    public SetCenter(center: ILatLong): void {
+        if (center == null) { return; }
+        if (this._center && this._center.latitude === center.latitude && this._center.longitude === center.longitude) { return; }
+        this._center = { latitude: center.latitude, longitude: center.longitude };
+        this.Redraw();
+    }
+
+    /**
+     * Sets whether the circle is dragable.
+     *
+     * @param draggable - True to make the circle dragable, false otherwise.
+     *
+     * @memberof BingCircle
+     */
+    public SetDraggable(draggable: boolean): void {
+        this._draggable = draggable;
+        this._polygon.setOptions(<Microsoft.Maps.IPolygonOptions>{ cursor: draggable ? 'move' : 'pointer' });
+        if (!draggable) { this.EndDrag(); }
+    }
+
+    /**
+     * Sets wether the circle radius is editable. An editable circle shows a draggable handle on its east edge.
+     *
+     * @param editable - True to show the radius handle, false otherwise.
+     *
+     * @memberof BingCircle
+     */
+    public SetEditable(editable: boolean): void {
+        this._editable = editable;
+        if (editable && this._handle == null) {
+            this._handle = new Microsoft.Maps.Pushpin(this.GetHandleLocation(), {
+                draggable: true,
+                icon: '<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12">' +
+                    '<circle cx="6" cy="6" r="5" fill="white" stroke="black" stroke-width="1"/></svg>',
+                anchor: new Microsoft.Maps.Point(6, 6),
+                visible: this.GetVisible()
+            });
+            this._handleEvents.push(Microsoft.Maps.Events.addHandler(this._handle, 'drag', (e: Microsoft.Maps.IMouseEventArgs) => {
+                this._radius = Circle.GetDistance(this._center, this._handle.getLocation());
+                this._polygon.setLocations(this.GetLocations());
+                this.Invoke('radiuschanged', e);
+            }));
+            this._handleEvents.push(Microsoft.Maps.Events.addHandler(this._handle, 'dragend', () => {
+                this._handle.setLocation(this.GetHandleLocation());
+            }));
+            this._map.entities.push(this._handle);
+        }
+        else if (!editable && this._handle != null) {
+            this._handleEvents.forEach(e => Microsoft.Maps.Events.removeHandler(e));
+            this._handleEvents.splice(0);
+            this._map.entities.remove(this._handle);
+            this._handle = null;
+        }
+    }
+
+    /**
+     * Sets the circle options
+     *
+     * @param options - {@link ICircleOptions} object containing the options. The options are merged with the ones
+     * already on the underlying model.
+     *
+     * @memberof BingCircle
+     */
+    public SetOptions(options: ICircleOptions): void {
+        this._polygon.setOptions(BingConversions.TranslateCircleOptions(options));
+        if (options.center != null) { this.SetCenter(options.center); }
+        if (options.radius != null) { this.SetRadius(options.radius); }
+        if (options.draggable != null) { this.SetDraggable(options.draggable); }
+        if (options.editable != null) { this.SetEditable(options.editable); }
+        if (options.visible != null && this._handle) { this._handle.setOptions({ visible: options.visible }); }
+    }
+
+    /**
+     * Sets the radius of the circle.
+     *
+     * @param radius - The radius in meters.
+     *
+     * @memberof BingCircle
+     */
+    public SetRadius(radius: number): void {
+        if (radius == null || radius === this._radius) { return; }
+        this._radius = radius;
+        this.Redraw();
+    }
+
+    /**
+     * Sets whether the circle is visible.
+     *
+     * @param visible - True to set the circle visible, false otherwise.
+     *
+     * @memberof BingCircle
+     */
+    public SetVisible(visible: boolean): void {
+        this._polygon.setOptions(<Microsoft.Maps.IPolygonOptions>{ visible: visible });
+        if (this._handle) { this._handle.setOptions({ visible: visible }); }
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Stops tracking a drag and restores map panning.
+     *
+     * @memberof BingCircle
+     */
+    private EndDrag(): void {
+        if (this._dragEvents.length === 0) { return; }
+        this._dragEvents.forEach(e => Microsoft.Maps.Events.removeHandler(e));
+        this._dragEvents.splice(0);
+        this._map.setOptions({ disablePanning: false });
+    }
+
+    /**
+     * Gets the location of the radius handle.
+     *
+     * @returns - The point on the east edge of the circle.
+     *
+     * @memberof BingCircle
+     */
+    private GetHandleLocation(): Microsoft.Maps.Location {
+        const l: ILatLong = this._center ? Circle.GetDestination(this._center, this._radius, 90) : { latitude: 0, longitude: 0 };
+        return new Microsoft.Maps.Location(l.latitude, l.longitude);
+    }
+
+    /**
+     * Gets the locations of the polygon approximating the circle.
+     *
+     * @returns - The ring locations.
+     *
+     * @memberof BingCircle
+     */
+    private GetLocations(): Array<Microsoft.Maps.Location> {
+        return Circle.GetGeodesicPath(this._center, this._radius).map(l => new Microsoft.Maps.Location(l.latitude, l.longitude));
+    }
+
+    /**
+     * Invokes the delegates registered for a synthesized event.
+     *
+     * @param eventType - The event.
+     * @param e - The event arguments.
+     *
+     * @memberof BingCircle
+     */
+    private Invoke(eventType: string, e: any): void {
+        const l: Array<Function> = this._listeners.get(eventType);
+        if (l) { l.forEach(fn => fn(e)); }
+    }
+
+    /**
+     * Redraws the polygon and repositions the radius handle for the current center and radius.
+     *
+     * @memberof BingCircle
+     */
+    private Redraw(): void {
+        this._polygon.setLocations(this.GetLocations());
+        if (this._handle) { this._handle.setLocation(this.GetHandleLocation()); }
+    }
+
+    /**
+     * Starts tracking a drag of the circle. Map panning is disabled until the mouse is released.
+     *
+     * @param e - The mousedown event on the polygon.
+     *
+     * @memberof BingCircle
+     */
+    private StartDrag(e: Microsoft.Maps.IMouseEventArgs): void {
+        if (!e.location || !this._center || this._dragEvents.length > 0) { return; }
+        const start: ILatLong = { latitude: e.location.latitude, longitude: e.location.longitude };
+        const origin: ILatLong = this.GetCenter();
+        let moved: boolean = false;
+        this._map.setOptions({ disablePanning: true });
+        this._dragEvents.push(Microsoft.Maps.Events.addHandler(this._map, 'mousemove', (m: Microsoft.Maps.IMouseEventArgs) => {
+            if (!m.location) { return; }
+            if (!moved) {
+                moved = true;
+                this.Invoke('dragstart', e);
+            }
+            this._center = {
+                latitude: Math.max(-90, Math.min(90, origin.latitude + m.location.latitude - start.latitude)),
+                longitude: origin.longitude + m.location.longitude - start.longitude
+            };
+            this.Redraw();
+            this.Invoke('drag', m);
+            this.Invoke('centerchanged', m);
+        }));
+        this._dragEvents.push(Microsoft.Maps.Events.addHandler(this._map, 'mouseup', (m: Microsoft.Maps.IMouseEventArgs) => {
+            this.EndDrag();
+            if (moved) { this.Invoke('dragend', m); }
+        }));
+    }
+}
@@ -0,0 +1,257 @@
+import { IBox } from '../../interfaces/ibox';
+import { ICluster } from '../../interfaces/icluster';
+import { IClusterEngineOptions } from '../../interfaces/icluster-engine-options';
+import { IClusterOptions } from '../../interfaces/icluster-options';
+import { BingConversions } from '../../services/bing/bing-conversions';
+import { ClusterEngine } from '../cluster-engine';
+import { ClusterPlacementMode } from '../cluster-placement-mode';
+
+/**
+ * Implementation of the Bing Maps cluster layer contract backed by the built-in {@link ClusterEngine}. The adapter renders
+ * individual and cluster pushpins into a regular {@link Microsoft.Maps.Layer} and forwards the layer events, so it can be used
+ * by {@link BingClusterLayer} in place of a {@link Microsoft.Maps.ClusterLayer}. Cluster pushpins expose the
+ * containedPushpins and gridKey properties of a {@link Microsoft.Maps.ClusterPushpin}.
+ *
+ * @export
+ */
+export class BingClusterEngineAdapter {
+
+    ///
+    /// Field declarations
+    ///
+    private _clusterPins: Map<number, Microsoft.Maps.Pushpin> = new Map<number, Microsoft.Maps.Pushpin>();
+    private _engine: ClusterEngine<Microsoft.Maps.Pushpin>;
+    private _events: Array<Microsoft.Maps.IHandlerId> = new Array<Microsoft.Maps.IHandlerId>();
+    private _layer: Microsoft.Maps.Layer;
+    private _options: Microsoft.Maps.IClusterLayerOptions = {
+        clusteringEnabled: true,
+        gridSize: 45,
+        visible: true
+    };
+    private _pushpins: Array<Microsoft.Maps.Pushpin> = new Array<Microsoft.Maps.Pushpin>();
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the native layer the adapter renders into.
+     *
+     * @readonly
+     * @memberof BingClusterEngineAdapter
+     */
+    public get NativeLayer(): Microsoft.Maps.Layer { return this._layer; }
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * Determines whether a primitive is a cluster pushpin created by the adapter.
+     *
+     * @param primitive - The primitive to test.
+     * @returns - True if the primitive represents a cluster, false otherwise.
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    public static IsClusterPushpin(primitive: any): boolean {
+        return primitive instanceof Microsoft.Maps.Pushpin && Array.isArray((<any>primitive).containedPushpins);
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of BingClusterEngineAdapter.
+     *
+     * @param _map - The map on which to render the clusters.
+     * @param options - The options governing the clustering. See {@link IClusterOptions}.
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    constructor(private _map: Microsoft.Maps.Map, options: IClusterOptions) {
+        const o: IClusterEngineOptions = {
+            gridSize: options.gridSize,
+            maxZoom: options.maxZoom,
+            minimumClusterSize: options.minimumClusterSize,
+            placementMode: options.placementMode
+        };
+        this._engine = new ClusterEngine<Microsoft.Maps.Pushpin>(o);
+        this._layer = new Microsoft.Maps.Layer();
+        ['click', 'dblclick', 'mousedown', 'mouseout', 'mouseover', 'mouseup', 'rightclick'].forEach(n => {
+            this._events.push(Microsoft.Maps.Events.addHandler(this._layer, n, e => Microsoft.Maps.Events.invoke(this, n, e)));
+        });
+        this._events.push(Microsoft.Maps.Events.addHandler(this._map, 'viewchangeend', () => this.Render()));
+        this.setOptions(BingConversions.TranslateClusterOptions(options));
+    }
+
+    ///
+    /// Public methods, Microsoft.Maps.ClusterLayer implementation
+    ///
+
+    /**
+     * Removes all pushpins from the layer.
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    public clear(): void {
+        this.setPushpins(new Array<Microsoft.Maps.Pushpin>());
+    }
+
+    /**
+     * Releases the resources held by the adapter.
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    public dispose(): void {
+        this._events.forEach(e => Microsoft.Maps.Events.removeHandler(e));
+        this._events.splice(0);
+        this._layer.clear();
+        this._clusterPins.clear();
+    }
+
+    /**
+     * Gets the individual and cluster pushpins currently rendered.
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    public getDisplayedPushpins(): Array<Microsoft.Maps.Pushpin> {
+        return <Array<Microsoft.Maps.Pushpin>>this._layer.getPrimitives();
+    }
+
+    /**
+     * Gets the cluster pushpin for a grid key.
+     *
+     * @param gridKey - The grid key (cluster id).
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    public getClusterPushpinByGridKey(gridKey: number): Microsoft.Maps.Pushpin {
+        return this._clusterPins.get(gridKey);
+    }
+
+    /**
+     * Gets the layer options.
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    public getOptions(): Microsoft.Maps.IClusterLayerOptions {
+        return Object.assign({}, this._options);
+    }
+
+    /**
+     * Gets the pushpins in the layer.
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    public getPushpins(): Array<Microsoft.Maps.Pushpin> {
+        return this._pushpins.slice(0);
+    }
+
+    /**
+     * Gets the pushpins in the cluster for a grid key.
+     *
+     * @param gridKey - The grid key (cluster id).
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    public getPushpinsByGridKey(gridKey: number): Array<Microsoft.Maps.Pushpin> {
+        return this._engine.GetItems(gridKey);
+    }
+
+    /**
+     * Sets the layer options. The supplied options are merged with the existing options.
+     *
+     * @param options - The options to set.
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    public setOptions(options: Microsoft.Maps.IClusterLayerOptions): void {
+        const o: any = options;
+        const engineOptions: IClusterEngineOptions = {};
+        if (o.gridSize != null) { engineOptions.gridSize = o.gridSize; }
+        if (o.placementMode != null || o.clusterPlacementType != null) {
+            const t: Microsoft.Maps.ClusterPlacementType = o.clusterPlacementType != null ? o.clusterPlacementType : o.placementMode;
+            engineOptions.placementMode = t === Microsoft.Maps.ClusterPlacementType.FirstLocation ?
+                ClusterPlacementMode.FirstPin : ClusterPlacementMode.MeanValue;
+        }
+        Object.keys(o).filter(k => o[k] !== undefined).forEach(k => (<any>this._options)[k] = o[k]);
+        if (options.visible != null) { this._layer.setVisible(options.visible); }
+        if (options.zIndex != null) { this._layer.setZIndex(options.zIndex); }
+        if (Object.keys(engineOptions).length > 0) { this._engine.SetOptions(engineOptions); }
+        this.Render();
+    }
+
+    /**
+     * Sets the pushpins in the layer. This replaces any existing pushpins.
+     *
+     * @param pushpins - The pushpins to cluster.
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    public setPushpins(pushpins: Array<Microsoft.Maps.Pushpin>): void {
+        this._pushpins = pushpins.slice(0);
+        this._engine.Load(this._pushpins, p => {
+            const l: Microsoft.Maps.Location = p.getLocation();
+            return l ? { latitude: l.latitude, longitude: l.longitude } : null;
+        });
+        this.Render();
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Creates the pushpin representing a cluster.
+     *
+     * @param cluster - The cluster to represent.
+     * @returns - The cluster pushpin.
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    private CreateClusterPushpin(cluster: ICluster<Microsoft.Maps.Pushpin>): Microsoft.Maps.Pushpin {
+        const loc: Microsoft.Maps.Location = new Microsoft.Maps.Location(cluster.location.latitude, cluster.location.longitude);
+        const pin: Microsoft.Maps.Pushpin = new Microsoft.Maps.Pushpin(loc, { text: cluster.count.toString() });
+        (<any>pin).containedPushpins = cluster.items;
+        (<any>pin).gridKey = cluster.id;
+        if (this._options.clusteredPinCallback) { this._options.clusteredPinCallback(<Microsoft.Maps.ClusterPushpin>pin); }
+        return pin;
+    }
+
+    /**
+     * Renders the clusters for the current map view.
+     *
+     * @memberof BingClusterEngineAdapter
+     */
+    private Render(): void {
+        const primitives: Array<Microsoft.Maps.Pushpin> = new Array<Microsoft.Maps.Pushpin>();
+        this._clusterPins.clear();
+        if (!this._options.clusteringEnabled) {
+            primitives.push(...this._pushpins);
+        }
+        else {
+            const b: Microsoft.Maps.LocationRect = this._map.getBounds();
+            const box: IBox = {
+                maxLatitude: b.getNorth(),
+                maxLongitude: b.getEast(),
+                minLatitude: b.getSouth(),
+                minLongitude: b.getWest()
+            };
+            const clusters: Array<ICluster<Microsoft.Maps.Pushpin>> = this._engine.GetClusters(box, this._map.getZoom());
+            clusters.forEach(c => {
+                if (c.count === 1) {
+                    primitives.push(c.items[0]);
+                }
+                else {
+                    const pin: Microsoft.Maps.Pushpin = this.CreateClusterPushpin(c);
+                    this._clusterPins.set(c.id, pin);
+                    primitives.push(pin);
+                }
+            });
+        }
+        this._layer.setPrimitives(primitives);
+        if (this._options.callback) { this._options.callback(); }
+    }
+}
@@ -6,6 +6,7 @@ import { MapService } from '../../services/map.service';
 import { Layer } from '../layer';
 import { Marker } from '../marker';
 import { InfoWindow } from '../info-window';
+import { BingClusterEngineAdapter } from './bing-cluster-engine-adapter';
 import { BingSpiderClusterMarker } from './bing-spider-cluster-marker';
 import { BingMarker } from './bing-marker';
 
@@ -14,7 +15,7 @@ import { BingMarker } from './bing-marker';
  *
  * @export
  */
-export class BingClusterLayer implements Layer {
+export class BingClusterLayer extends Layer implements Layer {
 
     ///
     /// Field declarations
@@ -56,7 +57,7 @@ export class BingClusterLayer implements Layer {
     /**
      * Get the native primitive underneath the abstraction layer.
      *
-     * @returns Microsoft.Maps.ClusterLayer.
+     * @returns Microsoft.Maps.ClusterLayer, or the {@link BingClusterEngineAdapter} when using the built-in cluster engine.
      *
      * @memberof BingClusterLayer
      */
@@ -71,12 +72,15 @@ export class BingClusterLayer implements Layer {
     /**
      * Creates a new instance of the BingClusterLayer class.
      *
-     * @param _layer Microsoft.Maps.ClusterLayer. Native Bing Cluster Layer supporting the cluster layer.
+     * @param _layer Microsoft.Maps.ClusterLayer | BingClusterEngineAdapter. Native Bing Cluster Layer supporting the cluster
+     * layer, or a {@link BingClusterEngineAdapter} when using the built-in cluster engine.
      * @param _maps MapService. MapService implementation to leverage for the layer.
      *
      * @memberof BingClusterLayer
      */
-    constructor(private _layer: Microsoft.Maps.ClusterLayer, private _maps: MapService) { }
+    constructor(private _layer: Microsoft.Maps.ClusterLayer | BingClusterEngineAdapter, private _maps: MapService) {
+        super();
+    }
 
 
     ///
@@ -211,6 +215,17 @@ export class BingClusterLayer implements Layer {
         this._maps.DeleteLayer(this);
     }
 
+    /**
+     * Returns the entities currently held by the layer.
+     *
+     * @returns - Array of the entities in the layer.
+     *
+     * @memberof BingClusterLayer
+     */
+    public GetEntities(): Array<Marker> {
+        return this._markers.concat(this._pendingMarkers);
+    }
+
     /**
      * Returns the abstract marker used to wrap the Bing Pushpin.
      *
@@ -434,7 +449,7 @@ export class BingClusterLayer implements Layer {
      * @memberof BingClusterLayer
      */
     private OnLayerClick(e: Microsoft.Maps.IMouseEventArgs): void {
-        if (e.primitive instanceof Microsoft.Maps.ClusterPushpin) {
+        if (e.primitive instanceof Microsoft.Maps.ClusterPushpin || BingClusterEngineAdapter.IsClusterPushpin(e.primitive)) {
             const cp: Microsoft.Maps.ClusterPushpin = <Microsoft.Maps.ClusterPushpin>e.primitive;
             const showNewCluster: boolean = cp !== this._currentCluster;
             this.HideSpiderCluster();
@@ -0,0 +1,129 @@
+import { IPoint } from '../../interfaces/ipoint';
+import { IGroundOverlayOptions } from '../../interfaces/iground-overlay-options';
+import { GroundOverlay } from '../ground-overlay';
+
+/**
+ * Concrete implementation of a {@link GroundOverlay} for Bing Maps. The image is hosted in a
+ * {@link Microsoft.Maps.CustomOverlay} and repositioned as the map view changes.
+ *
+ * @export
+ */
+export class BingGroundOverlay extends GroundOverlay {
+
+    ///
+    /// Field declarations
+    ///
+    private _events: Array<Microsoft.Maps.IHandlerId> = new Array<Microsoft.Maps.IHandlerId>();
+    private _overlay: Microsoft.Maps.CustomOverlay;
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the native custom overlay hosting the image.
+     *
+     * @readonly
+     * @memberof BingGroundOverlay
+     */
+    public get NativePrimitve(): Microsoft.Maps.CustomOverlay { return this._overlay; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of BingGroundOverlay and adds it to the map.
+     * @param _map - The map hosting the overlay.
+     * @param options - The overlay options. See {@link IGroundOverlayOptions}.
+     *
+     * @memberof BingGroundOverlay
+     */
+    constructor(private _map: Microsoft.Maps.Map, options: IGroundOverlayOptions) {
+        super(options);
+        this._overlay = new Microsoft.Maps.CustomOverlay({ beneathLabels: true });
+        const o: any = this._overlay;
+        o.onAdd = () => o.setHtmlElement(this._image);
+        o.onLoad = () => {
+            this._events.push(Microsoft.Maps.Events.addHandler(this._map, 'viewchange', () => this.Draw()));
+            this._events.push(Microsoft.Maps.Events.addHandler(this._map, 'mapresize', () => this.Draw()));
+            this._events.push(Microsoft.Maps.Events.addHandler(this._map, 'click',
+                (e: Microsoft.Maps.IMouseEventArgs) => this.OnMapClick(e)));
+            this.Draw();
+        };
+        o.onRemove = () => {
+            this._events.forEach(e => Microsoft.Maps.Events.removeHandler(e));
+            this._events.splice(0);
+        };
+        this._map.layers.insert(this._overlay);
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Removes the overlay from the map.
+     *
+     * @memberof BingGroundOverlay
+     */
+    public Delete(): void {
+        this._map.layers.remove(this._overlay);
+    }
+
+    ///
+    /// Protected methods
+    ///
+
+    /**
+     * Positions the image element for the current map view.
+     *
+     * @memberof BingGroundOverlay
+     */
+    protected Draw(): void {
+        if (this._options.visible === false || this._options.bounds == null) { return; }
+        const c: Array<IPoint> = this.GetCorners();
+        if (c) { this.Position(c[0], c[1]); }
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Gets the control pixels of the north west and south east corners of the bounds.
+     *
+     * @returns - The corners, or null if they cannot be projected.
+     *
+     * @memberof BingGroundOverlay
+     */
+    private GetCorners(): Array<IPoint> {
+        const b = this._options.bounds;
+        const p: Array<Microsoft.Maps.Point> = <Array<Microsoft.Maps.Point>>this._map.tryLocationToPixel([
+            new Microsoft.Maps.Location(b.maxLatitude, b.minLongitude),
+            new Microsoft.Maps.Location(b.minLatitude, b.maxLongitude)
+        ], Microsoft.Maps.PixelReference.control);
+        if (!p || !p[0] || !p[1]) { return null; }
+        const nw: IPoint = { x: p[0].x, y: p[0].y };
+        const se: IPoint = { x: p[1].x, y: p[1].y };
+        if (b.minLongitude > b.maxLongitude && se.x < nw.x) { se.x += 256 * Math.pow(2, this._map.getZoom()); }
+        return [nw, se];
+    }
+
+    /**
+     * Invokes the click listeners if a map click falls on the image.
+     *
+     * @param e - The map mouse event.
+     *
+     * @memberof BingGroundOverlay
+     */
+    private OnMapClick(e: Microsoft.Maps.IMouseEventArgs): void {
+        if (!e.location || !this._listeners.has('click')) { return; }
+        const c: Array<IPoint> = this.GetCorners();
+        const p: Microsoft.Maps.Point =
+            <Microsoft.Maps.Point>this._map.tryLocationToPixel(e.location, Microsoft.Maps.PixelReference.control);
+        if (c && p && this.Contains({ x: p.x, y: p.y }, c[0], c[1])) {
+            this.Invoke('click', { latitude: e.location.latitude, longitude: e.location.longitude }, e);
+        }
+    }
+}
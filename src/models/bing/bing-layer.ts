@@ -13,8 +13,9 @@ import { MapService} from '../../services/map.service';
  *
  * @export
  */
-export class BingLayer implements Layer {
+export class BingLayer extends Layer implements Layer {
 
+    private _entities: Array<Marker|InfoWindow|Polygon|Polyline> = new Array<Marker|InfoWindow|Polygon|Polyline>();
     private _pendingEntities: Array<Marker|InfoWindow|Polygon|Polyline> = new Array<Marker|InfoWindow|Polygon|Polyline>();
 
     ///
@@ -44,7 +45,9 @@ export class BingLayer implements Layer {
      *
      * @memberof BingLayer
      */
-    constructor(private _layer: Microsoft.Maps.Layer, private _maps: MapService) { }
+    constructor(private _layer: Microsoft.Maps.Layer, private _maps: MapService) {
+        super();
+    }
 
 
     ///
@@ -75,6 +78,7 @@ export class BingLayer implements Layer {
      */
     public AddEntity(entity: Marker|InfoWindow|Polygon|Polyline): void {
         if (entity && entity.NativePrimitve) {
+            this._entities.push(entity);
             if (this.GetVisible()) {
                 this._layer.add(entity.NativePrimitve);
             }
@@ -93,19 +97,9 @@ export class BingLayer implements Layer {
      * @memberof BingLayer
      */
     public AddEntities(entities: Array<Marker|InfoWindow|Polygon|Polyline>): void {
-        //
-        // use eachSeries as opposed to _layer.add([]) to provide a non-blocking experience for larger data sets.
-        //
         if (entities != null && Array.isArray(entities) && entities.length !== 0 ) {
-            eachSeries([...entities], (e, next) => {
-                if (this.GetVisible()) {
-                    this._layer.add(e.NativePrimitve);
-                }
-                else {
-                    this._pendingEntities.push(e);
-                }
-                nextTick(() => next());
-            });
+            this._entities.push(...entities);
+            this.AddNativeEntities(entities);
         }
     }
 
@@ -118,6 +112,17 @@ export class BingLayer implements Layer {
         this._maps.DeleteLayer(this);
     }
 
+    /**
+     * Returns the entities currently held by the layer.
+     *
+     * @returns - Array of the entities in the layer.
+     *
+     * @memberof BingLayer
+     */
+    public GetEntities(): Array<Marker|InfoWindow|Polygon|Polyline> {
+        return this._entities.slice(0);
+    }
+
     /**
      * Returns the options governing the behavior of the layer.
      *
@@ -152,6 +157,10 @@ export class BingLayer implements Layer {
      */
     public RemoveEntity(entity: Marker|InfoWindow|Polygon|Polyline): void {
         if (entity.NativePrimitve) {
+            const i: number = this._entities.indexOf(entity);
+            if (i > -1) { this._entities.splice(i, 1); }
+            const j: number = this._pendingEntities.indexOf(entity);
+            if (j > -1) { this._pendingEntities.splice(j, 1); }
             this._layer.remove(entity.NativePrimitve);
         }
     }
@@ -169,6 +178,8 @@ export class BingLayer implements Layer {
         // we are using removal and add as opposed to set as for large number of objects it yields a non-blocking, smoother performance...
         //
         this._layer.setPrimitives([]);
+        this._entities.splice(0);
+        this._pendingEntities.splice(0);
         this.AddEntities(entities);
 
     }
@@ -195,8 +206,35 @@ export class BingLayer implements Layer {
     public SetVisible(visible: boolean): void {
         this._layer.setVisible(visible);
         if (visible && this._pendingEntities.length > 0) {
-            this.AddEntities(this._pendingEntities.splice(0));
+            this.AddNativeEntities(this._pendingEntities.splice(0));
         }
     }
 
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Adds the native primitives of the entities to the layer. If the layer is not visible, the entities
+     * are queued until the layer becomes visible.
+     *
+     * @param entities Array<Marker|InfoWindow|Polygon|Polyline>. Entities to add to the layer.
+     *
+     * @memberof BingLayer
+     */
+    private AddNativeEntities(entities: Array<Marker|InfoWindow|Polygon|Polyline>): void {
+        //
+        // use eachSeries as opposed to _layer.add([]) to provide a non-blocking experience for larger data sets.
+        //
+        eachSeries([...entities], (e, next) => {
+            if (this.GetVisible()) {
+                this._layer.add(e.NativePrimitve);
+            }
+            else {
+                this._pendingEntities.push(e);
+            }
+            nextTick(() => next());
+        });
+    }
+
 }
@@ -10,7 +10,7 @@ import { BingConversions } from '../../services/bing/bing-conversions';
  *
  * @export
  */
-export class BingMarker implements Marker {
+export class BingMarker extends Marker implements Marker {
 
     ///
     /// Field definitions
@@ -81,7 +81,9 @@ export class BingMarker implements Marker {
      *
      * @memberof BingMarker
      */
-    constructor(private _pushpin: Microsoft.Maps.Pushpin, protected _map: Microsoft.Maps.Map, protected _layer: Microsoft.Maps.Layer) { }
+    constructor(private _pushpin: Microsoft.Maps.Pushpin, protected _map: Microsoft.Maps.Map, protected _layer: Microsoft.Maps.Layer) {
+        super();
+    }
 
     ///
     /// Public methods
@@ -128,6 +130,15 @@ export class BingMarker implements Marker {
         return this._pushpin.getText();
     }
 
+    /**
+     * Gets the marker title
+     *
+     * @memberof BingMarker
+     */
+    public GetTitle(): string {
+        return this._pushpin.getTitle();
+    }
+
     /**
      * Gets whether the marker is visible.
      *
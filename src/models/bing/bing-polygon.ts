@@ -5,6 +5,8 @@ import { BingConversions } from '../../services/bing/bing-conversions';
 import { BingMapService } from '../../services/bing/bing-map.service';
 import { Polygon } from '../polygon';
 import { BingMapLabel } from './bing-label';
+import { BingVertexTracker } from './bing-vertex-tracker';
+import { PolylineEncoding } from '../polyline-encoding';
 
 /**
  * Concrete implementation for a polygon model for Bing Maps V8.
@@ -32,7 +34,8 @@ export class BingPolygon extends Polygon implements Polygon {
     private _mouseOutListener: Microsoft.Maps.IHandlerId;
     private _metadata: Map<string, any> = new Map<string, any>();
     private _originalPath: Array<Array<ILatLong>>;
-    private _editingCompleteEmitter: (event: IPolygonEvent) => void;
+    private _editListeners: Map<string, Array<(event: IPolygonEvent) => void>> = new Map<string, Array<(event: IPolygonEvent) => void>>();
+    private _vertexTracker: BingVertexTracker;
 
     ///
     /// Property declarations
@@ -137,10 +140,20 @@ export class BingPolygon extends Polygon implements Polygon {
         super();
         this._map = this._mapService.MapInstance;
         this._originalPath = this.GetPaths();
+        this._vertexTracker = new BingVertexTracker(this._polygon, () => this.GetPaths(), true,
+            (eventType, pathIndex, vertexIndex, vertex, previous) => this.Emit(eventType, {
+                Click: null,
+                Polygon: this,
+                PathIndex: pathIndex,
+                VertexIndex: vertexIndex,
+                Vertex: vertex,
+                PreviousVertex: previous
+            }));
     }
 
     /**
-     * Adds a delegate for an event.
+     * Adds a delegate for an event. In addition to the mouse events, the pathchanged event is raised when editing
+     * completes and the vertexinserted, vertexmoved and vertexremoved events are raised as the user edits the path.
      *
      * @param eventType - String containing the event name.
      * @param fn - Delegate function to execute when the event occurs.
@@ -162,8 +175,9 @@ export class BingPolygon extends Polygon implements Polygon {
             Microsoft.Maps.Events.addHandler(this._polygon, 'mouseout', e => {
                 if (handlerId) { Microsoft.Maps.Events.removeHandler(handlerId); }
             });
-        } if (eventType === 'pathchanged') {
-            this._editingCompleteEmitter = <(event: IPolygonEvent) => void>fn;
+        } if (['pathchanged', 'vertexinserted', 'vertexmoved', 'vertexremoved'].indexOf(eventType) !== -1) {
+            if (!this._editListeners.has(eventType)) { this._editListeners.set(eventType, []); }
+            this._editListeners.get(eventType).push(<(event: IPolygonEvent) => void>fn);
         }
     }
 
@@ -173,6 +187,7 @@ export class BingPolygon extends Polygon implements Polygon {
      * @memberof BingPolygon
      */
     public Delete(): void {
+        this._vertexTracker.Stop();
         if (this._layer) { this._layer.remove(this.NativePrimitve); }
         else {
             this._map.entities.remove(this.NativePrimitve);
@@ -218,6 +233,7 @@ export class BingPolygon extends Polygon implements Polygon {
      * @memberof BingPolygon
      */
     public GetPath(): Array<ILatLong> {
+        if (this._fullResolutionPaths != null) { return this._fullResolutionPaths.length > 0 ? this._fullResolutionPaths[0] : []; }
         const p: Array<Microsoft.Maps.Location> = this._polygon.getLocations();
         const path: Array<ILatLong> = new Array<ILatLong>();
         p.forEach(l => path.push({ latitude: l.latitude, longitude: l.longitude }));
@@ -232,6 +248,7 @@ export class BingPolygon extends Polygon implements Polygon {
      * @memberof BingPolygon
      */
     public GetPaths(): Array<Array<ILatLong>> {
+        if (this._fullResolutionPaths != null) { return this._fullResolutionPaths; }
         const p: Array<Array<Microsoft.Maps.Location>> = this._polygon.getRings();
         const paths: Array<Array<ILatLong>> = new Array<Array<ILatLong>>();
         p.forEach(x => {
@@ -286,22 +303,26 @@ export class BingPolygon extends Polygon implements Polygon {
         }
 
         if (this._isEditable) {
+            if (this._fullResolutionPaths != null) { this.SetPaths(this._fullResolutionPaths); }
             this._originalPath = this.GetPaths();
             this._mapService.GetDrawingTools().then(t => {
                 t.edit(this._polygon);
+                this._vertexTracker.Start(t);
             });
         }
         else {
             this._mapService.GetDrawingTools().then(t => {
                 t.finish((editedPolygon: Microsoft.Maps.Polygon) => {
-                    if (editedPolygon !== this._polygon || !this._editingCompleteEmitter) {
+                    if (editedPolygon !== this._polygon) {
                         return;
                     }
+                    this._vertexTracker.Update();
+                    this._vertexTracker.Stop();
                     const newPath: Array<Array<ILatLong>> = this.GetPaths();
                     const originalPath: Array<Array<ILatLong>> = this._originalPath;
                     this.SetPaths(newPath);
                         // this is necessary for the new path to persist it appears.
-                    this._editingCompleteEmitter({
+                    this.Emit('pathchanged', {
                         Click: null,
                         Polygon: this,
                         OriginalPath: originalPath,
@@ -321,6 +342,7 @@ export class BingPolygon extends Polygon implements Polygon {
      * @memberof Polygon
      */
     public SetOptions(options: IPolygonOptions): void {
+        options = PolylineEncoding.ResolvePolygonOptions(options);
         const o: Microsoft.Maps.IPolygonOptions = BingConversions.TranslatePolygonOptions(options);
         this._polygon.setOptions(o);
         if (options.visible != null && this._showLabel && this._label) { this._label.Set('hidden', !options.visible); }
@@ -338,10 +360,12 @@ export class BingPolygon extends Polygon implements Polygon {
      * @memberof BingPolygon
      */
     public SetPath(path: Array<ILatLong>): void {
+        this._fullResolutionPaths = null;
         const p: Array<Microsoft.Maps.Location> = new Array<Microsoft.Maps.Location>();
         path.forEach(x => p.push(new Microsoft.Maps.Location(x.latitude, x.longitude)));
         this._originalPath = [path];
         this._polygon.setLocations(p);
+        this._vertexTracker.Reset();
         if (this._label) {
             this._centroid = null;
             this.ManageLabel();
@@ -359,6 +383,7 @@ export class BingPolygon extends Polygon implements Polygon {
     public SetPaths(paths: Array<Array<ILatLong>> | Array<ILatLong>): void {
         if (paths == null) { return; }
         if (!Array.isArray(paths)) { return; }
+        this._fullResolutionPaths = null;
         if (paths.length === 0) {
             this._polygon.setRings(new Array<Microsoft.Maps.Location>());
             if (this._label) {
@@ -377,6 +402,7 @@ export class BingPolygon extends Polygon implements Polygon {
             });
             this._originalPath = <Array<Array<ILatLong>>>paths;
             this._polygon.setRings(p);
+            this._vertexTracker.Reset();
             if (this._label) {
                 this._centroid = null;
                 this.ManageLabel();
@@ -404,6 +430,19 @@ export class BingPolygon extends Polygon implements Polygon {
     /// Private methods
     ///
 
+    /**
+     * Invokes the delegates registered for an edit event.
+     *
+     * @param eventType - The event name.
+     * @param e - The event arguments.
+     *
+     * @memberof BingPolygon
+     */
+    private Emit(eventType: string, e: IPolygonEvent): void {
+        const listeners: Array<(event: IPolygonEvent) => void> = this._editListeners.get(eventType);
+        if (listeners) { listeners.forEach(fn => fn(e)); }
+    }
+
     /**
      * Configures the label for the polygon
      * @memberof Polygon
@@ -1,8 +1,12 @@
 import { ILatLong } from '../../interfaces/ilatlong';
 import { IPolylineOptions } from '../../interfaces/ipolyline-options';
+import { IPolylineEvent } from '../../interfaces/ipolyline-event';
 import { BingConversions } from '../../services/bing/bing-conversions';
+import { BingMapService } from '../../services/bing/bing-map.service';
 import { Polyline } from '../polyline';
 import { BingMapLabel } from './bing-label';
+import { BingVertexTracker } from './bing-vertex-tracker';
+import { PolylineEncoding } from '../polyline-encoding';
 
 /**
  * Concrete implementation for a polyline model for Bing Maps V8.
@@ -14,7 +18,11 @@ export class BingPolyline extends Polyline implements Polyline {
     ///
     /// Field declarations
     ///
-    private _isEditable: boolean = true;
+    private _drawingTools: Promise<Microsoft.Maps.DrawingTools> = null;
+    private _isEditable: boolean = false;
+    private _originalPath: Array<ILatLong>;
+    private _editListeners: Map<string, Array<(event: IPolylineEvent) => void>> = new Map<string, Array<(event: IPolylineEvent) => void>>();
+    private _vertexTracker: BingVertexTracker;
 
     ///
     /// Property declarations
@@ -80,14 +88,31 @@ export class BingPolyline extends Polyline implements Polyline {
      * @param _polyline - The {@link Microsoft.Maps.Polyline} underlying the model.
      * @param _map - The context map.
      * @param _layer - The context layer.
+     * @param [_mapService=null] - Instance of the Map Service. Editing uses its shared drawing tools when provided, or a
+     * private instance of the drawing tools otherwise.
      * @memberof BingPolyline
      */
-    constructor(private _polyline: Microsoft.Maps.Polyline, protected _map: Microsoft.Maps.Map, protected _layer: Microsoft.Maps.Layer) {
+    constructor(
+        private _polyline: Microsoft.Maps.Polyline,
+        protected _map: Microsoft.Maps.Map,
+        protected _layer: Microsoft.Maps.Layer,
+        protected _mapService: BingMapService = null
+    ) {
         super();
+        this._originalPath = this.GetPath();
+        this._vertexTracker = new BingVertexTracker(this._polyline, () => [this.GetPath()], false,
+            (eventType, pathIndex, vertexIndex, vertex, previous) => this.Emit(eventType, {
+                Click: null,
+                Polyline: this,
+                VertexIndex: vertexIndex,
+                Vertex: vertex,
+                PreviousVertex: previous
+            }));
     }
 
     /**
-     * Adds a delegate for an event.
+     * Adds a delegate for an event. In addition to the mouse events, the pathchanged event is raised when editing
+     * completes and the vertexinserted, vertexmoved and vertexremoved events are raised as the user edits the path.
      *
      * @param eventType - String containing the event name.
      * @param fn - Delegate function to execute when the event occurs.
@@ -109,6 +134,10 @@ export class BingPolyline extends Polyline implements Polyline {
                 if (handlerId) { Microsoft.Maps.Events.removeHandler(handlerId); }
             });
         }
+        if (['pathchanged', 'vertexinserted', 'vertexmoved', 'vertexremoved'].indexOf(eventType) !== -1) {
+            if (!this._editListeners.has(eventType)) { this._editListeners.set(eventType, []); }
+            this._editListeners.get(eventType).push(<(event: IPolylineEvent) => void>fn);
+        }
     }
 
     /**
@@ -117,6 +146,7 @@ export class BingPolyline extends Polyline implements Polyline {
      * @memberof BingPolyline
      */
     public Delete(): void {
+        this._vertexTracker.Stop();
         if (this._layer) { this._layer.remove(this.NativePrimitve); }
         else {
             this._map.entities.remove(this.NativePrimitve);
@@ -161,6 +191,7 @@ export class BingPolyline extends Polyline implements Polyline {
      * @memberof BingPolyline
      */
     public GetPath(): Array<ILatLong> {
+        if (this._fullResolutionPath != null) { return this._fullResolutionPath; }
         const p: Array<Microsoft.Maps.Location> = this._polyline.getLocations();
         const path: Array<ILatLong> = new Array<ILatLong>();
         p.forEach(l => path.push({ latitude: l.latitude, longitude: l.longitude }));
@@ -204,7 +235,40 @@ export class BingPolyline extends Polyline implements Polyline {
      * @memberof BingPolyline
      */
     public SetEditable(editable: boolean): void {
+        const isChanged = this._isEditable !== editable;
         this._isEditable = editable;
+        if (!isChanged) {
+            return;
+        }
+
+        if (this._isEditable) {
+            if (this._fullResolutionPath != null) { this.SetPath(this._fullResolutionPath); }
+            this._originalPath = this.GetPath();
+            this.GetDrawingTools().then(t => {
+                t.edit(this._polyline);
+                this._vertexTracker.Start(t);
+            });
+        }
+        else {
+            this.GetDrawingTools().then(t => {
+                t.finish((editedPolyline: Microsoft.Maps.Polyline) => {
+                    if (editedPolyline !== this._polyline) {
+                        return;
+                    }
+                    this._vertexTracker.Update();
+                    this._vertexTracker.Stop();
+                    const newPath: Array<ILatLong> = this.GetPath();
+                    const originalPath: Array<ILatLong> = this._originalPath;
+                    this.SetPath(newPath);
+                    this.Emit('pathchanged', {
+                        Click: null,
+                        Polyline: this,
+                        OriginalPath: originalPath,
+                        NewPath: newPath
+                    });
+                });
+            });
+        }
     }
 
     /**
@@ -216,11 +280,15 @@ export class BingPolyline extends Polyline implements Polyline {
      * @memberof BingPolyline
      */
     public SetOptions(options: IPolylineOptions): void {
+        options = PolylineEncoding.ResolvePolylineOptions(options);
         const o: Microsoft.Maps.IPolylineOptions = BingConversions.TranslatePolylineOptions(options);
         this._polyline.setOptions(o);
         if (options.path) {
             this.SetPath(<Array<ILatLong>>options.path);
         }
+        if (typeof options.editable !== 'undefined') {
+            this.SetEditable(options.editable);
+        }
     }
 
     /**
@@ -231,9 +299,12 @@ export class BingPolyline extends Polyline implements Polyline {
      * @memberof BingPolyline
      */
     public SetPath(path: Array<ILatLong>): void {
+        this._fullResolutionPath = null;
         const p: Array<Microsoft.Maps.Location> = new Array<Microsoft.Maps.Location>();
         path.forEach(x => p.push(new Microsoft.Maps.Location(x.latitude, x.longitude)));
         this._polyline.setLocations(p);
+        this._originalPath = path;
+        this._vertexTracker.Reset();
     }
 
     /**
@@ -251,6 +322,37 @@ export class BingPolyline extends Polyline implements Polyline {
     /// Private methods
     ///
 
+    /**
+     * Invokes the delegates registered for an edit event.
+     *
+     * @param eventType - The event name.
+     * @param e - The event arguments.
+     *
+     * @memberof BingPolyline
+     */
+    private Emit(eventType: string, e: IPolylineEvent): void {
+        const listeners: Array<(event: IPolylineEvent) => void> = this._editListeners.get(eventType);
+        if (listeners) { listeners.forEach(fn => fn(e)); }
+    }
+
+    /**
+     * Gets the drawing tools used to edit the polyline: the shared instance of the map service if one was provided,
+     * otherwise a private instance created on first use.
+     *
+     * @returns - Promise that when resolved contains an instance of the drawing tools.
+     *
+     * @memberof BingPolyline
+     */
+    private GetDrawingTools(): Promise<Microsoft.Maps.DrawingTools> {
+        if (this._mapService != null) { return this._mapService.GetDrawingTools(); }
+        if (this._drawingTools == null) {
+            this._drawingTools = new Promise<Microsoft.Maps.DrawingTools>(resolve => {
+                Microsoft.Maps.loadModule('Microsoft.Maps.DrawingTools', () => resolve(new Microsoft.Maps.DrawingTools(this._map)));
+            });
+        }
+        return this._drawingTools;
+    }
+
     /**
      * Configures the tooltip for the polygon
      * @memberof Polygon
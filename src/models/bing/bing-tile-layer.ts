@@ -0,0 +1,109 @@
+import { ITileLayerOptions } from '../../interfaces/itile-layer-options';
+import { TileLayer } from '../tile-layer';
+
+/**
+ * Concrete implementation of a {@link TileLayer} for the Bing Map Provider, wrapping a {@link Microsoft.Maps.TileLayer}.
+ *
+ * @export
+ */
+export class BingTileLayer extends TileLayer {
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the native tile layer.
+     *
+     * @readonly
+     * @memberof BingTileLayer
+     */
+    public get NativePrimitve(): Microsoft.Maps.TileLayer { return this._layer; }
+
+    /**
+     * Gets the options the layer was created with.
+     *
+     * @readonly
+     * @memberof BingTileLayer
+     */
+    public get Options(): ITileLayerOptions { return this._options; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of BingTileLayer.
+     * @param _layer - The native tile layer.
+     * @param _map - The map hosting the layer.
+     * @param _options - The options the layer was created with.
+     *
+     * @memberof BingTileLayer
+     */
+    constructor(private _layer: Microsoft.Maps.TileLayer, private _map: Microsoft.Maps.Map, private _options: ITileLayerOptions) {
+        super();
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Removes the tile layer from the map.
+     *
+     * @memberof BingTileLayer
+     */
+    public Delete(): void {
+        this._map.layers.remove(this._layer);
+    }
+
+    /**
+     * Gets the opacity of the layer.
+     *
+     * @returns - The opacity, between 0 and 1.
+     * @memberof BingTileLayer
+     */
+    public GetOpacity(): number {
+        return this._layer.getOpacity();
+    }
+
+    /**
+     * Gets whether the layer is visible.
+     *
+     * @returns - True if the layer is visible, false otherwise.
+     * @memberof BingTileLayer
+     */
+    public GetVisible(): boolean {
+        return this._layer.getVisible();
+    }
+
+    /**
+     * Sets the opacity of the layer.
+     *
+     * @param opacity - The opacity, between 0 and 1.
+     * @memberof BingTileLayer
+     */
+    public SetOpacity(opacity: number): void {
+        this._layer.setOpacity(opacity);
+    }
+
+    /**
+     * Sets the visibility of the layer.
+     *
+     * @param visible - True to show the layer, false to hide it.
+     * @memberof BingTileLayer
+     */
+    public SetVisible(visible: boolean): void {
+        this._layer.setVisible(visible);
+    }
+
+    /**
+     * Sets the z-index of the layer.
+     *
+     * @param zIndex - The z-index.
+     * @memberof BingTileLayer
+     */
+    public SetZIndex(zIndex: number): void {
+        this._layer.setZIndex(zIndex);
+    }
+}
@@ -0,0 +1,137 @@
+import { ILatLong } from '../../interfaces/ilatlong';
+
+/**
+ * Tracks the vertices of a Bing Maps V8 polygon or polyline while it is edited with the drawing tools. Bing only
+ * reports that a shape changed, so the tracker compares each path against its previous state and reports the
+ * inserted, moved or removed vertex. Changes affecting more than one vertex at a time are not reported. The closing
+ * vertex Bing repeats at the end of polygon rings is ignored, so moving the first vertex is reported once, at index 0.
+ *
+ * @export
+ */
+export class BingVertexTracker {
+
+    ///
+    /// Field declarations
+    ///
+    private _handlerId: Microsoft.Maps.IHandlerId = null;
+    private _paths: Array<Array<ILatLong>> = null;
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * Compares two versions of a path and determines the vertex change between them.
+     *
+     * @param previous - The previous path.
+     * @param current - The current path.
+     * @param [closed=false] - True if the paths are closed rings. A last vertex repeating the first is then ignored.
+     * @returns - An array containing the change, if any, as the event type ('vertexinserted', 'vertexmoved' or
+     * 'vertexremoved'), the index of the vertex, the vertex and, for moved vertices, the previous location. Empty if the
+     * paths are identical or more than one vertex changed.
+     *
+     * @memberof BingVertexTracker
+     */
+    public static Compare(previous: Array<ILatLong>, current: Array<ILatLong>, closed: boolean = false):
+        Array<{ eventType: string, index: number, vertex: ILatLong, previous?: ILatLong }> {
+        const changes: Array<{ eventType: string, index: number, vertex: ILatLong, previous?: ILatLong }> = [];
+        const equals = (a: ILatLong, b: ILatLong) => a != null && b != null && a.latitude === b.latitude && a.longitude === b.longitude;
+        const open = (p: Array<ILatLong>) => closed && p.length > 1 && equals(p[0], p[p.length - 1]) ? p.slice(0, -1) : p;
+        let i: number = 0;
+        previous = open(previous);
+        current = open(current);
+        if (previous.length === current.length) {
+            for (; i < current.length; i++) {
+                if (!equals(previous[i], current[i])) {
+                    changes.push({ eventType: 'vertexmoved', index: i, vertex: current[i], previous: previous[i] });
+                }
+            }
+            if (changes.length > 1) { changes.splice(0); }
+        }
+        else if (Math.abs(previous.length - current.length) === 1) {
+            while (i < current.length && i < previous.length && equals(previous[i], current[i])) { i++; }
+            changes.push(current.length > previous.length ?
+                { eventType: 'vertexinserted', index: i, vertex: current[i] } :
+                { eventType: 'vertexremoved', index: i, vertex: previous[i] });
+        }
+        return changes;
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of BingVertexTracker.
+     * @param _shape - The native shape being edited.
+     * @param _getPaths - Delegate returning the current paths of the shape.
+     * @param _closed - True if the paths are closed rings (polygons), false for polylines.
+     * @param _emit - Delegate invoked for each vertex change with the event type, path index, vertex index, vertex and
+     * previous location.
+     *
+     * @memberof BingVertexTracker
+     */
+    constructor(
+        private _shape: Microsoft.Maps.IPrimitive,
+        private _getPaths: () => Array<Array<ILatLong>>,
+        private _closed: boolean,
+        private _emit: (eventType: string, pathIndex: number, vertexIndex: number, vertex: ILatLong, previous: ILatLong) => void
+    ) { }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Takes the current paths of the shape as the last known state. Call this after the paths have been set
+     * programmatically while tracking, so the change is not reported as an edit.
+     *
+     * @memberof BingVertexTracker
+     */
+    public Reset(): void {
+        if (this._paths != null) { this._paths = this._getPaths(); }
+    }
+
+    /**
+     * Starts tracking changes made to the shape by the drawing tools.
+     *
+     * @param tools - The drawing tools editing the shape.
+     *
+     * @memberof BingVertexTracker
+     */
+    public Start(tools: Microsoft.Maps.DrawingTools): void {
+        this.Stop();
+        this._paths = this._getPaths();
+        this._handlerId = Microsoft.Maps.Events.addHandler(tools, 'drawingChanged', (shape: Microsoft.Maps.IPrimitive) => {
+            if (shape === this._shape) { this.Update(); }
+        });
+    }
+
+    /**
+     * Stops tracking changes.
+     *
+     * @memberof BingVertexTracker
+     */
+    public Stop(): void {
+        if (this._handlerId) { Microsoft.Maps.Events.removeHandler(this._handlerId); }
+        this._handlerId = null;
+        this._paths = null;
+    }
+
+    /**
+     * Compares the current paths of the shape against the last known state and reports the vertex changes.
+     *
+     * @memberof BingVertexTracker
+     */
+    public Update(): void {
+        if (this._paths == null) { return; }
+        const previous: Array<Array<ILatLong>> = this._paths;
+        const current: Array<Array<ILatLong>> = this._getPaths();
+        this._paths = current;
+        if (previous.length !== current.length) { return; }
+        current.forEach((path, i) => {
+            BingVertexTracker.Compare(previous[i], path, this._closed)
+                .forEach(c => this._emit(c.eventType, i, c.index, c.vertex, c.previous));
+        });
+    }
+}
@@ -1,5 +1,6 @@
 import { ILatLong } from '../interfaces/ilatlong';
 import { MapLabel } from './map-label';
+import { MapProjection } from './map-projection';
 
 let id: number = 0;
 
@@ -26,15 +27,16 @@ export abstract class CanvasOverlay {
     public get CanvasReady(): Promise<boolean> { return this._canvasReady; }
 
     /**
-    * A callback function that is triggered when the canvas is ready to be rendered for the current map view.
+    * A callback function that is triggered when the canvas is ready to be rendered for the current map view. The callback
+    * receives a projection for the current view to convert between geo coordinates and canvas pixels synchronously.
     */
-    private _drawCallback: (canvas: HTMLCanvasElement) => void;
+    private _drawCallback: (canvas: HTMLCanvasElement, projection: MapProjection) => void;
 
 
     /**
      * Creates a new instance of the CanvasOverlay class.
      */
-    constructor(drawCallback: (canvas: HTMLCanvasElement) => void) {
+    constructor(drawCallback: (canvas: HTMLCanvasElement, projection: MapProjection) => void) {
         this._drawCallback = drawCallback;
         id++;
     }
@@ -61,6 +63,11 @@ export abstract class CanvasOverlay {
      */
     public abstract GetMap(): any;
 
+    /**
+     * Gets a synchronous projection for the current map view. Returns null if the overlay is not associated with a map.
+     */
+    public abstract GetProjection(): MapProjection;
+
     /**
      * Returns a MapLabel instance for the current platform that can be used as a tooltip.
      * This method only generates the map label. Content and placement is the responsibility
@@ -115,7 +122,7 @@ export abstract class CanvasOverlay {
 
         // Call the drawing callback function if specified.
         if (this._drawCallback) {
-            this._drawCallback(this._canvas);
+            this._drawCallback(this._canvas, this.GetProjection());
         }
     }
 
@@ -0,0 +1,273 @@
+import { IBox } from '../interfaces/ibox';
+import { ILatLong } from '../interfaces/ilatlong';
+import { ICircleOptions } from '../interfaces/icircle-options';
+import { GeoMath } from './geo-math';
+
+/**
+ * Abstract class defining the contract for a circle in the architecture specific implementation. The radius is
+ * expressed in meters on the surface of the earth. Also provides the spherical math used by implementations
+ * that approximate the circle with a polygon, based on {@link GeoMath}.
+ *
+ * @export
+ * @abstract
+ */
+export abstract class Circle {
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the circle metadata.
+     *
+     * @readonly
+     * @abstract
+     * @memberof Circle
+     */
+    public abstract get Metadata(): Map<string, any>;
+
+    /**
+     * Gets the native primitve implementing the circle.
+     *
+     * @readonly
+     * @abstract
+     * @memberof Circle
+     */
+    public abstract get NativePrimitve(): any;
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * Gets the great circle distance between two locations using the haversine formula. See {@link GeoMath.GetDistance}.
+     *
+     * @param from - The first location.
+     * @param to - The second location.
+     * @returns - The distance in meters.
+     *
+     * @memberof Circle
+     */
+    public static GetDistance(from: ILatLong, to: ILatLong): number {
+        return GeoMath.GetDistance(from, to);
+    }
+
+    /**
+     * Gets the location at a distance and bearing from a starting location on a sphere. See {@link GeoMath.GetDestination}.
+     *
+     * @param from - The starting location.
+     * @param distance - The distance in meters.
+     * @param bearing - The bearing in degrees clockwise from north.
+     * @returns - The destination. The longitude is normalized to [-180, 180].
+     *
+     * @memberof Circle
+     */
+    public static GetDestination(from: ILatLong, distance: number, bearing: number): ILatLong {
+        return GeoMath.GetDestination(from, distance, bearing);
+    }
+
+    /**
+     * Gets a polygon ring approximating a circle on the surface of the earth. Longitudes are kept continuous around
+     * the center, so they may exceed [-180, 180] for circles crossing the antimeridian. The ring of a circle containing
+     * a pole spans all longitudes; it is closed through the pole at its longitude extremes so that the polygon covers
+     * the cap around the pole.
+     *
+     * @param center - The center of the circle.
+     * @param radius - The radius in meters.
+     * @param segments - Optional. The number of vertices of the ring. Defaults to 72.
+     * @returns - The ring, without the first vertex repeated.
+     *
+     * @memberof Circle
+     */
+    public static GetGeodesicPath(center: ILatLong, radius: number, segments: number = 72): Array<ILatLong> {
+        const path: Array<ILatLong> = new Array<ILatLong>();
+        if (center == null || radius == null || radius <= 0) { return path; }
+        for (let i = 0; i < segments; i++) {
+            const p: ILatLong = Circle.GetDestination(center, radius, 360 * i / segments);
+            let dLng: number = p.longitude - center.longitude;
+            if (dLng > 180) { dLng -= 360; }
+            if (dLng < -180) { dLng += 360; }
+            path.push({ latitude: p.latitude, longitude: center.longitude + dLng });
+        }
+
+        const pole: number = center.latitude >= 0 ? 90 : -90;
+        if (Circle.GetDistance(center, { latitude: pole, longitude: 0 }) >= radius) { return path; }
+
+        // The ring wraps around the pole and crosses the meridian opposite the center once. Start the ring at the
+        // crossing, so the longitudes run from one extreme to the other, and close it along the pole.
+        let jump: number = -1;
+        for (let i = 0; i < path.length; i++) {
+            if (Math.abs(path[(i + 1) % path.length].longitude - path[i].longitude) > 180) { jump = i; }
+        }
+        if (jump < 0) { return path; }
+        const a: ILatLong = path[jump];
+        const b: ILatLong = path[(jump + 1) % path.length];
+        const shift: number = a.longitude > b.longitude ? 360 : -360;
+        const edge: number = center.longitude + shift / 2;
+        const t: number = (edge - a.longitude) / (b.longitude + shift - a.longitude);
+        const lat: number = a.latitude + t * (b.latitude - a.latitude);
+        const ring: Array<ILatLong> = new Array<ILatLong>();
+        if (b.longitude !== edge - shift) { ring.push({ latitude: lat, longitude: edge - shift }); }
+        for (let i = 1; i <= path.length; i++) { ring.push(path[(jump + i) % path.length]); }
+        if (a.longitude !== edge) { ring.push({ latitude: lat, longitude: edge }); }
+        ring.push({ latitude: pole, longitude: edge }, { latitude: pole, longitude: edge - shift });
+        return ring;
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Adds a delegate for an event.
+     *
+     * @abstract
+     * @param eventType - String containing the event name.
+     * @param fn - Delegate function to execute when the event occurs.
+     * @memberof Circle
+     */
+    public abstract AddListener(eventType: string, fn: Function): void;
+
+    /**
+     * Deletes the circle.
+     *
+     * @abstract
+     * @memberof Circle
+     */
+    public abstract Delete(): void;
+
+    /**
+     * Gets the bounding box of the circle.
+     *
+     * @returns - The bounding box, or null if the circle has no center.
+     *
+     * @memberof Circle
+     */
+    public GetBounds(): IBox {
+        const c: ILatLong = this.GetCenter();
+        const r: number = this.GetRadius();
+        if (c == null || r == null) { return null; }
+        const n: ILatLong = Circle.GetDestination(c, r, 0);
+        const e: ILatLong = Circle.GetDestination(c, r, 90);
+        const s: ILatLong = Circle.GetDestination(c, r, 180);
+        const w: ILatLong = Circle.GetDestination(c, r, 270);
+        return {
+            maxLatitude: n.latitude,
+            maxLongitude: e.longitude,
+            minLatitude: s.latitude,
+            minLongitude: w.longitude,
+            center: { latitude: c.latitude, longitude: c.longitude }
+        };
+    }
+
+    /**
+     * Gets the center of the circle.
+     *
+     * @abstract
+     * @returns - The center.
+     *
+     * @memberof Circle
+     */
+    public abstract GetCenter(): ILatLong;
+
+    /**
+     * Gets whether the circle is draggable.
+     *
+     * @abstract
+     * @returns - True if the circle is dragable, false otherwise.
+     *
+     * @memberof Circle
+     */
+    public abstract GetDraggable(): boolean;
+
+    /**
+     * Gets whether the circle radius can be edited.
+     *
+     * @abstract
+     * @returns - True if the radius can be edited, false otherwise.
+     *
+     * @memberof Circle
+     */
+    public abstract GetEditable(): boolean;
+
+    /**
+     * Gets the radius of the circle.
+     *
+     * @abstract
+     * @returns - The radius in meters.
+     *
+     * @memberof Circle
+     */
+    public abstract GetRadius(): number;
+
+    /**
+     * Gets whether the circle is visible.
+     *
+     * @abstract
+     * @returns - True if the circle is visible, false otherwise.
+     *
+     * @memberof Circle
+     */
+    public abstract GetVisible(): boolean;
+
+    /**
+     * Sets the center of the circle.
+     *
+     * @abstract
+     * @param center - The center.
+     *
+     * @memberof Circle
+     */
+    public abstract SetCenter(center: ILatLong): void;
+
+    /**
+     * Sets whether the circle is dragable.
+     *
+     * @abstract
+     * @param draggable - True to make the circle dragable, false otherwise.
+     *
+     * @memberof Circle
+     */
+    public abstract SetDraggable(draggable: boolean): void;
+
+    /**
+     * Sets wether the circle radius is editable.
+     *
+     * @abstract
+     * @param editable - True to show the radius handle, false otherwise.
+     *
+     * @memberof Circle
+     */
+    public abstract SetEditable(editable: boolean): void;
+
+    /**
+     * Sets the circle options
+     *
+     * @abstract
+     * @param options - {@link ICircleOptions} object containing the options. The options are merged with the ones
+     * already on the underlying model.
+     *
+     * @memberof Circle
+     */
+    public abstract SetOptions(options: ICircleOptions): void;
+
+    /**
+     * Sets the radius of the circle.
+     *
+     * @abstract
+     * @param radius - The radius in meters.
+     *
+     * @memberof Circle
+     */
+    public abstract SetRadius(radius: number): void;
+
+    /**
+     * Sets whether the circle is visible.
+     *
+     * @abstract
+     * @param visible - True to set the circle visible, false otherwise.
+     *
+     * @memberof Circle
+     */
+    public abstract SetVisible(visible: boolean): void;
+}
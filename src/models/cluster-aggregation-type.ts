@@ -0,0 +1,7 @@
+export enum ClusterAggregationType {
+    Sum = 0,
+    Average,
+    Min,
+    Max,
+    CountByCategory
+}
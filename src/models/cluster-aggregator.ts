@@ -0,0 +1,92 @@
+import { IClusterAggregation } from '../interfaces/icluster-aggregation';
+import { ClusterAggregationType } from './cluster-aggregation-type';
+import { Marker } from './marker';
+
+/**
+ * This class contains helper functions to aggregate the Metadata of the markers in a cluster.
+ *
+ * @export
+ */
+export class ClusterAggregator {
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Computes the aggregates for a set of markers.
+     *
+     * @param markers - The markers in the cluster.
+     * @param aggregations - The aggregations to compute. See {@link IClusterAggregation}.
+     * @returns - A map keyed by the aggregation name. Sum, Average, Min and Max produce a number (null if no marker
+     * carries a numeric value for the key), CountByCategory produces a Map of the distinct values to their counts.
+     *
+     * @memberof ClusterAggregator
+     */
+    public static Aggregate(markers: Array<Marker>, aggregations: Array<IClusterAggregation>): Map<string, any> {
+        const aggregates: Map<string, any> = new Map<string, any>();
+        if (!aggregations) { return aggregates; }
+        aggregations.forEach(a => {
+            const values: Array<any> = markers
+                .filter(m => m && m.Metadata && m.Metadata.has(a.key))
+                .map(m => m.Metadata.get(a.key));
+            aggregates.set(a.name || a.key, ClusterAggregator.Compute(values, a.type));
+        });
+        return aggregates;
+    }
+
+    /**
+     * Formats an aggregate value for display as the cluster text.
+     *
+     * @param value - The aggregate value.
+     * @returns - The text. Numbers are rounded to two decimals, category counts are represented by their total.
+     *
+     * @memberof ClusterAggregator
+     */
+    public static ToText(value: any): string {
+        if (value == null) { return ''; }
+        if (value instanceof Map) {
+            let total: number = 0;
+            value.forEach(v => total += v);
+            return total.toString();
+        }
+        if (typeof value === 'number') { return (Math.round(value * 100) / 100).toString(); }
+        return value.toString();
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Computes a single aggregate.
+     *
+     * @param values - The Metadata values of the markers.
+     * @param type - The aggregation to compute.
+     * @returns - The aggregate value.
+     *
+     * @memberof ClusterAggregator
+     */
+    private static Compute(values: Array<any>, type: ClusterAggregationType): any {
+        if (type === ClusterAggregationType.CountByCategory) {
+            const counts: Map<string, number> = new Map<string, number>();
+            values.forEach(v => {
+                const k: string = v == null ? '' : v.toString();
+                counts.set(k, (counts.get(k) || 0) + 1);
+            });
+            return counts;
+        }
+
+        const n: Array<number> = values
+            .map(v => typeof v === 'number' ? v : parseFloat(v))
+            .filter(v => !isNaN(v));
+        if (n.length === 0) { return type === ClusterAggregationType.Sum ? 0 : null; }
+        switch (type) {
+            case ClusterAggregationType.Sum: return n.reduce((p, c) => p + c, 0);
+            case ClusterAggregationType.Average: return n.reduce((p, c) => p + c, 0) / n.length;
+            case ClusterAggregationType.Min: return n.reduce((p, c) => Math.min(p, c));
+            case ClusterAggregationType.Max: return n.reduce((p, c) => Math.max(p, c));
+            default: throw Error(`ClusterAggregator: Unsupported aggregation type ${type}.`);
+        }
+    }
+}
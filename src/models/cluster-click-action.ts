@@ -1,5 +1,6 @@
 export enum ClusterClickAction {
     None = 0,
     ZoomIntoCluster,
-    Spider
+    Spider,
+    ListMembers
 }
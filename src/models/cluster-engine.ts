@@ -0,0 +1,432 @@
+import { IBox } from '../interfaces/ibox';
+import { ICluster } from '../interfaces/icluster';
+import { IClusterEngineOptions } from '../interfaces/icluster-engine-options';
+import { ILatLong } from '../interfaces/ilatlong';
+import { ClusterPlacementMode } from './cluster-placement-mode';
+
+/**
+ * This interface defines the contract for a node in the cluster hierarchy.
+ */
+interface IClusterNode<T> {
+    /**
+     * The id of the node. Leaf nodes use the index of the item, cluster nodes follow thereafter.
+     *
+     * @memberof IClusterNode
+     */
+    id: number;
+
+    /**
+     * The horizontal position of the node in world coordinates (0 to 1).
+     *
+     * @memberof IClusterNode
+     */
+    x: number;
+
+    /**
+     * The vertical position of the node in world coordinates (0 to 1).
+     *
+     * @memberof IClusterNode
+     */
+    y: number;
+
+    /**
+     * The items contained in the node.
+     *
+     * @memberof IClusterNode
+     */
+    items: Array<T>;
+
+    /**
+     * The nodes merged into this node. Empty for leaf nodes.
+     *
+     * @memberof IClusterNode
+     */
+    children: Array<IClusterNode<T>>;
+
+    /**
+     * The zoom level at which the node was formed. Null for leaf nodes.
+     *
+     * @memberof IClusterNode
+     */
+    zoom: number;
+}
+
+/**
+ * Provider independent, hierarchical clustering engine. Items are projected into web mercator world coordinates and
+ * clustered level by level, starting at the maximum zoom level. Each level groups the nodes of the level above it using a
+ * grid index with a cell size equal to the cluster radius, so clusters at lower zoom levels are always composed of the
+ * clusters at higher zoom levels. Since the engine does not depend on a map provider, it produces identical results
+ * across providers and can be used without a map.
+ *
+ * @export
+ */
+export class ClusterEngine<T> {
+
+    ///
+    /// Field declarations
+    ///
+    private _items: Array<T> = new Array<T>();
+    private _levels: Array<Array<IClusterNode<T>>> = new Array<Array<IClusterNode<T>>>();
+    private _locationCallback: (item: T) => ILatLong;
+    private _nodes: Map<number, IClusterNode<T>> = new Map<number, IClusterNode<T>>();
+    private _options: IClusterEngineOptions = {
+        gridSize: 45,
+        maxZoom: 20,
+        minimumClusterSize: 2,
+        minZoom: 0,
+        placementMode: ClusterPlacementMode.MeanValue,
+        tileSize: 256
+    };
+
+    /**
+     * The maximum latitude supported by the web mercator projection.
+     *
+     * @memberof ClusterEngine
+     */
+    private static MaxLatitude = 85.05112878;
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the number of items loaded into the engine.
+     *
+     * @readonly
+     * @memberof ClusterEngine
+     */
+    public get Count(): number { return this._items.length; }
+
+    ///
+    /// Private static methods
+    ///
+
+    /**
+     * Converts a world x coordinate into a longitude.
+     *
+     * @param x - The world coordinate.
+     * @returns - The longitude.
+     *
+     * @memberof ClusterEngine
+     */
+    private static ToLongitude(x: number): number {
+        return x * 360 - 180;
+    }
+
+    /**
+     * Converts a world y coordinate into a latitude.
+     *
+     * @param y - The world coordinate.
+     * @returns - The latitude.
+     *
+     * @memberof ClusterEngine
+     */
+    private static ToLatitude(y: number): number {
+        const y2: number = (180 - y * 360) * Math.PI / 180;
+        return 360 * Math.atan(Math.exp(y2)) / Math.PI - 90;
+    }
+
+    /**
+     * Projects a longitude into a world x coordinate.
+     *
+     * @param longitude - The longitude.
+     * @returns - The world coordinate (0 to 1).
+     *
+     * @memberof ClusterEngine
+     */
+    private static ToWorldX(longitude: number): number {
+        return longitude / 360 + 0.5;
+    }
+
+    /**
+     * Projects a latitude into a world y coordinate.
+     *
+     * @param latitude - The latitude.
+     * @returns - The world coordinate (0 to 1).
+     *
+     * @memberof ClusterEngine
+     */
+    private static ToWorldY(latitude: number): number {
+        const lat: number = Math.max(-ClusterEngine.MaxLatitude, Math.min(ClusterEngine.MaxLatitude, latitude));
+        const sin: number = Math.sin(lat * Math.PI / 180);
+        return 0.5 - 0.25 * Math.log((1 + sin) / (1 - sin)) / Math.PI;
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of ClusterEngine.
+     *
+     * @param options - Optional. The options governing the clustering. See {@link IClusterEngineOptions}.
+     *
+     * @memberof ClusterEngine
+     */
+    constructor(options?: IClusterEngineOptions) {
+        if (options) { this.MergeOptions(options); }
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Gets the nodes merged into a cluster at the next zoom level.
+     *
+     * @param id - The id of the cluster.
+     * @returns - Array of the child clusters. Returns an empty array for individual items or unknown ids.
+     *
+     * @memberof ClusterEngine
+     */
+    public GetChildren(id: number): Array<ICluster<T>> {
+        const n: IClusterNode<T> = this._nodes.get(id);
+        if (n == null) { return new Array<ICluster<T>>(); }
+        return n.children.map(c => this.ToCluster(c));
+    }
+
+    /**
+     * Gets the clusters and individual items for a zoom level.
+     *
+     * @param bounds - The bounds for which to return clusters. Pass null to return all clusters.
+     * @param zoom - The zoom level.
+     * @returns - Array of clusters. Individual items are returned as clusters with a count of 1.
+     *
+     * @memberof ClusterEngine
+     */
+    public GetClusters(bounds: IBox, zoom: number): Array<ICluster<T>> {
+        if (this._levels.length === 0) { return new Array<ICluster<T>>(); }
+        const z: number = Math.max(this._options.minZoom, Math.min(Math.floor(zoom), this._options.maxZoom + 1));
+        let nodes: Array<IClusterNode<T>> = this._levels[z];
+        if (bounds != null && bounds.maxLongitude - bounds.minLongitude < 360) {
+            const minX: number = ClusterEngine.ToWorldX(bounds.minLongitude);
+            const maxX: number = ClusterEngine.ToWorldX(bounds.maxLongitude);
+            const minY: number = ClusterEngine.ToWorldY(bounds.maxLatitude);
+            const maxY: number = ClusterEngine.ToWorldY(bounds.minLatitude);
+            const wraps: boolean = bounds.minLongitude > bounds.maxLongitude;
+            nodes = nodes.filter(n => {
+                if (n.y < minY || n.y > maxY) { return false; }
+                return wraps ? (n.x >= minX || n.x <= maxX) : (n.x >= minX && n.x <= maxX);
+            });
+        }
+        return nodes.map(n => this.ToCluster(n));
+    }
+
+    /**
+     * Gets the zoom level at which a cluster breaks apart into its children.
+     *
+     * @param id - The id of the cluster.
+     * @returns - The zoom level. Returns null for unknown ids.
+     *
+     * @memberof ClusterEngine
+     */
+    public GetExpansionZoom(id: number): number {
+        const n: IClusterNode<T> = this._nodes.get(id);
+        if (n == null) { return null; }
+        if (n.zoom == null) { return this._options.maxZoom + 1; }
+        return n.zoom + 1;
+    }
+
+    /**
+     * Gets the items contained in a cluster.
+     *
+     * @param id - The id of the cluster.
+     * @returns - Array of the items in the cluster. Returns an empty array for unknown ids.
+     *
+     * @memberof ClusterEngine
+     */
+    public GetItems(id: number): Array<T> {
+        const n: IClusterNode<T> = this._nodes.get(id);
+        return n == null ? new Array<T>() : n.items.slice(0);
+    }
+
+    /**
+     * Gets the options governing the engine.
+     *
+     * @returns - The engine options.
+     *
+     * @memberof ClusterEngine
+     */
+    public GetOptions(): IClusterEngineOptions {
+        return Object.assign({}, this._options);
+    }
+
+    /**
+     * Loads items into the engine and builds the cluster hierarchy. Replaces any previously loaded items.
+     *
+     * @param items - The items to cluster.
+     * @param locationCallback - Function returning the location of an item. Items without location are ignored.
+     *
+     * @memberof ClusterEngine
+     */
+    public Load(items: Array<T>, locationCallback: (item: T) => ILatLong): void {
+        this._items = items ? items.slice(0) : new Array<T>();
+        this._locationCallback = locationCallback;
+        this.Index();
+    }
+
+    /**
+     * Sets the options governing the engine. The supplied options are merged with the existing options and the
+     * cluster hierarchy is rebuilt.
+     *
+     * @param options - The options. See {@link IClusterEngineOptions}.
+     *
+     * @memberof ClusterEngine
+     */
+    public SetOptions(options: IClusterEngineOptions): void {
+        this.MergeOptions(options);
+        if (this._locationCallback) { this.Index(); }
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Groups the nodes of a level into the clusters for the next lower zoom level.
+     *
+     * @param nodes - The nodes of the level above.
+     * @param zoom - The zoom level to create.
+     * @returns - The nodes for the zoom level.
+     *
+     * @memberof ClusterEngine
+     */
+    private ClusterLevel(nodes: Array<IClusterNode<T>>, zoom: number): Array<IClusterNode<T>> {
+        const r: number = this._options.gridSize / (this._options.tileSize * Math.pow(2, zoom));
+        const r2: number = r * r;
+        const grid: Map<string, Array<IClusterNode<T>>> = new Map<string, Array<IClusterNode<T>>>();
+        nodes.forEach(n => {
+            const key: string = Math.floor(n.x / r) + ':' + Math.floor(n.y / r);
+            const cell: Array<IClusterNode<T>> = grid.get(key);
+            if (cell) { cell.push(n); }
+            else { grid.set(key, [n]); }
+        });
+
+        const assigned: Set<IClusterNode<T>> = new Set<IClusterNode<T>>();
+        const level: Array<IClusterNode<T>> = new Array<IClusterNode<T>>();
+        nodes.forEach(n => {
+            if (assigned.has(n)) { return; }
+            assigned.add(n);
+
+            const neighbors: Array<IClusterNode<T>> = new Array<IClusterNode<T>>();
+            let count: number = n.items.length;
+            const cx: number = Math.floor(n.x / r);
+            const cy: number = Math.floor(n.y / r);
+            for (let i = cx - 1; i <= cx + 1; i++) {
+                for (let j = cy - 1; j <= cy + 1; j++) {
+                    const cell: Array<IClusterNode<T>> = grid.get(i + ':' + j);
+                    if (cell == null) { continue; }
+                    cell.forEach(c => {
+                        if (assigned.has(c)) { return; }
+                        const dx: number = c.x - n.x;
+                        const dy: number = c.y - n.y;
+                        if (dx * dx + dy * dy <= r2) {
+                            neighbors.push(c);
+                            count += c.items.length;
+                        }
+                    });
+                }
+            }
+            if (neighbors.length === 0 || count < this._options.minimumClusterSize) {
+                level.push(n);
+                return;
+            }
+
+            const children: Array<IClusterNode<T>> = [n].concat(neighbors);
+            let x: number = n.x;
+            let y: number = n.y;
+            if (this._options.placementMode !== ClusterPlacementMode.FirstPin) {
+                x = 0;
+                y = 0;
+                children.forEach(c => {
+                    x += c.x * c.items.length;
+                    y += c.y * c.items.length;
+                });
+                x = x / count;
+                y = y / count;
+            }
+            const items: Array<T> = new Array<T>();
+            children.forEach(c => {
+                assigned.add(c);
+                items.push(...c.items);
+            });
+            const cluster: IClusterNode<T> = {
+                id: this._items.length + this._nodes.size,
+                x: x,
+                y: y,
+                items: items,
+                children: children,
+                zoom: zoom
+            };
+            this._nodes.set(cluster.id, cluster);
+            level.push(cluster);
+        });
+        return level;
+    }
+
+    /**
+     * Builds the cluster hierarchy for the loaded items.
+     *
+     * @memberof ClusterEngine
+     */
+    private Index(): void {
+        this._nodes.clear();
+        this._levels = new Array<Array<IClusterNode<T>>>();
+
+        const leaves: Array<IClusterNode<T>> = new Array<IClusterNode<T>>();
+        this._items.forEach((item, i) => {
+            const loc: ILatLong = this._locationCallback(item);
+            if (loc == null) { return; }
+            const leaf: IClusterNode<T> = {
+                id: i,
+                x: ClusterEngine.ToWorldX(loc.longitude),
+                y: ClusterEngine.ToWorldY(loc.latitude),
+                items: [item],
+                children: new Array<IClusterNode<T>>(),
+                zoom: null
+            };
+            this._nodes.set(i, leaf);
+            leaves.push(leaf);
+        });
+
+        let nodes: Array<IClusterNode<T>> = leaves;
+        this._levels[this._options.maxZoom + 1] = nodes;
+        for (let z = this._options.maxZoom; z >= this._options.minZoom; z--) {
+            nodes = this.ClusterLevel(nodes, z);
+            this._levels[z] = nodes;
+        }
+    }
+
+    /**
+     * Merges options into the engine options.
+     *
+     * @param options - The options to merge.
+     *
+     * @memberof ClusterEngine
+     */
+    private MergeOptions(options: IClusterEngineOptions): void {
+        Object.keys(options)
+            .filter(k => (<any>options)[k] != null)
+            .forEach(k => (<any>this._options)[k] = (<any>options)[k]);
+    }
+
+    /**
+     * Converts a node into the public cluster representation.
+     *
+     * @param n - The node to convert.
+     * @returns - The cluster.
+     *
+     * @memberof ClusterEngine
+     */
+    private ToCluster(n: IClusterNode<T>): ICluster<T> {
+        const loc: ILatLong = n.zoom == null ? this._locationCallback(n.items[0]) : null;
+        return {
+            id: n.id,
+            count: n.items.length,
+            items: n.items,
+            location: loc ?
+                { latitude: loc.latitude, longitude: loc.longitude } :
+                { latitude: ClusterEngine.ToLatitude(n.y), longitude: ClusterEngine.ToLongitude(n.x) }
+        };
+    }
+}
@@ -0,0 +1,218 @@
+import { ILatLong } from '../interfaces/ilatlong';
+import { MapService } from '../services/map.service';
+import { InfoWindow } from './info-window';
+import { Marker } from './marker';
+
+/**
+ * Renders the members of a cluster as a paginated list in an {@link InfoWindow}. Used by the cluster services to
+ * implement {@link ClusterClickAction.ListMembers}. Clicks in the list are captured on the document, so the list works
+ * with the info window implementations of all providers.
+ *
+ * @export
+ */
+export class ClusterMemberList {
+
+    ///
+    /// Field declarations
+    ///
+    private _clickHandler: (e: MouseEvent) => void;
+    private _id: string;
+    private _infoWindow: Promise<InfoWindow> = null;
+    private _markers: Array<Marker> = new Array<Marker>();
+    private _page: number = 0;
+    private _pageSize: number;
+    private _position: ILatLong = null;
+    private _template: (m: Marker) => string;
+    private static Counter: number = 0;
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * The default template for list entries. Uses the marker title, the title or name Metadata entries or, if none
+     * of these exist, the marker coordinates.
+     *
+     * @param m - The marker for which to create the entry.
+     * @returns - The html for the entry.
+     *
+     * @memberof ClusterMemberList
+     */
+    public static DefaultTemplate(m: Marker): string {
+        let text: string = m.GetTitle();
+        if (!text && m.Metadata) {
+            text = m.Metadata.get('title') || m.Metadata.get('Title') || m.Metadata.get('name') || m.Metadata.get('Name');
+        }
+        if (!text && m.Location) {
+            text = `${m.Location.latitude.toFixed(5)}, ${m.Location.longitude.toFixed(5)}`;
+        }
+        return ClusterMemberList.Escape(text == null ? '' : text.toString());
+    }
+
+    ///
+    /// Private static methods
+    ///
+
+    /**
+     * Escapes text for inclusion in html.
+     *
+     * @param s - The text to escape.
+     * @returns - The escaped text.
+     *
+     * @memberof ClusterMemberList
+     */
+    private static Escape(s: string): string {
+        return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of ClusterMemberList.
+     *
+     * @param _mapService - The map service used to create the info window.
+     * @param _onSelect - Callback invoked with the marker and the mouse event when an entry in the list is clicked.
+     * @param template - Optional. Function creating the html for a list entry. Defaults to {@link DefaultTemplate}.
+     * @param pageSize - Optional. The number of entries per page. Defaults to 10.
+     *
+     * @memberof ClusterMemberList
+     */
+    constructor(private _mapService: MapService, private _onSelect: (m: Marker, e: MouseEvent) => void,
+        template?: (m: Marker) => string, pageSize?: number) {
+        this._id = `cluster-member-list-${ClusterMemberList.Counter++}`;
+        this._template = template || ClusterMemberList.DefaultTemplate;
+        this._pageSize = pageSize > 0 ? pageSize : 10;
+        this._clickHandler = (e: MouseEvent) => this.OnDocumentClick(e);
+        if (typeof document !== 'undefined') { document.addEventListener('click', this._clickHandler, true); }
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Releases the info window and the document listener.
+     *
+     * @memberof ClusterMemberList
+     */
+    public Dispose(): void {
+        if (typeof document !== 'undefined') { document.removeEventListener('click', this._clickHandler, true); }
+        this.Hide();
+        this._markers.splice(0);
+    }
+
+    /**
+     * Closes the list.
+     *
+     * @memberof ClusterMemberList
+     */
+    public Hide(): void {
+        if (this._infoWindow) { this._infoWindow.then(w => w.Close()); }
+    }
+
+    /**
+     * Opens the list at the cluster location showing the first page of members.
+     *
+     * @param markers - The members of the cluster.
+     * @param position - The location of the cluster.
+     *
+     * @memberof ClusterMemberList
+     */
+    public Show(markers: Array<Marker>, position: ILatLong): void {
+        this._markers = markers.slice(0);
+        this._page = 0;
+        this._position = position;
+        if (this._infoWindow == null) {
+            this._infoWindow = this._mapService.CreateInfoWindow({ position: position, visible: false });
+        }
+        this.Render();
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Creates the html for the current page of the list.
+     *
+     * @returns - The html.
+     *
+     * @memberof ClusterMemberList
+     */
+    private CreateContent(): string {
+        const pages: number = Math.max(1, Math.ceil(this._markers.length / this._pageSize));
+        const start: number = this._page * this._pageSize;
+        const link: string = 'cursor:pointer;color:#0078d7;';
+        const html: Array<string> = [
+            `<div data-x-cluster-list="${this._id}" style="background:white;border:1px solid #ccc;padding:6px 8px;` +
+                `font-family:Arial,sans-serif;font-size:12px;min-width:160px;">`,
+            `<div style="text-align:right;"><span data-x-cluster-close="true" style="${link}">&times;</span></div>`,
+            '<ul style="list-style:none;margin:0;padding:0;">'
+        ];
+        this._markers.slice(start, start + this._pageSize).forEach((m, i) => {
+            html.push(`<li data-x-cluster-member="${start + i}" style="${link}padding:2px 0;">${this._template(m)}</li>`);
+        });
+        html.push('</ul>');
+        if (pages > 1) {
+            html.push('<div style="margin-top:4px;text-align:center;">');
+            html.push(this._page > 0 ? `<span data-x-cluster-page="-1" style="${link}">&lsaquo;</span>` : '&nbsp;');
+            html.push(` ${this._page + 1} / ${pages} `);
+            html.push(this._page < pages - 1 ? `<span data-x-cluster-page="1" style="${link}">&rsaquo;</span>` : '&nbsp;');
+            html.push('</div>');
+        }
+        html.push('</div>');
+        return html.join('');
+    }
+
+    /**
+     * Handles clicks on the document. Clicks on list entries invoke the select callback, clicks on the pagination
+     * controls change the page.
+     *
+     * @param e - The mouse event.
+     *
+     * @memberof ClusterMemberList
+     */
+    private OnDocumentClick(e: MouseEvent): void {
+        let member: string = null;
+        let page: string = null;
+        let close: boolean = false;
+        let el: Element = <Element>e.target;
+        while (el && el.getAttribute) {
+            if (el.getAttribute('data-x-cluster-list') != null) {
+                if (el.getAttribute('data-x-cluster-list') !== this._id) { return; }
+                if (close) {
+                    this.Hide();
+                }
+                else if (page != null) {
+                    this._page += parseInt(page, 10);
+                    this.Render();
+                }
+                else if (member != null) {
+                    const m: Marker = this._markers[parseInt(member, 10)];
+                    if (m) { this._onSelect(m, e); }
+                }
+                return;
+            }
+            if (member == null && el.getAttribute('data-x-cluster-member') != null) { member = el.getAttribute('data-x-cluster-member'); }
+            if (page == null && el.getAttribute('data-x-cluster-page') != null) { page = el.getAttribute('data-x-cluster-page'); }
+            if (el.getAttribute('data-x-cluster-close') != null) { close = true; }
+            el = el.parentElement;
+        }
+    }
+
+    /**
+     * Renders the current page into the info window and opens it.
+     *
+     * @memberof ClusterMemberList
+     */
+    private Render(): void {
+        const content: string = this.CreateContent();
+        this._infoWindow.then(w => {
+            w.SetOptions({ htmlContent: content });
+            w.SetPosition(this._position);
+            w.Open();
+        });
+    }
+}
@@ -0,0 +1,8 @@
+export enum DrawingMode {
+    None = 0,
+    Marker,
+    Polyline,
+    Polygon,
+    Rectangle,
+    Circle
+}
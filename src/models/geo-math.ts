@@ -0,0 +1,328 @@
+import { ILatLong } from '../interfaces/ilatlong';
+import { GeoPredicates } from './geo-predicates';
+
+/**
+ * Provider independent geodesic math on {@link ILatLong} locations. Distances are expressed in meters, areas in
+ * square meters and bearings in degrees clockwise from north. Spherical calculations use the WGS84 equatorial radius,
+ * the Vincenty distance uses the WGS84 ellipsoid.
+ *
+ * ### Example
+ * ```typescript
+ * const d: number = GeoMath.GetDistance({ latitude: 52.52, longitude: 13.40 }, { latitude: 48.86, longitude: 2.35 });
+ * const b: number = GeoMath.GetBearing({ latitude: 52.52, longitude: 13.40 }, { latitude: 48.86, longitude: 2.35 });
+ * ```
+ *
+ * @export
+ */
+export class GeoMath {
+
+    ///
+    /// Field declarations
+    ///
+
+    /**
+     * The radius of the earth in meters used for spherical calculations.
+     *
+     * @memberof GeoMath
+     */
+    public static readonly EarthRadius: number = 6378137;
+
+    private static _flattening: number = 1 / 298.257223563;
+    private static _semiMajorAxis: number = 6378137;
+    private static _semiMinorAxis: number = 6356752.314245;
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * Gets the initial bearing of the great circle from one location to another.
+     *
+     * @param from - The starting location.
+     * @param to - The destination.
+     * @returns - The bearing in degrees in the range [0, 360).
+     *
+     * @memberof GeoMath
+     */
+    public static GetBearing(from: ILatLong, to: ILatLong): number {
+        const lat1: number = GeoMath.ToRadians(from.latitude);
+        const lat2: number = GeoMath.ToRadians(to.latitude);
+        const dLng: number = GeoMath.ToRadians(to.longitude - from.longitude);
+        const y: number = Math.sin(dLng) * Math.cos(lat2);
+        const x: number = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+        return (GeoMath.ToDegrees(Math.atan2(y, x)) + 360) % 360;
+    }
+
+    /**
+     * Gets the area enclosed by a polygon on the surface of the earth. Rings are combined using the even-odd rule, the
+     * same way {@link GeoPredicates.Contains} does: a ring nested within an even number of other rings adds its area, a
+     * ring nested within an odd number of rings is a hole and subtracts it. Rings may be open or closed and may cross
+     * the antimeridian. Rings are expected not to cross each other.
+     *
+     * @param paths - The polygon path, or an array of paths.
+     * @returns - The area in square meters.
+     *
+     * @memberof GeoMath
+     */
+    public static GetArea(paths: Array<ILatLong> | Array<Array<ILatLong>>): number {
+        const rings: Array<Array<ILatLong>> = GeoMath.ToRings(paths);
+        if (rings.length === 0) { return 0; }
+        let area: number = 0;
+        rings.forEach((ring, i) => {
+            const depth: number = rings.filter((other, j) => j !== i && GeoPredicates.Within(ring, other)).length;
+            area += (depth % 2 === 0 ? 1 : -1) * Math.abs(GeoMath.GetSignedArea(ring));
+        });
+        return Math.max(area, 0);
+    }
+
+    /**
+     * Gets the location at a distance and bearing from a starting location on a sphere.
+     *
+     * @param from - The starting location.
+     * @param distance - The distance in meters.
+     * @param bearing - The bearing in degrees clockwise from north.
+     * @returns - The destination. The longitude is normalized to [-180, 180].
+     *
+     * @memberof GeoMath
+     */
+    public static GetDestination(from: ILatLong, distance: number, bearing: number): ILatLong {
+        const d: number = distance / GeoMath.EarthRadius;
+        const b: number = GeoMath.ToRadians(bearing);
+        const lat1: number = GeoMath.ToRadians(from.latitude);
+        const lng1: number = GeoMath.ToRadians(from.longitude);
+        const lat2: number = Math.asin(Math.sin(lat1) * Math.cos(d) + Math.cos(lat1) * Math.sin(d) * Math.cos(b));
+        const lng2: number = lng1 + Math.atan2(Math.sin(b) * Math.sin(d) * Math.cos(lat1), Math.cos(d) - Math.sin(lat1) * Math.sin(lat2));
+        return {
+            latitude: GeoMath.ToDegrees(lat2),
+            longitude: GeoMath.NormalizeLongitude(GeoMath.ToDegrees(lng2))
+        };
+    }
+
+    /**
+     * Gets the great circle distance between two locations using the haversine formula.
+     *
+     * @param from - The first location.
+     * @param to - The second location.
+     * @returns - The distance in meters.
+     *
+     * @memberof GeoMath
+     */
+    public static GetDistance(from: ILatLong, to: ILatLong): number {
+        const lat1: number = GeoMath.ToRadians(from.latitude);
+        const lat2: number = GeoMath.ToRadians(to.latitude);
+        const dLat: number = lat2 - lat1;
+        const dLng: number = GeoMath.ToRadians(to.longitude - from.longitude);
+        const a: number = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) * Math.sin(dLng / 2);
+        return 2 * GeoMath.EarthRadius * Math.atan2(Math.sqrt(Math.min(a, 1)), Math.sqrt(Math.max(1 - a, 0)));
+    }
+
+    /**
+     * Gets the length of a path.
+     *
+     * @param path - The path.
+     * @param closed - Optional. True to include the segment from the last back to the first vertex. Defaults to false.
+     * @returns - The length in meters.
+     *
+     * @memberof GeoMath
+     */
+    public static GetLength(path: Array<ILatLong>, closed: boolean = false): number {
+        if (path == null || path.length < 2) { return 0; }
+        let length: number = 0;
+        for (let i = 1; i < path.length; i++) { length += GeoMath.GetDistance(path[i - 1], path[i]); }
+        if (closed) { length += GeoMath.GetDistance(path[path.length - 1], path[0]); }
+        return length;
+    }
+
+    /**
+     * Gets the perimeter of a polygon, which is the combined length of all its rings including holes.
+     *
+     * @param paths - The polygon path, or an array of paths.
+     * @returns - The perimeter in meters.
+     *
+     * @memberof GeoMath
+     */
+    public static GetPerimeter(paths: Array<ILatLong> | Array<Array<ILatLong>>): number {
+        return GeoMath.ToRings(paths).reduce((length, ring) => length + GeoMath.GetLength(ring, true), 0);
+    }
+
+    /**
+     * Gets the location at a distance along a path.
+     *
+     * @param path - The path.
+     * @param distance - The distance in meters from the first vertex.
+     * @returns - The location, or null if the distance is negative or exceeds the length of the path.
+     *
+     * @memberof GeoMath
+     */
+    public static GetPointAtDistance(path: Array<ILatLong>, distance: number): ILatLong {
+        if (path == null || path.length === 0 || distance == null || distance < 0) { return null; }
+        if (distance === 0) { return { latitude: path[0].latitude, longitude: path[0].longitude }; }
+        let travelled: number = 0;
+        for (let i = 1; i < path.length; i++) {
+            const segment: number = GeoMath.GetDistance(path[i - 1], path[i]);
+            if (travelled + segment >= distance) {
+                return GeoMath.Interpolate(path[i - 1], path[i], segment === 0 ? 0 : (distance - travelled) / segment);
+            }
+            travelled += segment;
+        }
+        return null;
+    }
+
+    /**
+     * Gets the distance between two locations on the WGS84 ellipsoid using the Vincenty inverse formula. More accurate
+     * than {@link GetDistance}, but slower. Falls back to {@link GetDistance} for nearly antipodal locations, where the
+     * formula does not converge.
+     *
+     * @param from - The first location.
+     * @param to - The second location.
+     * @returns - The distance in meters.
+     *
+     * @memberof GeoMath
+     */
+    public static GetVincentyDistance(from: ILatLong, to: ILatLong): number {
+        const a: number = GeoMath._semiMajorAxis;
+        const b: number = GeoMath._semiMinorAxis;
+        const f: number = GeoMath._flattening;
+        const L: number = GeoMath.ToRadians(to.longitude - from.longitude);
+        const U1: number = Math.atan((1 - f) * Math.tan(GeoMath.ToRadians(from.latitude)));
+        const U2: number = Math.atan((1 - f) * Math.tan(GeoMath.ToRadians(to.latitude)));
+        const sinU1: number = Math.sin(U1), cosU1: number = Math.cos(U1);
+        const sinU2: number = Math.sin(U2), cosU2: number = Math.cos(U2);
+        let lambda: number = L;
+        let lambdaP: number;
+        let sinSigma: number, cosSigma: number, sigma: number, cosSqAlpha: number, cos2SigmaM: number;
+        let iterations: number = 100;
+        do {
+            const sinLambda: number = Math.sin(lambda), cosLambda: number = Math.cos(lambda);
+            sinSigma = Math.sqrt((cosU2 * sinLambda) * (cosU2 * sinLambda) +
+                (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) * (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda));
+            if (sinSigma === 0) { return 0; }
+            cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+            sigma = Math.atan2(sinSigma, cosSigma);
+            const sinAlpha: number = cosU1 * cosU2 * sinLambda / sinSigma;
+            cosSqAlpha = 1 - sinAlpha * sinAlpha;
+            cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - 2 * sinU1 * sinU2 / cosSqAlpha : 0;
+            const C: number = f / 16 * cosSqAlpha * (4 + f * (4 - 3 * cosSqAlpha));
+            lambdaP = lambda;
+            lambda = L + (1 - C) * f * sinAlpha *
+                (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+        } while (Math.abs(lambda - lambdaP) > 1e-12 && --iterations > 0);
+        if (iterations === 0) { return GeoMath.GetDistance(from, to); }
+
+        const uSq: number = cosSqAlpha * (a * a - b * b) / (b * b);
+        const A: number = 1 + uSq / 16384 * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+        const B: number = uSq / 1024 * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+        const deltaSigma: number = B * sinSigma * (cos2SigmaM + B / 4 * (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+            B / 6 * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+        return b * A * (sigma - deltaSigma);
+    }
+
+    /**
+     * Gets the location at a fraction of the great circle between two locations.
+     *
+     * @param from - The starting location.
+     * @param to - The destination.
+     * @param fraction - The fraction of the distance, where 0 returns the starting location and 1 the destination.
+     * @returns - The interpolated location. The longitude is normalized to [-180, 180].
+     *
+     * @memberof GeoMath
+     */
+    public static Interpolate(from: ILatLong, to: ILatLong, fraction: number): ILatLong {
+        const lat1: number = GeoMath.ToRadians(from.latitude);
+        const lng1: number = GeoMath.ToRadians(from.longitude);
+        const lat2: number = GeoMath.ToRadians(to.latitude);
+        const lng2: number = GeoMath.ToRadians(to.longitude);
+        const d: number = GeoMath.GetDistance(from, to) / GeoMath.EarthRadius;
+        if (d === 0) { return { latitude: from.latitude, longitude: from.longitude }; }
+        const a: number = Math.sin((1 - fraction) * d) / Math.sin(d);
+        const b: number = Math.sin(fraction * d) / Math.sin(d);
+        const x: number = a * Math.cos(lat1) * Math.cos(lng1) + b * Math.cos(lat2) * Math.cos(lng2);
+        const y: number = a * Math.cos(lat1) * Math.sin(lng1) + b * Math.cos(lat2) * Math.sin(lng2);
+        const z: number = a * Math.sin(lat1) + b * Math.sin(lat2);
+        return {
+            latitude: GeoMath.ToDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+            longitude: GeoMath.NormalizeLongitude(GeoMath.ToDegrees(Math.atan2(y, x)))
+        };
+    }
+
+    /**
+     * Normalizes a longitude to the range [-180, 180].
+     *
+     * @param longitude - The longitude in degrees.
+     * @returns - The normalized longitude.
+     *
+     * @memberof GeoMath
+     */
+    public static NormalizeLongitude(longitude: number): number {
+        if (longitude >= -180 && longitude <= 180) { return longitude; }
+        return ((longitude + 540) % 360 + 360) % 360 - 180;
+    }
+
+    ///
+    /// Private static methods
+    ///
+
+    /**
+     * Gets the signed area of a ring using the spherical excess of the polar triangles formed by each edge.
+     *
+     * @param ring - The ring.
+     * @returns - The area in square meters. Positive for counter-clockwise rings, negative otherwise.
+     *
+     * @memberof GeoMath
+     */
+    private static GetSignedArea(ring: Array<ILatLong>): number {
+        if (ring.length < 3) { return 0; }
+        let total: number = 0;
+        const prev: ILatLong = ring[ring.length - 1];
+        let prevTanLat: number = Math.tan((Math.PI / 2 - GeoMath.ToRadians(prev.latitude)) / 2);
+        let prevLng: number = GeoMath.ToRadians(prev.longitude);
+        ring.forEach(p => {
+            const tanLat: number = Math.tan((Math.PI / 2 - GeoMath.ToRadians(p.latitude)) / 2);
+            const lng: number = GeoMath.ToRadians(p.longitude);
+            const t: number = tanLat * prevTanLat;
+            const dLng: number = lng - prevLng;
+            total += 2 * Math.atan2(t * Math.sin(dLng), 1 + t * Math.cos(dLng));
+            prevTanLat = tanLat;
+            prevLng = lng;
+        });
+        return total * GeoMath.EarthRadius * GeoMath.EarthRadius;
+    }
+
+    /**
+     * Converts radians to degrees.
+     *
+     * @param radians - The angle in radians.
+     * @returns - The angle in degrees.
+     *
+     * @memberof GeoMath
+     */
+    private static ToDegrees(radians: number): number {
+        return radians * 180 / Math.PI;
+    }
+
+    /**
+     * Converts degrees to radians.
+     *
+     * @param degrees - The angle in degrees.
+     * @returns - The angle in radians.
+     *
+     * @memberof GeoMath
+     */
+    private static ToRadians(degrees: number): number {
+        return degrees * Math.PI / 180;
+    }
+
+    /**
+     * Normalizes a path or an array of paths to an array of paths.
+     *
+     * @param paths - The path, or an array of paths.
+     * @returns - The array of paths.
+     *
+     * @memberof GeoMath
+     */
+    private static ToRings(paths: Array<ILatLong> | Array<Array<ILatLong>>): Array<Array<ILatLong>> {
+        if (paths == null || paths.length === 0) { return []; }
+        return Array.isArray(paths[0]) ? <Array<Array<ILatLong>>>paths : [<Array<ILatLong>>paths];
+    }
+}
@@ -0,0 +1,338 @@
+import { ILatLong } from '../interfaces/ilatlong';
+
+/**
+ * Provider independent spatial predicates on polygons expressed as an array of rings, as returned by
+ * {@link Polygon.GetPaths}. Rings are combined using the even-odd rule: a location is inside the polygon if it is inside
+ * an odd number of rings, so rings within the outer ring are holes regardless of their orientation. This matches how
+ * Bing Maps renders multi-ring polygons. Edges are straight lines in latitude/longitude space and rings crossing the
+ * antimeridian are supported.
+ *
+ * ### Example
+ * ```typescript
+ * const inside: boolean = GeoPredicates.Contains(polygon.GetPaths(), { latitude: 47.6, longitude: -122.3 });
+ * const overlaps: boolean = GeoPredicates.Intersects(polygon.GetPaths(), other.GetPaths());
+ * ```
+ *
+ * @export
+ */
+export class GeoPredicates {
+
+    ///
+    /// Field declarations
+    ///
+    private static _epsilon: number = 1e-9;
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * Determines whether a location lies inside a polygon or on its boundary. Locations inside a hole are not contained.
+     *
+     * @param paths - The polygon path, or an array of paths.
+     * @param loc - The location to test.
+     * @returns - True if the location is inside the polygon or on its boundary, false otherwise.
+     *
+     * @memberof GeoPredicates
+     */
+    public static Contains(paths: Array<ILatLong> | Array<Array<ILatLong>>, loc: ILatLong): boolean {
+        if (loc == null) { return false; }
+        return GeoPredicates.Locate(GeoPredicates.ToRings(paths), GeoPredicates.ToPoint(loc)) >= 0;
+    }
+
+    /**
+     * Determines whether two polygons have at least one location in common, including their boundaries.
+     *
+     * @param a - The first polygon path, or array of paths.
+     * @param b - The second polygon path, or array of paths.
+     * @returns - True if the polygons intersect, false otherwise.
+     *
+     * @memberof GeoPredicates
+     */
+    public static Intersects(a: Array<ILatLong> | Array<Array<ILatLong>>, b: Array<ILatLong> | Array<Array<ILatLong>>): boolean {
+        const ra: Array<Array<[number, number]>> = GeoPredicates.ToRings(a);
+        const rb: Array<Array<[number, number]>> = GeoPredicates.AlignRings(ra, GeoPredicates.ToRings(b));
+        if (ra.length === 0 || rb.length === 0) { return false; }
+        if (GeoPredicates.EdgesMeet(ra, rb, false)) { return true; }
+        return GeoPredicates.AnyVertex(ra, p => GeoPredicates.Locate(rb, p) >= 0) ||
+            GeoPredicates.AnyVertex(rb, p => GeoPredicates.Locate(ra, p) >= 0);
+    }
+
+    /**
+     * Determines whether two polygons touch, which is the case if their boundaries have at least one location in common
+     * but their interiors do not intersect.
+     *
+     * @param a - The first polygon path, or array of paths.
+     * @param b - The second polygon path, or array of paths.
+     * @returns - True if the polygons touch, false otherwise.
+     *
+     * @memberof GeoPredicates
+     */
+    public static Touches(a: Array<ILatLong> | Array<Array<ILatLong>>, b: Array<ILatLong> | Array<Array<ILatLong>>): boolean {
+        const ra: Array<Array<[number, number]>> = GeoPredicates.ToRings(a);
+        const rb: Array<Array<[number, number]>> = GeoPredicates.AlignRings(ra, GeoPredicates.ToRings(b));
+        if (ra.length === 0 || rb.length === 0) { return false; }
+        if (!GeoPredicates.EdgesMeet(ra, rb, false) || GeoPredicates.EdgesMeet(ra, rb, true)) { return false; }
+        if (GeoPredicates.Locate(rb, GeoPredicates.InteriorPoint(ra)) > 0) { return false; }
+        if (GeoPredicates.Locate(ra, GeoPredicates.InteriorPoint(rb)) > 0) { return false; }
+        return !GeoPredicates.AnySample(ra, p => GeoPredicates.Locate(rb, p) > 0) &&
+            !GeoPredicates.AnySample(rb, p => GeoPredicates.Locate(ra, p) > 0);
+    }
+
+    /**
+     * Determines whether a polygon lies completely within another polygon. The inner polygon may touch the boundary of
+     * the outer polygon, but must not overlap any of its holes.
+     *
+     * @param inner - The polygon path, or array of paths, to test.
+     * @param outer - The containing polygon path, or array of paths.
+     * @returns - True if inner is within outer, false otherwise.
+     *
+     * @memberof GeoPredicates
+     */
+    public static Within(inner: Array<ILatLong> | Array<Array<ILatLong>>, outer: Array<ILatLong> | Array<Array<ILatLong>>): boolean {
+        const ri: Array<Array<[number, number]>> = GeoPredicates.ToRings(inner);
+        const ro: Array<Array<[number, number]>> = GeoPredicates.AlignRings(ri, GeoPredicates.ToRings(outer));
+        if (ri.length === 0 || ro.length === 0) { return false; }
+        if (GeoPredicates.EdgesMeet(ri, ro, true)) { return false; }
+        if (GeoPredicates.Locate(ro, GeoPredicates.InteriorPoint(ri)) <= 0) { return false; }
+        if (GeoPredicates.AnySample(ri, p => GeoPredicates.Locate(ro, p) < 0)) { return false; }
+        return !GeoPredicates.AnySample(ro, p => GeoPredicates.Locate(ri, p) > 0);
+    }
+
+    ///
+    /// Private static methods
+    ///
+
+    /**
+     * Shifts the rings of a polygon by a multiple of 360 degrees longitude so they overlap the longitude range of a
+     * reference polygon.
+     *
+     * @param reference - The reference rings.
+     * @param rings - The rings to shift.
+     * @returns - The shifted rings.
+     *
+     * @memberof GeoPredicates
+     */
+    private static AlignRings(reference: Array<Array<[number, number]>>, rings: Array<Array<[number, number]>>):
+        Array<Array<[number, number]>> {
+        if (reference.length === 0 || rings.length === 0) { return rings; }
+        const shift: number = Math.round((GeoPredicates.MidLongitude(reference) - GeoPredicates.MidLongitude(rings)) / 360) * 360;
+        if (shift === 0) { return rings; }
+        return rings.map(r => r.map(p => <[number, number]>[p[0] + shift, p[1]]));
+    }
+
+    /**
+     * Determines whether a predicate holds for any vertex of a set of rings.
+     *
+     * @param rings - The rings.
+     * @param fn - The predicate.
+     * @returns - True if the predicate holds for at least one vertex.
+     *
+     * @memberof GeoPredicates
+     */
+    private static AnyVertex(rings: Array<Array<[number, number]>>, fn: (p: [number, number]) => boolean): boolean {
+        return rings.some(r => r.some(fn));
+    }
+
+    /**
+     * Determines whether a predicate holds for any vertex or edge midpoint of a set of rings. Sampling the midpoints
+     * detects overlaps between polygons whose vertices all lie on each others boundaries.
+     *
+     * @param rings - The rings.
+     * @param fn - The predicate.
+     * @returns - True if the predicate holds for at least one sample.
+     *
+     * @memberof GeoPredicates
+     */
+    private static AnySample(rings: Array<Array<[number, number]>>, fn: (p: [number, number]) => boolean): boolean {
+        return rings.some(r => r.some((p, i) => {
+            const q: [number, number] = r[(i + 1) % r.length];
+            return fn(p) || fn([(p[0] + q[0]) / 2, (p[1] + q[1]) / 2]);
+        }));
+    }
+
+    /**
+     * Determines whether any edges of two sets of rings meet.
+     *
+     * @param a - The first set of rings.
+     * @param b - The second set of rings.
+     * @param properOnly - True to only consider edges crossing each other at a single interior point, false to also
+     * consider edges that touch or overlap.
+     * @returns - True if any edges meet, false otherwise.
+     *
+     * @memberof GeoPredicates
+     */
+    private static EdgesMeet(a: Array<Array<[number, number]>>, b: Array<Array<[number, number]>>, properOnly: boolean): boolean {
+        for (const ra of a) {
+            for (let i = 0; i < ra.length; i++) {
+                const p1: [number, number] = ra[i], p2: [number, number] = ra[(i + 1) % ra.length];
+                for (const rb of b) {
+                    for (let j = 0; j < rb.length; j++) {
+                        const q1: [number, number] = rb[j], q2: [number, number] = rb[(j + 1) % rb.length];
+                        const d1: number = GeoPredicates.Orientation(q1, q2, p1);
+                        const d2: number = GeoPredicates.Orientation(q1, q2, p2);
+                        const d3: number = GeoPredicates.Orientation(p1, p2, q1);
+                        const d4: number = GeoPredicates.Orientation(p1, p2, q2);
+                        if (d1 * d2 < 0 && d3 * d4 < 0) { return true; }
+                        if (properOnly) { continue; }
+                        if ((d1 === 0 && GeoPredicates.OnSegment(q1, q2, p1)) || (d2 === 0 && GeoPredicates.OnSegment(q1, q2, p2)) ||
+                            (d3 === 0 && GeoPredicates.OnSegment(p1, p2, q1)) || (d4 === 0 && GeoPredicates.OnSegment(p1, p2, q2))) {
+                            return true;
+                        }
+                    }
+                }
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Gets a point in the interior of a set of rings. The point is the middle of the widest interior span along a
+     * horizontal line between two vertex latitudes.
+     *
+     * @param rings - The rings.
+     * @returns - The point as [longitude, latitude].
+     *
+     * @memberof GeoPredicates
+     */
+    private static InteriorPoint(rings: Array<Array<[number, number]>>): [number, number] {
+        const ys: Array<number> = new Array<number>();
+        rings.forEach(r => r.forEach(p => { if (ys.indexOf(p[1]) === -1) { ys.push(p[1]); } }));
+        ys.sort((a, b) => a - b);
+        if (ys.length < 2) { return rings[0][0]; }
+        const k: number = Math.floor(ys.length / 2);
+        const y: number = (ys[k - 1] + ys[k]) / 2;
+        const xs: Array<number> = new Array<number>();
+        rings.forEach(r => r.forEach((a, i) => {
+            const b: [number, number] = r[(i + 1) % r.length];
+            if ((a[1] > y) !== (b[1] > y)) { xs.push(a[0] + (y - a[1]) * (b[0] - a[0]) / (b[1] - a[1])); }
+        }));
+        xs.sort((a, b) => a - b);
+        let x: number = rings[0][0][0], width: number = -1;
+        for (let i = 0; i + 1 < xs.length; i += 2) {
+            if (xs[i + 1] - xs[i] > width) {
+                width = xs[i + 1] - xs[i];
+                x = (xs[i] + xs[i + 1]) / 2;
+            }
+        }
+        return [x, y];
+    }
+
+    /**
+     * Locates a point relative to a set of rings using the even-odd rule.
+     *
+     * @param rings - The rings.
+     * @param p - The point as [longitude, latitude].
+     * @returns - 1 if the point is inside, 0 if it is on the boundary and -1 if it is outside.
+     *
+     * @memberof GeoPredicates
+     */
+    private static Locate(rings: Array<Array<[number, number]>>, p: [number, number]): number {
+        if (rings.length === 0) { return -1; }
+        const mid: number = GeoPredicates.MidLongitude(rings);
+        const x: number = p[0] + Math.round((mid - p[0]) / 360) * 360;
+        const y: number = p[1];
+        let inside: boolean = false;
+        for (const r of rings) {
+            for (let i = 0, j = r.length - 1; i < r.length; j = i++) {
+                const a: [number, number] = r[j], b: [number, number] = r[i];
+                if (GeoPredicates.Orientation(a, b, [x, y]) === 0 && GeoPredicates.OnSegment(a, b, [x, y])) { return 0; }
+                if ((b[1] > y) !== (a[1] > y) && x < (a[0] - b[0]) * (y - b[1]) / (a[1] - b[1]) + b[0]) { inside = !inside; }
+            }
+        }
+        return inside ? 1 : -1;
+    }
+
+    /**
+     * Gets the longitude in the middle of the longitude range covered by a set of rings.
+     *
+     * @param rings - The rings.
+     * @returns - The longitude.
+     *
+     * @memberof GeoPredicates
+     */
+    private static MidLongitude(rings: Array<Array<[number, number]>>): number {
+        let min: number = Number.MAX_VALUE, max: number = -Number.MAX_VALUE;
+        rings.forEach(r => r.forEach(p => {
+            if (p[0] < min) { min = p[0]; }
+            if (p[0] > max) { max = p[0]; }
+        }));
+        return (min + max) / 2;
+    }
+
+    /**
+     * Determines whether a point known to be collinear with a segment lies on the segment.
+     *
+     * @param a - The start of the segment.
+     * @param b - The end of the segment.
+     * @param p - The point.
+     * @returns - True if the point lies on the segment, false otherwise.
+     *
+     * @memberof GeoPredicates
+     */
+    private static OnSegment(a: [number, number], b: [number, number], p: [number, number]): boolean {
+        const e: number = GeoPredicates._epsilon;
+        return p[0] >= Math.min(a[0], b[0]) - e && p[0] <= Math.max(a[0], b[0]) + e &&
+            p[1] >= Math.min(a[1], b[1]) - e && p[1] <= Math.max(a[1], b[1]) + e;
+    }
+
+    /**
+     * Gets the orientation of a point relative to a directed segment.
+     *
+     * @param a - The start of the segment.
+     * @param b - The end of the segment.
+     * @param p - The point.
+     * @returns - 1 if the point is left of the segment, -1 if it is right of the segment and 0 if it is collinear.
+     *
+     * @memberof GeoPredicates
+     */
+    private static Orientation(a: [number, number], b: [number, number], p: [number, number]): number {
+        const cross: number = (b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0]);
+        const scale: number = Math.max(Math.abs(b[0] - a[0]) + Math.abs(b[1] - a[1]), 1);
+        if (Math.abs(cross) <= GeoPredicates._epsilon * scale) { return 0; }
+        return cross > 0 ? 1 : -1;
+    }
+
+    /**
+     * Converts a location to a point.
+     *
+     * @param loc - The location.
+     * @returns - The point as [longitude, latitude].
+     *
+     * @memberof GeoPredicates
+     */
+    private static ToPoint(loc: ILatLong): [number, number] {
+        return [loc.longitude, loc.latitude];
+    }
+
+    /**
+     * Converts a path or an array of paths to rings of points. The longitudes of each ring are unwrapped so that
+     * consecutive vertices are never more than 180 degrees apart, which keeps rings crossing the antimeridian
+     * contiguous. A closing vertex repeating the first vertex is removed.
+     *
+     * @param paths - The path, or an array of paths.
+     * @returns - The rings. Rings with less than three vertices are dropped.
+     *
+     * @memberof GeoPredicates
+     */
+    private static ToRings(paths: Array<ILatLong> | Array<Array<ILatLong>>): Array<Array<[number, number]>> {
+        if (paths == null || paths.length === 0) { return []; }
+        const rings: Array<Array<ILatLong>> = Array.isArray(paths[0]) ? <Array<Array<ILatLong>>>paths : [<Array<ILatLong>>paths];
+        const result: Array<Array<[number, number]>> = new Array<Array<[number, number]>>();
+        let reference: number = null;
+        rings.forEach(ring => {
+            const r: Array<[number, number]> = new Array<[number, number]>();
+            ring.forEach(loc => {
+                let x: number = loc.longitude;
+                const previous: number = r.length > 0 ? r[r.length - 1][0] : reference;
+                if (previous != null) { x += Math.round((previous - x) / 360) * 360; }
+                r.push([x, loc.latitude]);
+            });
+            if (r.length > 1 && r[0][0] === r[r.length - 1][0] && r[0][1] === r[r.length - 1][1]) { r.pop(); }
+            if (r.length < 3) { return; }
+            if (reference == null) { reference = r[0][0]; }
+            result.push(r);
+        });
+        return result;
+    }
+}
@@ -0,0 +1,98 @@
+import { ILatLong } from '../interfaces/ilatlong';
+
+/**
+ * This class contains helperfunctions to translate the abstract models into RFC 7946 (GeoJSON) structures.
+ *
+ * @export
+ */
+export class GeoJsonConversions {
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Translates a metadata map into a GeoJSON properties object.
+     *
+     * @param metadata - The metadata map.
+     * @returns - A properties object containing the key value pairs of the map.
+     *
+     * @memberof GeoJsonConversions
+     */
+    public static ToProperties(metadata: Map<string, any>): { [key: string]: any } {
+        const properties: { [key: string]: any } = {};
+        if (metadata) { metadata.forEach((v, k) => properties[k] = v); }
+        return properties;
+    }
+
+    /**
+     * Translates a geo coordinate into a GeoJSON position ([longitude, latitude]).
+     *
+     * @param loc - The geo coordinates to translate.
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The GeoJSON position.
+     *
+     * @memberof GeoJsonConversions
+     */
+    public static ToPosition(loc: ILatLong, precision?: number): Array<number> {
+        return [GeoJsonConversions.Round(loc.longitude, precision), GeoJsonConversions.Round(loc.latitude, precision)];
+    }
+
+    /**
+     * Translates a path into an array of GeoJSON positions.
+     *
+     * @param path - The path to translate.
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The array of GeoJSON positions.
+     *
+     * @memberof GeoJsonConversions
+     */
+    public static ToPositions(path: Array<ILatLong>, precision?: number): Array<Array<number>> {
+        return path.map(loc => GeoJsonConversions.ToPosition(loc, precision));
+    }
+
+    /**
+     * Translates a polygon path into a closed GeoJSON linear ring. Per RFC 7946 exterior rings are wound counterclockwise
+     * and holes clockwise, the path is reversed if necessary.
+     *
+     * @param path - The path to translate.
+     * @param isHole - True if the path describes a hole, false for the exterior ring.
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The GeoJSON linear ring.
+     *
+     * @memberof GeoJsonConversions
+     */
+    public static ToRing(path: Array<ILatLong>, isHole: boolean, precision?: number): Array<Array<number>> {
+        const ring: Array<Array<number>> = GeoJsonConversions.ToPositions(path, precision);
+        if (ring.length === 0) { return ring; }
+        const first: Array<number> = ring[0];
+        const last: Array<number> = ring[ring.length - 1];
+        if (first[0] !== last[0] || first[1] !== last[1]) { ring.push([first[0], first[1]]); }
+
+        let area: number = 0;
+        for (let i = 0; i < ring.length - 1; i++) {
+            area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+        }
+        if ((area < 0 && !isHole) || (area > 0 && isHole)) { ring.reverse(); }
+        return ring;
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Rounds a value to the given number of decimals.
+     *
+     * @param value - The value to round.
+     * @param precision - Optional. The number of decimals. If not supplied, the value is returned unchanged.
+     * @returns - The rounded value.
+     *
+     * @memberof GeoJsonConversions
+     */
+    private static Round(value: number, precision?: number): number {
+        if (precision == null || precision < 0) { return value; }
+        const f: number = Math.pow(10, precision);
+        return Math.round(value * f) / f;
+    }
+}
@@ -2,6 +2,7 @@ import { ILatLong } from '../../interfaces/ilatlong';
 import { GoogleConversions } from '../../services/google/google-conversions';
 import { CanvasOverlay } from '../canvas-overlay';
 import { MapLabel } from '../map-label';
+import { MapProjection } from '../map-projection';
 import { GoogleMapLabel } from './google-label';
 import * as GoogleMapTypes from '../../services/google/google-map-types';
 declare var google: any;
@@ -25,7 +26,7 @@ export class GoogleCanvasOverlay extends CanvasOverlay {
      * rendered for the current map view.
      * @memberof GoogleCanvasOverlay
      */
-    constructor(drawCallback: (canvas: HTMLCanvasElement) => void) {
+    constructor(drawCallback: (canvas: HTMLCanvasElement, projection: MapProjection) => void) {
         super(drawCallback);
     }
 
@@ -57,6 +58,22 @@ export class GoogleCanvasOverlay extends CanvasOverlay {
         return (<any>this).getMap();
     }
 
+    /**
+     * Gets a synchronous projection for the current map view.
+     *
+     * @returns - The {@link MapProjection}, or null if the overlay is not associated with a map.
+     * @memberof GoogleCanvasOverlay
+     * @method
+     */
+    public GetProjection(): MapProjection {
+        const map: GoogleMapTypes.GoogleMap = this.GetMap();
+        if (map == null) { return null; }
+        const c: GoogleMapTypes.LatLng = map.getCenter();
+        const el: HTMLDivElement = map.getDiv();
+        return new MapProjection({ latitude: c.lat(), longitude: c.lng() }, map.getZoom(),
+            { width: el.offsetWidth, height: el.offsetHeight });
+    }
+
     /**
      * Returns a MapLabel instance for the current platform that can be used as a tooltip.
      * This method only generates the map label. Content and placement is the responsibility
@@ -0,0 +1,246 @@
+import { ILatLong } from '../../interfaces/ilatlong';
+import { ICircleOptions } from '../../interfaces/icircle-options';
+import { GoogleConversions } from '../../services/google/google-conversions';
+import { Circle } from '../circle';
+import * as GoogleMapTypes from '../../services/google/google-map-types';
+
+declare var google: any;
+
+/**
+ * Concrete implementation of a circle for Google Maps, wrapping the native {@link GoogleMapTypes.Circle}.
+ *
+ * @export
+ */
+export class GoogleCircle extends Circle {
+
+    ///
+    /// Field declarations
+    ///
+    private _isUpdating: boolean = false;
+    private _metadata: Map<string, any> = new Map<string, any>();
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the circle metadata.
+     *
+     * @readonly
+     * @memberof GoogleCircle
+     */
+    public get Metadata(): Map<string, any> { return this._metadata; }
+
+    /**
+     * Gets the native primitve implementing the circle, in this case {@link GoogleMapTypes.Circle}
+     *
+     * @readonly
+     * @memberof GoogleCircle
+     */
+    public get NativePrimitve(): GoogleMapTypes.Circle { return this._circle; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of GoogleCircle.
+     * @param _circle - The {@link GoogleMapTypes.Circle} underlying the model.
+     *
+     * @memberof GoogleCircle
+     */
+    constructor(private _circle: GoogleMapTypes.Circle) {
+        super();
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Adds a delegate for an event. The centerchanged and radiuschanged events are only raised for user interaction,
+     * not when the center or radius are set programmatically.
+     *
+     * @param eventType - String containing the event name.
+     * @param fn - Delegate function to execute when the event occurs.
+     *
+     * @memberof GoogleCircle
+     */
+    public AddListener(eventType: string, fn: Function): void {
+        const supportedEvents = [
+            'click',
+            'dblclick',
+            'drag', 'dragend',
+            'dragstart',
+            'mousedown',
+            'mousemove',
+            'mouseout',
+            'mouseover',
+            'mouseup',
+            'rightclick'
+        ];
+        if (supportedEvents.indexOf(eventType) !== -1) {
+            this._circle.addListener(eventType, fn);
+        }
+        if (eventType === 'centerchanged' || eventType === 'radiuschanged') {
+            this._circle.addListener(eventType === 'centerchanged' ? 'center_changed' : 'radius_changed', () => {
+                if (!this._isUpdating) { fn(null); }
+            });
+        }
+    }
+
+    /**
+     * Deletes the circle.
+     *
+     * @memberof GoogleCircle
+     */
+    public Delete(): void {
+        google.maps.event.clearInstanceListeners(this._circle);
+        this._circle.setMap(null);
+    }
+
+    /**
+     * Gets the center of the circle.
+     *
+     * @returns - The center.
+     *
+     * @memberof GoogleCircle
+     */
+    public GetCenter(): ILatLong {
+        const c: GoogleMapTypes.LatLng = this._circle.getCenter();
+        return c ? { latitude: c.lat(), longitude: c.lng() } : null;
+    }
+
+    /**
+     * Gets whether the circle is draggable.
+     *
+     * @returns - True if the circle is dragable, false otherwise.
+     *
+     * @memberof GoogleCircle
+     */
+    public GetDraggable(): boolean {
+        return this._circle.getDraggable();
+    }
+
+    /**
+     * Gets whether the circle radius can be edited.
+     *
+     * @returns - True if the radius can be edited, false otherwise.
+     *
+     * @memberof GoogleCircle
+     */
+    public GetEditable(): boolean {
+        return this._circle.getEditable();
+    }
+
+    /**
+     * Gets the radius of the circle.
+     *
+     * @returns - The radius in meters.
+     *
+     * @memberof GoogleCircle
+     */
+    public GetRadius(): number {
+        return this._circle.getRadius();
+    }
+
+    /**
+     * Gets whether the circle is visible.
+     *
+     * @returns - True if the circle is visible, false otherwise.
+     *
+     * @memberof GoogleCircle
+     */
+    public GetVisible(): boolean {
+        return this._circle.getVisible();
+    }
+
+    /**
+     * Sets the center of the circle.
+     *
+     * @param center - The center.
+     *
+     * @memberof GoogleCircle
+     */
+    public SetCenter(center: ILatLong): void {
+        if (center == null) { return; }
+        const c: ILatLong = this.GetCenter();
+        if (c && c.latitude === center.latitude && c.longitude === center.longitude) { return; }
+        this.Update(() => this._circle.setCenter(GoogleConversions.TranslateLocation(center)));
+    }
+
+    /**
+     * Sets whether the circle is dragable.
+     *
+     * @param draggable - True to make the circle dragable, false otherwise.
+     *
+     * @memberof GoogleCircle
+     */
+    public SetDraggable(draggable: boolean): void {
+        this._circle.setDraggable(draggable);
+    }
+
+    /**
+     * Sets wether the circle radius is editable.
+     *
+     * @param editable - True to show the native edit handles, false otherwise.
+     *
+     * @memberof GoogleCircle
+     */
+    public SetEditable(editable: boolean): void {
+        this._circle.setEditable(editable);
+    }
+
+    /**
+     * Sets the circle options
+     *
+     * @param options - {@link ICircleOptions} object containing the options. The options are merged with the ones
+     * already on the underlying model.
+     *
+     * @memberof GoogleCircle
+     */
+    public SetOptions(options: ICircleOptions): void {
+        const o: GoogleMapTypes.CircleOptions = GoogleConversions.TranslateCircleOptions(options);
+        this.Update(() => this._circle.setOptions(o));
+    }
+
+    /**
+     * Sets the radius of the circle.
+     *
+     * @param radius - The radius in meters.
+     *
+     * @memberof GoogleCircle
+     */
+    public SetRadius(radius: number): void {
+        if (radius == null || radius === this._circle.getRadius()) { return; }
+        this.Update(() => this._circle.setRadius(radius));
+    }
+
+    /**
+     * Sets whether the circle is visible.
+     *
+     * @param visible - True to set the circle visible, false otherwise.
+     *
+     * @memberof GoogleCircle
+     */
+    public SetVisible(visible: boolean): void {
+        this._circle.setVisible(visible);
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Applies a programmatic change while suppressing the centerchanged and radiuschanged events.
+     *
+     * @param fn - The change to apply.
+     *
+     * @memberof GoogleCircle
+     */
+    private Update(fn: () => void): void {
+        this._isUpdating = true;
+        try { fn(); }
+        finally { this._isUpdating = false; }
+    }
+}
@@ -0,0 +1,444 @@
+import { IBox } from '../../interfaces/ibox';
+import { ICluster } from '../../interfaces/icluster';
+import { IClusterOptions } from '../../interfaces/icluster-options';
+import { IClusterEngineOptions } from '../../interfaces/icluster-engine-options';
+import { ClusterEngine } from '../cluster-engine';
+import { ClusterPlacementMode } from '../cluster-placement-mode';
+import * as GoogleMapTypes from '../../services/google/google-map-types';
+import { timer } from 'rxjs';
+
+declare var google: any;
+
+/**
+ * Implementation of the Google Maps marker clusterer contract backed by the built-in {@link ClusterEngine}. This allows
+ * {@link GoogleMarkerClusterer} to cluster markers without loading the external markerclusterer script.
+ *
+ * @export
+ */
+export class GoogleClusterEngineAdapter implements GoogleMapTypes.MarkerClusterer {
+
+    ///
+    /// Field declarations
+    ///
+    private _calculator: (markers: Array<GoogleMapTypes.Marker>, numStyles: number) => { text: string, index: number };
+    private _clusterMarkers: Array<GoogleMapTypes.Marker> = new Array<GoogleMapTypes.Marker>();
+    private _displayed: Set<GoogleMapTypes.Marker> = new Set<GoogleMapTypes.Marker>();
+    private _engine: ClusterEngine<GoogleMapTypes.Marker>;
+    private _gridSize: number = 45;
+    private _listeners: Array<GoogleMapTypes.MapsEventListener> = new Array<GoogleMapTypes.MapsEventListener>();
+    private _map: GoogleMapTypes.GoogleMap = null;
+    private _markers: Array<GoogleMapTypes.Marker> = new Array<GoogleMapTypes.Marker>();
+    private _maxZoom: number = null;
+    private _minClusterSize: number = 2;
+    private _placementMode: ClusterPlacementMode = ClusterPlacementMode.MeanValue;
+    private _redrawPending: boolean = false;
+    private _styles: Array<GoogleMapTypes.ClusterStyle> = new Array<GoogleMapTypes.ClusterStyle>();
+    private _zoomOnClick: boolean = true;
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * Default cluster calculator. Determines the style index based on the number of digits of the marker count,
+     * consistent with the markerclusterer library.
+     *
+     * @param markers - The markers in the cluster.
+     * @param numStyles - The number of available styles.
+     * @returns - The cluster text and the one based style index.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public static DefaultCalculator(markers: Array<GoogleMapTypes.Marker>, numStyles: number): { text: string, index: number } {
+        let index: number = 0;
+        let dv: number = markers.length;
+        while (dv !== 0) {
+            dv = Math.floor(dv / 10);
+            index++;
+        }
+        return { text: markers.length.toString(), index: Math.min(index, numStyles) };
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of GoogleClusterEngineAdapter.
+     *
+     * @param map - The map on which to render the clusters.
+     * @param markers - The initial markers.
+     * @param options - The options governing the clustering. See {@link IClusterOptions}.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    constructor(map: GoogleMapTypes.GoogleMap, markers: Array<GoogleMapTypes.Marker>, options: IClusterOptions) {
+        if (options.gridSize != null) { this._gridSize = options.gridSize; }
+        if (options.maxZoom != null) { this._maxZoom = options.maxZoom; }
+        if (options.minimumClusterSize != null) { this._minClusterSize = options.minimumClusterSize; }
+        if (options.placementMode != null) { this._placementMode = options.placementMode; }
+        if (options.styles != null) { this._styles = <Array<GoogleMapTypes.ClusterStyle>>options.styles; }
+        if (options.zoomOnClick != null) { this._zoomOnClick = options.zoomOnClick; }
+        this._calculator = GoogleClusterEngineAdapter.DefaultCalculator;
+        this._engine = new ClusterEngine<GoogleMapTypes.Marker>(this.GetEngineOptions());
+        if (markers) { this._markers.push(...markers); }
+        this.setMap(map);
+    }
+
+    ///
+    /// Public methods, MarkerClusterer implementation
+    ///
+
+    /**
+     * Adds a marker to the clusterer.
+     *
+     * @param marker - The marker to add.
+     * @param opt_nodraw - Optional. True to prevent the clusters from being redrawn.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public addMarker(marker: GoogleMapTypes.Marker, opt_nodraw?: boolean): void {
+        this._markers.push(marker);
+        if (!opt_nodraw) { this.ScheduleRedraw(); }
+    }
+
+    /**
+     * Adds markers to the clusterer.
+     *
+     * @param markers - The markers to add.
+     * @param opt_nodraw - Optional. True to prevent the clusters from being redrawn.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public addMarkers(markers: Array<GoogleMapTypes.Marker>, opt_nodraw?: boolean): void {
+        this._markers.push(...markers);
+        if (!opt_nodraw) { this.ScheduleRedraw(); }
+    }
+
+    /**
+     * Removes all markers from the clusterer.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public clearMarkers(): void {
+        this.resetViewport(true);
+        this._markers.splice(0);
+        this._engine.Load(this._markers, m => null);
+    }
+
+    /**
+     * Gets the cluster calculator.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public getCalculator(): (markers: Array<GoogleMapTypes.Marker>, numStyles: number) => { text: string, index: number } {
+        return this._calculator;
+    }
+
+    /**
+     * Gets the grid size.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public getGridSize(): number { return this._gridSize; }
+
+    /**
+     * Gets the map the clusterer renders on.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public getMap(): GoogleMapTypes.GoogleMap { return this._map; }
+
+    /**
+     * Gets the markers in the clusterer.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public getMarkers(): Array<GoogleMapTypes.Marker> { return this._markers; }
+
+    /**
+     * Gets the maximum zoom level at which markers are clustered.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public getMaxZoom(): number { return this._maxZoom; }
+
+    /**
+     * Gets the minimum cluster size.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public getMinClusterSize(): number { return this._minClusterSize; }
+
+    /**
+     * Gets the cluster styles.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public getStyles(): Array<GoogleMapTypes.ClusterStyle> { return this._styles; }
+
+    /**
+     * Gets the number of clusters currently rendered.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public getTotalClusters(): number { return this._clusterMarkers.length; }
+
+    /**
+     * Gets the number of markers in the clusterer.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public getTotalMarkers(): number { return this._markers.length; }
+
+    /**
+     * Gets whether clusters are placed at the mean location of their markers.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public isAverageCenter(): boolean { return this._placementMode !== ClusterPlacementMode.FirstPin; }
+
+    /**
+     * Gets whether the map zooms into a cluster when the cluster is clicked.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public isZoomOnClick(): boolean { return this._zoomOnClick; }
+
+    /**
+     * Recalculates and redraws the clusters for the current map view.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public redraw(): void {
+        this._redrawPending = false;
+        if (this._map == null) { return; }
+        this._engine.SetOptions(this.GetEngineOptions());
+        this._engine.Load(this._markers, m => {
+            const p: GoogleMapTypes.LatLng = m.getPosition();
+            return p ? { latitude: p.lat(), longitude: p.lng() } : null;
+        });
+        this.Render();
+    }
+
+    /**
+     * Removes a marker from the clusterer.
+     *
+     * @param marker - The marker to remove.
+     * @param opt_nodraw - Optional. True to prevent the clusters from being redrawn.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public removeMarker(marker: GoogleMapTypes.Marker, opt_nodraw?: boolean): void {
+        const i: number = this._markers.indexOf(marker);
+        if (i === -1) { return; }
+        this._markers.splice(i, 1);
+        if (this._displayed.has(marker)) {
+            marker.setMap(null);
+            this._displayed.delete(marker);
+        }
+        if (!opt_nodraw) { this.ScheduleRedraw(); }
+    }
+
+    /**
+     * Removes markers from the clusterer.
+     *
+     * @param markers - The markers to remove.
+     * @param opt_nodraw - Optional. True to prevent the clusters from being redrawn.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public removeMarkers(markers: Array<GoogleMapTypes.Marker>, opt_nodraw?: boolean): void {
+        markers.forEach(m => this.removeMarker(m, true));
+        if (!opt_nodraw) { this.ScheduleRedraw(); }
+    }
+
+    /**
+     * Removes the cluster markers from the map.
+     *
+     * @param hide - Optional. True to also hide the individual markers.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public resetViewport(hide?: boolean): void {
+        this._clusterMarkers.forEach(c => c.setMap(null));
+        this._clusterMarkers.splice(0);
+        if (hide) {
+            this._displayed.forEach(m => m.setMap(null));
+            this._displayed.clear();
+        }
+    }
+
+    /**
+     * Sets the cluster calculator.
+     *
+     * @param callback - Function returning the cluster text and the one based style index for a cluster.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public setCalculator(callback: (markers: Array<GoogleMapTypes.Marker>, numStyles: number) => { text: string, index: number }): void {
+        this._calculator = callback;
+    }
+
+    /**
+     * Sets the grid size.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public setGridSize(gridSize: number): void { this._gridSize = gridSize;
+        this.ScheduleRedraw();
+    }
+
+    /**
+     * Sets the map on which to render the clusters. Set to null to remove the clusters from the map.
+     *
+     * @param map - The map.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public setMap(map: GoogleMapTypes.GoogleMap): void {
+        if (this._map === map) { return; }
+        this._listeners.forEach(l => l.remove());
+        this._listeners.splice(0);
+        this.resetViewport(true);
+        this._map = map;
+        if (map != null) {
+            this._listeners.push(map.addListener('idle', () => this.Render()));
+            this.ScheduleRedraw();
+        }
+    }
+
+    /**
+     * Sets the maximum zoom level at which markers are clustered.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public setMaxZoom(maxZoom: number): void { this._maxZoom = maxZoom;
+        this.ScheduleRedraw();
+    }
+
+    /**
+     * Sets the minimum cluster size.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public setMinClusterSize(minClusterSize: number): void { this._minClusterSize = minClusterSize;
+        this.ScheduleRedraw();
+    }
+
+    /**
+     * Sets the cluster styles.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    public setStyles(styles: Array<GoogleMapTypes.ClusterStyle>): void { this._styles = styles; }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Creates the marker representing a cluster on the map.
+     *
+     * @param cluster - The cluster to represent.
+     * @returns - The cluster marker.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    private CreateClusterMarker(cluster: ICluster<GoogleMapTypes.Marker>): GoogleMapTypes.Marker {
+        const c: { text: string, index: number } = this._calculator(cluster.items, this._styles.length);
+        const style: GoogleMapTypes.ClusterStyle = this._styles.length > 0 ?
+            this._styles[Math.max(0, Math.min(c.index - 1, this._styles.length - 1))] : null;
+        const o: any = {
+            position: { lat: cluster.location.latitude, lng: cluster.location.longitude },
+            map: this._map,
+            label: { text: c.text, color: 'white', fontSize: '11px' },
+            zIndex: google.maps.Marker.MAX_ZINDEX + 1
+        };
+        if (style && style.url) {
+            let url: string = style.url.replace(/^["']|["']$/g, '');
+            const svgPrefix: string = 'data:image/svg+xml;utf8,';
+            if (url.indexOf(svgPrefix) === 0) {
+                url = 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(url.substr(svgPrefix.length));
+            }
+            o.icon = { url: url };
+            if (style.width && style.height) {
+                o.icon.anchor = new google.maps.Point(style.width / 2, style.height / 2);
+                o.icon.labelOrigin = new google.maps.Point(style.width / 2, style.height / 2);
+            }
+            if (style.textColor) { o.label.color = style.textColor; }
+            if (style.textSize) { o.label.fontSize = style.textSize + 'px'; }
+        }
+        const marker: GoogleMapTypes.Marker = new google.maps.Marker(o);
+        const nativeCluster: GoogleMapTypes.Cluster = {
+            getCenter: () => marker.getPosition(),
+            getMarkers: () => cluster.items,
+            getSize: () => cluster.count
+        };
+        marker.addListener('click', () => {
+            google.maps.event.trigger(this, 'clusterclick', nativeCluster);
+            if (this._zoomOnClick) {
+                this._map.setCenter(o.position);
+                this._map.setZoom(this._engine.GetExpansionZoom(cluster.id));
+            }
+        });
+        return marker;
+    }
+
+    /**
+     * Translates the clusterer settings into engine options.
+     *
+     * @returns - The engine options.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    private GetEngineOptions(): IClusterEngineOptions {
+        return {
+            gridSize: this._gridSize,
+            maxZoom: this._maxZoom != null ? this._maxZoom : 20,
+            minimumClusterSize: this._minClusterSize,
+            placementMode: this._placementMode
+        };
+    }
+
+    /**
+     * Renders the clusters for the current map view.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    private Render(): void {
+        if (this._map == null || this._map.getBounds() == null) { return; }
+        const b: GoogleMapTypes.LatLngBounds = this._map.getBounds();
+        const box: IBox = {
+            maxLatitude: b.getNorthEast().lat(),
+            maxLongitude: b.getNorthEast().lng(),
+            minLatitude: b.getSouthWest().lat(),
+            minLongitude: b.getSouthWest().lng()
+        };
+        const clusters: Array<ICluster<GoogleMapTypes.Marker>> = this._engine.GetClusters(box, this._map.getZoom());
+        const displayed: Set<GoogleMapTypes.Marker> = new Set<GoogleMapTypes.Marker>();
+
+        this.resetViewport(false);
+        clusters.forEach(c => {
+            if (c.count === 1) { displayed.add(c.items[0]); }
+            else { this._clusterMarkers.push(this.CreateClusterMarker(c)); }
+        });
+        this._displayed.forEach(m => { if (!displayed.has(m)) { m.setMap(null); } });
+        displayed.forEach(m => { if (!this._displayed.has(m)) { m.setMap(this._map); } });
+        this._displayed = displayed;
+        google.maps.event.trigger(this, 'clusteringend', this);
+    }
+
+    /**
+     * Schedules a redraw of the clusters. Multiple requests within the same cycle are coalesced.
+     *
+     * @memberof GoogleClusterEngineAdapter
+     */
+    private ScheduleRedraw(): void {
+        if (this._redrawPending) { return; }
+        this._redrawPending = true;
+        timer(0).subscribe(() => {
+            if (this._redrawPending) { this.redraw(); }
+        });
+    }
+}
@@ -0,0 +1,127 @@
+import { IPoint } from '../../interfaces/ipoint';
+import { IGroundOverlayOptions } from '../../interfaces/iground-overlay-options';
+import { GroundOverlay } from '../ground-overlay';
+import * as GoogleMapTypes from '../../services/google/google-map-types';
+declare var google: any;
+
+/**
+ * Concrete implementation of a {@link GroundOverlay} for Google Maps. The image is hosted in a custom OverlayView in
+ * the overlay layer pane, which, unlike the native GroundOverlay, supports rotation.
+ *
+ * @export
+ */
+export class GoogleGroundOverlay extends GroundOverlay {
+
+    ///
+    /// Field declarations
+    ///
+    private _clickListener: GoogleMapTypes.MapsEventListener;
+    private _overlay: any;
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the native OverlayView hosting the image.
+     *
+     * @readonly
+     * @memberof GoogleGroundOverlay
+     */
+    public get NativePrimitve(): any { return this._overlay; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of GoogleGroundOverlay and adds it to the map.
+     * @param _map - The map hosting the overlay.
+     * @param options - The overlay options. See {@link IGroundOverlayOptions}.
+     *
+     * @memberof GoogleGroundOverlay
+     */
+    constructor(private _map: GoogleMapTypes.GoogleMap, options: IGroundOverlayOptions) {
+        super(options);
+        this._overlay = new google.maps.OverlayView();
+        this._overlay.onAdd = () => {
+            this._overlay.getPanes().overlayLayer.appendChild(this._image);
+            this._clickListener = google.maps.event.addListener(this._map, 'click', (e: GoogleMapTypes.MouseEvent) => this.OnMapClick(e));
+        };
+        this._overlay.draw = () => this.Draw();
+        this._overlay.onRemove = () => {
+            if (this._image.parentNode) { this._image.parentNode.removeChild(this._image); }
+            if (this._clickListener) { google.maps.event.removeListener(this._clickListener); }
+            this._clickListener = null;
+        };
+        this._overlay.setMap(this._map);
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Removes the overlay from the map.
+     *
+     * @memberof GoogleGroundOverlay
+     */
+    public Delete(): void {
+        this._overlay.setMap(null);
+    }
+
+    ///
+    /// Protected methods
+    ///
+
+    /**
+     * Positions the image element for the current map view.
+     *
+     * @memberof GoogleGroundOverlay
+     */
+    protected Draw(): void {
+        if (this._options.visible === false || this._options.bounds == null) { return; }
+        const c: Array<IPoint> = this.GetCorners();
+        if (c) { this.Position(c[0], c[1]); }
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Gets the div pixels of the north west and south east corners of the bounds.
+     *
+     * @returns - The corners, or null if the projection is not yet available.
+     *
+     * @memberof GoogleGroundOverlay
+     */
+    private GetCorners(): Array<IPoint> {
+        const projection: any = this._overlay.getProjection();
+        if (!projection) { return null; }
+        const b = this._options.bounds;
+        const p0: GoogleMapTypes.Point = projection.fromLatLngToDivPixel(new google.maps.LatLng(b.maxLatitude, b.minLongitude));
+        const p1: GoogleMapTypes.Point = projection.fromLatLngToDivPixel(new google.maps.LatLng(b.minLatitude, b.maxLongitude));
+        const nw: IPoint = { x: p0.x, y: p0.y };
+        const se: IPoint = { x: p1.x, y: p1.y };
+        if (b.minLongitude > b.maxLongitude && se.x < nw.x) { se.x += projection.getWorldWidth(); }
+        return [nw, se];
+    }
+
+    /**
+     * Invokes the click listeners if a map click falls on the image.
+     *
+     * @param e - The map mouse event.
+     *
+     * @memberof GoogleGroundOverlay
+     */
+    private OnMapClick(e: GoogleMapTypes.MouseEvent): void {
+        if (!e || !e.latLng || !this._listeners.has('click')) { return; }
+        const c: Array<IPoint> = this.GetCorners();
+        if (!c) { return; }
+        const p: GoogleMapTypes.Point = this._overlay.getProjection().fromLatLngToDivPixel(e.latLng);
+        if (this.Contains({ x: p.x, y: p.y }, c[0], c[1])) {
+            this.Invoke('click', { latitude: e.latLng.lat(), longitude: e.latLng.lng() }, e);
+        }
+    }
+}
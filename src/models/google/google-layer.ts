@@ -15,7 +15,7 @@ import * as GoogleMapTypes from '../../services/google/google-map-types';
  *
  * @export
  */
-export class GoogleLayer implements Layer {
+export class GoogleLayer extends Layer implements Layer {
 
     ///
     /// Field declarations
@@ -51,7 +51,9 @@ export class GoogleLayer implements Layer {
      *
      * @memberof GoogleLayer
      */
-    constructor(private _layer: GoogleMapTypes.GoogleMap, private _maps: MapService, private _id: number) { }
+    constructor(private _layer: GoogleMapTypes.GoogleMap, private _maps: MapService, private _id: number) {
+        super();
+    }
 
 
     ///
@@ -119,6 +121,17 @@ export class GoogleLayer implements Layer {
         });
     }
 
+    /**
+     * Returns the entities currently held by the layer.
+     *
+     * @returns - Array of the entities in the layer.
+     *
+     * @memberof GoogleLayer
+     */
+    public GetEntities(): Array<Marker|InfoWindow|Polygon|Polyline> {
+        return this._entities.slice(0);
+    }
+
     /**
      * Returns the options governing the behavior of the layer.
      *
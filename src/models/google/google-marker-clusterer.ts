@@ -1,5 +1,8 @@
 import { GoogleMarker } from './google-marker';
+import { GoogleSpiderClusterMarker } from './google-spider-cluster-marker';
 import { IClusterOptions } from '../../interfaces/icluster-options';
+import { ISpiderClusterOptions } from '../../interfaces/ispider-cluster-options';
+import { ILineOptions } from '../../interfaces/iline-options';
 import { MapService } from '../../services/map.service';
 import { Layer } from '../layer';
 import { Marker } from '../marker';
@@ -8,12 +11,14 @@ import { ClusterPlacementMode } from '../cluster-placement-mode';
 import * as GoogleMapTypes from '../../services/google/google-map-types';
 import { timer } from 'rxjs';
 
+declare var google: any;
+
 /**
  * Concrete implementation of a clustering layer for the Google Map Provider.
  *
  * @export
  */
-export class GoogleMarkerClusterer implements Layer {
+export class GoogleMarkerClusterer extends Layer implements Layer {
 
     ///
     /// Field declarations
@@ -25,6 +30,32 @@ export class GoogleMarkerClusterer implements Layer {
     private _mapclicks: number = 0;
     private _currentZoom: number = 0;
     private _visible: boolean = true;
+    private _useSpiderCluster = false;
+    private _spiderMarkers: Array<GoogleSpiderClusterMarker> = new Array<GoogleSpiderClusterMarker>();
+    private _spiderMarkerLookup: Map<GoogleMapTypes.Marker, GoogleSpiderClusterMarker> =
+                     new Map<GoogleMapTypes.Marker, GoogleSpiderClusterMarker>();
+    private _selectionListeners: Map<GoogleMapTypes.Marker, GoogleMapTypes.MapsEventListener> =
+                     new Map<GoogleMapTypes.Marker, GoogleMapTypes.MapsEventListener>();
+    private _events: Array<GoogleMapTypes.MapsEventListener> = new Array<GoogleMapTypes.MapsEventListener>();
+    private _spiderOptions: ISpiderClusterOptions = {
+        circleSpiralSwitchover: 9,
+        collapseClusterOnMapChange: false,
+        collapseClusterOnNthClick: 1,
+        invokeClickOnHover: true,
+        minCircleLength: 60,
+        minSpiralAngleSeperation: 25,
+        spiralDistanceFactor: 5,
+        stickStyle: {
+            strokeColor: 'black',
+            strokeThickness: 2
+        },
+        stickHoverStyle: { strokeColor: 'red' },
+        markerSelected: null,
+        markerUnSelected: null
+    };
+    private _currentCluster: GoogleMapTypes.Cluster = null;
+    private _currentClusterMarker: GoogleMarker = null;
+    private _isTriggeringClick: boolean = false;
 
     ///
     /// Property definitions
@@ -53,7 +84,9 @@ export class GoogleMarkerClusterer implements Layer {
      *
      * @memberof GoogleMarkerClusterer
      */
-    constructor(private _layer: GoogleMapTypes.MarkerClusterer) { }
+    constructor(private _layer: GoogleMapTypes.MarkerClusterer) {
+        super();
+    }
 
 
     ///
@@ -101,6 +134,7 @@ export class GoogleMarkerClusterer implements Layer {
                 this._pendingMarkers.push(entity);
             }
             this._markerLookup.set(entity.NativePrimitve, entity);
+            this.AddSelectionListener(entity.NativePrimitve);
         }
         if (isMarker) {
             if (entity.IsLast) {
@@ -120,6 +154,7 @@ export class GoogleMarkerClusterer implements Layer {
         if (entities != null && Array.isArray(entities) && entities.length !== 0 ) {
             const e: Array<GoogleMapTypes.Marker> = entities.map(p => {
                 this._markerLookup.set(p.NativePrimitve, p);
+                this.AddSelectionListener(p.NativePrimitve);
                 p.NativePrimitve.setMap(null);
                     // remove the marker from the map as the clusterer will control marker visibility.
                 return p.NativePrimitve;
@@ -142,6 +177,14 @@ export class GoogleMarkerClusterer implements Layer {
      * @memberof GoogleMarkerClusterer
      */
     public Delete(): void {
+        if (this._useSpiderCluster) {
+            this.HideSpiderCluster();
+            this._events.forEach(e => e.remove());
+            this._events.splice(0);
+            this._selectionListeners.forEach(l => l.remove());
+            this._selectionListeners.clear();
+            this._useSpiderCluster = false;
+        }
         this._layer.getMarkers().forEach(m => {
             m.setMap(null);
                 // remove the marker from the map as the clusterer will control marker visibility.
@@ -151,6 +194,17 @@ export class GoogleMarkerClusterer implements Layer {
         this._pendingMarkers.splice(0);
     }
 
+    /**
+     * Returns the entities currently held by the layer.
+     *
+     * @returns - Array of the entities in the layer.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    public GetEntities(): Array<Marker> {
+        return this._markers.concat(this._pendingMarkers);
+    }
+
     /**
      * Returns the abstract marker used to wrap the Google Marker.
      *
@@ -163,6 +217,19 @@ export class GoogleMarkerClusterer implements Layer {
         return m;
     }
 
+    /**
+     * Returns the abstract spider marker used to wrap an exploded Google Marker.
+     *
+     * @param pin GoogleMapTypes.Marker. The native marker of the spider marker.
+     * @returns GoogleSpiderClusterMarker. The abstract spider marker object representing the marker.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    public GetSpiderMarkerFromGoogleMarker(pin: GoogleMapTypes.Marker): GoogleSpiderClusterMarker {
+        const m: GoogleSpiderClusterMarker = this._spiderMarkerLookup.get(pin);
+        return m;
+    }
+
     /**
      * Returns the options governing the behavior of the layer.
      *
@@ -196,6 +263,32 @@ export class GoogleMarkerClusterer implements Layer {
         return this._visible;
     }
 
+    /**
+     * Initializes spider behavior for the clusering layer (when a cluster maker is clicked, it explodes into a spider of the
+     * individual underlying pins.
+     *
+     * @param options ISpiderClusterOptions. Optional. Options governing the behavior of the spider.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    public InitializeSpiderClusterSupport(options?: ISpiderClusterOptions): void {
+        if (this._useSpiderCluster) { return; }
+        const m: GoogleMapTypes.GoogleMap = this._layer.getMap();
+        this._useSpiderCluster = true;
+        this._currentZoom = m.getZoom();
+        this.SetSpiderOptions(options);
+        this._markerLookup.forEach((v, k) => this.AddSelectionListener(k));
+
+        ///
+        /// Add spider related events....
+        ///
+        this._events.push(m.addListener('click', () => this.OnMapClick()));
+        this._events.push(m.addListener('dragstart', () => this.OnMapViewChangeStart()));
+        this._events.push(m.addListener('zoom_changed', () => this.OnMapZoomChanged()));
+        this._events.push(google.maps.event.addListener(this._layer, 'clusterclick',
+            (c: GoogleMapTypes.Cluster) => this.OnClusterClick(c)));
+    }
+
     /**
      * Removes an entity from the cluster layer.
      *
@@ -213,6 +306,10 @@ export class GoogleMarkerClusterer implements Layer {
                 this._layer.removeMarker(entity.NativePrimitve);
             }
             this._markerLookup.delete(entity.NativePrimitve);
+            if (this._selectionListeners.has(entity.NativePrimitve)) {
+                this._selectionListeners.get(entity.NativePrimitve).remove();
+                this._selectionListeners.delete(entity.NativePrimitve);
+            }
         }
     }
 
@@ -232,12 +329,16 @@ export class GoogleMarkerClusterer implements Layer {
         this._markers.splice(0);
         this._pendingMarkers.splice(0);
         this._markerLookup.clear();
+        this._selectionListeners.forEach(l => l.remove());
+        this._selectionListeners.clear();
+        this.HideSpiderCluster();
 
         const p: Array<GoogleMapTypes.Marker> = new Array<GoogleMapTypes.Marker>();
         entities.forEach((e: any) => {
             if (e.NativePrimitve && e.Location) {
                 e.NativePrimitve.setMap(null);
                 this._markerLookup.set(e.NativePrimitve, e);
+                this.AddSelectionListener(e.NativePrimitve);
                 if (this._visible) {
                     this._markers.push(e);
                     p.push(e.NativePrimitve);
@@ -280,6 +381,7 @@ export class GoogleMarkerClusterer implements Layer {
         if (options.minimumClusterSize != null) { this._layer.setMinClusterSize(options.minimumClusterSize); }
         if (options.styles != null) { this._layer.setStyles(options.styles); }
         if (options.visible != null) { this.SetVisible(options.visible); }
+        if (options.spiderClusterOptions) { this.SetSpiderOptions(options.spiderClusterOptions); }
     }
 
     /**
@@ -292,6 +394,7 @@ export class GoogleMarkerClusterer implements Layer {
     public SetVisible(visible: boolean): void {
         const map: GoogleMapTypes.GoogleMap = visible ? this._layer.getMap() : null;
         if (!visible) {
+            this.HideSpiderCluster();
             this._layer.resetViewport(true);
         }
         else {
@@ -363,4 +466,317 @@ export class GoogleMarkerClusterer implements Layer {
         if (!this._isClustering) { return; }
         this._isClustering = false;
     }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Attaches the handler invoking the markerSelected spider callback when an individual (unclustered) marker is clicked.
+     * Clicks re-triggered on the original marker from a spider marker are ignored.
+     *
+     * @param pin GoogleMapTypes.Marker. The native marker.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private AddSelectionListener(pin: GoogleMapTypes.Marker): void {
+        if (!this._useSpiderCluster || this._selectionListeners.has(pin)) { return; }
+        this._selectionListeners.set(pin, pin.addListener('click', () => {
+            if (this._isTriggeringClick) { return; }
+            if (this._spiderOptions.markerSelected) { this._spiderOptions.markerSelected(this.GetMarkerFromGoogleMarker(pin), null); }
+        }));
+    }
+
+    /**
+     * Hides the spider cluster and resotres the original pin.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private HideSpiderCluster(): void {
+        this._mapclicks = 0;
+        if (this._currentCluster) {
+            this._spiderMarkers.forEach(m => {
+                google.maps.event.clearInstanceListeners(m.NativePrimitve);
+                m.NativePrimitve.setMap(null);
+                m.Stick.setMap(null);
+            });
+            this._spiderMarkers.splice(0);
+            this._spiderMarkerLookup.clear();
+            this._currentCluster = null;
+            this._currentClusterMarker = null;
+            this._mapclicks = -1;
+            if (this._spiderOptions.markerUnSelected) { this._spiderOptions.markerUnSelected(); }
+        }
+    }
+
+    /**
+     * Delegate handling the click event on a cluster. Explodes the cluster into a spider or collapses it if the
+     * cluster is already exploded.
+     *
+     * @param cluster - The cluster that was clicked.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private OnClusterClick(cluster: GoogleMapTypes.Cluster): void {
+        const showNewCluster: boolean = this._currentCluster == null ||
+            this._currentCluster.getCenter().lat() !== cluster.getCenter().lat() ||
+            this._currentCluster.getCenter().lng() !== cluster.getCenter().lng() ||
+            this._currentCluster.getSize() !== cluster.getSize();
+        this.HideSpiderCluster();
+        if (showNewCluster) {
+            // defer to allow the map click that accompanies the cluster click to pass without collapsing the spider.
+            timer(0).subscribe(() => this.ShowSpiderCluster(cluster));
+        }
+    }
+
+    /**
+     * Delegate handling the click event on the map (outside a spider cluster). Depending on the
+     * spider options, closes the cluster or increments the click counter.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private OnMapClick(): void {
+        if (this._mapclicks === -1) {
+            return;
+        } else if (++this._mapclicks >= this._spiderOptions.collapseClusterOnNthClick) {
+            this.HideSpiderCluster();
+        } else {
+            // do nothing as this._mapclicks has already been incremented above
+        }
+    }
+
+    /**
+     * Delegate handling the map drag start event. Depending on the spider options, hides the
+     * the exploded spider or does nothing.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private OnMapViewChangeStart(): void {
+        if (this._spiderOptions.collapseClusterOnMapChange) {
+            this.HideSpiderCluster();
+        }
+    }
+
+    /**
+     * Delegate handling the map zoom changed event. Hides the spider cluster if the zoom level has changed.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private OnMapZoomChanged(): void {
+        const z: number = this._layer.getMap().getZoom();
+        const hasZoomChanged: boolean = (z !== this._currentZoom);
+        this._currentZoom = z;
+        if (hasZoomChanged) {
+            this.HideSpiderCluster();
+        }
+    }
+
+    /**
+     * Delegate invoked on click on an exploded spider marker. Invokes the markerSelected callback and the click
+     * event on the underlying original marker.
+     *
+     * @param m - The spider marker that was clicked.
+     * @param e - Mouse event.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private OnSpiderMarkerClick(m: GoogleSpiderClusterMarker, e: GoogleMapTypes.MouseEvent): void {
+        const p: GoogleMarker = m.ParentMarker;
+        if (this._spiderOptions.markerSelected) { this._spiderOptions.markerSelected(p, this._currentClusterMarker); }
+        if (p) { this.TriggerClick(p, e); }
+        this._mapclicks = 0;
+    }
+
+    /**
+     * Delegate invoked on mouse out on an exploded spider marker. Resets the hover style on the stick.
+     *
+     * @param m - The spider marker.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private OnSpiderMouseOut(m: GoogleSpiderClusterMarker): void {
+        m.Stick.setOptions(this.TranslateStickStyle(this._spiderOptions.stickStyle));
+    }
+
+    /**
+     * Invoked on mouse over on an exploded spider marker. Sets the hover style on the stick. Also invokes the click event
+     * on the underlying original marker dependent on the spider options.
+     *
+     * @param m - The spider marker.
+     * @param e - Mouse event.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private OnSpiderMouseOver(m: GoogleSpiderClusterMarker, e: GoogleMapTypes.MouseEvent): void {
+        m.Stick.setOptions(this.TranslateStickStyle(this._spiderOptions.stickHoverStyle));
+        if (this._spiderOptions.invokeClickOnHover && m.ParentMarker) {
+            this.TriggerClick(m.ParentMarker, e);
+        }
+    }
+
+    /**
+     * Sets the options for spider behavior.
+     *
+     * @param options ISpiderClusterOptions containing the options enumeration controlling the spider cluster behavior. The supplied options
+     * are merged with the default/existing options.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private SetSpiderOptions(options: ISpiderClusterOptions): void {
+        if (options) {
+            if (typeof options.circleSpiralSwitchover === 'number') {
+                this._spiderOptions.circleSpiralSwitchover = options.circleSpiralSwitchover;
+            }
+            if (typeof options.collapseClusterOnMapChange === 'boolean') {
+                this._spiderOptions.collapseClusterOnMapChange = options.collapseClusterOnMapChange;
+            }
+            if (typeof options.collapseClusterOnNthClick === 'number') {
+                this._spiderOptions.collapseClusterOnNthClick = options.collapseClusterOnNthClick;
+            }
+            if (typeof options.invokeClickOnHover === 'boolean') {
+                this._spiderOptions.invokeClickOnHover = options.invokeClickOnHover;
+            }
+            if (typeof options.minSpiralAngleSeperation === 'number') {
+                this._spiderOptions.minSpiralAngleSeperation = options.minSpiralAngleSeperation;
+            }
+            if (typeof options.spiralDistanceFactor === 'number') {
+                this._spiderOptions.spiralDistanceFactor = options.spiralDistanceFactor;
+            }
+            if (typeof options.minCircleLength === 'number') {
+                this._spiderOptions.minCircleLength = options.minCircleLength;
+            }
+            if (options.stickHoverStyle) {
+                this._spiderOptions.stickHoverStyle = options.stickHoverStyle;
+            }
+            if (options.stickStyle) {
+                this._spiderOptions.stickStyle = options.stickStyle;
+            }
+            if (options.markerSelected) {
+                this._spiderOptions.markerSelected = options.markerSelected;
+            }
+            if (options.markerUnSelected) {
+                this._spiderOptions.markerUnSelected = options.markerUnSelected;
+            }
+            if (typeof options.visible === 'boolean') {
+                this._spiderOptions.visible = options.visible;
+            }
+        }
+    }
+
+    /**
+     * Expands a cluster into it's open spider layout.
+     *
+     * @param cluster The cluster to show in it's open spider layout..
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private ShowSpiderCluster(cluster: GoogleMapTypes.Cluster): void {
+        this.HideSpiderCluster();
+        const m: GoogleMapTypes.GoogleMap = this._layer.getMap();
+        const projection: any = m ? m.getProjection() : null;
+        if (!cluster || !projection) { return; }
+        this._currentCluster = cluster;
+
+        // Create spider data.
+        const pins: Array<GoogleMapTypes.Marker> = cluster.getMarkers();
+        const center: GoogleMapTypes.LatLng = cluster.getCenter();
+        const scale: number = Math.pow(2, m.getZoom());
+        const worldCenter: GoogleMapTypes.Point = projection.fromLatLngToPoint(center);
+        const centerPoint: { x: number, y: number } = { x: worldCenter.x * scale, y: worldCenter.y * scale };
+        let angle = 0;
+        const makeSpiral: boolean = pins.length > this._spiderOptions.circleSpiralSwitchover;
+        let legPixelLength: number;
+        let stepAngle: number;
+        let stepLength: number;
+
+        this._currentClusterMarker = new GoogleMarker(new google.maps.Marker({ position: center }));
+        if (makeSpiral) {
+            legPixelLength = this._spiderOptions.minCircleLength / Math.PI;
+            stepLength = 2 * Math.PI * this._spiderOptions.spiralDistanceFactor;
+        }
+        else {
+            stepAngle = 2 * Math.PI / pins.length;
+            legPixelLength = (this._spiderOptions.spiralDistanceFactor / stepAngle / Math.PI / 2) * pins.length;
+            if (legPixelLength < this._spiderOptions.minCircleLength) { legPixelLength = this._spiderOptions.minCircleLength; }
+        }
+
+        for (let i = 0, len = pins.length; i < len; i++) {
+            // Calculate spider pin location.
+            if (!makeSpiral) {
+                angle = stepAngle * i;
+            }
+            else {
+                angle += this._spiderOptions.minSpiralAngleSeperation / legPixelLength + i * 0.0005;
+                legPixelLength += stepLength / angle;
+            }
+            const point: GoogleMapTypes.Point = new google.maps.Point(
+                (centerPoint.x + legPixelLength * Math.cos(angle)) / scale,
+                (centerPoint.y + legPixelLength * Math.sin(angle)) / scale);
+            const loc: GoogleMapTypes.LatLng = projection.fromPointToLatLng(point);
+
+            // Create stick to pin.
+            const stick: GoogleMapTypes.Polyline = new google.maps.Polyline(Object.assign({
+                path: [center, loc],
+                clickable: false,
+                map: m,
+                zIndex: google.maps.Marker.MAX_ZINDEX
+            }, this.TranslateStickStyle(this._spiderOptions.stickStyle)));
+
+            // Create pin in spiral that looks like the parent pin.
+            const parent: any = pins[i];
+            const pin: GoogleMapTypes.Marker = new google.maps.Marker({
+                position: loc,
+                map: m,
+                icon: parent.getIcon(),
+                label: parent.getLabel(),
+                title: parent.getTitle(),
+                zIndex: google.maps.Marker.MAX_ZINDEX + 2
+            });
+
+            const spiderMarker: GoogleSpiderClusterMarker = new GoogleSpiderClusterMarker(pin);
+            spiderMarker.Stick = stick;
+            spiderMarker.ParentMarker = <GoogleMarker>this.GetMarkerFromGoogleMarker(pins[i]);
+            pin.addListener('click', (e: GoogleMapTypes.MouseEvent) => this.OnSpiderMarkerClick(spiderMarker, e));
+            pin.addListener('mouseover', (e: GoogleMapTypes.MouseEvent) => this.OnSpiderMouseOver(spiderMarker, e));
+            pin.addListener('mouseout', () => this.OnSpiderMouseOut(spiderMarker));
+            this._spiderMarkers.push(spiderMarker);
+            this._spiderMarkerLookup.set(pin, spiderMarker);
+        }
+        this._mapclicks = 0;
+    }
+
+    /**
+     * Translates a stick style into Google polyline options.
+     *
+     * @param style - The stick style.
+     * @returns - The polyline options.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private TranslateStickStyle(style: ILineOptions): GoogleMapTypes.PolylineOptions {
+        const o: GoogleMapTypes.PolylineOptions = {};
+        if (style.strokeColor) { o.strokeColor = style.strokeColor; }
+        if (style.strokeThickness) { o.strokeWeight = style.strokeThickness; }
+        if (style.visible != null) { o.visible = style.visible; }
+        return o;
+    }
+
+    /**
+     * Raises the click event on an original marker on behalf of a spider marker, so the click handlers of the marker
+     * run without invoking the markerSelected callback again.
+     *
+     * @param marker - The original marker.
+     * @param e - Mouse event.
+     *
+     * @memberof GoogleMarkerClusterer
+     */
+    private TriggerClick(marker: GoogleMarker, e: GoogleMapTypes.MouseEvent): void {
+        this._isTriggeringClick = true;
+        try {
+            google.maps.event.trigger(marker.NativePrimitve, 'click', e);
+        }
+        finally {
+            this._isTriggeringClick = false;
+        }
+    }
 }
@@ -9,7 +9,7 @@ import * as GoogleMapTypes from '../../services/google/google-map-types';
  *
  * @export
  */
-export class GoogleMarker implements Marker {
+export class GoogleMarker extends Marker implements Marker {
 
     ///
     /// Field declarations
@@ -80,7 +80,9 @@ export class GoogleMarker implements Marker {
      *
      * @memberof GoogleMarker
      */
-    constructor(private _marker: GoogleMapTypes.Marker) { }
+    constructor(private _marker: GoogleMapTypes.Marker) {
+        super();
+    }
 
     ///
     /// Public methods
@@ -117,6 +119,15 @@ export class GoogleMarker implements Marker {
         return this._marker.getLabel().text;
     }
 
+    /**
+     * Gets the marker title
+     *
+     * @memberof GoogleMarker
+     */
+    public GetTitle(): string {
+        return this._marker.getTitle();
+    }
+
     /**
      * Gets whether the marker is visible.
      *
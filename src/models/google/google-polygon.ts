@@ -5,6 +5,7 @@ import { GoogleConversions } from '../../services/google/google-conversions';
 import { Polygon } from '../polygon';
 import { GoogleMapLabel } from './google-label';
 import * as GoogleMapTypes from '../../services/google/google-map-types';
+import { PolylineEncoding } from '../polyline-encoding';
 
 declare var google: any;
 
@@ -29,7 +30,9 @@ export class GooglePolygon extends Polygon implements Polygon {
     private _mouseOutListener: GoogleMapTypes.MapsEventListener = null;
     private _mouseMoveListener: GoogleMapTypes.MapsEventListener = null;
     private _metadata: Map<string, any> = new Map<string, any>();
-    private _editingCompleteEmitter: (event: IPolygonEvent) => void = null;
+    private _editListeners: Map<string, Array<(event: IPolygonEvent) => void>> = new Map<string, Array<(event: IPolygonEvent) => void>>();
+    private _pathListeners: Array<GoogleMapTypes.MapsEventListener> = new Array<GoogleMapTypes.MapsEventListener>();
+    private _isDragging: boolean = false;
 
     ///
     /// Property declarations
@@ -128,10 +131,14 @@ export class GooglePolygon extends Polygon implements Polygon {
     constructor(private _polygon: GoogleMapTypes.Polygon) {
         super();
         this._originalPath = this.GetPaths();
+        this._polygon.addListener('dragstart', () => { this._isDragging = true; });
+        this._polygon.addListener('dragend', () => { this._isDragging = false; });
+        this.ListenToPaths();
     }
 
     /**
-     * Adds a delegate for an event.
+     * Adds a delegate for an event. In addition to the mouse events, the pathchanged event is raised when editing
+     * completes and the vertexinserted, vertexmoved and vertexremoved events are raised as the user edits the path.
      *
      * @param eventType - String containing the event name.
      * @param fn - Delegate function to execute when the event occurs.
@@ -154,8 +161,9 @@ export class GooglePolygon extends Polygon implements Polygon {
         if (supportedEvents.indexOf(eventType) !== -1) {
             this._polygon.addListener(eventType, fn);
         }
-        if (eventType === 'pathchanged') {
-            this._editingCompleteEmitter = <(event: IPolygonEvent) => void>fn;
+        if (['pathchanged', 'vertexinserted', 'vertexmoved', 'vertexremoved'].indexOf(eventType) !== -1) {
+            if (!this._editListeners.has(eventType)) { this._editListeners.set(eventType, []); }
+            this._editListeners.get(eventType).push(<(event: IPolygonEvent) => void>fn);
         }
     }
 
@@ -165,6 +173,8 @@ export class GooglePolygon extends Polygon implements Polygon {
      * @memberof GooglePolygon
      */
     public Delete(): void {
+        this._pathListeners.forEach(l => google.maps.event.removeListener(l));
+        this._pathListeners.splice(0);
         this._polygon.setMap(null);
         if (this._label) { this._label.Delete(); }
         if (this._tooltip) { this._tooltip.Delete(); }
@@ -200,6 +210,7 @@ export class GooglePolygon extends Polygon implements Polygon {
      * @memberof GooglePolygon
      */
     public GetPath(): Array<ILatLong> {
+        if (this._fullResolutionPaths != null) { return this._fullResolutionPaths.length > 0 ? this._fullResolutionPaths[0] : []; }
         const p: Array<GoogleMapTypes.LatLng> = this._polygon.getPath();
         const path: Array<ILatLong> = new Array<ILatLong>();
         p.forEach(x => path.push({ latitude: x.lat(), longitude: x.lng() }));
@@ -214,6 +225,7 @@ export class GooglePolygon extends Polygon implements Polygon {
      * @memberof GooglePolygon
      */
     public GetPaths(): Array<Array<ILatLong>> {
+        if (this._fullResolutionPaths != null) { return this._fullResolutionPaths; }
         const p: Array<Array<GoogleMapTypes.LatLng>> = this._polygon.getPaths();
         const paths: Array<Array<ILatLong>> = new Array<Array<ILatLong>>();
         p.forEach(x => {
@@ -255,9 +267,10 @@ export class GooglePolygon extends Polygon implements Polygon {
      */
     public SetEditable(editable: boolean): void {
         const previous = this._polygon.getEditable();
+        if (!previous && editable && this._fullResolutionPaths != null) { this.SetPaths(this._fullResolutionPaths); }
         this._polygon.setEditable(editable);
-        if (previous && !editable && this._editingCompleteEmitter) {
-            this._editingCompleteEmitter({
+        if (previous && !editable) {
+            this.Emit('pathchanged', {
                 Click: null,
                 Polygon: this,
                 OriginalPath: this._originalPath,
@@ -276,6 +289,7 @@ export class GooglePolygon extends Polygon implements Polygon {
      * @memberof GooglePolygon
      */
     public SetOptions(options: IPolygonOptions): void {
+        options = PolylineEncoding.ResolvePolygonOptions(options);
         const o: GoogleMapTypes.PolygonOptions = GoogleConversions.TranslatePolygonOptions(options);
 
         if (typeof o.editable !== 'undefined') {
@@ -284,6 +298,7 @@ export class GooglePolygon extends Polygon implements Polygon {
         }
 
         this._polygon.setOptions(o);
+        if (o.paths) { this.ListenToPaths(); }
         if (options.visible != null && this._showLabel && this._label) { this._label.Set('hidden', !options.visible); }
     }
 
@@ -295,9 +310,11 @@ export class GooglePolygon extends Polygon implements Polygon {
      * @memberof GooglePolygon
      */
     public SetPath(path: Array<ILatLong>): void {
+        this._fullResolutionPaths = null;
         const p: Array<GoogleMapTypes.LatLng> = new Array<GoogleMapTypes.LatLng>();
         path.forEach(x => p.push(new google.maps.LatLng(x.latitude, x.longitude)));
         this._polygon.setPath(p);
+        this.ListenToPaths();
         this._originalPath = [path];
         if (this._label) {
             this._centroid = null;
@@ -316,8 +333,10 @@ export class GooglePolygon extends Polygon implements Polygon {
     public SetPaths(paths: Array<Array<ILatLong>> | Array<ILatLong>): void {
         if (paths == null) { return; }
         if (!Array.isArray(paths)) { return; }
+        this._fullResolutionPaths = null;
         if (paths.length === 0) {
             this._polygon.setPaths(new Array<GoogleMapTypes.LatLng>());
+            this.ListenToPaths();
             if (this._label) {
                 this._label.Delete();
                 this._label = null;
@@ -333,6 +352,7 @@ export class GooglePolygon extends Polygon implements Polygon {
                 p.push(_p);
             });
             this._polygon.setPaths(p);
+            this.ListenToPaths();
             this._originalPath = <Array<Array<ILatLong>>>paths;
             if (this._label) {
                 this._centroid = null;
@@ -360,6 +380,51 @@ export class GooglePolygon extends Polygon implements Polygon {
     /// Private methods
     ///
 
+    /**
+     * Invokes the delegates registered for an edit event.
+     *
+     * @param eventType - The event name.
+     * @param e - The event arguments.
+     *
+     * @memberof GooglePolygon
+     */
+    private Emit(eventType: string, e: IPolygonEvent): void {
+        const listeners: Array<(event: IPolygonEvent) => void> = this._editListeners.get(eventType);
+        if (listeners) { listeners.forEach(fn => fn(e)); }
+    }
+
+    /**
+     * Attaches the vertex listeners to the paths of the polygon. Needs to be called whenever the paths are replaced.
+     *
+     * @memberof GooglePolygon
+     */
+    private ListenToPaths(): void {
+        const toLatLong = (l: GoogleMapTypes.LatLng) => l ? { latitude: l.lat(), longitude: l.lng() } : null;
+        const paths: GoogleMapTypes.MVCArray<GoogleMapTypes.MVCArray<GoogleMapTypes.LatLng>> = <any>this._polygon.getPaths();
+        this._pathListeners.forEach(l => google.maps.event.removeListener(l));
+        this._pathListeners.splice(0);
+        paths.forEach((path, i) => {
+            const emit = (eventType: string, index: number, vertex: GoogleMapTypes.LatLng, previous?: GoogleMapTypes.LatLng) => {
+                if (this._isDragging) { return; }
+                this.Emit(eventType, {
+                    Click: null,
+                    Polygon: this,
+                    PathIndex: i,
+                    VertexIndex: index,
+                    Vertex: toLatLong(vertex),
+                    PreviousVertex: toLatLong(previous)
+                });
+            };
+            this._pathListeners.push(
+                path.addListener('insert_at', (index: number) => emit('vertexinserted', index, path.getAt(index))),
+                path.addListener('set_at', (index: number, previous: GoogleMapTypes.LatLng) =>
+                    emit('vertexmoved', index, path.getAt(index), previous)),
+                path.addListener('remove_at', (index: number, removed: GoogleMapTypes.LatLng) => emit('vertexremoved', index, removed))
+            );
+        });
+        ['insert_at', 'remove_at', 'set_at'].forEach(e => this._pathListeners.push(paths.addListener(e, () => this.ListenToPaths())));
+    }
+
     /**
      * Configures the label for the polygon
      * @memberof GooglePolygon
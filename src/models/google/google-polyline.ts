@@ -1,9 +1,11 @@
 import { ILatLong } from '../../interfaces/ilatlong';
 import { IPolylineOptions } from '../../interfaces/ipolyline-options';
+import { IPolylineEvent } from '../../interfaces/ipolyline-event';
 import { GoogleConversions } from '../../services/google/google-conversions';
 import * as GoogleMapTypes from '../../services/google/google-map-types';
 import { GoogleMapLabel } from './google-label';
 import { Polyline } from '../polyline';
+import { PolylineEncoding } from '../polyline-encoding';
 
 declare var google: any;
 
@@ -26,6 +28,10 @@ export class GooglePolyline extends Polyline implements Polyline {
     private _mouseOutListener: GoogleMapTypes.MapsEventListener = null;
     private _mouseMoveListener: GoogleMapTypes.MapsEventListener = null;
     private _metadata: Map<string, any> = new Map<string, any>();
+    private _originalPath: Array<ILatLong>;
+    private _editListeners: Map<string, Array<(event: IPolylineEvent) => void>> = new Map<string, Array<(event: IPolylineEvent) => void>>();
+    private _pathListeners: Array<GoogleMapTypes.MapsEventListener> = new Array<GoogleMapTypes.MapsEventListener>();
+    private _isDragging: boolean = false;
 
     ///
     /// Property declarations
@@ -85,10 +91,15 @@ export class GooglePolyline extends Polyline implements Polyline {
      */
     constructor(private _polyline: GoogleMapTypes.Polyline) {
         super();
+        this._originalPath = this.GetPath();
+        this._polyline.addListener('dragstart', () => { this._isDragging = true; });
+        this._polyline.addListener('dragend', () => { this._isDragging = false; });
+        this.ListenToPath();
     }
 
     /**
-     * Adds a delegate for an event.
+     * Adds a delegate for an event. In addition to the mouse events, the pathchanged event is raised when editing
+     * completes and the vertexinserted, vertexmoved and vertexremoved events are raised as the user edits the path.
      *
      * @param eventType - String containing the event name.
      * @param fn - Delegate function to execute when the event occurs.
@@ -110,6 +121,10 @@ export class GooglePolyline extends Polyline implements Polyline {
         if (supportedEvents.indexOf(eventType) !== -1) {
             this._polyline.addListener(eventType, fn);
         }
+        if (['pathchanged', 'vertexinserted', 'vertexmoved', 'vertexremoved'].indexOf(eventType) !== -1) {
+            if (!this._editListeners.has(eventType)) { this._editListeners.set(eventType, []); }
+            this._editListeners.get(eventType).push(<(event: IPolylineEvent) => void>fn);
+        }
     }
 
     /**
@@ -119,6 +134,8 @@ export class GooglePolyline extends Polyline implements Polyline {
      * @memberof Polyline
      */
     public Delete(): void {
+        this._pathListeners.forEach(l => google.maps.event.removeListener(l));
+        this._pathListeners.splice(0);
         this._polyline.setMap(null);
         if (this._tooltip) { this._tooltip.Delete(); }
     }
@@ -153,6 +170,7 @@ export class GooglePolyline extends Polyline implements Polyline {
      * @memberof Polyline
      */
     public GetPath(): Array<ILatLong> {
+        if (this._fullResolutionPath != null) { return this._fullResolutionPath; }
         const p: Array<GoogleMapTypes.LatLng> = this._polyline.getPath();
         const path: Array<ILatLong> = new Array<ILatLong>();
         p.forEach(x => path.push({ latitude: x.lat(), longitude: x.lng() }));
@@ -189,7 +207,21 @@ export class GooglePolyline extends Polyline implements Polyline {
      * @memberof Polyline
      */
     public SetEditable(editable: boolean): void {
+        const previous = this._polyline.getEditable();
+        if (!previous && editable) {
+            if (this._fullResolutionPath != null) { this.SetPath(this._fullResolutionPath); }
+            this._originalPath = this.GetPath();
+        }
         this._polyline.setEditable(editable);
+        if (previous && !editable) {
+            this.Emit('pathchanged', {
+                Click: null,
+                Polyline: this,
+                OriginalPath: this._originalPath,
+                NewPath: this.GetPath()
+            });
+            this._originalPath = this.GetPath();
+        }
     }
 
     /**
@@ -201,7 +233,14 @@ export class GooglePolyline extends Polyline implements Polyline {
      * @memberof Polyline
      */
     public SetOptions(options: IPolylineOptions): void {
+        options = PolylineEncoding.ResolvePolylineOptions(options);
         const o: GoogleMapTypes.PolylineOptions = GoogleConversions.TranslatePolylineOptions(options);
+
+        if (typeof o.editable !== 'undefined') {
+            this.SetEditable(o.editable);
+            delete o.editable;
+        }
+
         this._polyline.setOptions(o);
         if (options.path) {
             this.SetPath(<Array<ILatLong>>options.path);
@@ -216,9 +255,12 @@ export class GooglePolyline extends Polyline implements Polyline {
      * @memberof Polyline
      */
     public SetPath(path: Array<ILatLong>): void {
+        this._fullResolutionPath = null;
         const p: Array<GoogleMapTypes.LatLng> = new Array<GoogleMapTypes.LatLng>();
         path.forEach(x => p.push(new google.maps.LatLng(x.latitude, x.longitude)));
         this._polyline.setPath(p);
+        this._originalPath = path;
+        this.ListenToPath();
     }
 
     /**
@@ -235,6 +277,47 @@ export class GooglePolyline extends Polyline implements Polyline {
     ///
     /// Private methods
     ///
+
+    /**
+     * Invokes the delegates registered for an edit event.
+     *
+     * @param eventType - The event name.
+     * @param e - The event arguments.
+     *
+     * @memberof GooglePolyline
+     */
+    private Emit(eventType: string, e: IPolylineEvent): void {
+        const listeners: Array<(event: IPolylineEvent) => void> = this._editListeners.get(eventType);
+        if (listeners) { listeners.forEach(fn => fn(e)); }
+    }
+
+    /**
+     * Attaches the vertex listeners to the path of the polyline. Needs to be called whenever the path is replaced.
+     *
+     * @memberof GooglePolyline
+     */
+    private ListenToPath(): void {
+        const toLatLong = (l: GoogleMapTypes.LatLng) => l ? { latitude: l.lat(), longitude: l.lng() } : null;
+        const path: GoogleMapTypes.MVCArray<GoogleMapTypes.LatLng> = <any>this._polyline.getPath();
+        const emit = (eventType: string, index: number, vertex: GoogleMapTypes.LatLng, previous?: GoogleMapTypes.LatLng) => {
+            if (this._isDragging) { return; }
+            this.Emit(eventType, {
+                Click: null,
+                Polyline: this,
+                VertexIndex: index,
+                Vertex: toLatLong(vertex),
+                PreviousVertex: toLatLong(previous)
+            });
+        };
+        this._pathListeners.forEach(l => google.maps.event.removeListener(l));
+        this._pathListeners.splice(0);
+        this._pathListeners.push(
+            path.addListener('insert_at', (index: number) => emit('vertexinserted', index, path.getAt(index))),
+            path.addListener('set_at', (index: number, previous: GoogleMapTypes.LatLng) =>
+                emit('vertexmoved', index, path.getAt(index), previous)),
+            path.addListener('remove_at', (index: number, removed: GoogleMapTypes.LatLng) => emit('vertexremoved', index, removed))
+        );
+    }
     /**
      * Configures the tooltip for the polyline
      * @memberof GooglePolyline
@@ -0,0 +1,13 @@
+import { GoogleMarker } from './google-marker';
+import { SpiderClusterMarker } from '../spider-cluster-marker';
+import * as GoogleMapTypes from '../../services/google/google-map-types';
+
+export class GoogleSpiderClusterMarker extends GoogleMarker implements SpiderClusterMarker {
+
+    /** The parent marker in which the spider marker is derived from. */
+    public ParentMarker: GoogleMarker;
+
+    /** The stick that connects the spider marker to the cluster. */
+    public Stick: GoogleMapTypes.Polyline;
+
+}
@@ -0,0 +1,154 @@
+import { ITileLayerOptions } from '../../interfaces/itile-layer-options';
+import { TileLayer } from '../tile-layer';
+import * as GoogleMapTypes from '../../services/google/google-map-types';
+
+/**
+ * Concrete implementation of a {@link TileLayer} for Google Maps, wrapping a {@link GoogleMapTypes.ImageMapType} placed in the
+ * overlay map types of the map. Overlays are ordered by z-index, hidden layers are taken out of the overlay map types.
+ *
+ * @export
+ */
+export class GoogleTileLayer extends TileLayer {
+
+    ///
+    /// Field declarations
+    ///
+    private _visible: boolean;
+    private _zIndex: number;
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the native image map type.
+     *
+     * @readonly
+     * @memberof GoogleTileLayer
+     */
+    public get NativePrimitve(): GoogleMapTypes.ImageMapType { return this._mapType; }
+
+    /**
+     * Gets the options the layer was created with.
+     *
+     * @readonly
+     * @memberof GoogleTileLayer
+     */
+    public get Options(): ITileLayerOptions { return this._options; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of GoogleTileLayer.
+     * @param _mapType - The native image map type.
+     * @param _map - The map hosting the layer.
+     * @param _options - The options the layer was created with.
+     *
+     * @memberof GoogleTileLayer
+     */
+    constructor(
+        private _mapType: GoogleMapTypes.ImageMapType,
+        private _map: GoogleMapTypes.GoogleMap,
+        private _options: ITileLayerOptions) {
+        super();
+        this._zIndex = _options.zIndex != null ? _options.zIndex : 0;
+        this._visible = false;
+        this.SetVisible(_options.visible !== false);
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Removes the tile layer from the map.
+     *
+     * @memberof GoogleTileLayer
+     */
+    public Delete(): void {
+        this.SetVisible(false);
+    }
+
+    /**
+     * Gets the opacity of the layer.
+     *
+     * @returns - The opacity, between 0 and 1.
+     * @memberof GoogleTileLayer
+     */
+    public GetOpacity(): number {
+        return this._mapType.getOpacity();
+    }
+
+    /**
+     * Gets whether the layer is visible.
+     *
+     * @returns - True if the layer is visible, false otherwise.
+     * @memberof GoogleTileLayer
+     */
+    public GetVisible(): boolean {
+        return this._visible;
+    }
+
+    /**
+     * Sets the opacity of the layer.
+     *
+     * @param opacity - The opacity, between 0 and 1.
+     * @memberof GoogleTileLayer
+     */
+    public SetOpacity(opacity: number): void {
+        this._mapType.setOpacity(opacity);
+    }
+
+    /**
+     * Sets the visibility of the layer.
+     *
+     * @param visible - True to show the layer, false to hide it.
+     * @memberof GoogleTileLayer
+     */
+    public SetVisible(visible: boolean): void {
+        if (visible === this._visible) { return; }
+        this._visible = visible;
+        if (visible) {
+            this.Insert();
+        }
+        else {
+            const i: number = this._map.overlayMapTypes.getArray().indexOf(this._mapType);
+            if (i >= 0) { this._map.overlayMapTypes.removeAt(i); }
+        }
+    }
+
+    /**
+     * Sets the z-index of the layer.
+     *
+     * @param zIndex - The z-index.
+     * @memberof GoogleTileLayer
+     */
+    public SetZIndex(zIndex: number): void {
+        this._zIndex = zIndex;
+        (<any>this._mapType).zIndex = zIndex;
+        if (this._visible) {
+            const i: number = this._map.overlayMapTypes.getArray().indexOf(this._mapType);
+            if (i >= 0) { this._map.overlayMapTypes.removeAt(i); }
+            this.Insert();
+        }
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Inserts the map type into the overlay map types ahead of the first overlay with a higher z-index.
+     *
+     * @memberof GoogleTileLayer
+     */
+    private Insert(): void {
+        (<any>this._mapType).zIndex = this._zIndex;
+        const overlays: Array<any> = this._map.overlayMapTypes.getArray();
+        let i: number = 0;
+        while (i < overlays.length && (overlays[i] && overlays[i].zIndex != null ? overlays[i].zIndex : 0) <= this._zIndex) { i++; }
+        this._map.overlayMapTypes.insertAt(i, this._mapType);
+    }
+}
@@ -0,0 +1,219 @@
+import { IBox } from '../interfaces/ibox';
+import { IPoint } from '../interfaces/ipoint';
+import { IGroundOverlayOptions } from '../interfaces/iground-overlay-options';
+
+/**
+ * Abstract base for an image draped over a geographic bounding box. The image is rendered as an html image element
+ * positioned by the implementations. The image does not capture mouse events; clicks are detected by hit testing
+ * map clicks against the (rotated) image so that the map remains interactive underneath the overlay.
+ *
+ * @export
+ * @abstract
+ */
+export abstract class GroundOverlay {
+
+    ///
+    /// Field declarations
+    ///
+    protected _image: HTMLImageElement;
+    protected _listeners: Map<string, Array<Function>> = new Map<string, Array<Function>>();
+    protected _options: IGroundOverlayOptions;
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the native primitive implementing the overlay.
+     *
+     * @readonly
+     * @abstract
+     * @memberof GroundOverlay
+     */
+    public abstract get NativePrimitve(): any;
+
+    /**
+     * Gets the current options of the overlay.
+     *
+     * @readonly
+     * @memberof GroundOverlay
+     */
+    public get Options(): IGroundOverlayOptions { return this._options; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of GroundOverlay.
+     * @param options - The overlay options. See {@link IGroundOverlayOptions}.
+     *
+     * @memberof GroundOverlay
+     */
+    constructor(options: IGroundOverlayOptions) {
+        this._options = Object.assign({ opacity: 1, rotation: 0, visible: true }, options);
+        this._image = document.createElement('img');
+        this._image.style.position = 'absolute';
+        this._image.style.pointerEvents = 'none';
+        this._image.style.transformOrigin = '50% 50%';
+        this._image.draggable = false;
+        this.ApplyStyle();
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Adds an event listener to the overlay. The click event is invoked with the clicked {@link ILatLong} and the native
+     * mouse event.
+     *
+     * @param eventType - String containing the event for which to register the listener (e.g. "click").
+     * @param fn - Delegate invoked when the event occurs.
+     *
+     * @memberof GroundOverlay
+     */
+    public AddListener(eventType: string, fn: Function): void {
+        if (!this._listeners.has(eventType)) { this._listeners.set(eventType, new Array<Function>()); }
+        this._listeners.get(eventType).push(fn);
+    }
+
+    /**
+     * Removes the overlay from the map.
+     *
+     * @abstract
+     * @memberof GroundOverlay
+     */
+    public abstract Delete(): void;
+
+    /**
+     * Sets the geographic bounds of the image.
+     *
+     * @param bounds - The bounds.
+     * @memberof GroundOverlay
+     */
+    public SetBounds(bounds: IBox): void {
+        this._options.bounds = bounds;
+        this.Draw();
+    }
+
+    /**
+     * Sets the url of the image.
+     *
+     * @param imageUrl - The image url.
+     * @memberof GroundOverlay
+     */
+    public SetImageUrl(imageUrl: string): void {
+        this._options.imageUrl = imageUrl;
+        this.ApplyStyle();
+    }
+
+    /**
+     * Sets the opacity of the image.
+     *
+     * @param opacity - The opacity, between 0 and 1.
+     * @memberof GroundOverlay
+     */
+    public SetOpacity(opacity: number): void {
+        this._options.opacity = opacity;
+        this.ApplyStyle();
+    }
+
+    /**
+     * Sets the rotation of the image.
+     *
+     * @param rotation - The clockwise rotation in degrees.
+     * @memberof GroundOverlay
+     */
+    public SetRotation(rotation: number): void {
+        this._options.rotation = rotation;
+        this.ApplyStyle();
+    }
+
+    /**
+     * Sets the visibility of the overlay.
+     *
+     * @param visible - True to show the overlay, false to hide it.
+     * @memberof GroundOverlay
+     */
+    public SetVisible(visible: boolean): void {
+        this._options.visible = visible;
+        this.ApplyStyle();
+        if (visible) { this.Draw(); }
+    }
+
+    ///
+    /// Protected methods
+    ///
+
+    /**
+     * Applies the image url, opacity, rotation and visibility to the image element.
+     *
+     * @memberof GroundOverlay
+     */
+    protected ApplyStyle(): void {
+        if (this._image.getAttribute('src') !== this._options.imageUrl) { this._image.src = this._options.imageUrl; }
+        this._image.style.opacity = (this._options.opacity != null ? this._options.opacity : 1).toString();
+        this._image.style.transform = `rotate(${this._options.rotation || 0}deg)`;
+        this._image.style.display = this._options.visible === false ? 'none' : '';
+    }
+
+    /**
+     * Determines whether a pixel falls on the image.
+     *
+     * @param p - The pixel to test.
+     * @param nw - The pixel of the north west corner of the unrotated image.
+     * @param se - The pixel of the south east corner of the unrotated image.
+     * @returns - True if the pixel is on the image, false otherwise.
+     *
+     * @memberof GroundOverlay
+     */
+    protected Contains(p: IPoint, nw: IPoint, se: IPoint): boolean {
+        if (this._options.visible === false || p == null || nw == null || se == null) { return false; }
+        const cx: number = (nw.x + se.x) / 2;
+        const cy: number = (nw.y + se.y) / 2;
+        const r: number = -(this._options.rotation || 0) * Math.PI / 180;
+        const dx: number = p.x - cx;
+        const dy: number = p.y - cy;
+        const x: number = cx + dx * Math.cos(r) - dy * Math.sin(r);
+        const y: number = cy + dx * Math.sin(r) + dy * Math.cos(r);
+        return x >= Math.min(nw.x, se.x) && x <= Math.max(nw.x, se.x) && y >= Math.min(nw.y, se.y) && y <= Math.max(nw.y, se.y);
+    }
+
+    /**
+     * Positions the image element for the current map view.
+     *
+     * @abstract
+     * @memberof GroundOverlay
+     */
+    protected abstract Draw(): void;
+
+    /**
+     * Invokes the listeners registered for an event.
+     *
+     * @param eventType - The event.
+     * @param args - The arguments passed to the listeners.
+     *
+     * @memberof GroundOverlay
+     */
+    protected Invoke(eventType: string, ...args: Array<any>): void {
+        const l: Array<Function> = this._listeners.get(eventType);
+        if (l) { l.forEach(fn => fn(...args)); }
+    }
+
+    /**
+     * Places the image element at the pixel rectangle of the bounds.
+     *
+     * @param nw - The pixel of the north west corner.
+     * @param se - The pixel of the south east corner.
+     *
+     * @memberof GroundOverlay
+     */
+    protected Position(nw: IPoint, se: IPoint): void {
+        if (nw == null || se == null) { return; }
+        this._image.style.left = Math.min(nw.x, se.x) + 'px';
+        this._image.style.top = Math.min(nw.y, se.y) + 'px';
+        this._image.style.width = Math.abs(se.x - nw.x) + 'px';
+        this._image.style.height = Math.abs(se.y - nw.y) + 'px';
+    }
+}
@@ -0,0 +1,4 @@
+export enum HeatmapRadiusUnit {
+    Pixels = 0,
+    Meters
+}
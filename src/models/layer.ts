@@ -1,4 +1,6 @@
 import { ILayerOptions } from '../interfaces/ilayer-options';
+import { IGeoJsonFeature } from '../interfaces/igeojson-feature';
+import { IGeoJsonFeatureCollection } from '../interfaces/igeojson-feature-collection';
 import { Marker } from './marker';
 import { Polygon } from './polygon';
 import { Polyline } from './polyline';
@@ -76,6 +78,17 @@ export abstract class Layer {
      */
     public abstract Delete(): void;
 
+    /**
+     * Returns the entities currently held by the layer. Entities in this context are the model abstractions
+     * (such as marker, infowindow, polyline, polygon, etc..) that have been added to the layer.
+     *
+     * @returns - Array of the entities in the layer.
+     *
+     * @memberof Layer
+     * @abstract
+     */
+    public abstract GetEntities(): Array<Marker|InfoWindow|Polygon|Polyline>;
+
     /**
      * Returns the options governing the behavior of the layer.
      *
@@ -142,4 +155,26 @@ export abstract class Layer {
      */
     public abstract SetVisible(visible: boolean): void;
 
+    /**
+     * Serializes the markers, polygons and polylines in the layer into a GeoJSON (RFC 7946) FeatureCollection.
+     * Info windows are not serialized.
+     *
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The GeoJSON feature collection representing the layer.
+     *
+     * @memberof Layer
+     */
+    public ToGeoJSON(precision?: number): IGeoJsonFeatureCollection {
+        const features: Array<IGeoJsonFeature> = new Array<IGeoJsonFeature>();
+        this.GetEntities().forEach(e => {
+            if (e instanceof Marker || e instanceof Polygon || e instanceof Polyline) {
+                features.push(e.ToGeoJSON(precision));
+            }
+        });
+        return {
+            type: 'FeatureCollection',
+            features: features
+        };
+    }
+
 }
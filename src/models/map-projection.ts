@@ -0,0 +1,160 @@
+import { ILatLong } from '../interfaces/ilatlong';
+import { IPoint } from '../interfaces/ipoint';
+import { ISize } from '../interfaces/isize';
+
+/**
+ * Synchronous Web Mercator projection for a snapshot of the map view. Converts between geo coordinates and pixels relative
+ * to the top left corner of the map control, which is also the coordinate space of canvas overlays. Unlike
+ * {@link MapService.LocationsToPoints}, no round trip to the map is needed, so large numbers of points can be projected
+ * on every frame. The projection does not follow later view changes; obtain a new one from {@link MapService.GetProjection}
+ * or the canvas draw callback after the view changes. Rotated and tilted views are not supported.
+ *
+ * @export
+ */
+export class MapProjection {
+
+    ///
+    /// Field declarations
+    ///
+    private _center: ILatLong;
+    private _centerX: number;
+    private _centerY: number;
+    private _size: ISize;
+    private _worldSize: number;
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets the center of the view.
+     *
+     * @readonly
+     * @memberof MapProjection
+     */
+    public get Center(): ILatLong { return this._center; }
+
+    /**
+     * Gets the size of the view in pixels.
+     *
+     * @readonly
+     * @memberof MapProjection
+     */
+    public get Size(): ISize { return this._size; }
+
+    /**
+     * Gets the zoom level of the view.
+     *
+     * @readonly
+     * @memberof MapProjection
+     */
+    public get Zoom(): number { return this._zoom; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MapProjection.
+     * @param center - The center of the view.
+     * @param _zoom - The zoom level of the view. Fractional zoom levels are supported.
+     * @param size - The size of the view in pixels.
+     *
+     * @memberof MapProjection
+     */
+    constructor(center: ILatLong, private _zoom: number, size: ISize) {
+        this._center = { latitude: center.latitude, longitude: center.longitude };
+        this._size = { width: size.width, height: size.height };
+        this._worldSize = 256 * Math.pow(2, _zoom);
+        const p: IPoint = this.ToWorldPixel(this._center);
+        this._centerX = p.x;
+        this._centerY = p.y;
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Determines whether a pixel lies within the view.
+     *
+     * @param point - The pixel to test.
+     * @param margin - Optional. Number of pixels by which to extend the view on all sides, for example to include symbols
+     * drawn around the point. Defaults to 0.
+     * @returns - True if the pixel is in view, false otherwise.
+     *
+     * @memberof MapProjection
+     */
+    public Contains(point: IPoint, margin: number = 0): boolean {
+        return point.x >= -margin && point.y >= -margin &&
+            point.x <= this._size.width + margin && point.y <= this._size.height + margin;
+    }
+
+    /**
+     * Converts pixels relative to the top left corner of the map control into geo coordinates.
+     *
+     * @param points - The pixels to convert.
+     * @returns - The geo coordinates, in the order of the pixels.
+     *
+     * @memberof MapProjection
+     */
+    public ToLocation(points: Array<IPoint>): Array<ILatLong> {
+        const len: number = points.length;
+        const locs: Array<ILatLong> = new Array<ILatLong>(len);
+        const x0: number = this._centerX - this._size.width / 2;
+        const y0: number = this._centerY - this._size.height / 2;
+        for (let i = 0; i < len; i++) {
+            const lng: number = (x0 + points[i].x) / this._worldSize * 360 - 180;
+            const y: number = Math.min(Math.max(y0 + points[i].y, 0), this._worldSize);
+            locs[i] = {
+                latitude: (2 * Math.atan(Math.exp(Math.PI * (1 - 2 * y / this._worldSize))) - Math.PI / 2) * 180 / Math.PI,
+                longitude: lng - Math.floor((lng + 180) / 360) * 360
+            };
+        }
+        return locs;
+    }
+
+    /**
+     * Converts geo coordinates into pixels relative to the top left corner of the map control. Each location is projected
+     * onto the copy of the world nearest to the center of the view.
+     *
+     * @param locs - The geo coordinates to convert.
+     * @returns - The pixels, in the order of the geo coordinates. Pixels outside the view are included, use
+     * {@link Contains} to cull them.
+     *
+     * @memberof MapProjection
+     */
+    public ToPixel(locs: Array<ILatLong>): Array<IPoint> {
+        const len: number = locs.length;
+        const points: Array<IPoint> = new Array<IPoint>(len);
+        const w: number = this._worldSize;
+        const hw: number = this._size.width / 2;
+        const hh: number = this._size.height / 2;
+        for (let i = 0; i < len; i++) {
+            const p: IPoint = this.ToWorldPixel(locs[i]);
+            const dx: number = p.x - this._centerX;
+            points[i] = { x: dx - Math.round(dx / w) * w + hw, y: p.y - this._centerY + hh };
+        }
+        return points;
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Converts geo coordinates into Web Mercator world pixels at the zoom level of the view.
+     *
+     * @param loc - The geo coordinates to convert.
+     * @returns - The world pixel.
+     *
+     * @memberof MapProjection
+     */
+    private ToWorldPixel(loc: ILatLong): IPoint {
+        const s: number = Math.max(-0.9999, Math.min(0.9999, Math.sin(loc.latitude * Math.PI / 180)));
+        return {
+            x: (loc.longitude + 180) / 360 * this._worldSize,
+            y: (0.5 - Math.log((1 + s) / (1 - s)) / (4 * Math.PI)) * this._worldSize
+        };
+    }
+}
@@ -6,5 +6,7 @@
     RotatedImageMarker,
     RoundedImageMarker,
     ScaledImageMarker,
-    Custom
+    Custom,
+    SvgMarker,
+    PieChartMarker
 }
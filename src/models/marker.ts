@@ -3,7 +3,9 @@ import { IMarkerOptions } from '../interfaces/imarker-options';
 import { IMarkerIconInfo } from '../interfaces/imarker-icon-info';
 import { IPoint } from '../interfaces/ipoint';
 import { ISize } from '../interfaces/isize';
+import { IGeoJsonFeature } from '../interfaces/igeojson-feature';
 import { MarkerTypeId } from '../models/marker-type-id';
+import { GeoJsonConversions } from './geojson-conversions';
 
 /**
  * This interface defines the contract for an icon cache entry.
@@ -51,6 +53,21 @@ export abstract class Marker {
      */
     private static MarkerCache: Map<string, IMarkerIconCacheEntry> = new Map<string, IMarkerIconCacheEntry>();
 
+    /**
+     * Registry of custom marker creators used for {@link MarkerTypeId.Custom} markers.
+     *
+     * @memberof Marker
+     */
+    private static MarkerCreators: Map<string, (iconInfo: IMarkerIconInfo) => string|Promise<string>> =
+        new Map<string, (iconInfo: IMarkerIconInfo) => string|Promise<string>>();
+
+    /**
+     * Caches svg markup loaded for svg markers, keyed by the url of the svg.
+     *
+     * @memberof Marker
+     */
+    private static SvgTemplateCache: Map<string, Promise<string>> = new Map<string, Promise<string>>();
+
     /**
      * Creates a marker based on the marker info. In turn calls a number of internal members to
      * create the actual marker.
@@ -72,7 +89,9 @@ export abstract class Marker {
             case MarkerTypeId.RotatedImageMarker: return Marker.CreateRotatedImageMarker(iconInfo);
             case MarkerTypeId.RoundedImageMarker: return Marker.CreateRoundedImageMarker(iconInfo);
             case MarkerTypeId.ScaledImageMarker: return Marker.CreateScaledImageMarker(iconInfo);
-            case MarkerTypeId.Custom: throw Error('Custom Marker Creators are not currently supported.');
+            case MarkerTypeId.SvgMarker: return Marker.CreateSvgMarker(iconInfo);
+            case MarkerTypeId.PieChartMarker: return Marker.CreatePieChartMarker(iconInfo);
+            case MarkerTypeId.Custom: return Marker.CreateCustomMarker(iconInfo);
         }
         throw Error('Unsupported marker type: ' + iconInfo.markerType);
     }
@@ -99,6 +118,36 @@ export abstract class Marker {
         return img;
     }
 
+    /**
+     * Registers a custom marker creator. Custom creators are invoked for icons with a markerType of
+     * {@link MarkerTypeId.Custom} whose {@link IMarkerIconInfo.creator} matches the registered name. Registering a creator
+     * under an existing name replaces the previous creator.
+     *
+     * @param name - The name of the creator. Referenced via {@link IMarkerIconInfo.creator}.
+     * @param creator - Function generating the icon (url, data url or svg) for the icon info. The function can return the icon
+     * synchronously or a promise for the icon. Creators should set {@link IMarkerIconInfo.size} on the icon info to allow for proper
+     * anchoring of the marker.
+     *
+     * @memberof Marker
+     */
+    public static RegisterMarkerCreator(name: string, creator: (iconInfo: IMarkerIconInfo) => string|Promise<string>): void {
+        if (name == null || name === '') { throw Error('A name is required to register a marker creator.'); }
+        if (creator == null) { throw Error('A creator function is required to register a marker creator.'); }
+        Marker.MarkerCreators.set(name, creator);
+    }
+
+    /**
+     * Removes a previously registered custom marker creator.
+     *
+     * @param name - The name of the creator to remove.
+     * @returns - True if the creator was removed, false if no creator was registered under the name.
+     *
+     * @memberof Marker
+     */
+    public static UnregisterMarkerCreator(name: string): boolean {
+        return Marker.MarkerCreators.delete(name);
+    }
+
     /**
      * Creates a canvased based marker using the point collection contained in the iconInfo parameter.
      *
@@ -147,6 +196,40 @@ export abstract class Marker {
         return s;
     }
 
+    /**
+     * Creates a custom marker by delegating to the creator registered under {@link IMarkerIconInfo.creator}.
+     *
+     * @protected
+     * @param iconInfo - {@link IMarkerIconInfo} containing the information necessary to create the icon.
+     * @returns - a string or a promise for a string containing
+     * a data url with the marker image. In case of a cached image, the image will be returned, otherwise the promise.
+     *
+     * @memberof Marker
+     */
+    protected static CreateCustomMarker(iconInfo: IMarkerIconInfo): string|Promise<{icon: string, iconInfo: IMarkerIconInfo}> {
+        if (iconInfo == null || iconInfo.creator == null) {
+            throw Error('IMarkerIconInfo.creator is required for custom markers.');
+        }
+        const creator: (iconInfo: IMarkerIconInfo) => string|Promise<string> = Marker.MarkerCreators.get(iconInfo.creator);
+        if (creator == null) { throw Error('No marker creator registered under the name ' + iconInfo.creator + '.'); }
+        if (iconInfo.id != null && Marker.MarkerCache.has(iconInfo.id)) {
+            const mi: IMarkerIconCacheEntry = Marker.MarkerCache.get(iconInfo.id);
+            iconInfo.size = mi.markerSize;
+            return mi.markerIconString;
+        }
+
+        const complete: (s: string) => string = (s) => {
+            if (iconInfo.id != null) { Marker.MarkerCache.set(iconInfo.id, { markerIconString: s, markerSize: iconInfo.size }); }
+            Marker.GetImageForMarker(s);
+            return s;
+        };
+        const icon: string|Promise<string> = creator(iconInfo);
+        if (typeof(icon) === 'string') { return complete(icon); }
+        return Promise.resolve(icon).then(s => {
+            return {icon: complete(s), iconInfo: iconInfo};
+        });
+    }
+
     /**
      * Creates a circle marker image using information contained in the iconInfo parameter.
      *
@@ -243,6 +326,78 @@ export abstract class Marker {
         return s;
     }
 
+    /**
+     * Creates a pie or donut chart marker with a slice for each category in the icon info. The text, if supplied,
+     * is drawn in the center of the chart and the color is used to fill the center of a donut.
+     *
+     * @protected
+     * @param iconInfo - {@link IMarkerIconInfo} containing the information necessary to create the icon.
+     * @returns - String with the svg markup for the marker image.
+     *
+     * @memberof Marker
+     */
+    protected static CreatePieChartMarker(iconInfo: IMarkerIconInfo): string {
+        if (iconInfo == null || iconInfo.size == null || iconInfo.categories == null) {
+            throw Error('IMarkerIconInfo.size and IMarkerIconInfo.categories are required for pie chart markers.');
+        }
+        if (iconInfo.id != null && Marker.MarkerCache.has(iconInfo.id)) {
+            const mi: IMarkerIconCacheEntry = Marker.MarkerCache.get(iconInfo.id);
+            iconInfo.size = mi.markerSize;
+            return mi.markerIconString;
+        }
+
+        const palette: Array<string> = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd',
+            '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf'];
+        const d: number = iconInfo.size.width;
+        const r: number = d / 2;
+        const ir: number = r * Math.min(Math.max(iconInfo.innerRadiusRatio || 0, 0), 0.95);
+        const strokeWidth: number = iconInfo.strokeWidth || 0;
+        const f: (n: number) => string = n => (Math.round(n * 100) / 100).toString();
+        const x: (radius: number, angle: number) => string = (radius, t) => f(r + radius * Math.cos(t));
+        const y: (radius: number, angle: number) => string = (radius, t) => f(r + radius * Math.sin(t));
+        const stroke: string = strokeWidth > 0 ? ` stroke="white" stroke-width="${strokeWidth}"` : '';
+
+        let total: number = 0;
+        iconInfo.categories.forEach(v => total += Math.max(v, 0));
+        const svg: Array<string> = [`<svg xmlns="http://www.w3.org/2000/svg" width="${f(d)}" height="${f(d)}">`];
+        let angle: number = -Math.PI / 2;
+        let i: number = 0;
+        iconInfo.categories.forEach((v, k) => {
+            const color: string = (iconInfo.categoryColors && iconInfo.categoryColors.get(k)) || palette[i % palette.length];
+            i++;
+            if (v <= 0 || total === 0) { return; }
+            if (v === total) {
+                // a single category, arcs cannot describe a full circle.
+                svg.push(ir > 0 ?
+                    `<circle cx="${f(r)}" cy="${f(r)}" r="${f((r + ir) / 2)}" fill="none" stroke="${color}" stroke-width="${f(r - ir)}"/>` :
+                    `<circle cx="${f(r)}" cy="${f(r)}" r="${f(r)}" fill="${color}"/>`);
+                return;
+            }
+            const a: number = angle + 2 * Math.PI * v / total;
+            const large: number = a - angle > Math.PI ? 1 : 0;
+            const path: string = ir > 0 ?
+                `M${x(r, angle)} ${y(r, angle)}A${f(r)} ${f(r)} 0 ${large} 1 ${x(r, a)} ${y(r, a)}` +
+                `L${x(ir, a)} ${y(ir, a)}A${f(ir)} ${f(ir)} 0 ${large} 0 ${x(ir, angle)} ${y(ir, angle)}Z` :
+                `M${f(r)} ${f(r)}L${x(r, angle)} ${y(r, angle)}A${f(r)} ${f(r)} 0 ${large} 1 ${x(r, a)} ${y(r, a)}Z`;
+            svg.push(`<path d="${path}" fill="${color}"${stroke}/>`);
+            angle = a;
+        });
+        if (ir > 0 && iconInfo.color) {
+            svg.push(`<circle cx="${f(r)}" cy="${f(r)}" r="${f(ir)}" fill="${iconInfo.color}"/>`);
+        }
+        if (iconInfo.text) {
+            const text: string = iconInfo.text
+                .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+            svg.push(`<text x="${f(r)}" y="${f(r)}" text-anchor="middle" dominant-baseline="central" ` +
+                `font-family="${iconInfo.fontName || 'Arial'}" font-size="${f(iconInfo.fontSize || r * 0.6)}">${text}</text>`);
+        }
+        svg.push('</svg>');
+
+        const s: string = svg.join('');
+        if (iconInfo.id != null) { Marker.MarkerCache.set(iconInfo.id, { markerIconString: s, markerSize: iconInfo.size }); }
+        return s;
+    }
+
     /**
      * Creates an image marker by applying a roation to a supplied image.
      *
@@ -400,6 +555,101 @@ export abstract class Marker {
         return promise;
     }
 
+    /**
+     * Creates an svg based marker. The {color}, {text} and {rotation} placeholders in the svg markup are substituted with
+     * the values in the icon info and the result is rasterized at the device pixel ratio. On high density displays, the
+     * raster is wrapped in an svg image of the logical size to retain the marker dimensions.
+     *
+     * @protected
+     * @param iconInfo - {@link IMarkerIconInfo} containing the information necessary to create the icon.
+     * @returns - a string or a promise for a string containing
+     * a data url with the marker image. In case of a cached image, the image will be returned, otherwise the promise.
+     *
+     * @memberof Marker
+     */
+    protected static CreateSvgMarker(iconInfo: IMarkerIconInfo): string|Promise<{icon: string, iconInfo: IMarkerIconInfo}> {
+        if (document == null) { throw Error('Document context (window.document) is required for svg markers'); }
+        if (iconInfo == null || (iconInfo.svg == null && iconInfo.url == null)) {
+            throw Error('IMarkerIconInfo.svg or IMarkerIconInfo.url are required for svg markers.');
+        }
+        if (iconInfo.id != null && Marker.MarkerCache.has(iconInfo.id)) {
+            const mi: IMarkerIconCacheEntry = Marker.MarkerCache.get(iconInfo.id);
+            iconInfo.size = mi.markerSize;
+            return mi.markerIconString;
+        }
+
+        const template: Promise<string> = iconInfo.svg != null ? Promise.resolve(iconInfo.svg) : Marker.LoadSvgTemplate(iconInfo.url);
+        return template.then(t => {
+            const text: string = (iconInfo.text || '')
+                .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+            const svg: string = t
+                .replace(/\{color\}/g, iconInfo.color || 'red')
+                .replace(/\{text\}/g, text)
+                .replace(/\{rotation\}/g, (iconInfo.rotation || 0).toString());
+
+            return new Promise<{icon: string, iconInfo: IMarkerIconInfo}>((resolve, reject) => {
+                const image: HTMLImageElement = new Image();
+                image.onload = function () {
+                    const ratio: number = (typeof(window) !== 'undefined' && window.devicePixelRatio) || 1;
+                    const width: number = iconInfo.size ? iconInfo.size.width : image.width;
+                    const height: number = iconInfo.size ? iconInfo.size.height : image.height;
+                    if (!width || !height) {
+                        reject(Error('IMarkerIconInfo.size is required for svg markers without intrinsic dimensions.'));
+                        return;
+                    }
+                    const c: HTMLCanvasElement = document.createElement('canvas');
+                    const ctx: CanvasRenderingContext2D = c.getContext('2d');
+                    c.width = Math.ceil(width * ratio);
+                    c.height = Math.ceil(height * ratio);
+                    ctx.drawImage(image, 0, 0, c.width, c.height);
+                    iconInfo.size = { width: width, height: height };
+
+                    let s: string = c.toDataURL();
+                    if (ratio !== 1) {
+                        s = 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent([
+                            '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="',
+                            width.toString(), '" height="', height.toString(), '"><image width="', width.toString(),
+                            '" height="', height.toString(), '" xlink:href="', s, '"/></svg>'
+                        ].join(''));
+                    }
+                    if (iconInfo.id != null) { Marker.MarkerCache.set(iconInfo.id, { markerIconString: s, markerSize: iconInfo.size }); }
+                    resolve({icon: s, iconInfo: iconInfo});
+                };
+                image.onerror = function () {
+                    reject(Error('Unable to rasterize the svg for svg marker ' + (iconInfo.id || iconInfo.url || '') + '.'));
+                };
+                image.src = 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(svg);
+            });
+        });
+    }
+
+    /**
+     * Loads the svg markup from a url. Loaded markup is cached to allow reuse across svg markers with different
+     * substitutions.
+     *
+     * @private
+     * @param url - The url of the svg.
+     * @returns - A promise for the svg markup.
+     *
+     * @memberof Marker
+     */
+    private static LoadSvgTemplate(url: string): Promise<string> {
+        if (Marker.SvgTemplateCache.has(url)) { return Marker.SvgTemplateCache.get(url); }
+        const p: Promise<string> = new Promise<string>((resolve, reject) => {
+            const request: XMLHttpRequest = new XMLHttpRequest();
+            request.open('GET', url, true);
+            request.onload = () => {
+                if (request.status >= 200 && request.status < 300) { resolve(request.responseText); }
+                else { reject(Error('Unable to load svg from ' + url + ' (' + request.status + ').')); }
+            };
+            request.onerror = () => reject(Error('Unable to load svg from ' + url + '.'));
+            request.send();
+        });
+        Marker.SvgTemplateCache.set(url, p);
+        p.catch(() => Marker.SvgTemplateCache.delete(url));
+        return p;
+    }
+
     ///
     /// Property definitions
     ///
@@ -482,6 +732,15 @@ export abstract class Marker {
      */
     public abstract GetLabel(): string;
 
+    /**
+     * Gets the marker title
+     *
+     * @abstract
+     *
+     * @memberof Marker
+     */
+    public abstract GetTitle(): string;
+
     /**
      * Gets the marker visibility
      *
@@ -571,4 +830,24 @@ export abstract class Marker {
      */
     public abstract SetVisible(visible: boolean): void;
 
+    /**
+     * Serializes the marker into a GeoJSON (RFC 7946) Point feature. The marker metadata is written
+     * into the feature properties.
+     *
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The GeoJSON feature representing the marker.
+     *
+     * @memberof Marker
+     */
+    public ToGeoJSON(precision?: number): IGeoJsonFeature {
+        return {
+            type: 'Feature',
+            geometry: {
+                type: 'Point',
+                coordinates: GeoJsonConversions.ToPosition(this.Location, precision)
+            },
+            properties: GeoJsonConversions.ToProperties(this.Metadata)
+        };
+    }
+
 }
@@ -0,0 +1,206 @@
+import { ILatLong } from '../../interfaces/ilatlong';
+import { CanvasOverlay } from '../canvas-overlay';
+import { MapLabel } from '../map-label';
+import { MapProjection } from '../map-projection';
+import { MockMapLabel } from './mock-label';
+import { MockMap } from './mock-map';
+
+/**
+ * Concrete implementing a canvas overlay to be placed on the map for the in-memory mock provider.
+ *
+ * @export
+ */
+export class MockCanvasOverlay extends CanvasOverlay {
+
+    ///
+    /// field declarations
+    ///
+    private _map: MockMap;
+    private _viewChangeEndHandler: Function;
+    private _mapResizeHandler: Function;
+
+    /**
+     * Creates a new instance of the MockCanvasOverlay class.
+     * @param drawCallback A callback function that is triggered when the canvas is ready to be
+     * rendered for the current map view.
+     * @memberof MockCanvasOverlay
+     */
+    constructor(drawCallback: (canvas: HTMLCanvasElement, projection: MapProjection) => void) {
+        super(drawCallback);
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Obtains geo coordinates for the click location
+     *
+     * @param e - The mouse event. Expected to implement {@link IMockEventArgs}.
+     * @returns - {@link ILatLong} containing the geo coordinates of the clicked location.
+     * @memberof MockCanvasOverlay
+     */
+    public GetCoordinatesFromClick(e: any): ILatLong {
+        if (!e || !e.location) { return null; }
+        return { latitude: e.location.latitude, longitude: e.location.longitude };
+    }
+
+    /**
+     * Gets the map associted with the overlay.
+     *
+     * @memberof MockCanvasOverlay
+     * @method
+     */
+    public GetMap(): MockMap {
+        return this._map;
+    }
+
+    /**
+     * Gets a synchronous projection for the current map view.
+     *
+     * @returns - The {@link MapProjection}, or null if the overlay is not associated with a map.
+     * @memberof MockCanvasOverlay
+     * @method
+     */
+    public GetProjection(): MapProjection {
+        const map: MockMap = this.GetMap();
+        if (map == null) { return null; }
+        return new MapProjection(map.Center, map.Zoom, map.Size);
+    }
+
+    /**
+     * Returns a MapLabel instance for the current platform that can be used as a tooltip.
+     * This method only generates the map label. Content and placement is the responsibility
+     * of the caller.
+     *
+     * @returns - The label to be used for the tooltip.
+     * @memberof MockCanvasOverlay
+     * @method
+     */
+    public GetToolTipOverlay(): MapLabel {
+        const o: { [key: string]: any } = {
+            align: 'left',
+            offset: { x: 0, y: 25 },
+            backgroundColor: 'bisque',
+            hidden: true,
+            fontSize: 12,
+            fontColor: '#000000',
+            strokeWeight: 0
+        };
+        const label: MapLabel = new MockMapLabel(o);
+        label.SetMap(this.GetMap());
+        return label;
+    }
+
+    /**
+     * CanvasOverlay loaded, attach map events for updating canvas.
+     * @method
+     * @memberof MockCanvasOverlay
+     */
+    public OnLoad() {
+        const map: MockMap = this.GetMap();
+
+        // Get the current map view information.
+        this._zoomStart = map.Zoom;
+        this._centerStart = map.Center;
+
+        // Redraw the canvas.
+        this.Redraw(true);
+
+        // When the map view changes, render new data on the canvas.
+        this._viewChangeEndHandler = () => this.UpdateCanvas();
+        this._mapResizeHandler = () => this.UpdateCanvas();
+        map.AddListener('boundschanged', this._viewChangeEndHandler);
+        map.AddListener('resize', this._mapResizeHandler);
+
+        // set the overlay to ready state
+        this._readyResolver(true);
+    }
+
+    /**
+     * Sets the map for the overlay. Settings this to null remove the overlay from the map.
+     *
+     * @param map - The {@link MockMap} instance.
+     * @memberof MockCanvasOverlay
+     * @method
+     */
+    public SetMap(map: MockMap): void {
+        const m: MockMap = this.GetMap();
+        if (map === m) { return; }
+        if (m) {
+            const i: number = m.Layers.indexOf(this);
+            if (i > -1) { m.Layers.splice(i, 1); }
+            this.OnRemove();
+        }
+        this._map = map;
+        if (map != null) {
+            map.Layers.push(this);
+            this.OnAdd();
+            this.OnLoad();
+        }
+    }
+
+    ///
+    /// Protected methods
+    ///
+
+    /**
+     * Attaches the canvas to the map.
+     * @memberof MockCanvasOverlay
+     * @method
+     */
+    protected SetCanvasElement(el: HTMLCanvasElement): void {
+        if (el == null) {
+            if (this._canvas && this._canvas.parentNode) { this._canvas.parentNode.removeChild(this._canvas); }
+            return;
+        }
+        if (this._map && this._map.Host) { this._map.Host.appendChild(el); }
+    }
+
+    /**
+     * Remove the map event handlers.
+     * @memberof MockCanvasOverlay
+     * @method
+     * @protected
+     */
+    protected RemoveEventHandlers(): void {
+        const map: MockMap = this.GetMap();
+        if (map == null) { return; }
+        map.RemoveListener('boundschanged', this._viewChangeEndHandler);
+        map.RemoveListener('resize', this._mapResizeHandler);
+    }
+
+    /**
+     * Updates the Canvas size based on the map size.
+     * @memberof MockCanvasOverlay
+     * @method
+     * @protected
+     */
+    protected Resize(): void {
+        const map: MockMap = this.GetMap();
+
+        // Clear canvas by updating dimensions. This also ensures canvas stays the same size as the map.
+        this._canvas.width = map.Size.width;
+        this._canvas.height = map.Size.height;
+    }
+
+    /**
+     * Updates the Canvas.
+     * @memberof MockCanvasOverlay
+     * @method
+     * @protected
+     */
+    protected UpdateCanvas(): void {
+        const map: MockMap = this.GetMap();
+
+        // Reset CSS position and dimensions of canvas.
+        this.UpdatePosition(0, 0, map.Size.width, map.Size.height);
+
+        // Redraw the canvas.
+        this.Redraw(true);
+
+        // Get the current map view information.
+        this._zoomStart = map.Zoom;
+        this._centerStart = map.Center;
+    }
+}
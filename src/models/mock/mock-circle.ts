@@ -0,0 +1,227 @@
+import { ILatLong } from '../../interfaces/ilatlong';
+import { ICircleOptions } from '../../interfaces/icircle-options';
+import { Circle } from '../circle';
+import { MockMap } from './mock-map';
+import { MockEvents } from './mock-events';
+
+/**
+ * Concrete implementation of the {@link Circle} contract for the in-memory mock provider. The circle state is
+ * kept in a plain {@link ICircleOptions} object, which doubles as the native primitive.
+ *
+ * @export
+ */
+export class MockCircle extends Circle {
+
+    ///
+    /// Field declarations
+    ///
+    private _events: MockEvents = new MockEvents();
+    private _metadata: Map<string, any> = new Map<string, any>();
+    private _options: ICircleOptions;
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the circle metadata.
+     *
+     * @readonly
+     * @memberof MockCircle
+     */
+    public get Metadata(): Map<string, any> { return this._metadata; }
+
+    /**
+     * Gets the native primitve implementing the circle, in this case the plain {@link ICircleOptions} object.
+     *
+     * @readonly
+     * @memberof MockCircle
+     */
+    public get NativePrimitve(): any { return this._options; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockCircle.
+     * @param options - The {@link ICircleOptions} describing the circle.
+     * @param _map - The context map.
+     *
+     * @memberof MockCircle
+     */
+    constructor(options: ICircleOptions, protected _map: MockMap) {
+        super();
+        this._options = Object.assign({}, options);
+        if (this._options.visible == null) { this._options.visible = true; }
+        if (options.center) { this._options.center = { latitude: options.center.latitude, longitude: options.center.longitude }; }
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Adds a delegate for an event.
+     *
+     * @param eventType - String containing the event name.
+     * @param fn - Delegate function to execute when the event occurs.
+     *
+     * @memberof MockCircle
+     */
+    public AddListener(eventType: string, fn: Function): void {
+        this._events.AddListener(eventType, fn);
+    }
+
+    /**
+     * Deletes the circle.
+     *
+     * @memberof MockCircle
+     */
+    public Delete(): void {
+        if (this._map) {
+            const i: number = this._map.Entities.indexOf(this);
+            if (i > -1) { this._map.Entities.splice(i, 1); }
+        }
+        this._events.Clear();
+    }
+
+    /**
+     * Gets the center of the circle.
+     *
+     * @returns - The center.
+     *
+     * @memberof MockCircle
+     */
+    public GetCenter(): ILatLong {
+        const c: ILatLong = this._options.center;
+        return c ? { latitude: c.latitude, longitude: c.longitude } : null;
+    }
+
+    /**
+     * Gets whether the circle is draggable.
+     *
+     * @returns - True if the circle is dragable, false otherwise.
+     *
+     * @memberof MockCircle
+     */
+    public GetDraggable(): boolean {
+        return this._options.draggable === true;
+    }
+
+    /**
+     * Gets whether the circle radius can be edited.
+     *
+     * @returns - True if the radius can be edited, false otherwise.
+     *
+     * @memberof MockCircle
+     */
+    public GetEditable(): boolean {
+        return this._options.editable === true;
+    }
+
+    /**
+     * Gets the radius of the circle.
+     *
+     * @returns - The radius in meters.
+     *
+     * @memberof MockCircle
+     */
+    public GetRadius(): number {
+        return this._options.radius;
+    }
+
+    /**
+     * Gets whether the circle is visible.
+     *
+     * @returns - True if the circle is visible, false otherwise.
+     *
+     * @memberof MockCircle
+     */
+    public GetVisible(): boolean {
+        return this._options.visible;
+    }
+
+    /**
+     * Sets the center of the circle.
+     *
+     * @param center - The center.
+     *
+     * @memberof MockCircle
+     */
+    public SetCenter(center: ILatLong): void {
+        if (center == null) { return; }
+        this._options.center = { latitude: center.latitude, longitude: center.longitude };
+    }
+
+    /**
+     * Sets whether the circle is dragable.
+     *
+     * @param draggable - True to make the circle dragable, false otherwise.
+     *
+     * @memberof MockCircle
+     */
+    public SetDraggable(draggable: boolean): void {
+        this._options.draggable = draggable;
+    }
+
+    /**
+     * Sets wether the circle radius is editable.
+     *
+     * @param editable - True to make the radius editable, false otherwise.
+     *
+     * @memberof MockCircle
+     */
+    public SetEditable(editable: boolean): void {
+        this._options.editable = editable;
+    }
+
+    /**
+     * Sets the circle options
+     *
+     * @param options - {@link ICircleOptions} object containing the options. Options will be merged with the
+     * options already on the underlying object.
+     *
+     * @memberof MockCircle
+     */
+    public SetOptions(options: ICircleOptions): void {
+        const center: ILatLong = options.center;
+        Object.assign(this._options, options);
+        if (center != null) { this.SetCenter(center); }
+    }
+
+    /**
+     * Sets the radius of the circle.
+     *
+     * @param radius - The radius in meters.
+     *
+     * @memberof MockCircle
+     */
+    public SetRadius(radius: number): void {
+        this._options.radius = radius;
+    }
+
+    /**
+     * Sets whether the circle is visible.
+     *
+     * @param visible - True to set the circle visible, false otherwise.
+     *
+     * @memberof MockCircle
+     */
+    public SetVisible(visible: boolean): void {
+        this._options.visible = visible;
+    }
+
+    /**
+     * Programmatically fires an event on the circle. Use this in tests to simulate user interaction.
+     *
+     * @param eventType - The event to fire (e.g. "click", "radiuschanged").
+     * @param args - Optional event arguments. Merged into the default {@link IMockEventArgs}.
+     *
+     * @memberof MockCircle
+     */
+    public TriggerEvent(eventType: string, args?: any): void {
+        this._events.Invoke(eventType, Object.assign({ eventName: eventType, target: this, location: this.GetCenter() }, args));
+    }
+
+}
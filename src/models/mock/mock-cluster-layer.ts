@@ -0,0 +1,112 @@
+import { IBox } from '../../interfaces/ibox';
+import { ICluster } from '../../interfaces/icluster';
+import { IClusterOptions } from '../../interfaces/icluster-options';
+import { MapService } from '../../services/map.service';
+import { ClusterEngine } from '../cluster-engine';
+import { Marker } from '../marker';
+import { MockLayer } from './mock-layer';
+
+/**
+ * Concrete implementation of a cluster layer for the in-memory mock provider. The mock tracks the clustering state so
+ * tests can assert against it and computes clusters on demand using the built-in {@link ClusterEngine}.
+ *
+ * @export
+ */
+export class MockClusterLayer extends MockLayer {
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets whether clustering is currently enabled on the layer.
+     *
+     * @readonly
+     * @memberof MockClusterLayer
+     */
+    public get IsClustering(): boolean {
+        return this._options.clusteringEnabled !== false;
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates a new instance of the MockClusterLayer class.
+     *
+     * @param _options IClusterOptions. Options for the layer.
+     * @param _maps MapService. MapService implementation to leverage for the layer.
+     *
+     * @memberof MockClusterLayer
+     */
+    constructor(protected _options: IClusterOptions, _maps: MapService) {
+        super(_options, _maps);
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Computes the clusters for the markers in the layer using the built-in {@link ClusterEngine} and the layer options.
+     *
+     * @param zoom - The zoom level for which to compute the clusters.
+     * @param bounds - Optional. The bounds for which to return clusters. If not supplied, all clusters are returned.
+     * @returns - Array of clusters. Individual markers are returned as clusters with a count of 1.
+     *
+     * @memberof MockClusterLayer
+     */
+    public GetClusters(zoom: number, bounds?: IBox): Array<ICluster<Marker>> {
+        const engine: ClusterEngine<Marker> = new ClusterEngine<Marker>({
+            gridSize: this._options.gridSize,
+            maxZoom: this._options.maxZoom,
+            minimumClusterSize: this._options.clusteringEnabled === false ? Number.MAX_SAFE_INTEGER : this._options.minimumClusterSize,
+            placementMode: this._options.placementMode
+        });
+        engine.Load(<Array<Marker>>this.GetEntities().filter(e => e instanceof Marker), m => m.Location);
+        return engine.GetClusters(bounds || null, zoom);
+    }
+
+    /**
+     * Returns the options governing the behavior of the layer.
+     *
+     * @returns IClusterOptions. The layer options.
+     *
+     * @memberof MockClusterLayer
+     */
+    public GetOptions(): IClusterOptions {
+        return this._options;
+    }
+
+    /**
+     * Sets the options for the cluster layer.
+     *
+     * @param options IClusterOptions containing the options enumeration controlling the layer behavior. The supplied options
+     * are merged with the existing options.
+     *
+     * @memberof MockClusterLayer
+     */
+    public SetOptions(options: IClusterOptions) {
+        Object.assign(this._options, options);
+    }
+
+    /**
+     * Start to actually cluster the entities in a cluster layer.
+     *
+     * @memberof MockClusterLayer
+     */
+    public StartClustering(): void {
+        this._options.clusteringEnabled = true;
+    }
+
+    /**
+     * Stop to actually cluster the entities in a cluster layer.
+     *
+     * @memberof MockClusterLayer
+     */
+    public StopClustering(): void {
+        this._options.clusteringEnabled = false;
+    }
+
+}
@@ -0,0 +1,68 @@
+/**
+ * Simple listener registry used by the in-memory mock models to register and programmatically fire events.
+ *
+ * @export
+ */
+export class MockEvents {
+
+    ///
+    /// Field declarations
+    ///
+    private _listeners: Map<string, Array<Function>> = new Map<string, Array<Function>>();
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Adds a listener for an event.
+     *
+     * @param eventType - String containing the event for which to register the listener (e.g. "click")
+     * @param fn - Delegate invoked when the event occurs.
+     *
+     * @memberof MockEvents
+     */
+    public AddListener(eventType: string, fn: Function): void {
+        if (!this._listeners.has(eventType)) { this._listeners.set(eventType, new Array<Function>()); }
+        this._listeners.get(eventType).push(fn);
+    }
+
+    /**
+     * Removes all listeners.
+     *
+     * @memberof MockEvents
+     */
+    public Clear(): void {
+        this._listeners.clear();
+    }
+
+    /**
+     * Invokes all listeners registered for an event.
+     *
+     * @param eventType - The event to fire.
+     * @param args - The event argument passed to the listeners.
+     *
+     * @memberof MockEvents
+     */
+    public Invoke(eventType: string, args?: any): void {
+        const l: Array<Function> = this._listeners.get(eventType);
+        if (l == null) { return; }
+        l.slice(0).forEach(fn => fn(args));
+    }
+
+    /**
+     * Removes a listener for an event.
+     *
+     * @param eventType - String containing the event for which the listener was registered.
+     * @param fn - The delegate to remove.
+     *
+     * @memberof MockEvents
+     */
+    public RemoveListener(eventType: string, fn: Function): void {
+        const l: Array<Function> = this._listeners.get(eventType);
+        if (l == null) { return; }
+        const i: number = l.indexOf(fn);
+        if (i > -1) { l.splice(i, 1); }
+    }
+
+}
@@ -0,0 +1,105 @@
+import { IPoint } from '../../interfaces/ipoint';
+import { IMockEventArgs } from '../../interfaces/imock-event-args';
+import { IGroundOverlayOptions } from '../../interfaces/iground-overlay-options';
+import { GroundOverlay } from '../ground-overlay';
+import { MockMap } from './mock-map';
+
+/**
+ * Concrete implementation of a {@link GroundOverlay} for the in-memory mock provider. The image element is positioned using
+ * the mock map projection but not attached to the document. Map clicks on the image invoke the click listeners.
+ *
+ * @export
+ */
+export class MockGroundOverlay extends GroundOverlay {
+
+    ///
+    /// Field declarations
+    ///
+    private _clickHandler: Function;
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the native primitive. For the mock provider this is the image element.
+     *
+     * @readonly
+     * @memberof MockGroundOverlay
+     */
+    public get NativePrimitve(): HTMLImageElement { return this._image; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockGroundOverlay and adds it to the map.
+     * @param _map - The map hosting the overlay.
+     * @param options - The overlay options. See {@link IGroundOverlayOptions}.
+     *
+     * @memberof MockGroundOverlay
+     */
+    constructor(private _map: MockMap, options: IGroundOverlayOptions) {
+        super(options);
+        this._clickHandler = (e: IMockEventArgs) => {
+            if (!e.location || !this._options.bounds || !this._listeners.has('click')) { return; }
+            const c: Array<IPoint> = this.GetCorners();
+            if (this.Contains(this._map.LocationToPixel(e.location), c[0], c[1])) {
+                this.Invoke('click', { latitude: e.location.latitude, longitude: e.location.longitude }, e);
+            }
+        };
+        this._map.AddListener('click', this._clickHandler);
+        this._map.Layers.push(this);
+        this.Draw();
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Removes the overlay from the map.
+     *
+     * @memberof MockGroundOverlay
+     */
+    public Delete(): void {
+        const i: number = this._map.Layers.indexOf(this);
+        if (i >= 0) { this._map.Layers.splice(i, 1); }
+        this._map.RemoveListener('click', this._clickHandler);
+    }
+
+    ///
+    /// Protected methods
+    ///
+
+    /**
+     * Positions the image element for the current map view.
+     *
+     * @memberof MockGroundOverlay
+     */
+    protected Draw(): void {
+        if (this._options.visible === false || this._options.bounds == null) { return; }
+        const c: Array<IPoint> = this.GetCorners();
+        this.Position(c[0], c[1]);
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Gets the pixels of the north west and south east corners of the bounds.
+     *
+     * @returns - The corners.
+     *
+     * @memberof MockGroundOverlay
+     */
+    private GetCorners(): Array<IPoint> {
+        const b = this._options.bounds;
+        return [
+            this._map.LocationToPixel({ latitude: b.maxLatitude, longitude: b.minLongitude }),
+            this._map.LocationToPixel({ latitude: b.minLatitude, longitude: b.maxLongitude })
+        ];
+    }
+}
@@ -0,0 +1,129 @@
+import { ILatLong } from '../../interfaces/ilatlong';
+import { IInfoWindowOptions } from '../../interfaces/iinfo-window-options';
+import { InfoWindow } from '../info-window';
+import { MockEvents } from './mock-events';
+
+/**
+ * Concrete implementation of the {@link InfoWindow} contract for the in-memory mock provider. The info window state is
+ * kept in a plain {@link IInfoWindowOptions} object, which doubles as the native primitive.
+ *
+ * @export
+ */
+export class MockInfoWindow implements InfoWindow {
+
+    ///
+    /// Field declarations
+    ///
+    private _events: MockEvents = new MockEvents();
+
+    /**
+     * Gets whether the info box is currently open.
+     *
+     * @readonly
+     * @memberof MockInfoWindow
+     */
+    public get IsOpen(): boolean {
+        return this._options.visible === true;
+    }
+
+    /**
+     * Gets native primitve underlying the model.
+     *
+     * @memberof MockInfoWindow
+     * @property
+     * @readonly
+     */
+    public get NativePrimitve(): IInfoWindowOptions {
+        return this._options;
+    }
+
+    /**
+     * Creates an instance of MockInfoWindow.
+     * @param _options - The {@link IInfoWindowOptions} holding the info window state.
+     * @memberof MockInfoWindow
+     */
+    constructor(private _options: IInfoWindowOptions) { }
+
+    /**
+     * Adds an event listener to the InfoWindow.
+     *
+     * @param eventType - String containing the event for which to register the listener (e.g. "click")
+     * @param fn - Delegate invoked when the event occurs.
+     *
+     * @memberof MockInfoWindow
+     * @method
+     */
+    public AddListener(eventType: string, fn: Function): void {
+        this._events.AddListener(eventType, fn);
+    }
+
+    /**
+     * Closes the info window.
+     *
+     * @memberof MockInfoWindow
+     * @method
+     */
+    public Close(): void {
+        if (!this.IsOpen) { return; }
+        this._options.visible = false;
+        this.TriggerEvent('infowindowclose');
+    }
+
+    /**
+     * Gets the position of the info window.
+     *
+     * @returns - Returns the geo coordinates of the info window.
+     * @memberof MockInfoWindow
+     * @method
+     */
+    public GetPosition(): ILatLong {
+        return this._options.position;
+    }
+
+    /**
+     * Opens the info window.
+     *
+     * @memberof MockInfoWindow
+     * @method
+     */
+    public Open(): void {
+        this._options.visible = true;
+    }
+
+    /**
+     * Sets the info window options.
+     *
+     * @param options - Info window options to set. The options will be merged with any existing options.
+     *
+     * @memberof MockInfoWindow
+     * @method
+     */
+    public SetOptions(options: IInfoWindowOptions): void {
+        Object.assign(this._options, options);
+    }
+
+    /**
+     * Sets the info window position.
+     *
+     * @param position - Geo coordinates at which to anchor info window.
+     *
+     * @memberof MockInfoWindow
+     * @method
+     */
+    public SetPosition(position: ILatLong): void {
+        this._options.position = { latitude: position.latitude, longitude: position.longitude };
+    }
+
+    /**
+     * Programmatically fires an event on the info window. Use this in tests to simulate user interaction.
+     *
+     * @param eventType - The event to fire (e.g. "infowindowclose").
+     * @param args - Optional event arguments. Merged into the default {@link IMockEventArgs}.
+     *
+     * @memberof MockInfoWindow
+     * @method
+     */
+    public TriggerEvent(eventType: string, args?: any): void {
+        this._events.Invoke(eventType, Object.assign({ eventName: eventType, target: this, location: this.GetPosition() }, args));
+    }
+}
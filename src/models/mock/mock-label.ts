@@ -0,0 +1,187 @@
+import { ILabelOptions } from '../../interfaces/ilabel-options';
+import { ILatLong } from '../../interfaces/ilatlong';
+import { IPoint } from '../../interfaces/ipoint';
+import { MapLabel } from '../map-label';
+import { MockMap } from './mock-map';
+
+let id: number = 0;
+
+/**
+ * Implements a map label for the in-memory mock provider. Settings are kept as plain properties on the label
+ * so tests can inspect text, position and visibility.
+ *
+ * @export
+ */
+export class MockMapLabel extends MapLabel {
+
+    ///
+    /// Field declarations
+    ///
+    private _map: MockMap;
+
+    /**
+     * Returns the default label style for the platform
+     *
+     * @readonly
+     * @memberof MockMapLabel
+     */
+    public get DefaultLabelStyle(): ILabelOptions {
+        return {
+            fontSize: 12,
+            fontFamily: 'sans-serif',
+            fontColor: '#ffffff',
+            strokeWeight: 2,
+            strokeColor: '#000000'
+        };
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates a new MapLabel
+     * @param options Optional properties to set.
+     */
+    constructor(options: { [key: string]: any }) {
+        super(options);
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Gets the value of a setting.
+     *
+     * @param key - Key specifying the setting.
+     * @returns - The value of the setting.
+     * @memberof MockMapLabel
+     * @method
+     */
+    public Get(key: string): any {
+        return (<any>this)[key];
+    }
+
+    /**
+     * Gets the map associted with the label.
+     *
+     * @memberof MockMapLabel
+     * @method
+     */
+    public GetMap(): MockMap {
+        return this._map;
+    }
+
+    /**
+     * Set the value for a setting.
+     *
+     * @param key - Key specifying the setting.
+     * @param val - The value to set.
+     * @memberof MockMapLabel
+     * @method
+     */
+    public Set(key: string, val: any): void {
+        if (this.Get(key) !== val) {
+            (<any>this)[key] = val;
+            this.Changed(key);
+        }
+    }
+
+    /**
+     * Sets the map for the label. Settings this to null remove the label from hte map.
+     *
+     * @param map - The {@link MockMap} instance.
+     * @memberof MockMapLabel
+     * @method
+     */
+    public SetMap(map: MockMap): void {
+        const m: MockMap = this.GetMap();
+        if (map === m) { return; }
+        if (m) {
+            const i: number = m.Layers.indexOf(this);
+            if (i > -1) { m.Layers.splice(i, 1); }
+            this.OnRemove();
+        }
+        this._map = map;
+        if (map != null) {
+            map.Layers.push(this);
+            this.OnAdd();
+            this.DrawCanvas();
+            this.Draw();
+        }
+    }
+
+    /**
+     * Applies settings to the object
+     *
+     * @param options - An object containing the settings key value pairs.
+     * @memberof MockMapLabel
+     * @method
+     */
+    public SetValues(options: { [key: string]: any }): void {
+        const p: Array<string> = new Array<string>();
+        for (const key in options) {
+            if (key !== '') {
+                if (this.Get(key) !== options[key]) {
+                    (<any>this)[key] = options[key];
+                    p.push(key);
+                }
+            }
+        }
+        if (p.length > 0) { this.Changed(p); }
+    }
+
+    ///
+    /// Protected methods
+    ///
+
+    /**
+     * Draws the label on the map.
+     * @memberof MockMapLabel
+     * @method
+     * @protected
+     */
+    protected Draw(): void {
+        const m: MockMap = this.GetMap();
+        if (!this._canvas) { return; }
+        if (!m) { return; }
+        const style: CSSStyleDeclaration = this._canvas.style;
+        const visibility: string = this.Get('hidden') ? 'hidden' : '';
+        if (visibility !== '') {
+            style['visibility'] = visibility;
+            return;
+        }
+
+        const offset: IPoint = this.Get('offset') || { x: 0, y: 0 };
+        const latLng: ILatLong = this.Get('position');
+        if (!latLng) { return; }
+
+        const pos: IPoint = m.LocationToPixel(latLng);
+        style['top'] = (pos.y + offset.y) + 'px';
+        style['left'] = (pos.x + offset.x) + 'px';
+        style['visibility'] = visibility;
+    }
+
+    /**
+     * Delegate called when the label is added to the map. Generates and configures
+     * the canvas.
+     *
+     * @memberof MockMapLabel
+     * @method
+     * @protected
+     */
+    protected OnAdd() {
+        this._canvas = document.createElement('canvas');
+        this._canvas.id = `xMapLabel${id++}`;
+        const style: CSSStyleDeclaration = this._canvas.style;
+        style.position = 'absolute';
+
+        const ctx: CanvasRenderingContext2D = this._canvas.getContext('2d');
+        if (ctx) {
+            ctx.lineJoin = 'round';
+            ctx.textBaseline = 'top';
+        }
+        if (this._map.Host) { this._map.Host.appendChild(this._canvas); }
+    }
+}
@@ -0,0 +1,209 @@
+import { ILayerOptions } from '../../interfaces/ilayer-options';
+import { Layer } from '../layer';
+import { Marker } from '../marker';
+import { Polygon } from '../polygon';
+import { Polyline } from '../polyline';
+import { InfoWindow } from '../info-window';
+import { MapService } from '../../services/map.service';
+import { MockEvents } from './mock-events';
+
+/**
+ * Concrete implementation of a map layer for the in-memory mock provider. Entities are kept in a plain array.
+ *
+ * @export
+ */
+export class MockLayer extends Layer implements Layer {
+
+    ///
+    /// Field declarations
+    ///
+    protected _entities: Array<Marker|InfoWindow|Polygon|Polyline> = new Array<Marker|InfoWindow|Polygon|Polyline>();
+    protected _events: MockEvents = new MockEvents();
+    protected _visible: boolean = true;
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the entities currently in the layer.
+     *
+     * @readonly
+     * @memberof MockLayer
+     */
+    public get Entities(): Array<Marker|InfoWindow|Polygon|Polyline> { return this._entities; }
+
+    /**
+     * Get the native primitive underneath the abstraction layer. For the mock provider this is the layer itself.
+     *
+     * @returns MockLayer.
+     *
+     * @memberof MockLayer
+     */
+    public get NativePrimitve(): any {
+        return this;
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates a new instance of the MockLayer class.
+     *
+     * @param _options ILayerOptions. Options for the layer.
+     * @param _maps MapService. MapService implementation to leverage for the layer.
+     *
+     * @memberof MockLayer
+     */
+    constructor(protected _options: ILayerOptions, protected _maps: MapService) {
+        super();
+    }
+
+    ///
+    /// Public methods, Layer interface implementation
+    ///
+
+    /**
+     * Adds an event listener for the layer.
+     *
+     * @param eventType string. Type of event to add (click, mouseover, etc).
+     * @param fn function. Handler to call when the event occurs.
+     *
+     * @memberof MockLayer
+     */
+    public AddListener(eventType: string, fn: Function): void {
+        this._events.AddListener(eventType, fn);
+    }
+
+    /**
+     * Adds an entity to the layer.
+     *
+     * @param entity Marker|InfoWindow|Polygon|Polyline. Entity to add to the layer.
+     *
+     * @memberof MockLayer
+     */
+    public AddEntity(entity: Marker|InfoWindow|Polygon|Polyline): void {
+        if (entity && this._entities.indexOf(entity) === -1) {
+            this._entities.push(entity);
+        }
+    }
+
+    /**
+     * Adds a number of entities to the layer.
+     *
+     * @param entities Array<Marker|InfoWindow|Polygon|Polyline>. Entities to add to the layer.
+     *
+     * @memberof MockLayer
+     */
+    public AddEntities(entities: Array<Marker|InfoWindow|Polygon|Polyline>): void {
+        if (entities != null && Array.isArray(entities)) {
+            entities.forEach(e => this.AddEntity(e));
+        }
+    }
+
+    /**
+     * Deletes the layer.
+     *
+     * @memberof MockLayer
+     */
+    public Delete(): void {
+        this._maps.DeleteLayer(this);
+        this._entities.splice(0);
+        this._events.Clear();
+    }
+
+    /**
+     * Returns the entities currently held by the layer.
+     *
+     * @returns - Array of the entities in the layer.
+     *
+     * @memberof MockLayer
+     */
+    public GetEntities(): Array<Marker|InfoWindow|Polygon|Polyline> {
+        return this._entities.slice(0);
+    }
+
+    /**
+     * Returns the options governing the behavior of the layer.
+     *
+     * @returns ILayerOptions. The layer options.
+     *
+     * @memberof MockLayer
+     */
+    public GetOptions(): ILayerOptions {
+        return this._options;
+    }
+
+    /**
+     * Returns the visibility state of the layer.
+     *
+     * @returns Boolean. True is the layer is visible, false otherwise.
+     *
+     * @memberof MockLayer
+     */
+    public GetVisible(): boolean  {
+        return this._visible;
+    }
+
+    /**
+     * Removes an entity from the layer.
+     *
+     * @param entity Marker|InfoWindow|Polygon|Polyline to be removed from the layer.
+     *
+     * @memberof MockLayer
+     */
+    public RemoveEntity(entity: Marker|InfoWindow|Polygon|Polyline): void {
+        const i: number = this._entities.indexOf(entity);
+        if (i > -1) { this._entities.splice(i, 1); }
+    }
+
+    /**
+     * Sets the entities for the layer.
+     *
+     * @param entities Array<Marker>|Array<InfoWindow>|Array<Polygon>|Array<Polyline> containing the entities to add to the layer.
+     * This replaces any existing entities.
+     *
+     * @memberof MockLayer
+     */
+    public SetEntities(entities: Array<Marker>|Array<InfoWindow>|Array<Polygon>|Array<Polyline>): void {
+        this._entities.splice(0);
+        this.AddEntities(<Array<Marker|InfoWindow|Polygon|Polyline>>entities);
+    }
+
+    /**
+     * Sets the options for the layer.
+     *
+     * @param options ILayerOptions containing the options enumeration controlling the layer behavior. The supplied options
+     * are merged with the existing options.
+     *
+     * @memberof MockLayer
+     */
+    public SetOptions(options: ILayerOptions) {
+        Object.assign(this._options, options);
+    }
+
+    /**
+     * Toggles the layer visibility.
+     *
+     * @param visible Boolean true to make the layer visible, false to hide the layer.
+     *
+     * @memberof MockLayer
+     */
+    public SetVisible(visible: boolean): void {
+        this._visible = visible;
+    }
+
+    /**
+     * Programmatically fires an event on the layer. Use this in tests to simulate user interaction.
+     *
+     * @param eventType - The event to fire (e.g. "click").
+     * @param args - Optional event arguments. Merged into the default {@link IMockEventArgs}.
+     *
+     * @memberof MockLayer
+     */
+    public TriggerEvent(eventType: string, args?: any): void {
+        this._events.Invoke(eventType, Object.assign({ eventName: eventType, target: this }, args));
+    }
+
+}
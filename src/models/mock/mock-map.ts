@@ -0,0 +1,249 @@
+import { ILatLong } from '../../interfaces/ilatlong';
+import { IPoint } from '../../interfaces/ipoint';
+import { ISize } from '../../interfaces/isize';
+import { IBox } from '../../interfaces/ibox';
+import { IMapOptions } from '../../interfaces/imap-options';
+import { IMockEventArgs } from '../../interfaces/imock-event-args';
+import { MockEvents } from './mock-events';
+
+/**
+ * In-memory stand-in for a native map control. Keeps the view state and the entities placed on the map in
+ * plain objects and converts between geo coordinates and pixels using Web Mercator math.
+ *
+ * @export
+ */
+export class MockMap {
+
+    ///
+    /// Field declarations
+    ///
+    private _events: MockEvents = new MockEvents();
+
+    /**
+     * Gets or sets the map center.
+     *
+     * @memberof MockMap
+     */
+    public Center: ILatLong = { latitude: 0, longitude: 0 };
+
+    /**
+     * Gets the entities (markers, polygons, polylines, info windows etc.) placed directly on the map.
+     *
+     * @memberof MockMap
+     */
+    public Entities: Array<any> = new Array<any>();
+
+    /**
+     * Gets the element hosting the map.
+     *
+     * @memberof MockMap
+     */
+    public Host: HTMLElement;
+
+    /**
+     * Gets the layers (including canvas overlays) placed on the map.
+     *
+     * @memberof MockMap
+     */
+    public Layers: Array<any> = new Array<any>();
+
+    /**
+     * Gets the options last applied to the map.
+     *
+     * @memberof MockMap
+     */
+    public Options: IMapOptions = {};
+
+    /**
+     * Gets or sets the size of the map in pixels.
+     *
+     * @memberof MockMap
+     */
+    public Size: ISize = { width: 800, height: 600 };
+
+    /**
+     * Gets or sets the map zoom level.
+     *
+     * @memberof MockMap
+     */
+    public Zoom: number = 1;
+
+    ///
+    /// Private static methods
+    ///
+
+    /**
+     * Projects geo coordinates into world pixel coordinates at a given zoom level.
+     *
+     * @param loc - The geo coordinates.
+     * @param zoom - The zoom level.
+     * @returns - {@link IPoint} in world pixel space.
+     *
+     * @memberof MockMap
+     */
+    private static ToWorldPixel(loc: ILatLong, zoom: number): IPoint {
+        const w: number = 256 * Math.pow(2, zoom);
+        const lat: number = Math.min(Math.max(loc.latitude, -85.05112878), 85.05112878);
+        const sin: number = Math.sin(lat * Math.PI / 180);
+        return {
+            x: (loc.longitude + 180) / 360 * w,
+            y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * w
+        };
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockMap.
+     * @param el - HTML element hosting the map. The element dimensions, if available, determine the map size.
+     * @param options - Initial map options.
+     *
+     * @memberof MockMap
+     */
+    constructor(el: HTMLElement, options: IMapOptions) {
+        this.Host = el;
+        if (el && el.offsetWidth > 0 && el.offsetHeight > 0) {
+            this.Size = { width: el.offsetWidth, height: el.offsetHeight };
+        }
+        if (options) {
+            if (options.width) { this.Size.width = options.width; }
+            if (options.height) { this.Size.height = options.height; }
+            this.SetOptions(options);
+        }
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Adds an event listener to the map.
+     *
+     * @param eventType - String containing the event for which to register the listener (e.g. "click")
+     * @param fn - Delegate invoked when the event occurs.
+     *
+     * @memberof MockMap
+     */
+    public AddListener(eventType: string, fn: Function): void {
+        this._events.AddListener(eventType, fn);
+    }
+
+    /**
+     * Releases the entities, layers and listeners held by the map.
+     *
+     * @memberof MockMap
+     */
+    public Dispose(): void {
+        this.Entities.splice(0);
+        this.Layers.splice(0);
+        this._events.Clear();
+    }
+
+    /**
+     * Gets the geo coordinates of the current view port.
+     *
+     * @returns - {@link IBox} describing the view port.
+     *
+     * @memberof MockMap
+     */
+    public GetBounds(): IBox {
+        const nw: ILatLong = this.PixelToLocation({ x: 0, y: 0 });
+        const se: ILatLong = this.PixelToLocation({ x: this.Size.width, y: this.Size.height });
+        return {
+            maxLatitude: nw.latitude,
+            maxLongitude: se.longitude,
+            minLatitude: se.latitude,
+            minLongitude: nw.longitude,
+            center: { latitude: this.Center.latitude, longitude: this.Center.longitude },
+            padding: 0
+        };
+    }
+
+    /**
+     * Fires an event on the map.
+     *
+     * @param eventType - The event to fire.
+     * @param args - Optional event arguments. Merged into the default {@link IMockEventArgs}.
+     *
+     * @memberof MockMap
+     */
+    public Invoke(eventType: string, args?: any): void {
+        const e: IMockEventArgs = { eventName: eventType, target: this };
+        if (args) { Object.assign(e, args); }
+        if (e.location && !e.pixel) { e.pixel = this.LocationToPixel(e.location); }
+        if (e.pixel && !e.location) { e.location = this.PixelToLocation(e.pixel); }
+        this._events.Invoke(eventType, e);
+    }
+
+    /**
+     * Converts geo coordinates into pixels relative to the top left corner of the map.
+     *
+     * @param loc - The geo coordinates to convert.
+     * @returns - {@link IPoint} containing the pixel coordinates.
+     *
+     * @memberof MockMap
+     */
+    public LocationToPixel(loc: ILatLong): IPoint {
+        const p: IPoint = MockMap.ToWorldPixel(loc, this.Zoom);
+        const c: IPoint = MockMap.ToWorldPixel(this.Center, this.Zoom);
+        const w: number = 256 * Math.pow(2, this.Zoom);
+        let dx: number = p.x - c.x;
+        if (dx > w / 2) { dx -= w; }
+        if (dx < -w / 2) { dx += w; }
+        return { x: dx + this.Size.width / 2, y: p.y - c.y + this.Size.height / 2 };
+    }
+
+    /**
+     * Converts pixels relative to the top left corner of the map into geo coordinates.
+     *
+     * @param point - The pixel coordinates to convert.
+     * @returns - {@link ILatLong} containing the geo coordinates.
+     *
+     * @memberof MockMap
+     */
+    public PixelToLocation(point: IPoint): ILatLong {
+        const c: IPoint = MockMap.ToWorldPixel(this.Center, this.Zoom);
+        const w: number = 256 * Math.pow(2, this.Zoom);
+        const x: number = c.x + point.x - this.Size.width / 2;
+        const y: number = Math.min(Math.max(c.y + point.y - this.Size.height / 2, 0), w);
+        let lng: number = x / w * 360 - 180;
+        lng = ((lng + 180) % 360 + 360) % 360 - 180;
+        const n: number = Math.PI - 2 * Math.PI * y / w;
+        const lat: number = 180 / Math.PI * Math.atan(0.5 * (Math.exp(n) - Math.exp(-n)));
+        return { latitude: lat, longitude: lng };
+    }
+
+    /**
+     * Removes an event listener from the map.
+     *
+     * @param eventType - String containing the event for which the listener was registered.
+     * @param fn - The delegate to remove.
+     *
+     * @memberof MockMap
+     */
+    public RemoveListener(eventType: string, fn: Function): void {
+        this._events.RemoveListener(eventType, fn);
+    }
+
+    /**
+     * Applies map options. View related options (center, zoom, bounds) update the view.
+     *
+     * @param options - The options to apply.
+     *
+     * @memberof MockMap
+     */
+    public SetOptions(options: IMapOptions): void {
+        Object.assign(this.Options, options);
+        if (options.bounds) {
+            this.Center = {
+                latitude: (options.bounds.maxLatitude + options.bounds.minLatitude) / 2,
+                longitude: (options.bounds.maxLongitude + options.bounds.minLongitude) / 2
+            };
+        }
+        if (options.center) { this.Center = { latitude: options.center.latitude, longitude: options.center.longitude }; }
+        if (options.zoom != null) { this.Zoom = options.zoom; }
+    }
+
+}
@@ -0,0 +1,248 @@
+import { ILatLong } from '../../interfaces/ilatlong';
+import { IPoint } from '../../interfaces/ipoint';
+import { IMarkerOptions } from '../../interfaces/imarker-options';
+import { Marker } from '../marker';
+import { Layer } from '../layer';
+import { MockMap } from './mock-map';
+import { MockEvents } from './mock-events';
+
+/**
+ * Concrete implementation of the {@link Marker} contract for the in-memory mock provider. The marker state is
+ * kept in a plain {@link IMarkerOptions} object, which doubles as the native primitive.
+ *
+ * @export
+ */
+export class MockMarker extends Marker implements Marker {
+
+    ///
+    /// Field definitions
+    ///
+    private _events: MockEvents = new MockEvents();
+    private _metadata: Map<string, any> = new Map<string, any>();
+    private _isFirst = false;
+    private _isLast = true;
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Indicates that the marker is the first marker in a set.
+     *
+     * @memberof MockMarker
+     */
+    public get IsFirst(): boolean { return this._isFirst; }
+    public set IsFirst(val: boolean) { this._isFirst = val; }
+
+    /**
+     * Indicates that the marker is the last marker in the set.
+     *
+     * @memberof MockMarker
+     */
+    public get IsLast(): boolean { return this._isLast; }
+    public set IsLast(val: boolean) { this._isLast = val; }
+
+    /**
+     * Gets the Location of the marker
+     *
+     * @readonly
+     * @memberof MockMarker
+     */
+    public get Location(): ILatLong {
+        return { latitude: this._options.position.latitude, longitude: this._options.position.longitude };
+    }
+
+    /**
+     * Gets the marker metadata.
+     *
+     * @readonly
+     * @memberof MockMarker
+     */
+    public get Metadata(): Map<string, any> { return this._metadata; }
+
+    /**
+     * Gets the native primitve implementing the marker, in this case the plain {@link IMarkerOptions} object.
+     *
+     * @readonly
+     * @memberof MockMarker
+     */
+    public get NativePrimitve(): any { return this._options; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockMarker.
+     * @param _options - The {@link IMarkerOptions} holding the marker state.
+     * @param _map - The context map.
+     * @param _layer - The context layer.
+     *
+     * @memberof MockMarker
+     */
+    constructor(private _options: IMarkerOptions, protected _map: MockMap, protected _layer: Layer) {
+        super();
+        if (this._options.visible == null) { this._options.visible = true; }
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Adds an event listener to the marker.
+     *
+     * @param eventType - String containing the event for which to register the listener (e.g. "click")
+     * @param fn - Delegate invoked when the event occurs.
+     *
+     * @memberof MockMarker
+     */
+    public AddListener(eventType: string, fn: Function): void {
+        this._events.AddListener(eventType, fn);
+    }
+
+    /**
+     * Deletes the marker.
+     *
+     * @memberof MockMarker
+     */
+    public DeleteMarker(): void {
+        if (!this._map && !this._layer) { return; }
+        if (this._layer) { this._layer.RemoveEntity(this); }
+        else {
+            const i: number = this._map.Entities.indexOf(this);
+            if (i > -1) { this._map.Entities.splice(i, 1); }
+        }
+        this._events.Clear();
+    }
+
+    /**
+     * Gets the marker label
+     *
+     * @memberof MockMarker
+     */
+    public GetLabel(): string {
+        return this._options.label;
+    }
+
+    /**
+     * Gets the marker title
+     *
+     * @memberof MockMarker
+     */
+    public GetTitle(): string {
+        return this._options.title;
+    }
+
+    /**
+     * Gets whether the marker is visible.
+     *
+     * @returns - True if the marker is visible, false otherwise.
+     *
+     * @memberof MockMarker
+     */
+    public GetVisible(): boolean {
+        return this._options.visible;
+    }
+
+    /**
+     * Sets the anchor for the marker. Use this to adjust the root location for the marker to accomodate various marker image sizes.
+     *
+     * @param anchor - Point coordinates for the marker anchor.
+     *
+     * @memberof MockMarker
+     */
+    public SetAnchor(anchor: IPoint): void {
+        this._options.anchor = { x: anchor.x, y: anchor.y };
+    }
+
+    /**
+     * Sets the draggability of a marker.
+     *
+     * @param draggable - True to mark the marker as draggable, false otherwise.
+     *
+     * @memberof MockMarker
+     */
+    public SetDraggable(draggable: boolean): void {
+        this._options.draggable = draggable;
+    }
+
+    /**
+     * Sets the icon for the marker.
+     *
+     * @param icon - String containing the icon in various forms (url, data url, etc.)
+     *
+     * @memberof MockMarker
+     */
+    public SetIcon(icon: string): void {
+        this._options.icon = icon;
+    }
+
+    /**
+     * Sets the marker label.
+     *
+     * @param label - String containing the label to set.
+     *
+     * @memberof MockMarker
+     */
+    public SetLabel(label: string): void {
+        this._options.label = label;
+    }
+
+    /**
+     * Sets the marker position.
+     *
+     * @param latLng - Geo coordinates to set the marker position to.
+     *
+     * @memberof MockMarker
+     */
+    public SetPosition(latLng: ILatLong): void {
+        this._options.position = { latitude: latLng.latitude, longitude: latLng.longitude };
+    }
+
+    /**
+     * Sets the marker title.
+     *
+     * @param title - String containing the title to set.
+     *
+     * @memberof MockMarker
+     */
+    public SetTitle(title: string): void {
+        this._options.title = title;
+    }
+
+    /**
+     * Sets the marker options.
+     *
+     * @param options - {@link IMarkerOptions} object containing the marker options to set. The supplied options are
+     * merged with the underlying marker options.
+     * @memberof MockMarker
+     */
+    public SetOptions(options: IMarkerOptions): void {
+        Object.assign(this._options, options);
+    }
+
+    /**
+     * Sets whether the marker is visible.
+     *
+     * @param visible - True to set the marker visible, false otherwise.
+     *
+     * @memberof MockMarker
+     */
+    public SetVisible(visible: boolean): void {
+        this._options.visible = visible;
+    }
+
+    /**
+     * Programmatically fires an event on the marker. Use this in tests to simulate user interaction.
+     *
+     * @param eventType - The event to fire (e.g. "click").
+     * @param args - Optional event arguments. Merged into the default {@link IMockEventArgs}.
+     *
+     * @memberof MockMarker
+     */
+    public TriggerEvent(eventType: string, args?: any): void {
+        this._events.Invoke(eventType, Object.assign({ eventName: eventType, target: this, location: this.Location }, args));
+    }
+
+}
@@ -0,0 +1,285 @@
+import { ILatLong } from '../../interfaces/ilatlong';
+import { IPolygonOptions } from '../../interfaces/ipolygon-options';
+import { Polygon } from '../polygon';
+import { Layer } from '../layer';
+import { MockMap } from './mock-map';
+import { MockEvents } from './mock-events';
+import { PolylineEncoding } from '../polyline-encoding';
+
+/**
+ * Concrete implementation of the {@link Polygon} contract for the in-memory mock provider. The polygon state is
+ * kept in a plain {@link IPolygonOptions} object, which doubles as the native primitive.
+ *
+ * @export
+ */
+export class MockPolygon extends Polygon implements Polygon {
+
+    ///
+    /// Field declarations
+    ///
+    private _events: MockEvents = new MockEvents();
+    private _metadata: Map<string, any> = new Map<string, any>();
+    private _options: IPolygonOptions;
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets or sets the maximum zoom at which the label is displayed. Ignored or ShowLabel is false.
+     *
+     * @memberof MockPolygon
+     * @property
+     */
+    public get LabelMaxZoom(): number { return this._options.labelMaxZoom; }
+    public set LabelMaxZoom(val: number) { this._options.labelMaxZoom = val; }
+
+    /**
+     * Gets or sets the minimum zoom at which the label is displayed. Ignored or ShowLabel is false.
+     *
+     * @memberof MockPolygon
+     * @property
+     */
+    public get LabelMinZoom(): number { return this._options.labelMinZoom; }
+    public set LabelMinZoom(val: number) { this._options.labelMinZoom = val; }
+
+    /**
+     * Gets the polygon metadata.
+     *
+     * @readonly
+     * @memberof MockPolygon
+     */
+    public get Metadata(): Map<string, any> { return this._metadata; }
+
+    /**
+     * Gets the native primitve implementing the polygon, in this case the plain {@link IPolygonOptions} object.
+     *
+     * @readonly
+     * @memberof MockPolygon
+     */
+    public get NativePrimitve(): any { return this._options; }
+
+    /**
+     * Gets or sets whether to show the label
+     *
+     * @memberof MockPolygon
+     * @property
+     */
+    public get ShowLabel(): boolean { return this._options.showLabel === true; }
+    public set ShowLabel(val: boolean) { this._options.showLabel = val; }
+
+    /**
+     * Gets or sets whether to show the tooltip
+     *
+     * @memberof MockPolygon
+     * @property
+     */
+    public get ShowTooltip(): boolean { return this._options.showTooltip === true; }
+    public set ShowTooltip(val: boolean) { this._options.showTooltip = val; }
+
+    /**
+     * Gets or sets the title off the polygon
+     *
+     * @memberof MockPolygon
+     * @property
+     */
+    public get Title(): string { return this._options.title || ''; }
+    public set Title(val: string) { this._options.title = val; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockPolygon.
+     * @param options - The {@link IPolygonOptions} describing the polygon.
+     * @param _map - The context map.
+     * @param _layer - The context layer.
+     *
+     * @memberof MockPolygon
+     */
+    constructor(options: IPolygonOptions, protected _map: MockMap, protected _layer: Layer) {
+        super();
+        this._options = Object.assign({}, options);
+        if (this._options.visible == null) { this._options.visible = true; }
+        this.SetPaths(options.paths || []);
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Adds a delegate for an event.
+     *
+     * @param eventType - String containing the event name.
+     * @param fn - Delegate function to execute when the event occurs.
+     *
+     * @memberof MockPolygon
+     */
+    public AddListener(eventType: string, fn: Function): void {
+        this._events.AddListener(eventType, fn);
+    }
+
+    /**
+     * Deleted the polygon.
+     *
+     * @memberof MockPolygon
+     */
+    public Delete(): void {
+        if (this._layer) { this._layer.RemoveEntity(this); }
+        else if (this._map) {
+            const i: number = this._map.Entities.indexOf(this);
+            if (i > -1) { this._map.Entities.splice(i, 1); }
+        }
+        this._events.Clear();
+    }
+
+    /**
+     * Gets whether the polygon is draggable.
+     *
+     * @returns - True if the polygon is dragable, false otherwise.
+     *
+     * @memberof MockPolygon
+     */
+    public GetDraggable(): boolean {
+        return this._options.draggable === true;
+    }
+
+    /**
+     * Gets whether the polygon path can be edited.
+     *
+     * @returns - True if the path can be edited, false otherwise.
+     *
+     * @memberof MockPolygon
+     */
+    public GetEditable(): boolean {
+        return this._options.editable === true;
+    }
+
+    /**
+     * Gets the polygon path.
+     *
+     * @returns - An array of {@link ILatLong} objects representing the polygon path.
+     *
+     * @memberof MockPolygon
+     */
+    public GetPath(): Array<ILatLong> {
+        const p: Array<Array<ILatLong>> = this.GetPaths();
+        return p.length > 0 ? p[0] : [];
+    }
+
+    /**
+     * Gets the polygon paths.
+     *
+     * @returns - An array of array of {@link ILatLong} objects representing the multiple polygon paths.
+     *
+     * @memberof MockPolygon
+     */
+    public GetPaths(): Array<Array<ILatLong>> {
+        if (this._fullResolutionPaths != null) { return this._fullResolutionPaths; }
+        return (<Array<Array<ILatLong>>>this._options.paths).map(p => p.map(l => ({ latitude: l.latitude, longitude: l.longitude })));
+    }
+
+    /**
+     * Gets whether the polygon is visible.
+     *
+     * @returns - True if the polygon is visible, false otherwise.
+     *
+     * @memberof MockPolygon
+     */
+    public GetVisible(): boolean {
+        return this._options.visible;
+    }
+
+    /**
+     * Sets whether the polygon is dragable.
+     *
+     * @param draggable - True to make the polygon dragable, false otherwise.
+     *
+     * @memberof MockPolygon
+     */
+    public SetDraggable(draggable: boolean): void {
+        this._options.draggable = draggable;
+    }
+
+    /**
+     * Sets wether the polygon path is editable.
+     *
+     * @param editable - True to make polygon path editable, false otherwise.
+     *
+     * @memberof MockPolygon
+     */
+    public SetEditable(editable: boolean): void {
+        this._options.editable = editable;
+    }
+
+    /**
+     * Sets the polygon options
+     *
+     * @param options - {@link IPolygonOptions} object containing the options. Options will be merged with the
+     * options already on the underlying object.
+     *
+     * @memberof MockPolygon
+     */
+    public SetOptions(options: IPolygonOptions): void {
+        options = PolylineEncoding.ResolvePolygonOptions(options);
+        const paths = options.paths;
+        Object.assign(this._options, options);
+        if (paths != null) { this.SetPaths(paths); }
+    }
+
+    /**
+     * Sets the polygon path.
+     *
+     * @param path - An Array of {@link ILatLong} (or array of arrays) describing the polygons path.
+     *
+     * @memberof MockPolygon
+     */
+    public SetPath(path: Array<ILatLong>): void {
+        this.SetPaths([path]);
+    }
+
+    /**
+     * Set the polygon path or paths.
+     *
+     * @param paths
+     * An Array of {@link ILatLong} (or array of arrays) describing the polygons path(s).
+     *
+     * @memberof MockPolygon
+     */
+    public SetPaths(paths: Array<Array<ILatLong>> | Array<ILatLong>): void {
+        if (paths == null) { return; }
+        const p: Array<Array<ILatLong>> = (paths.length > 0 && !Array.isArray(paths[0])) ?
+            [<Array<ILatLong>>paths] : <Array<Array<ILatLong>>>paths;
+        this._fullResolutionPaths = null;
+        this._options.paths = p.map(x => x.map(l => ({ latitude: l.latitude, longitude: l.longitude })));
+        this._centroid = null;
+        this._center = null;
+    }
+
+    /**
+     * Sets whether the polygon is visible.
+     *
+     * @param visible - True to set the polygon visible, false otherwise.
+     *
+     * @memberof MockPolygon
+     */
+    public SetVisible(visible: boolean): void {
+        this._options.visible = visible;
+    }
+
+    /**
+     * Programmatically fires an event on the polygon. Use this in tests to simulate user interaction.
+     *
+     * @param eventType - The event to fire (e.g. "click").
+     * @param args - Optional event arguments. Merged into the default {@link IMockEventArgs}.
+     *
+     * @memberof MockPolygon
+     */
+    public TriggerEvent(eventType: string, args?: any): void {
+        const loc: ILatLong = this.GetPath().length > 0 ? this.Centroid : null;
+        this._events.Invoke(eventType, Object.assign({ eventName: eventType, target: this, location: loc }, args));
+    }
+
+}
@@ -0,0 +1,232 @@
+import { ILatLong } from '../../interfaces/ilatlong';
+import { IPolylineOptions } from '../../interfaces/ipolyline-options';
+import { Polyline } from '../polyline';
+import { Layer } from '../layer';
+import { MockMap } from './mock-map';
+import { MockEvents } from './mock-events';
+import { PolylineEncoding } from '../polyline-encoding';
+
+/**
+ * Concrete implementation of the {@link Polyline} contract for the in-memory mock provider. The polyline state is
+ * kept in a plain {@link IPolylineOptions} object, which doubles as the native primitive.
+ *
+ * @export
+ */
+export class MockPolyline extends Polyline implements Polyline {
+
+    ///
+    /// Field declarations
+    ///
+    private _events: MockEvents = new MockEvents();
+    private _metadata: Map<string, any> = new Map<string, any>();
+    private _options: IPolylineOptions;
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets the polyline metadata.
+     *
+     * @readonly
+     * @memberof MockPolyline
+     */
+    public get Metadata(): Map<string, any> { return this._metadata; }
+
+    /**
+     * Gets the native primitve implementing the polyline, in this case the plain {@link IPolylineOptions} object.
+     *
+     * @readonly
+     * @memberof MockPolyline
+     */
+    public get NativePrimitve(): any { return this._options; }
+
+    /**
+     * Gets or sets whether to show the tooltip
+     *
+     * @memberof MockPolyline
+     * @property
+     */
+    public get ShowTooltip(): boolean { return this._options.showTooltip === true; }
+    public set ShowTooltip(val: boolean) { this._options.showTooltip = val; }
+
+    /**
+     * Gets or sets the title off the polyline
+     *
+     * @memberof MockPolyline
+     * @property
+     */
+    public get Title(): string { return this._options.title || ''; }
+    public set Title(val: string) { this._options.title = val; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockPolyline.
+     * @param options - The {@link IPolylineOptions} describing the polyline. The path is expected to be a single path.
+     * @param _map - The context map.
+     * @param _layer - The context layer.
+     *
+     * @memberof MockPolyline
+     */
+    constructor(options: IPolylineOptions, protected _map: MockMap, protected _layer: Layer) {
+        super();
+        this._options = Object.assign({}, options);
+        if (this._options.visible == null) { this._options.visible = true; }
+        this.SetPath(<Array<ILatLong>>options.path || []);
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Adds a delegate for an event.
+     *
+     * @param eventType - String containing the event name.
+     * @param fn - Delegate function to execute when the event occurs.
+     *
+     * @memberof MockPolyline
+     */
+    public AddListener(eventType: string, fn: Function): void {
+        this._events.AddListener(eventType, fn);
+    }
+
+    /**
+     * Deleted the polyline.
+     *
+     * @memberof MockPolyline
+     */
+    public Delete(): void {
+        if (this._layer) { this._layer.RemoveEntity(this); }
+        else if (this._map) {
+            const i: number = this._map.Entities.indexOf(this);
+            if (i > -1) { this._map.Entities.splice(i, 1); }
+        }
+        this._events.Clear();
+    }
+
+    /**
+     * Gets whether the polyline is draggable.
+     *
+     * @returns - True if the polyline is dragable, false otherwise.
+     *
+     * @memberof MockPolyline
+     */
+    public GetDraggable(): boolean {
+        return this._options.draggable === true;
+    }
+
+    /**
+     * Gets whether the polyline path can be edited.
+     *
+     * @returns - True if the path can be edited, false otherwise.
+     *
+     * @memberof MockPolyline
+     */
+    public GetEditable(): boolean {
+        return this._options.editable === true;
+    }
+
+    /**
+     * Gets the polyline path.
+     *
+     * @returns - An array of {@link ILatLong} objects representing the polyline path.
+     *
+     * @memberof MockPolyline
+     */
+    public GetPath(): Array<ILatLong> {
+        if (this._fullResolutionPath != null) { return this._fullResolutionPath; }
+        return (<Array<ILatLong>>this._options.path).map(l => ({ latitude: l.latitude, longitude: l.longitude }));
+    }
+
+    /**
+     * Gets whether the polyline is visible.
+     *
+     * @returns - True if the polyline is visible, false otherwise.
+     *
+     * @memberof MockPolyline
+     */
+    public GetVisible(): boolean {
+        return this._options.visible;
+    }
+
+    /**
+     * Sets whether the polyline is dragable.
+     *
+     * @param draggable - True to make the polyline dragable, false otherwise.
+     *
+     * @memberof MockPolyline
+     */
+    public SetDraggable(draggable: boolean): void {
+        this._options.draggable = draggable;
+    }
+
+    /**
+     * Sets wether the polyline path is editable.
+     *
+     * @param editable - True to make polyline path editable, false otherwise.
+     *
+     * @memberof MockPolyline
+     */
+    public SetEditable(editable: boolean): void {
+        this._options.editable = editable;
+    }
+
+    /**
+     * Sets the polyline options
+     *
+     * @param options - {@link IPolylineOptions} object containing the options. Options will be merged with the
+     * options already on the underlying object.
+     *
+     * @memberof MockPolyline
+     */
+    public SetOptions(options: IPolylineOptions): void {
+        options = PolylineEncoding.ResolvePolylineOptions(options);
+        const path = options.path;
+        Object.assign(this._options, options);
+        if (path != null) { this.SetPath(<Array<ILatLong>>path); }
+    }
+
+    /**
+     * Sets the polyline path.
+     *
+     * @param path - An Array of {@link ILatLong} describing the polyline path.
+     *
+     * @memberof MockPolyline
+     */
+    public SetPath(path: Array<ILatLong>): void {
+        if (path == null) { return; }
+        this._fullResolutionPath = null;
+        this._options.path = path.map(l => ({ latitude: l.latitude, longitude: l.longitude }));
+        this._centroid = null;
+        this._center = null;
+    }
+
+    /**
+     * Sets whether the polyline is visible.
+     *
+     * @param visible - True to set the polyline visible, false otherwise.
+     *
+     * @memberof MockPolyline
+     */
+    public SetVisible(visible: boolean): void {
+        this._options.visible = visible;
+    }
+
+    /**
+     * Programmatically fires an event on the polyline. Use this in tests to simulate user interaction.
+     *
+     * @param eventType - The event to fire (e.g. "click").
+     * @param args - Optional event arguments. Merged into the default {@link IMockEventArgs}.
+     *
+     * @memberof MockPolyline
+     */
+    public TriggerEvent(eventType: string, args?: any): void {
+        const loc: ILatLong = this.GetPath().length > 0 ? this.Centroid : null;
+        this._events.Invoke(eventType, Object.assign({ eventName: eventType, target: this, location: loc }, args));
+    }
+
+}
@@ -0,0 +1,145 @@
+import { ITileLayerOptions } from '../../interfaces/itile-layer-options';
+import { TileLayer } from '../tile-layer';
+import { MockMap } from './mock-map';
+
+/**
+ * Concrete implementation of a {@link TileLayer} for the in-memory mock provider. No tiles are loaded, the layer keeps its
+ * state in plain fields and can resolve tile urls via {@link GetTileUrl}.
+ *
+ * @export
+ */
+export class MockTileLayer extends TileLayer {
+
+    ///
+    /// Field declarations
+    ///
+    private _opacity: number;
+    private _visible: boolean;
+    private _zIndex: number;
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the native primitive. For the mock provider this is the layer itself.
+     *
+     * @readonly
+     * @memberof MockTileLayer
+     */
+    public get NativePrimitve(): any { return this; }
+
+    /**
+     * Gets the options the layer was created with.
+     *
+     * @readonly
+     * @memberof MockTileLayer
+     */
+    public get Options(): ITileLayerOptions { return this._options; }
+
+    /**
+     * Gets the z-index of the layer.
+     *
+     * @readonly
+     * @memberof MockTileLayer
+     */
+    public get ZIndex(): number { return this._zIndex; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockTileLayer.
+     * @param _map - The map hosting the layer.
+     * @param _options - The options the layer was created with.
+     *
+     * @memberof MockTileLayer
+     */
+    constructor(private _map: MockMap, private _options: ITileLayerOptions) {
+        super();
+        this._opacity = _options.opacity != null ? _options.opacity : 1;
+        this._visible = _options.visible !== false;
+        this._zIndex = _options.zIndex != null ? _options.zIndex : 0;
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Removes the tile layer from the map.
+     *
+     * @memberof MockTileLayer
+     */
+    public Delete(): void {
+        const i: number = this._map.Layers.indexOf(this);
+        if (i >= 0) { this._map.Layers.splice(i, 1); }
+    }
+
+    /**
+     * Gets the opacity of the layer.
+     *
+     * @returns - The opacity, between 0 and 1.
+     * @memberof MockTileLayer
+     */
+    public GetOpacity(): number {
+        return this._opacity;
+    }
+
+    /**
+     * Gets the url of a tile, or null if the tile is outside of the zoom range or bounds of the layer.
+     *
+     * @param x - The tile column.
+     * @param y - The tile row.
+     * @param zoom - The zoom level.
+     * @returns - The tile url.
+     * @memberof MockTileLayer
+     */
+    public GetTileUrl(x: number, y: number, zoom: number): string {
+        if (this._options.minZoom != null && zoom < this._options.minZoom) { return null; }
+        if (this._options.maxZoom != null && zoom > this._options.maxZoom) { return null; }
+        if (this._options.bounds && !TileLayer.TileIntersects(x, y, zoom, this._options.bounds)) { return null; }
+        return TileLayer.GetTileUrl(this._options.tileUrl, x, y, zoom);
+    }
+
+    /**
+     * Gets whether the layer is visible.
+     *
+     * @returns - True if the layer is visible, false otherwise.
+     * @memberof MockTileLayer
+     */
+    public GetVisible(): boolean {
+        return this._visible;
+    }
+
+    /**
+     * Sets the opacity of the layer.
+     *
+     * @param opacity - The opacity, between 0 and 1.
+     * @memberof MockTileLayer
+     */
+    public SetOpacity(opacity: number): void {
+        this._opacity = opacity;
+    }
+
+    /**
+     * Sets the visibility of the layer.
+     *
+     * @param visible - True to show the layer, false to hide it.
+     * @memberof MockTileLayer
+     */
+    public SetVisible(visible: boolean): void {
+        this._visible = visible;
+    }
+
+    /**
+     * Sets the z-index of the layer.
+     *
+     * @param zIndex - The z-index.
+     * @memberof MockTileLayer
+     */
+    public SetZIndex(zIndex: number): void {
+        this._zIndex = zIndex;
+    }
+}
@@ -0,0 +1,293 @@
+import { ILatLong } from '../interfaces/ilatlong';
+
+/**
+ * Simplifies polygon and polyline paths for display using the Douglas-Peucker algorithm. The tolerance is expressed in
+ * screen pixels, so the simplified paths depend on the zoom level. The importance of each vertex is computed once in
+ * Web Mercator coordinates; the paths for a zoom band are then derived by filtering on that importance and cached.
+ *
+ * Vertices shared between the rings of a set are kept as anchors wherever the rings sharing them change, so shared borders
+ * between adjacent shapes are simplified identically and do not open gaps or overlaps. Closed rings keep at least three
+ * vertices.
+ *
+ * @export
+ */
+export class PathSimplifier {
+
+    ///
+    /// Field declarations
+    ///
+    private _bands: Map<number, Array<Array<Array<ILatLong>>>> = new Map<number, Array<Array<Array<ILatLong>>>>();
+    private _importance: Array<Array<Array<number>>>;
+
+    /**
+     * The maximum zoom band. Paths requested for higher zoom levels use this band.
+     *
+     * @memberof PathSimplifier
+     */
+    public static readonly MaxZoom: number = 22;
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * Gets the zoom band for a zoom level. Simplified paths are computed once per band.
+     *
+     * @param zoom - The zoom level.
+     * @returns - The zoom band.
+     *
+     * @memberof PathSimplifier
+     */
+    public static GetBand(zoom: number): number {
+        return Math.max(0, Math.min(PathSimplifier.MaxZoom, Math.floor(zoom || 0)));
+    }
+
+    /**
+     * Simplifies a single path.
+     *
+     * @param path - The path to simplify.
+     * @param tolerance - The tolerance in pixels.
+     * @param zoom - The zoom level at which the tolerance applies.
+     * @param closed - Optional. Whether the path is a closed ring. Defaults to false.
+     * @returns - The simplified path.
+     *
+     * @memberof PathSimplifier
+     */
+    public static Simplify(path: Array<ILatLong>, tolerance: number, zoom: number, closed: boolean = false): Array<ILatLong> {
+        return new PathSimplifier([[path]], tolerance, closed).GetPaths(0, zoom)[0];
+    }
+
+    ///
+    /// Private static methods
+    ///
+
+    /**
+     * Gets the distance between a point and a segment.
+     *
+     * @param p - The point.
+     * @param a - The start of the segment.
+     * @param b - The end of the segment.
+     * @returns - The distance, in the units of the coordinates.
+     *
+     * @memberof PathSimplifier
+     */
+    private static GetSegmentDistance(p: Array<number>, a: Array<number>, b: Array<number>): number {
+        const dx: number = b[0] - a[0];
+        const dy: number = b[1] - a[1];
+        const l: number = dx * dx + dy * dy;
+        let t: number = l === 0 ? 0 : ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / l;
+        t = Math.max(0, Math.min(1, t));
+        const x: number = a[0] + t * dx - p[0];
+        const y: number = a[1] + t * dy - p[1];
+        return Math.sqrt(x * x + y * y);
+    }
+
+    /**
+     * Gets a key identifying a location.
+     *
+     * @param loc - The location.
+     * @returns - The key.
+     *
+     * @memberof PathSimplifier
+     */
+    private static GetKey(loc: ILatLong): string {
+        return loc.latitude + ',' + loc.longitude;
+    }
+
+    /**
+     * Projects a path into Web Mercator pixel coordinates at zoom level 0. Longitudes are unwrapped, so paths crossing the
+     * antimeridian remain continuous.
+     *
+     * @param path - The path to project.
+     * @returns - The projected points as [x, y] pairs.
+     *
+     * @memberof PathSimplifier
+     */
+    private static Project(path: Array<ILatLong>): Array<Array<number>> {
+        let previous: number = null;
+        return path.map(l => {
+            let lng: number = l.longitude;
+            if (previous != null) {
+                while (lng - previous > 180) { lng -= 360; }
+                while (lng - previous < -180) { lng += 360; }
+            }
+            previous = lng;
+            const s: number = Math.max(-0.9999, Math.min(0.9999, Math.sin(l.latitude * Math.PI / 180)));
+            return [
+                (lng + 180) / 360 * 256,
+                (0.5 - Math.log((1 + s) / (1 - s)) / (4 * Math.PI)) * 256
+            ];
+        });
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of PathSimplifier.
+     * @param _geometries - The geometries to simplify. Each geometry is an array of paths, for example the paths of a polygon.
+     * @param _tolerance - The tolerance in pixels.
+     * @param _closed - Optional. Whether the paths are closed rings. Defaults to true.
+     *
+     * @memberof PathSimplifier
+     */
+    constructor(private _geometries: Array<Array<Array<ILatLong>>>, private _tolerance: number, private _closed: boolean = true) {
+        this._importance = this.GetImportance();
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Gets the simplified paths of a geometry for a zoom level. The paths of all geometries are computed once per zoom band
+     * and cached.
+     *
+     * @param index - The index of the geometry.
+     * @param zoom - The zoom level.
+     * @returns - The simplified paths.
+     *
+     * @memberof PathSimplifier
+     */
+    public GetPaths(index: number, zoom: number): Array<Array<ILatLong>> {
+        const band: number = PathSimplifier.GetBand(zoom);
+        if (!this._bands.has(band)) {
+            const threshold: number = this._tolerance / Math.pow(2, band);
+            this._bands.set(band, this._geometries.map((g, i) => g.map((p, j) => this.Filter(p, this._importance[i][j], threshold))));
+        }
+        return this._bands.get(band)[index];
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Filters a path down to the vertices more important than a threshold.
+     *
+     * @param path - The path.
+     * @param importance - The importance of the vertices of the path.
+     * @param threshold - The threshold, in pixels at zoom level 0.
+     * @returns - The filtered path.
+     *
+     * @memberof PathSimplifier
+     */
+    private Filter(path: Array<ILatLong>, importance: Array<number>, threshold: number): Array<ILatLong> {
+        const keep: Array<boolean> = importance.map(v => v > threshold);
+        const minimum: number = Math.min(importance.length, this._closed ? 3 : 2);
+        let count: number = keep.filter(k => k).length;
+        while (count < minimum) {
+            let best: number = -1;
+            importance.forEach((v, i) => { if (!keep[i] && (best < 0 || v > importance[best])) { best = i; } });
+            keep[best] = true;
+            count++;
+        }
+        return path.filter((l, i) => i >= importance.length || keep[i]);
+    }
+
+    /**
+     * Computes the importance of each vertex as the Douglas-Peucker distance at which it would be removed. Anchors, which
+     * are never removed, have an infinite importance.
+     *
+     * @returns - The importance of each vertex, by geometry and path. A duplicated closing vertex is not included.
+     *
+     * @memberof PathSimplifier
+     */
+    private GetImportance(): Array<Array<Array<number>>> {
+        const rings: Map<string, Array<number>> = new Map<string, Array<number>>();
+        let count: number = 0;
+        this._geometries.forEach(g => g.forEach(p => {
+            const n: number = this.GetLength(p);
+            for (let i = 0; i < n; i++) {
+                const key: string = PathSimplifier.GetKey(p[i]);
+                const r: Array<number> = rings.get(key) || [];
+                if (r.indexOf(count) === -1) { r.push(count); }
+                rings.set(key, r);
+            }
+            count++;
+        }));
+
+        return this._geometries.map(g => g.map(p => {
+            const n: number = this.GetLength(p);
+            const importance: Array<number> = new Array<number>(n);
+            const points: Array<Array<number>> = PathSimplifier.Project(p.slice(0, n));
+            const sharing: Array<string> = p.slice(0, n).map(l => {
+                const r: Array<number> = rings.get(PathSimplifier.GetKey(l));
+                return r.length > 1 ? r.slice().sort((a, b) => a - b).join('|') : '';
+            });
+            const anchors: Array<number> = new Array<number>();
+            for (let i = 0; i < n; i++) {
+                const prev: number = this._closed ? (i + n - 1) % n : i - 1;
+                const next: number = this._closed ? (i + 1) % n : i + 1;
+                if (prev < 0 || next >= n || sharing[i] !== sharing[prev] || sharing[i] !== sharing[next]) { anchors.push(i); }
+            }
+            if (this._closed && anchors.length === 0 && n > 0) {
+                let far: number = 0;
+                let max: number = 0;
+                points.forEach((q, i) => {
+                    const d: number = PathSimplifier.GetSegmentDistance(q, points[0], points[0]);
+                    if (d > max) {
+                        max = d;
+                        far = i;
+                    }
+                });
+                anchors.push(0);
+                if (far !== 0) { anchors.push(far); }
+            }
+            anchors.forEach(a => importance[a] = Infinity);
+            anchors.forEach((a, i) => {
+                if (i === anchors.length - 1 && !this._closed) { return; }
+                const b: number = i < anchors.length - 1 ? anchors[i + 1] : anchors[0] + n;
+                this.Rank(points, importance, a, b);
+            });
+            return importance;
+        }));
+    }
+
+    /**
+     * Gets the number of distinct vertices of a path, excluding a duplicated closing vertex on closed rings.
+     *
+     * @param path - The path.
+     * @returns - The number of vertices.
+     *
+     * @memberof PathSimplifier
+     */
+    private GetLength(path: Array<ILatLong>): number {
+        const n: number = path.length;
+        if (this._closed && n > 1 && PathSimplifier.GetKey(path[0]) === PathSimplifier.GetKey(path[n - 1])) { return n - 1; }
+        return n;
+    }
+
+    /**
+     * Ranks the vertices between two anchors. Each vertex is assigned its distance from the segment it splits, capped by the
+     * importance of the vertex that split the enclosing segment, so that a vertex is never kept without its parent.
+     *
+     * @param points - The projected points of the ring.
+     * @param importance - The importance of the vertices. Updated in place.
+     * @param start - The index of the first anchor.
+     * @param end - The index of the second anchor. May exceed the ring length on closed rings, in which case it wraps.
+     *
+     * @memberof PathSimplifier
+     */
+    private Rank(points: Array<Array<number>>, importance: Array<number>, start: number, end: number): void {
+        const n: number = points.length;
+        const stack: Array<Array<number>> = [[start, end, Infinity]];
+        while (stack.length > 0) {
+            const s: Array<number> = stack.pop();
+            let max: number = -1;
+            let index: number = -1;
+            for (let i = s[0] + 1; i < s[1]; i++) {
+                const d: number = PathSimplifier.GetSegmentDistance(points[i % n], points[s[0] % n], points[s[1] % n]);
+                if (d > max) {
+                    max = d;
+                    index = i;
+                }
+            }
+            if (index < 0) { continue; }
+            const v: number = Math.min(max, s[2]);
+            importance[index % n] = v;
+            stack.push([s[0], index, v], [index, s[1], v]);
+        }
+    }
+}
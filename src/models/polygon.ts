@@ -1,5 +1,10 @@
 import { ILatLong } from '../interfaces/ilatlong';
 import { IPolygonOptions } from '../interfaces/ipolygon-options';
+import { IGeoJsonFeature } from '../interfaces/igeojson-feature';
+import { GeoJsonConversions } from './geojson-conversions';
+import { GeoMath } from './geo-math';
+import { GeoPredicates } from './geo-predicates';
+import { WktConversions } from './wkt-conversions';
 
 /**
  * Abstract class defining the contract for a polygon in the architecture specific implementation.
@@ -13,11 +18,21 @@ export abstract class Polygon {
     ///
     protected _centroid: ILatLong;
     protected _center: ILatLong;
+    protected _fullResolutionPaths: Array<Array<ILatLong>> = null;
 
     ///
     /// Property definitions
     ///
 
+    /**
+     * Gets the polygon's area in square meters. Rings nested within an odd number of other rings are holes.
+     * @readonly
+     * @memberof Polygon
+     */
+    public get Area(): number {
+        return GeoMath.GetArea(this.GetPaths());
+    }
+
     /**
      * Gets the polygon's center.
      * @readonly
@@ -79,6 +94,15 @@ export abstract class Polygon {
      */
     public abstract get NativePrimitve(): any;
 
+    /**
+     * Gets the polygon's perimeter in meters, which is the combined length of all its paths.
+     * @readonly
+     * @memberof Polygon
+     */
+    public get Perimeter(): number {
+        return GeoMath.GetPerimeter(this.GetPaths());
+    }
+
     /**
      * Gets or sets whether to show the label
      *
@@ -123,6 +147,19 @@ export abstract class Polygon {
      */
     public abstract AddListener(eventType: string, fn: Function): void;
 
+    /**
+     * Determines whether a location lies inside the polygon or on its boundary. Locations inside a hole are not
+     * contained. See {@link GeoPredicates.Contains}.
+     *
+     * @param loc - The location to test.
+     * @returns - True if the polygon contains the location, false otherwise.
+     *
+     * @memberof Polygon
+     */
+    public Contains(loc: ILatLong): boolean {
+        return GeoPredicates.Contains(this.GetPaths(), loc);
+    }
+
     /**
      * Deleted the polygon.
      *
@@ -182,6 +219,19 @@ export abstract class Polygon {
      */
     public abstract GetVisible(): boolean;
 
+    /**
+     * Determines whether the polygon has at least one location in common with another polygon. See
+     * {@link GeoPredicates.Intersects}.
+     *
+     * @param other - The other polygon, or its paths.
+     * @returns - True if the polygons intersect, false otherwise.
+     *
+     * @memberof Polygon
+     */
+    public Intersects(other: Polygon | Array<ILatLong> | Array<Array<ILatLong>>): boolean {
+        return GeoPredicates.Intersects(this.GetPaths(), other instanceof Polygon ? other.GetPaths() : other);
+    }
+
     /**
      * Sets whether the polygon is dragable.
      *
@@ -234,6 +284,21 @@ export abstract class Polygon {
      */
     public abstract SetPaths(paths: Array<Array<ILatLong>> | Array<ILatLong>): void;
 
+    /**
+     * Displays simplified paths, for example generated by a {@link PathSimplifier}, in place of the polygon paths.
+     * {@link GetPaths} continues to return the full resolution paths until new paths are set. Making the polygon
+     * editable restores the full resolution paths.
+     *
+     * @param paths - The simplified paths to display.
+     *
+     * @memberof Polygon
+     */
+    public SetSimplifiedPaths(paths: Array<Array<ILatLong>>): void {
+        const full: Array<Array<ILatLong>> = this.GetPaths();
+        this.SetPaths(paths);
+        this._fullResolutionPaths = full;
+    }
+
     /**
      * Sets whether the polygon is visible.
      *
@@ -244,6 +309,40 @@ export abstract class Polygon {
      */
     public abstract SetVisible(visible: boolean): void;
 
+    /**
+     * Serializes the polygon into a GeoJSON (RFC 7946) Polygon feature. The first path is used as the exterior ring,
+     * additional paths become holes. The polygon metadata is written into the feature properties.
+     *
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The GeoJSON feature representing the polygon.
+     *
+     * @memberof Polygon
+     */
+    public ToGeoJSON(precision?: number): IGeoJsonFeature {
+        const paths: Array<Array<ILatLong>> = (this.GetPaths() || []).filter(p => p != null && p.length > 0);
+        return {
+            type: 'Feature',
+            geometry: {
+                type: 'Polygon',
+                coordinates: paths.map((p, i) => GeoJsonConversions.ToRing(p, i > 0, precision))
+            },
+            properties: GeoJsonConversions.ToProperties(this.Metadata)
+        };
+    }
+
+    /**
+     * Serializes the polygon into a Well-Known Text POLYGON. The first path is used as the exterior ring, additional paths
+     * become holes.
+     *
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The WKT representing the polygon.
+     *
+     * @memberof Polygon
+     */
+    public ToWkt(precision?: number): string {
+        return WktConversions.FromPaths(this.GetPaths() || [], precision);
+    }
+
     ///
     /// Protected methods
     ///
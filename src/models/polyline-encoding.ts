@@ -0,0 +1,156 @@
+import { ILatLong } from '../interfaces/ilatlong';
+import { IPolygonOptions } from '../interfaces/ipolygon-options';
+import { IPolylineOptions } from '../interfaces/ipolyline-options';
+
+/**
+ * Encodes and decodes paths in the encoded polyline format (polyline algorithm) used by Google and most routing
+ * backends. The implementation is provider independent, so it is available with Bing Maps as well as without the
+ * Google Maps geometry library.
+ *
+ * @export
+ */
+export class PolylineEncoding {
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * Decodes an encoded polyline.
+     *
+     * @param encoded - The encoded polyline.
+     * @param precision - Optional. The number of decimals the coordinates were encoded with. Typically 5 (Google) or 6
+     * (OSRM, Valhalla). Defaults to 5.
+     * @returns - The decoded path.
+     *
+     * @memberof PolylineEncoding
+     */
+    public static Decode(encoded: string, precision: number = 5): Array<ILatLong> {
+        const factor: number = Math.pow(10, precision);
+        const path: Array<ILatLong> = new Array<ILatLong>();
+        const position: { index: number } = { index: 0 };
+        let lat: number = 0;
+        let lng: number = 0;
+        while (position.index < (encoded || '').length) {
+            lat += PolylineEncoding.DecodeValue(encoded, position);
+            lng += PolylineEncoding.DecodeValue(encoded, position);
+            path.push({ latitude: lat / factor, longitude: lng / factor });
+        }
+        return path;
+    }
+
+    /**
+     * Decodes one or more encoded polylines into polygon paths.
+     *
+     * @param encoded - The encoded polyline or polylines, one per ring.
+     * @param precision - Optional. The number of decimals the coordinates were encoded with. Defaults to 5.
+     * @returns - The decoded paths.
+     *
+     * @memberof PolylineEncoding
+     */
+    public static DecodePaths(encoded: string | Array<string>, precision: number = 5): Array<Array<ILatLong>> {
+        return (Array.isArray(encoded) ? encoded : [encoded]).map(e => PolylineEncoding.Decode(e, precision));
+    }
+
+    /**
+     * Encodes a path as an encoded polyline.
+     *
+     * @param path - The path to encode.
+     * @param precision - Optional. The number of decimals to encode the coordinates with. Defaults to 5.
+     * @returns - The encoded polyline.
+     *
+     * @memberof PolylineEncoding
+     */
+    public static Encode(path: Array<ILatLong>, precision: number = 5): string {
+        const factor: number = Math.pow(10, precision);
+        let encoded: string = '';
+        let lat: number = 0;
+        let lng: number = 0;
+        (path || []).forEach(l => {
+            const la: number = Math.round(l.latitude * factor);
+            const ln: number = Math.round(l.longitude * factor);
+            encoded += PolylineEncoding.EncodeValue(la - lat) + PolylineEncoding.EncodeValue(ln - lng);
+            lat = la;
+            lng = ln;
+        });
+        return encoded;
+    }
+
+    /**
+     * Resolves the encoded paths of polygon options. If the options contain encoded paths, returns a copy of the options
+     * with the decoded paths; otherwise returns the options unchanged.
+     *
+     * @param options - The polygon options.
+     * @returns - The resolved options.
+     *
+     * @memberof PolylineEncoding
+     */
+    public static ResolvePolygonOptions(options: IPolygonOptions): IPolygonOptions {
+        if (options == null || options.encodedPaths == null) { return options; }
+        const precision: number = options.encodingPrecision != null ? options.encodingPrecision : 5;
+        return Object.assign({}, options, { paths: PolylineEncoding.DecodePaths(options.encodedPaths, precision) });
+    }
+
+    /**
+     * Resolves the encoded path of polyline options. If the options contain an encoded path, returns a copy of the options
+     * with the decoded path; otherwise returns the options unchanged.
+     *
+     * @param options - The polyline options.
+     * @returns - The resolved options.
+     *
+     * @memberof PolylineEncoding
+     */
+    public static ResolvePolylineOptions(options: IPolylineOptions): IPolylineOptions {
+        if (options == null || options.encodedPath == null) { return options; }
+        const precision: number = options.encodingPrecision != null ? options.encodingPrecision : 5;
+        const path: Array<ILatLong> | Array<Array<ILatLong>> = Array.isArray(options.encodedPath) ?
+            PolylineEncoding.DecodePaths(options.encodedPath, precision) :
+            PolylineEncoding.Decode(options.encodedPath, precision);
+        return Object.assign({}, options, { path: path });
+    }
+
+    ///
+    /// Private static methods
+    ///
+
+    /**
+     * Decodes a single signed value.
+     *
+     * @param encoded - The encoded polyline.
+     * @param position - The position to read from. Advanced past the value.
+     * @returns - The decoded value.
+     *
+     * @memberof PolylineEncoding
+     */
+    private static DecodeValue(encoded: string, position: { index: number }): number {
+        let result: number = 0;
+        let multiplier: number = 1;
+        let chunk: number;
+        do {
+            if (position.index >= encoded.length) { throw (new Error('Invalid encoded polyline: unexpected end of input.')); }
+            chunk = encoded.charCodeAt(position.index++) - 63;
+            if (chunk < 0 || chunk > 63) { throw (new Error(`Invalid encoded polyline: unexpected character at ${position.index - 1}.`)); }
+            result += (chunk % 32) * multiplier;
+            multiplier *= 32;
+        } while (chunk >= 32);
+        return result % 2 === 1 ? -(result + 1) / 2 : result / 2;
+    }
+
+    /**
+     * Encodes a single signed value.
+     *
+     * @param value - The value to encode.
+     * @returns - The encoded value.
+     *
+     * @memberof PolylineEncoding
+     */
+    private static EncodeValue(value: number): string {
+        let v: number = value < 0 ? -2 * value - 1 : 2 * value;
+        let encoded: string = '';
+        while (v >= 32) {
+            encoded += String.fromCharCode(v % 32 + 32 + 63);
+            v = Math.floor(v / 32);
+        }
+        return encoded + String.fromCharCode(v + 63);
+    }
+}
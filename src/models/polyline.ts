@@ -1,5 +1,10 @@
 import { ILatLong } from '../interfaces/ilatlong';
 import { IPolylineOptions } from '../interfaces/ipolyline-options';
+import { IGeoJsonFeature } from '../interfaces/igeojson-feature';
+import { GeoJsonConversions } from './geojson-conversions';
+import { GeoMath } from './geo-math';
+import { PolylineEncoding } from './polyline-encoding';
+import { WktConversions } from './wkt-conversions';
 
 /**
  * Abstract class defining the contract for a polyline in the architecture specific implementation.
@@ -13,6 +18,7 @@ export abstract class Polyline {
     ///
     protected _centroid: ILatLong;
     protected _center: ILatLong;
+    protected _fullResolutionPath: Array<ILatLong> = null;
 
     ///
     /// Property definitions
@@ -42,6 +48,15 @@ export abstract class Polyline {
         return this._centroid;
     }
 
+    /**
+     * Gets the polyline's length in meters.
+     * @readonly
+     * @memberof Polyline
+     */
+    public get Length(): number {
+        return GeoMath.GetLength(this.GetPath());
+    }
+
     /**
      * Gets the native primitve implementing the polyline.
      *
@@ -166,6 +181,18 @@ export abstract class Polyline {
      */
     public abstract GetEditable(): boolean;
 
+    /**
+     * Gets the polyline path in the encoded polyline format.
+     *
+     * @param precision - Optional. The number of decimals to encode the coordinates with, typically 5 or 6. Defaults to 5.
+     * @returns - The encoded path.
+     *
+     * @memberof Polyline
+     */
+    public GetEncodedPath(precision: number = 5): string {
+        return PolylineEncoding.Encode(this.GetPath(), precision);
+    }
+
     /**
      * Gets the polyline path.
      *
@@ -176,6 +203,18 @@ export abstract class Polyline {
      */
     public abstract GetPath(): Array<ILatLong>;
 
+    /**
+     * Gets the location at a distance along the polyline path.
+     *
+     * @param distance - The distance in meters from the first vertex.
+     * @returns - The location, or null if the distance is negative or exceeds the length of the polyline.
+     *
+     * @memberof Polyline
+     */
+    public GetPointAtDistance(distance: number): ILatLong {
+        return GeoMath.GetPointAtDistance(this.GetPath(), distance);
+    }
+
     /**
      * Gets whether the polyline is visible.
      *
@@ -227,6 +266,21 @@ export abstract class Polyline {
      */
     public abstract SetPath(path: Array<ILatLong> | Array<ILatLong>): void;
 
+    /**
+     * Displays a simplified path, for example generated by a {@link PathSimplifier}, in place of the polyline path.
+     * {@link GetPath} continues to return the full resolution path until a new path is set. Making the polyline
+     * editable restores the full resolution path.
+     *
+     * @param path - The simplified path to display.
+     *
+     * @memberof Polyline
+     */
+    public SetSimplifiedPath(path: Array<ILatLong>): void {
+        const full: Array<ILatLong> = this.GetPath();
+        this.SetPath(path);
+        this._fullResolutionPath = full;
+    }
+
     /**
      * Sets whether the polyline is visible.
      *
@@ -237,6 +291,38 @@ export abstract class Polyline {
      */
     public abstract SetVisible(visible: boolean): void;
 
+    /**
+     * Serializes the polyline into a GeoJSON (RFC 7946) LineString feature. The polyline metadata is written
+     * into the feature properties.
+     *
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The GeoJSON feature representing the polyline.
+     *
+     * @memberof Polyline
+     */
+    public ToGeoJSON(precision?: number): IGeoJsonFeature {
+        return {
+            type: 'Feature',
+            geometry: {
+                type: 'LineString',
+                coordinates: GeoJsonConversions.ToPositions(this.GetPath() || [], precision)
+            },
+            properties: GeoJsonConversions.ToProperties(this.Metadata)
+        };
+    }
+
+    /**
+     * Serializes the polyline into a Well-Known Text LINESTRING.
+     *
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The WKT representing the polyline.
+     *
+     * @memberof Polyline
+     */
+    public ToWkt(precision?: number): string {
+        return WktConversions.FromPath(this.GetPath() || [], precision);
+    }
+
     ///
     /// Protected methods
     ///
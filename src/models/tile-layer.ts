@@ -0,0 +1,230 @@
+import { IBox } from '../interfaces/ibox';
+import { ILatLong } from '../interfaces/ilatlong';
+import { IPoint } from '../interfaces/ipoint';
+import { ITileLayerOptions } from '../interfaces/itile-layer-options';
+
+/**
+ * Abstract base for a layer of map tiles overlaid on the base map. Also provides the web mercator tile math used
+ * by the implementations.
+ *
+ * @export
+ * @abstract
+ */
+export abstract class TileLayer {
+
+    ///
+    /// Property definitions
+    ///
+
+    /**
+     * Gets the native primitive implementing the tile layer.
+     *
+     * @readonly
+     * @abstract
+     * @memberof TileLayer
+     */
+    public abstract get NativePrimitve(): any;
+
+    /**
+     * Gets the options the layer was created with.
+     *
+     * @readonly
+     * @abstract
+     * @memberof TileLayer
+     */
+    public abstract get Options(): ITileLayerOptions;
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * Constructs the url of a tile.
+     *
+     * @param tileUrl - The url template or callback. See {@link ITileLayerOptions.tileUrl}.
+     * @param x - The tile column.
+     * @param y - The tile row.
+     * @param zoom - The zoom level.
+     * @returns - The tile url.
+     *
+     * @memberof TileLayer
+     */
+    public static GetTileUrl(
+        tileUrl: string | ((x: number, y: number, zoom: number) => string), x: number, y: number, zoom: number): string {
+        if (typeof tileUrl === 'function') { return tileUrl(x, y, zoom); }
+        let url: string = tileUrl
+            .replace(/\{x\}/g, x.toString())
+            .replace(/\{y\}/g, y.toString())
+            .replace(/\{z\}/g, zoom.toString())
+            .replace(/\{zoom\}/g, zoom.toString());
+        if (url.indexOf('{quadkey}') >= 0) { url = url.replace(/\{quadkey\}/g, TileLayer.TileToQuadKey(x, y, zoom)); }
+        if (url.indexOf('{bbox}') >= 0) {
+            const b: IBox = TileLayer.TileToBox(x, y, zoom);
+            url = url.replace(/\{bbox\}/g, [b.minLongitude, b.minLatitude, b.maxLongitude, b.maxLatitude].join(','));
+        }
+        return url;
+    }
+
+    /**
+     * Gets the tile containing a location and the pixel offset of the location within that tile.
+     *
+     * @param loc - The geo coordinates.
+     * @param zoom - The zoom level.
+     * @param tileSize - Optional. The size of a tile in pixels. Defaults to 256.
+     * @returns - The tile column (x), row (y) and the pixel offset within the tile.
+     *
+     * @memberof TileLayer
+     */
+    public static LocationToTile(loc: ILatLong, zoom: number, tileSize: number = 256): { x: number, y: number, pixel: IPoint } {
+        const w: number = tileSize * Math.pow(2, zoom);
+        const lat: number = Math.min(Math.max(loc.latitude, -85.05112878), 85.05112878);
+        const lng: number = ((loc.longitude + 180) % 360 + 360) % 360 - 180;
+        const sin: number = Math.sin(lat * Math.PI / 180);
+        const px: number = Math.min((lng + 180) / 360 * w, w - 1);
+        const py: number = Math.min((0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * w, w - 1);
+        const x: number = Math.floor(px / tileSize);
+        const y: number = Math.floor(py / tileSize);
+        return { x: x, y: y, pixel: { x: Math.floor(px - x * tileSize), y: Math.floor(py - y * tileSize) } };
+    }
+
+    /**
+     * Determines whether a tile intersects a bounding box.
+     *
+     * @param x - The tile column.
+     * @param y - The tile row.
+     * @param zoom - The zoom level.
+     * @param bounds - The bounding box. A box with minLongitude greater than maxLongitude crosses the antimeridian.
+     * @returns - True if the tile intersects the box, false otherwise.
+     *
+     * @memberof TileLayer
+     */
+    public static TileIntersects(x: number, y: number, zoom: number, bounds: IBox): boolean {
+        const t: IBox = TileLayer.TileToBox(x, y, zoom);
+        if (t.minLatitude > bounds.maxLatitude || t.maxLatitude < bounds.minLatitude) { return false; }
+        if (bounds.minLongitude <= bounds.maxLongitude) {
+            return t.minLongitude <= bounds.maxLongitude && t.maxLongitude >= bounds.minLongitude;
+        }
+        return t.maxLongitude >= bounds.minLongitude || t.minLongitude <= bounds.maxLongitude;
+    }
+
+    /**
+     * Gets the WGS84 edges of a tile.
+     *
+     * @param x - The tile column.
+     * @param y - The tile row.
+     * @param zoom - The zoom level.
+     * @returns - The {@link IBox} covered by the tile.
+     *
+     * @memberof TileLayer
+     */
+    public static TileToBox(x: number, y: number, zoom: number): IBox {
+        const n: number = Math.pow(2, zoom);
+        const lat = (r: number): number => 180 / Math.PI * Math.atan(Math.sinh(Math.PI * (1 - 2 * r / n)));
+        return {
+            maxLatitude: lat(y),
+            maxLongitude: (x + 1) / n * 360 - 180,
+            minLatitude: lat(y + 1),
+            minLongitude: x / n * 360 - 180
+        };
+    }
+
+    /**
+     * Gets the web mercator (EPSG:3857) edges of a tile in meters.
+     *
+     * @param x - The tile column.
+     * @param y - The tile row.
+     * @param zoom - The zoom level.
+     * @returns - The edges as [minX, minY, maxX, maxY].
+     *
+     * @memberof TileLayer
+     */
+    public static TileToMercatorBox(x: number, y: number, zoom: number): Array<number> {
+        const extent: number = Math.PI * 6378137;
+        const size: number = 2 * extent / Math.pow(2, zoom);
+        return [
+            -extent + x * size,
+            extent - (y + 1) * size,
+            -extent + (x + 1) * size,
+            extent - y * size
+        ];
+    }
+
+    /**
+     * Gets the quadkey of a tile.
+     *
+     * @param x - The tile column.
+     * @param y - The tile row.
+     * @param zoom - The zoom level.
+     * @returns - The quadkey.
+     *
+     * @memberof TileLayer
+     */
+    public static TileToQuadKey(x: number, y: number, zoom: number): string {
+        let key: string = '';
+        for (let i = zoom; i > 0; i--) {
+            const mask: number = Math.pow(2, i - 1);
+            let digit: number = 0;
+            if (Math.floor(x / mask) % 2 === 1) { digit++; }
+            if (Math.floor(y / mask) % 2 === 1) { digit += 2; }
+            key += digit.toString();
+        }
+        return key;
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Removes the tile layer from the map.
+     *
+     * @abstract
+     * @memberof TileLayer
+     */
+    public abstract Delete(): void;
+
+    /**
+     * Gets the opacity of the layer.
+     *
+     * @abstract
+     * @returns - The opacity, between 0 and 1.
+     * @memberof TileLayer
+     */
+    public abstract GetOpacity(): number;
+
+    /**
+     * Gets whether the layer is visible.
+     *
+     * @abstract
+     * @returns - True if the layer is visible, false otherwise.
+     * @memberof TileLayer
+     */
+    public abstract GetVisible(): boolean;
+
+    /**
+     * Sets the opacity of the layer.
+     *
+     * @abstract
+     * @param opacity - The opacity, between 0 and 1.
+     * @memberof TileLayer
+     */
+    public abstract SetOpacity(opacity: number): void;
+
+    /**
+     * Sets the visibility of the layer.
+     *
+     * @abstract
+     * @param visible - True to show the layer, false to hide it.
+     * @memberof TileLayer
+     */
+    public abstract SetVisible(visible: boolean): void;
+
+    /**
+     * Sets the z-index of the layer.
+     *
+     * @abstract
+     * @param zIndex - The z-index.
+     * @memberof TileLayer
+     */
+    public abstract SetZIndex(zIndex: number): void;
+}
@@ -0,0 +1,361 @@
+import { ILatLong } from '../interfaces/ilatlong';
+import { IWktGeometry } from '../interfaces/iwkt-geometry';
+
+/**
+ * This class contains helperfunctions to read and write geometries in the Well-Known Text (WKT) format, for example to
+ * exchange shapes with PostGIS. POINT, LINESTRING, POLYGON, the MULTI* types and GEOMETRYCOLLECTION are supported. Z and M
+ * ordinates are accepted and dropped, an EWKT SRID prefix is accepted and ignored. Coordinates are expected in longitude
+ * latitude order; no reprojection takes place.
+ *
+ * @export
+ */
+export class WktConversions {
+
+    ///
+    /// Field declarations
+    ///
+    private static readonly Types: { [key: string]: IWktGeometry['type'] } = {
+        POINT: 'Point',
+        MULTIPOINT: 'MultiPoint',
+        LINESTRING: 'LineString',
+        MULTILINESTRING: 'MultiLineString',
+        POLYGON: 'Polygon',
+        MULTIPOLYGON: 'MultiPolygon',
+        GEOMETRYCOLLECTION: 'GeometryCollection'
+    };
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * Writes a polyline path as WKT. Complex polylines (an array of paths) are written as a MULTILINESTRING.
+     *
+     * @param path - The path or paths of the polyline.
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The LINESTRING or MULTILINESTRING WKT.
+     *
+     * @memberof WktConversions
+     */
+    public static FromPath(path: Array<ILatLong> | Array<Array<ILatLong>>, precision?: number): string {
+        if (path != null && path.length > 0 && Array.isArray(path[0])) {
+            const paths: Array<Array<ILatLong>> = (<Array<Array<ILatLong>>>path).filter(p => p != null && p.length > 0);
+            return WktConversions.Stringify(paths.length === 1 ?
+                { type: 'LineString', coordinates: paths[0] } :
+                { type: 'MultiLineString', coordinates: paths }, precision);
+        }
+        return WktConversions.Stringify({ type: 'LineString', coordinates: <Array<ILatLong>>(path || []) }, precision);
+    }
+
+    /**
+     * Writes polygon paths as a WKT POLYGON. The first path is used as the exterior ring, additional paths become holes.
+     * Rings are closed as required by WKT.
+     *
+     * @param paths - The path or paths of the polygon.
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The POLYGON WKT.
+     *
+     * @memberof WktConversions
+     */
+    public static FromPaths(paths: Array<ILatLong> | Array<Array<ILatLong>>, precision?: number): string {
+        const rings: Array<Array<ILatLong>> = paths != null && paths.length > 0 && !Array.isArray(paths[0]) ?
+            [<Array<ILatLong>>paths] : <Array<Array<ILatLong>>>(paths || []);
+        return WktConversions.Stringify({ type: 'Polygon', coordinates: rings.filter(p => p != null && p.length > 0) }, precision);
+    }
+
+    /**
+     * Reads a WKT or EWKT string.
+     *
+     * @param wkt - The WKT to read.
+     * @returns - The geometry described by the WKT.
+     * @throws - An error if the WKT is malformed or of an unsupported type.
+     *
+     * @memberof WktConversions
+     */
+    public static Parse(wkt: string): IWktGeometry {
+        const text: string = (wkt || '').replace(/^\s*SRID=\d+\s*;/i, '');
+        const tokens: Array<string> = text.match(/[A-Za-z]+|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[(),]/g) || [];
+        if (tokens.join('') !== text.replace(/\s+/g, '')) { throw (new Error('Invalid WKT: unexpected characters.')); }
+        const reader: { tokens: Array<string>, index: number } = { tokens: tokens, index: 0 };
+        const geometry: IWktGeometry = WktConversions.ReadGeometry(reader);
+        if (reader.index < tokens.length) { throw (new Error(`Invalid WKT: unexpected '${tokens[reader.index]}'.`)); }
+        return geometry;
+    }
+
+    /**
+     * Writes a geometry as WKT.
+     *
+     * @param geometry - The geometry to write.
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The WKT.
+     *
+     * @memberof WktConversions
+     */
+    public static Stringify(geometry: IWktGeometry, precision?: number): string {
+        const name: string = Object.keys(WktConversions.Types).filter(k => WktConversions.Types[k] === geometry.type)[0];
+        if (name == null) { throw (new Error(`Unsupported geometry type '${geometry.type}'.`)); }
+        const c: any = geometry.coordinates;
+        if (geometry.type === 'GeometryCollection') {
+            const g: Array<IWktGeometry> = geometry.geometries || [];
+            return g.length === 0 ? name + ' EMPTY' : name + ' (' + g.map(x => WktConversions.Stringify(x, precision)).join(', ') + ')';
+        }
+        if (geometry.type === 'Point') {
+            return c == null ? name + ' EMPTY' : name + ' (' + WktConversions.WriteLocation(c, precision) + ')';
+        }
+        if (c == null || c.length === 0) { return name + ' EMPTY'; }
+
+        let body: string;
+        switch (geometry.type) {
+            case 'MultiPoint':
+                body = (<Array<ILatLong>>c).map(l => '(' + WktConversions.WriteLocation(l, precision) + ')').join(', ');
+                break;
+            case 'LineString':
+                return name + ' ' + WktConversions.WritePath(c, false, precision);
+            case 'MultiLineString':
+                body = (<Array<Array<ILatLong>>>c).map(p => WktConversions.WritePath(p, false, precision)).join(', ');
+                break;
+            case 'Polygon':
+                body = (<Array<Array<ILatLong>>>c).map(p => WktConversions.WritePath(p, true, precision)).join(', ');
+                break;
+            case 'MultiPolygon':
+                body = (<Array<Array<Array<ILatLong>>>>c).map(r =>
+                    '(' + r.map(p => WktConversions.WritePath(p, true, precision)).join(', ') + ')').join(', ');
+                break;
+        }
+        return name + ' (' + body + ')';
+    }
+
+    /**
+     * Reads a WKT LINESTRING or MULTILINESTRING into a polyline path. The line strings of a GEOMETRYCOLLECTION are
+     * collected, other members are ignored.
+     *
+     * @param wkt - The WKT to read.
+     * @returns - The path, or an array of paths if the WKT contains more than one line string.
+     * @throws - An error if the WKT is malformed or does not describe lines.
+     *
+     * @memberof WktConversions
+     */
+    public static ToPath(wkt: string): Array<ILatLong> | Array<Array<ILatLong>> {
+        const geometry: IWktGeometry = WktConversions.Parse(wkt);
+        if (['LineString', 'MultiLineString', 'GeometryCollection'].indexOf(geometry.type) === -1) {
+            throw (new Error(`A WKT ${geometry.type} cannot be converted into a polyline path.`));
+        }
+        const paths: Array<Array<ILatLong>> = WktConversions.CollectPaths(geometry, false);
+        return paths.length === 1 ? paths[0] : paths;
+    }
+
+    /**
+     * Reads a WKT POLYGON or MULTIPOLYGON into polygon paths. The rings of all polygons are returned; the first ring of
+     * each polygon is its exterior ring. The polygons of a GEOMETRYCOLLECTION are collected, other members are ignored.
+     *
+     * @param wkt - The WKT to read.
+     * @returns - The paths, without a repeated closing vertex.
+     * @throws - An error if the WKT is malformed or does not describe polygons.
+     *
+     * @memberof WktConversions
+     */
+    public static ToPaths(wkt: string): Array<Array<ILatLong>> {
+        const geometry: IWktGeometry = WktConversions.Parse(wkt);
+        if (['Polygon', 'MultiPolygon', 'GeometryCollection'].indexOf(geometry.type) === -1) {
+            throw (new Error(`A WKT ${geometry.type} cannot be converted into polygon paths.`));
+        }
+        return WktConversions.CollectPaths(geometry, true);
+    }
+
+    ///
+    /// Private static methods
+    ///
+
+    /**
+     * Collects the line strings or polygon rings of a geometry.
+     *
+     * @param geometry - The geometry.
+     * @param polygonal - True to collect polygon rings, false to collect line strings.
+     * @returns - The collected paths.
+     *
+     * @memberof WktConversions
+     */
+    private static CollectPaths(geometry: IWktGeometry, polygonal: boolean): Array<Array<ILatLong>> {
+        const c: any = geometry.coordinates;
+        switch (geometry.type) {
+            case 'LineString':
+                return !polygonal && c.length > 0 ? [c] : [];
+            case 'MultiLineString':
+                return !polygonal ? c : [];
+            case 'Polygon':
+                return polygonal ? c : [];
+            case 'MultiPolygon':
+                return polygonal ? [].concat(...c) : [];
+            case 'GeometryCollection':
+                return [].concat(...geometry.geometries.map(g => WktConversions.CollectPaths(g, polygonal)));
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Consumes the next token, which must match the expected token.
+     *
+     * @param reader - The token reader.
+     * @param token - The expected token.
+     * @throws - An error if the next token does not match.
+     *
+     * @memberof WktConversions
+     */
+    private static Expect(reader: { tokens: Array<string>, index: number }, token: string): void {
+        const t: string = reader.tokens[reader.index++];
+        if (t !== token) {
+            throw (new Error(`Invalid WKT: expected '${token}' but found ${t == null ? 'end of input' : `'${t}'`}.`));
+        }
+    }
+
+    /**
+     * Reads a geometry.
+     *
+     * @param reader - The token reader.
+     * @returns - The geometry.
+     *
+     * @memberof WktConversions
+     */
+    private static ReadGeometry(reader: { tokens: Array<string>, index: number }): IWktGeometry {
+        const word: string = (reader.tokens[reader.index++] || '').toUpperCase();
+        const match: RegExpExecArray = new RegExp('^(' + Object.keys(WktConversions.Types).join('|') + ')(ZM|Z|M)?$').exec(word);
+        if (match == null) { throw (new Error(`Invalid WKT: unsupported geometry type '${word}'.`)); }
+        const type: IWktGeometry['type'] = WktConversions.Types[match[1]];
+        if (['Z', 'M', 'ZM'].indexOf((reader.tokens[reader.index] || '').toUpperCase()) !== -1) { reader.index++; }
+
+        if ((reader.tokens[reader.index] || '').toUpperCase() === 'EMPTY') {
+            reader.index++;
+            if (type === 'GeometryCollection') { return { type: type, geometries: [] }; }
+            return { type: type, coordinates: type === 'Point' ? null : [] };
+        }
+        switch (type) {
+            case 'Point':
+                WktConversions.Expect(reader, '(');
+                const loc: ILatLong = WktConversions.ReadLocation(reader);
+                WktConversions.Expect(reader, ')');
+                return { type: type, coordinates: loc };
+            case 'MultiPoint':
+                return { type: type, coordinates: WktConversions.ReadList(reader, () => {
+                    if (reader.tokens[reader.index] !== '(') { return WktConversions.ReadLocation(reader); }
+                    reader.index++;
+                    const l: ILatLong = WktConversions.ReadLocation(reader);
+                    WktConversions.Expect(reader, ')');
+                    return l;
+                })};
+            case 'LineString':
+                return { type: type, coordinates: WktConversions.ReadPath(reader, false) };
+            case 'MultiLineString':
+                return { type: type, coordinates: WktConversions.ReadList(reader, () => WktConversions.ReadPath(reader, false)) };
+            case 'Polygon':
+                return { type: type, coordinates: WktConversions.ReadList(reader, () => WktConversions.ReadPath(reader, true)) };
+            case 'MultiPolygon':
+                return { type: type, coordinates: WktConversions.ReadList(reader, () =>
+                    WktConversions.ReadList(reader, () => WktConversions.ReadPath(reader, true))) };
+            case 'GeometryCollection':
+                return { type: type, geometries: WktConversions.ReadList(reader, () => WktConversions.ReadGeometry(reader)) };
+        }
+    }
+
+    /**
+     * Reads a parenthesized, comma separated list.
+     *
+     * @param reader - The token reader.
+     * @param read - Delegate reading a list item.
+     * @returns - The list items.
+     *
+     * @memberof WktConversions
+     */
+    private static ReadList<T>(reader: { tokens: Array<string>, index: number }, read: () => T): Array<T> {
+        const items: Array<T> = new Array<T>();
+        WktConversions.Expect(reader, '(');
+        items.push(read());
+        while (reader.tokens[reader.index] === ',') {
+            reader.index++;
+            items.push(read());
+        }
+        WktConversions.Expect(reader, ')');
+        return items;
+    }
+
+    /**
+     * Reads a position. Positions consist of longitude and latitude, optionally followed by Z and M ordinates, which are
+     * dropped.
+     *
+     * @param reader - The token reader.
+     * @returns - The location.
+     *
+     * @memberof WktConversions
+     */
+    private static ReadLocation(reader: { tokens: Array<string>, index: number }): ILatLong {
+        const values: Array<number> = new Array<number>();
+        while (reader.index < reader.tokens.length && /^[-+.\d]/.test(reader.tokens[reader.index])) {
+            values.push(parseFloat(reader.tokens[reader.index++]));
+        }
+        if (values.length < 2 || values.length > 4) {
+            throw (new Error(`Invalid WKT: expected a position but found ${values.length} ordinate(s).`));
+        }
+        return { latitude: values[1], longitude: values[0] };
+    }
+
+    /**
+     * Reads a path.
+     *
+     * @param reader - The token reader.
+     * @param closed - True if the path is a polygon ring, in which case the repeated closing vertex is removed.
+     * @returns - The path.
+     *
+     * @memberof WktConversions
+     */
+    private static ReadPath(reader: { tokens: Array<string>, index: number }, closed: boolean): Array<ILatLong> {
+        const path: Array<ILatLong> = WktConversions.ReadList(reader, () => WktConversions.ReadLocation(reader));
+        const first: ILatLong = path[0];
+        const last: ILatLong = path[path.length - 1];
+        if (closed && path.length > 1 && first.latitude === last.latitude && first.longitude === last.longitude) { path.pop(); }
+        return path;
+    }
+
+    /**
+     * Rounds a value to the given number of decimals.
+     *
+     * @param value - The value to round.
+     * @param precision - Optional. The number of decimals. If not supplied, the value is returned unchanged.
+     * @returns - The rounded value.
+     *
+     * @memberof WktConversions
+     */
+    private static Round(value: number, precision?: number): number {
+        if (precision == null || precision < 0) { return value; }
+        const f: number = Math.pow(10, precision);
+        return Math.round(value * f) / f;
+    }
+
+    /**
+     * Writes a location as a WKT position.
+     *
+     * @param loc - The location.
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The position.
+     *
+     * @memberof WktConversions
+     */
+    private static WriteLocation(loc: ILatLong, precision?: number): string {
+        return WktConversions.Round(loc.longitude, precision) + ' ' + WktConversions.Round(loc.latitude, precision);
+    }
+
+    /**
+     * Writes a path as a parenthesized list of WKT positions.
+     *
+     * @param path - The path.
+     * @param closed - True if the path is a polygon ring, in which case the ring is closed if necessary.
+     * @param precision - Optional. The number of decimals to round the coordinates to.
+     * @returns - The position list.
+     *
+     * @memberof WktConversions
+     */
+    private static WritePath(path: Array<ILatLong>, closed: boolean, precision?: number): string {
+        const positions: Array<string> = path.map(l => WktConversions.WriteLocation(l, precision));
+        if (closed && positions.length > 0 && positions[0] !== positions[positions.length - 1]) { positions.push(positions[0]); }
+        return '(' + positions.join(', ') + ')';
+    }
+}
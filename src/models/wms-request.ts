@@ -0,0 +1,190 @@
+import { IBox } from '../interfaces/ibox';
+import { ILatLong } from '../interfaces/ilatlong';
+import { IPoint } from '../interfaces/ipoint';
+import { IWmsOptions } from '../interfaces/iwms-options';
+import { TileLayer } from './tile-layer';
+
+/**
+ * This class contains helper functions to build OGC WMS 1.1.1 and 1.3.0 GetMap and GetFeatureInfo requests for
+ * web mercator map tiles.
+ *
+ * @export
+ */
+export class WmsRequest {
+
+    ///
+    /// Field declarations
+    ///
+    private static readonly GeographicCrs: Array<string> = ['EPSG:4326', 'CRS:84'];
+    private static readonly MercatorCrs: Array<string> = ['EPSG:3857', 'EPSG:900913', 'EPSG:102100'];
+
+    ///
+    /// Public static methods
+    ///
+
+    /**
+     * Builds the GetFeatureInfo url for a location. The request is issued against the tile containing the location.
+     *
+     * @param options - The WMS options. See {@link IWmsOptions}.
+     * @param loc - The location to query.
+     * @param zoom - The current zoom level.
+     * @param infoFormat - Optional. The format of the response. Defaults to text/html.
+     * @param queryLayers - Optional. Comma separated list of the layers to query. Defaults to the requested layers.
+     * @param featureCount - Optional. The maximum number of features to return. Defaults to 1.
+     * @param tileSize - Optional. The size of a tile in pixels. Defaults to 256.
+     * @returns - The GetFeatureInfo url.
+     *
+     * @memberof WmsRequest
+     */
+    public static GetFeatureInfoUrl(options: IWmsOptions, loc: ILatLong, zoom: number, infoFormat: string = 'text/html',
+        queryLayers?: string, featureCount: number = 1, tileSize: number = 256): string {
+        const tile: { x: number, y: number, pixel: IPoint } = TileLayer.LocationToTile(loc, Math.round(zoom), tileSize);
+        const is13: boolean = WmsRequest.Is130(options);
+        let row: number = tile.pixel.y;
+        if (WmsRequest.GeographicCrs.indexOf(WmsRequest.GetCrs(options)) !== -1) {
+            // The server maps the rows of a geographic image linearly in latitude, not in web mercator.
+            const b: IBox = TileLayer.TileToBox(tile.x, tile.y, Math.round(zoom));
+            row = Math.floor((b.maxLatitude - loc.latitude) / (b.maxLatitude - b.minLatitude) * tileSize);
+            row = Math.min(Math.max(row, 0), tileSize - 1);
+        }
+        const params: { [key: string]: string | number | boolean } = WmsRequest.GetBaseParams(options, 'GetFeatureInfo');
+        params['BBOX'] = WmsRequest.GetBBox(options, tile.x, tile.y, Math.round(zoom));
+        params['WIDTH'] = tileSize;
+        params['HEIGHT'] = tileSize;
+        params['QUERY_LAYERS'] = queryLayers || options.layers;
+        params['INFO_FORMAT'] = infoFormat;
+        params['FEATURE_COUNT'] = featureCount;
+        params[is13 ? 'I' : 'X'] = tile.pixel.x;
+        params[is13 ? 'J' : 'Y'] = row;
+        return WmsRequest.BuildUrl(options, params);
+    }
+
+    /**
+     * Builds the GetMap url for a tile.
+     *
+     * @param options - The WMS options. See {@link IWmsOptions}.
+     * @param x - The tile column.
+     * @param y - The tile row.
+     * @param zoom - The zoom level.
+     * @param tileSize - Optional. The size of a tile in pixels. Defaults to 256.
+     * @returns - The GetMap url.
+     *
+     * @memberof WmsRequest
+     */
+    public static GetMapUrl(options: IWmsOptions, x: number, y: number, zoom: number, tileSize: number = 256): string {
+        const params: { [key: string]: string | number | boolean } = WmsRequest.GetBaseParams(options, 'GetMap');
+        params['BBOX'] = WmsRequest.GetBBox(options, x, y, zoom);
+        params['WIDTH'] = tileSize;
+        params['HEIGHT'] = tileSize;
+        return WmsRequest.BuildUrl(options, params);
+    }
+
+    /**
+     * Determines whether the CRS of the request is supported. Tiles can be requested in EPSG:3857 (and its aliases
+     * EPSG:900913 and EPSG:102100), EPSG:4326 and CRS:84.
+     *
+     * @param options - The WMS options.
+     * @returns - True if the CRS is supported, false otherwise.
+     *
+     * @memberof WmsRequest
+     */
+    public static IsSupportedCrs(options: IWmsOptions): boolean {
+        const crs: string = WmsRequest.GetCrs(options);
+        return WmsRequest.MercatorCrs.indexOf(crs) !== -1 || WmsRequest.GeographicCrs.indexOf(crs) !== -1;
+    }
+
+    ///
+    /// Private static methods
+    ///
+
+    /**
+     * Appends the request and vendor parameters to the service url.
+     *
+     * @param options - The WMS options.
+     * @param params - The request parameters.
+     * @returns - The request url.
+     *
+     * @memberof WmsRequest
+     */
+    private static BuildUrl(options: IWmsOptions, params: { [key: string]: string | number | boolean }): string {
+        const all: { [key: string]: string | number | boolean } = Object.assign({}, params, options.vendorParams || {});
+        const query: string = Object.keys(all)
+            .filter(k => all[k] != null)
+            .map(k => encodeURIComponent(k) + '=' + encodeURIComponent(all[k].toString()))
+            .join('&');
+        const url: string = options.url;
+        if (url.indexOf('?') < 0) { return url + '?' + query; }
+        return url + (/[?&]$/.test(url) ? '' : '&') + query;
+    }
+
+    /**
+     * Gets the BBOX parameter of a tile for the CRS and version of the request. WMS 1.3.0 uses latitude, longitude
+     * axis order for EPSG:4326. The CRS is expected to have been checked with {@link IsSupportedCrs}.
+     *
+     * @param options - The WMS options.
+     * @param x - The tile column.
+     * @param y - The tile row.
+     * @param zoom - The zoom level.
+     * @returns - The BBOX parameter.
+     *
+     * @memberof WmsRequest
+     */
+    private static GetBBox(options: IWmsOptions, x: number, y: number, zoom: number): string {
+        const crs: string = WmsRequest.GetCrs(options);
+        if (WmsRequest.MercatorCrs.indexOf(crs) !== -1) {
+            return TileLayer.TileToMercatorBox(x, y, zoom).join(',');
+        }
+        const b: IBox = TileLayer.TileToBox(x, y, zoom);
+        if (crs === 'EPSG:4326' && WmsRequest.Is130(options)) {
+            return [b.minLatitude, b.minLongitude, b.maxLatitude, b.maxLongitude].join(',');
+        }
+        return [b.minLongitude, b.minLatitude, b.maxLongitude, b.maxLatitude].join(',');
+    }
+
+    /**
+     * Gets the parameters common to GetMap and GetFeatureInfo requests.
+     *
+     * @param options - The WMS options.
+     * @param request - The request type.
+     * @returns - The parameters.
+     *
+     * @memberof WmsRequest
+     */
+    private static GetBaseParams(options: IWmsOptions, request: string): { [key: string]: string | number | boolean } {
+        const params: { [key: string]: string | number | boolean } = {
+            SERVICE: 'WMS',
+            VERSION: WmsRequest.Is130(options) ? '1.3.0' : '1.1.1',
+            REQUEST: request,
+            LAYERS: options.layers,
+            STYLES: options.styles || '',
+            FORMAT: options.format || 'image/png',
+            TRANSPARENT: options.transparent === false ? 'FALSE' : 'TRUE'
+        };
+        params[WmsRequest.Is130(options) ? 'CRS' : 'SRS'] = WmsRequest.GetCrs(options);
+        return params;
+    }
+
+    /**
+     * Gets the normalized CRS of the request.
+     *
+     * @param options - The WMS options.
+     * @returns - The CRS identifier in upper case.
+     *
+     * @memberof WmsRequest
+     */
+    private static GetCrs(options: IWmsOptions): string {
+        return (options.crs || 'EPSG:3857').toUpperCase();
+    }
+
+    /**
+     * Determines whether the request uses WMS 1.3.0.
+     *
+     * @param options - The WMS options.
+     * @returns - True for WMS 1.3.0, false for 1.1.1.
+     *
+     * @memberof WmsRequest
+     */
+    private static Is130(options: IWmsOptions): boolean {
+        return options.version === '1.3.0';
+    }
+}
@@ -12,8 +12,12 @@ import { BingClusterLayer } from '../../models/bing/bing-cluster-layer';
 import { Layer } from '../../models/layer';
 import { MarkerTypeId } from '../../models/marker-type-id';
 import { ClusterClickAction } from '../../models/cluster-click-action';
+import { ClusterAggregator } from '../../models/cluster-aggregator';
+import { ClusterMemberList } from '../../models/cluster-member-list';
+import { BingClusterEngineAdapter } from '../../models/bing/bing-cluster-engine-adapter';
 import { MapService } from '../map.service';
 import { ClusterLayerDirective } from '../../components/cluster-layer';
+import { MapLayerDirective } from '../../components/map-layer';
 import { ClusterService } from '../cluster.service';
 import { BingLayerBase } from './bing-layer-base';
 import { BingMapService } from './bing-map.service';
@@ -27,6 +31,11 @@ import { BingConversions } from './bing-conversions';
 @Injectable()
 export class BingClusterService extends BingLayerBase implements ClusterService {
 
+    ///
+    /// Field declarations
+    ///
+    protected _memberLists: Map<number, ClusterMemberList> = new Map<number, ClusterMemberList>();
+
     ///
     /// Constructor
     ///
@@ -61,12 +70,14 @@ export class BingClusterService extends BingLayerBase implements ClusterService
             id: layer.Id,
             visible: layer.Visible,
             clusteringEnabled: layer.ClusteringEnabled,
-            placementMode: layer.ClusterPlacementMode
+            placementMode: layer.ClusterPlacementMode,
+            useClusterEngine: layer.UseClusterEngine
         };
         if (layer.GridSize) { options.gridSize = layer.GridSize; }
+        if (layer.MinimumClusterSize) { options.minimumClusterSize = layer.MinimumClusterSize; }
         if (layer.LayerOffset) { options.layerOffset = layer.LayerOffset; }
         if (layer.ZIndex) { options.zIndex = layer.ZIndex; }
-        if (layer.IconInfo) {
+        if (layer.IconInfo || layer.Aggregations) {
             options.clusteredPinCallback = (pin: Microsoft.Maps.ClusterPushpin) => { this.CreateClusterPushPin(pin, layer); };
         }
         if (layer.CustomMarkerCallback) {
@@ -92,6 +103,9 @@ export class BingClusterService extends BingLayerBase implements ClusterService
             });
         });
         this._layers.set(layer.Id, layerPromise);
+        if (layer.ClusterClickAction === ClusterClickAction.ListMembers) {
+            layerPromise.then((l: BingClusterLayer) => this.AddMemberList(l, layer));
+        }
     }
 
     /**
@@ -151,6 +165,22 @@ export class BingClusterService extends BingLayerBase implements ClusterService
         throw (new Error('Polylines are not supported in clustering layers. You can only use markers.'));
     }
 
+    /**
+     * Deletes the layer and closes the member list of the layer, if any.
+     *
+     * @param layer - MapLayerDirective component object for which to retrieve the layer.
+     * @returns - A promise that is fullfilled when the layer has been removed.
+     *
+     * @memberof BingClusterService
+     */
+    public DeleteLayer(layer: MapLayerDirective): Promise<void> {
+        if (this._memberLists.has(layer.Id)) {
+            this._memberLists.get(layer.Id).Dispose();
+            this._memberLists.delete(layer.Id);
+        }
+        return super.DeleteLayer(layer);
+    }
+
     /**
      * Start to actually cluster the entities in a cluster layer. This method should be called after the initial set of entities
      * have been added to the cluster. This method is used for performance reasons as adding an entitiy will recalculate all clusters.
@@ -199,6 +229,54 @@ export class BingClusterService extends BingLayerBase implements ClusterService
     /// Private methods
     ///
 
+    /**
+     * Sets up the member list shown on cluster click for {@link ClusterClickAction.ListMembers}. Selecting a member
+     * in the list emits the member through the MarkerClick event of the layer.
+     *
+     * @param l - The cluster layer model.
+     * @param layer - The {@link ClusterLayerDirective} component representing the layer.
+     *
+     * @memberof BingClusterService
+     */
+    private AddMemberList(l: BingClusterLayer, layer: ClusterLayerDirective): void {
+        const list: ClusterMemberList = new ClusterMemberList(this._mapService, (m: Marker, e: MouseEvent) => {
+            this._zone.run(() => {
+                if (layer.MarkerClick) { layer.MarkerClick.emit({ Marker: m, Click: e, Location: m.Location, Pixels: null }); }
+            });
+        }, layer.MemberListTemplate, layer.MemberListPageSize);
+        this._memberLists.set(layer.Id, list);
+        l.AddListener('click', (e: Microsoft.Maps.IMouseEventArgs) => {
+            if (e.primitive instanceof Microsoft.Maps.ClusterPushpin || BingClusterEngineAdapter.IsClusterPushpin(e.primitive)) {
+                const cluster: Microsoft.Maps.ClusterPushpin = <Microsoft.Maps.ClusterPushpin>e.primitive;
+                const loc: Microsoft.Maps.Location = cluster.getLocation();
+                list.Show(cluster.containedPushpins.map(p => l.GetMarkerFromBingMarker(p)).filter(p => p != null),
+                    { latitude: loc.latitude, longitude: loc.longitude });
+            }
+        });
+    }
+
+    /**
+     * Computes the aggregates for a cluster, attaches them to the cluster pushpin metadata (metadata.aggregates) and,
+     * if requested, displays the aggregate as the cluster text.
+     *
+     * @param cluster - The cluster pushpin.
+     * @param layer - The {@link ClusterLayerDirective} component representing the layer.
+     * @param markers - The markers contained in the cluster.
+     * @returns - The aggregates for the cluster.
+     *
+     * @memberof BingClusterService
+     */
+    private AggregateClusterPushPin(cluster: Microsoft.Maps.ClusterPushpin, layer: ClusterLayerDirective,
+        markers: Array<Marker>): Map<string, any> {
+        const a: Map<string, any> = ClusterAggregator.Aggregate(markers, layer.Aggregations);
+        cluster.metadata = cluster.metadata || {};
+        cluster.metadata.aggregates = a;
+        if (layer.AggregateText && a.has(layer.AggregateText)) {
+            cluster.setOptions({ text: ClusterAggregator.ToText(a.get(layer.AggregateText)) });
+        }
+        return a;
+    }
+
     /**
      * Creates the default cluster pushpin as a callback from BingMaps when clustering occurs. The {@link ClusterLayerDirective} model
      * can provide an IconInfo property that would govern the apparenace of the pin. This method will assign the same pin to all
@@ -211,6 +289,14 @@ export class BingClusterService extends BingLayerBase implements ClusterService
      */
     private CreateClusterPushPin(cluster: Microsoft.Maps.ClusterPushpin, layer: ClusterLayerDirective): void {
         this._layers.get(layer.Id).then((l: BingClusterLayer) => {
+            if (layer.Aggregations) {
+                const m: Array<Marker> = new Array<Marker>();
+                cluster.containedPushpins.forEach(p => {
+                    const marker: Marker = l.GetMarkerFromBingMarker(p);
+                    if (marker) { m.push(marker); }
+                });
+                this.AggregateClusterPushPin(cluster, layer, m);
+            }
             if (layer.IconInfo) {
                 const o: Microsoft.Maps.IPushpinOptions = {};
                 const payload: (ico: string, info: IMarkerIconInfo) => void = (ico, info) => {
@@ -260,9 +346,10 @@ export class BingClusterService extends BingLayerBase implements ClusterService
                 const marker: Marker = l.GetMarkerFromBingMarker(p);
                 if (marker) { m.push(marker); }
             });
+            const a: Map<string, any> = layer.Aggregations ? this.AggregateClusterPushPin(cluster, layer, m) : undefined;
             const iconInfo: IMarkerIconInfo = { markerType: MarkerTypeId.None };
             const o: Microsoft.Maps.IPushpinOptions = {};
-            o.icon = layer.CustomMarkerCallback(m, iconInfo);
+            o.icon = layer.CustomMarkerCallback(m, iconInfo, a);
             if (o.icon !== '') {
                 o.anchor = new Microsoft.Maps.Point(
                     (iconInfo.size && iconInfo.markerOffsetRatio) ? (iconInfo.size.width * iconInfo.markerOffsetRatio.x) : 0,
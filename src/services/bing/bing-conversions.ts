@@ -1,5 +1,6 @@
 ﻿import { IMapOptions } from '../../interfaces/imap-options';
 import { IBox } from '../../interfaces/ibox';
+import { ICircleOptions } from '../../interfaces/icircle-options';
 import { ILatLong } from '../../interfaces/ilatlong';
 import { IMarkerOptions } from '../../interfaces/imarker-options';
 import { IMarkerIconInfo } from '../../interfaces/imarker-icon-info';
@@ -216,6 +217,22 @@ export class BingConversions {
         return r;
     }
 
+    /**
+     * Maps an ICircleOptions object to the Microsoft.Maps.IPolygonOptions of the polygon approximating the circle.
+     *
+     * @param options - Object to be mapped.
+     * @returns - Mapped object.
+     *
+     * @memberof BingConversions
+     */
+    public static TranslateCircleOptions(options: ICircleOptions): Microsoft.Maps.IPolygonOptions {
+        const o: IPolygonOptions = { id: options.id };
+        ['fillColor', 'fillOpacity', 'strokeColor', 'strokeOpacity', 'strokeWeight', 'visible']
+            .filter(k => (<any>options)[k] != null)
+            .forEach(k => (<any>o)[k] = (<any>options)[k]);
+        return BingConversions.TranslatePolygonOptions(o);
+    }
+
     /**
      * Maps an IClusterOptions object to a Microsoft.Maps.IClusterLayerOptions object.
      *
@@ -17,6 +17,7 @@ import { LayerService } from '../layer.service';
 import { BingMapService } from './bing-map.service';
 import { BingLayerBase } from './bing-layer-base';
 import { BingConversions } from './bing-conversions';
+import { PolylineEncoding } from '../../models/polyline-encoding';
 
 /**
  * Implements the {@link LayerService} contract for a  Bing Maps V8 specific implementation.
@@ -69,6 +70,7 @@ export class BingLayerService extends BingLayerBase implements LayerService {
      * @memberof BingLayerService
      */
     public CreatePolygon(layer: number, options: IPolygonOptions): Promise<Polygon> {
+        options = PolylineEncoding.ResolvePolygonOptions(options);
         const p: Promise<Layer> = this.GetLayerById(layer);
         if (p == null) { throw (new Error(`Layer with id ${layer} not found in Layer Map`)); }
         return p.then((l: Layer) => {
@@ -99,6 +101,7 @@ export class BingLayerService extends BingLayerBase implements LayerService {
      * @memberof BingLayerService
      */
     public CreatePolygons(layer: number, options: Array<IPolygonOptions>): Promise<Array<Polygon>> {
+        options = options.map(o => PolylineEncoding.ResolvePolygonOptions(o));
         const p: Promise<Layer> = this.GetLayerById(layer);
         if (p == null) { throw (new Error(`Layer with id ${layer} not found in Layer Map`)); }
         return p.then((l: Layer) => {
@@ -130,16 +133,18 @@ export class BingLayerService extends BingLayerBase implements LayerService {
      * @memberof BingLayerService
      */
     public CreatePolyline(layer: number, options: IPolylineOptions): Promise<Polyline|Array<Polyline>> {
+        options = PolylineEncoding.ResolvePolylineOptions(options);
         const p: Promise<Layer> = this.GetLayerById(layer);
         let polyline: Microsoft.Maps.Polyline;
         let line: Polyline;
         if (p == null) { throw (new Error(`Layer with id ${layer} not found in Layer Map`)); }
         return p.then((l: Layer) => {
+            const m: BingMapService = <BingMapService>this._mapService;
             const locs: Array<Array<Microsoft.Maps.Location>> = BingConversions.TranslatePaths(options.path);
             const o: Microsoft.Maps.IPolylineOptions = BingConversions.TranslatePolylineOptions(options);
             if (options.path && options.path.length > 0 && !Array.isArray(options.path[0])) {
                 polyline = new Microsoft.Maps.Polyline(locs[0], o);
-                line = new BingPolyline(polyline, this._mapService.MapInstance, l.NativePrimitve);
+                line = new BingPolyline(polyline, this._mapService.MapInstance, l.NativePrimitve, m);
                 l.AddEntity(line);
 
                 if (options.metadata) { options.metadata.forEach((v, k) => line.Metadata.set(k, v)); }
@@ -151,7 +156,7 @@ export class BingLayerService extends BingLayerBase implements LayerService {
                 const lines: Array<Polyline> = new Array<Polyline>();
                 locs.forEach(x => {
                     polyline = new Microsoft.Maps.Polyline(x, o);
-                    line = new BingPolyline(polyline, this._mapService.MapInstance, l.NativePrimitve);
+                    line = new BingPolyline(polyline, this._mapService.MapInstance, l.NativePrimitve, m);
                     l.AddEntity(line);
 
                     if (options.metadata) { options.metadata.forEach((v, k) => line.Metadata.set(k, v)); }
@@ -175,16 +180,18 @@ export class BingLayerService extends BingLayerBase implements LayerService {
      * @memberof BingLayerService
      */
     public CreatePolylines(layer: number, options: Array<IPolylineOptions>): Promise<Array<Polyline|Array<Polyline>>> {
+        options = options.map(o => PolylineEncoding.ResolvePolylineOptions(o));
         const p: Promise<Layer> = this.GetLayerById(layer);
         if (p == null) { throw (new Error(`Layer with id ${layer} not found in Layer Map`)); }
         return p.then((l: Layer) => {
+            const m: BingMapService = <BingMapService>this._mapService;
             const polylines: Promise<Array<Polyline|Array<Polyline>>> = new Promise<Array<Polyline|Array<Polyline>>>((resolve, reject) => {
                 const polys: Array<Polyline|Array<Polyline>> = options.map(o => {
                     const locs: Array<Array<Microsoft.Maps.Location>> = BingConversions.TranslatePaths(o.path);
                     const op: Microsoft.Maps.IPolylineOptions = BingConversions.TranslatePolylineOptions(o);
                     if (locs && locs.length > 0 && !Array.isArray(locs[0])) {
                         const poly: Microsoft.Maps.Polyline = new Microsoft.Maps.Polyline(locs[0], op);
-                        const polyline: BingPolyline = new BingPolyline(poly, this._mapService.MapInstance, l.NativePrimitve);
+                        const polyline: BingPolyline = new BingPolyline(poly, this._mapService.MapInstance, l.NativePrimitve, m);
                         if (o.title && o.title !== '') { polyline.Title = o.title; }
                         if (o.metadata) { o.metadata.forEach((v, k) => polyline.Metadata.set(k, v)); }
                         return polyline;
@@ -193,7 +200,7 @@ export class BingLayerService extends BingLayerBase implements LayerService {
                         const lines: Array<Polyline> = new Array<Polyline>();
                         locs.forEach(x => {
                             const poly = new Microsoft.Maps.Polyline(x, op);
-                            const polyline: BingPolyline = new BingPolyline(poly, this._mapService.MapInstance, l.NativePrimitve);
+                            const polyline: BingPolyline = new BingPolyline(poly, this._mapService.MapInstance, l.NativePrimitve, m);
                             if (o.metadata) { o.metadata.forEach((v, k) => polyline.Metadata.set(k, v)); }
                             if (o.title && o.title !== '') {polyline.Title = o.title; }
                             lines.push(polyline);
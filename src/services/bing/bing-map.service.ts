@@ -14,6 +14,7 @@ import { BingMarker } from '../../models/bing/bing-marker';
 import { Layer } from '../../models/layer';
 import { BingLayer } from '../../models/bing/bing-layer';
 import { BingClusterLayer } from '../../models/bing/bing-cluster-layer';
+import { BingClusterEngineAdapter } from '../../models/bing/bing-cluster-engine-adapter';
 import { BingInfoWindow } from '../../models/bing/bing-info-window';
 import { BingPolygon } from '../../models/bing/bing-polygon';
 import { BingPolyline } from '../../models/bing/bing-polyline';
@@ -21,6 +22,13 @@ import { MixinMapLabelWithOverlayView } from '../../models/bing/bing-label';
 import { MixinCanvasOverlay } from '../../models/bing/bing-canvas-overlay';
 import { BingCanvasOverlay } from '../../models/bing/bing-canvas-overlay';
 import { CanvasOverlay } from '../../models/canvas-overlay';
+import { MapProjection } from '../../models/map-projection';
+import { TileLayer } from '../../models/tile-layer';
+import { BingTileLayer } from '../../models/bing/bing-tile-layer';
+import { GroundOverlay } from '../../models/ground-overlay';
+import { BingGroundOverlay } from '../../models/bing/bing-ground-overlay';
+import { Circle } from '../../models/circle';
+import { BingCircle } from '../../models/bing/bing-circle';
 import { ILayerOptions } from '../../interfaces/ilayer-options';
 import { IClusterOptions } from '../../interfaces/icluster-options';
 import { IMapOptions } from '../../interfaces/imap-options';
@@ -33,8 +41,12 @@ import { IInfoWindowOptions } from '../../interfaces/iinfo-window-options';
 import { IPolygonOptions } from '../../interfaces/ipolygon-options';
 import { IPolylineOptions } from '../../interfaces/ipolyline-options';
 import { IBox } from '../../interfaces/ibox';
+import { ITileLayerOptions } from '../../interfaces/itile-layer-options';
+import { IGroundOverlayOptions } from '../../interfaces/iground-overlay-options';
+import { ICircleOptions } from '../../interfaces/icircle-options';
 
 import { BingMapEventsLookup } from '../../models/bing/bing-events-lookup';
+import { PolylineEncoding } from '../../models/polyline-encoding';
 
 /**
  * Concrete implementation of the MapService abstract implementing a Bin Map V8 provider
@@ -52,6 +64,8 @@ export class BingMapService implements MapService {
     private _mapResolver: (value?: Microsoft.Maps.Map) => void;
     private _config: BingMapAPILoaderConfig;
     private _modules: Map<string, Object> = new Map<string, Object>();
+    private _disableZooming: boolean = false;
+    private _disableDoubleClickZoom: boolean = false;
 
     ///
     /// Property Definitions
@@ -120,11 +134,11 @@ export class BingMapService implements MapService {
      * Creates a canvas overlay layer to perform custom drawing over the map with out
      * some of the overhead associated with going through the Map objects.
      * @param drawCallback A callback function that is triggered when the canvas is ready to be
-     * rendered for the current map view.
+     * rendered for the current map view. The callback receives a {@link MapProjection} for the view.
      * @returns - Promise of a {@link CanvasOverlay} object.
      * @memberof BingMapService
      */
-    public CreateCanvasOverlay(drawCallback: (canvas: HTMLCanvasElement) => void): Promise<CanvasOverlay> {
+    public CreateCanvasOverlay(drawCallback: (canvas: HTMLCanvasElement, projection: MapProjection) => void): Promise<CanvasOverlay> {
         return this._map.then((map: Microsoft.Maps.Map) => {
             const overlay: BingCanvasOverlay = new BingCanvasOverlay(drawCallback);
             map.layers.insert(overlay);
@@ -133,7 +147,24 @@ export class BingMapService implements MapService {
     }
 
     /**
-     * Creates a Bing map cluster layer within the map context
+     * Creates a circle within the map context
+     *
+     * @param options - Options for the circle. See {@link ICircleOptions}.
+     * @returns - Promise of a {@link Circle} object, which models the underlying Microsoft.Maps.Polygon approximating the circle.
+     *
+     * @memberof BingMapService
+     */
+    public CreateCircle(options: ICircleOptions): Promise<Circle> {
+        return this._map.then((map: Microsoft.Maps.Map) => {
+            const c: BingCircle = new BingCircle(map, options);
+            if (options.metadata) { options.metadata.forEach((v, k) => c.Metadata.set(k, v)); }
+            return c;
+        });
+    }
+
+    /**
+     * Creates a Bing map cluster layer within the map context. If {@link IClusterOptions.useClusterEngine} is set, the layer
+     * is backed by the built-in {@link ClusterEngine}.
      *
      * @param options - Options for the layer. See {@link IClusterOptions}.
      * @returns - Promise of a {@link Layer} object, which models the underlying Microsoft.Maps.ClusterLayer object.
@@ -144,11 +175,18 @@ export class BingMapService implements MapService {
         return this._map.then((map: Microsoft.Maps.Map) => {
             const p: Promise<Layer> = new Promise<Layer>(resolve => {
                 this.LoadModule('Microsoft.Maps.Clustering', () => {
-                    const o: Microsoft.Maps.IClusterLayerOptions = BingConversions.TranslateClusterOptions(options);
-                    const layer: Microsoft.Maps.ClusterLayer = new Microsoft.Maps.ClusterLayer(new Array<Microsoft.Maps.Pushpin>(), o);
                     let bl: BingClusterLayer;
-                    map.layers.insert(layer);
-                    bl = new BingClusterLayer(layer, this);
+                    if (options.useClusterEngine) {
+                        const adapter: BingClusterEngineAdapter = new BingClusterEngineAdapter(map, options);
+                        map.layers.insert(adapter.NativeLayer);
+                        bl = new BingClusterLayer(adapter, this);
+                    }
+                    else {
+                        const o: Microsoft.Maps.IClusterLayerOptions = BingConversions.TranslateClusterOptions(options);
+                        const layer: Microsoft.Maps.ClusterLayer = new Microsoft.Maps.ClusterLayer(new Array<Microsoft.Maps.Pushpin>(), o);
+                        map.layers.insert(layer);
+                        bl = new BingClusterLayer(layer, this);
+                    }
                     bl.SetOptions(options);
                     resolve(bl);
                 });
@@ -157,6 +195,18 @@ export class BingMapService implements MapService {
         });
     }
 
+    /**
+     * Creates a ground overlay within the Bing Maps V8 map context. The image is hosted in a custom overlay.
+     *
+     * @param options - Options for the overlay. See {@link IGroundOverlayOptions}.
+     * @returns - Promise of a {@link GroundOverlay} object.
+     *
+     * @memberof BingMapService
+     */
+    public CreateGroundOverlay(options: IGroundOverlayOptions): Promise<GroundOverlay> {
+        return this._map.then((map: Microsoft.Maps.Map) => new BingGroundOverlay(map, options));
+    }
+
     /**
      * Creates an information window for a map position
      *
@@ -218,6 +268,9 @@ export class BingMapService implements MapService {
             if (!o.credentials) {
                 o.credentials = this._config.apiKey;
             }
+            this._disableZooming = mapOptions.disableZooming === true;
+            this._disableDoubleClickZoom = mapOptions.disableDoubleClickZoom === true;
+            if (this._disableDoubleClickZoom) { o.disableZooming = true; }
             const map = new Microsoft.Maps.Map(el, o);
             this._mapInstance = map;
             this._mapResolver(map);
@@ -269,6 +322,7 @@ export class BingMapService implements MapService {
      * @memberof MapService
      */
     public CreatePolygon(options: IPolygonOptions): Promise<Polygon> {
+        options = PolylineEncoding.ResolvePolygonOptions(options);
         return this._map.then((map: Microsoft.Maps.Map) => {
             const locs: Array<Array<Microsoft.Maps.Location>> = BingConversions.TranslatePaths(options.paths);
             const o: Microsoft.Maps.IPolygonOptions = BingConversions.TranslatePolygonOptions(options);
@@ -298,6 +352,7 @@ export class BingMapService implements MapService {
      * @memberof MapService
      */
     public CreatePolyline(options: IPolylineOptions): Promise<Polyline | Array<Polyline>> {
+        options = PolylineEncoding.ResolvePolylineOptions(options);
         let polyline: Microsoft.Maps.Polyline;
         return this._map.then((map: Microsoft.Maps.Map) => {
             const o: Microsoft.Maps.IPolylineOptions = BingConversions.TranslatePolylineOptions(options);
@@ -306,10 +361,11 @@ export class BingMapService implements MapService {
                 polyline = new Microsoft.Maps.Polyline(locs[0], o);
                 map.entities.push(polyline);
 
-                const pl = new BingPolyline(polyline, map, null);
+                const pl = new BingPolyline(polyline, map, null, this);
                 if (options.metadata) { options.metadata.forEach((v, k) => pl.Metadata.set(k, v)); }
                 if (options.title && options.title !== '') { pl.Title = options.title; }
                 if (options.showTooltip != null) { pl.ShowTooltip = options.showTooltip; }
+                if (options.editable) { pl.SetEditable(options.editable); }
                 return pl;
             }
             else {
@@ -318,10 +374,11 @@ export class BingMapService implements MapService {
                     polyline = new Microsoft.Maps.Polyline(p, o);
                     map.entities.push(polyline);
 
-                    const pl = new BingPolyline(polyline, map, null);
+                    const pl = new BingPolyline(polyline, map, null, this);
                     if (options.metadata) { options.metadata.forEach((v, k) => pl.Metadata.set(k, v)); }
                     if (options.title && options.title !== '') { pl.Title = options.title; }
                     if (options.showTooltip != null) { pl.ShowTooltip = options.showTooltip; }
+                    if (options.editable) { pl.SetEditable(options.editable); }
                     lines.push(pl);
                 });
                 return lines;
@@ -329,6 +386,34 @@ export class BingMapService implements MapService {
         });
     }
 
+    /**
+     * Creates a tile layer within the Bing Maps V8 map context
+     *
+     * @param options - Options for the tile layer. See {@link ITileLayerOptions}.
+     * @returns - Promise of a {@link TileLayer} object, which models the underlying Microsoft.Maps.TileLayer.
+     *
+     * @memberof BingMapService
+     */
+    public CreateTileLayer(options: ITileLayerOptions): Promise<TileLayer> {
+        return this._map.then((map: Microsoft.Maps.Map) => {
+            const so: Microsoft.Maps.ITileSourceOptions = {
+                uriConstructor: (tile: Microsoft.Maps.PyramidTileId) => TileLayer.GetTileUrl(options.tileUrl, tile.x, tile.y, tile.zoom)
+            };
+            if (options.bounds) { so.bounds = BingConversions.TranslateBounds(options.bounds); }
+            if (options.maxZoom != null) { so.maxZoom = options.maxZoom; }
+            if (options.minZoom != null) { so.minZoom = options.minZoom; }
+            const o: Microsoft.Maps.ITileLayerOptions = {
+                mercator: new Microsoft.Maps.TileSource(so),
+                opacity: options.opacity != null ? options.opacity : 1,
+                visible: options.visible !== false
+            };
+            if (options.zIndex != null) { o.zIndex = options.zIndex; }
+            const layer: Microsoft.Maps.TileLayer = new Microsoft.Maps.TileLayer(o);
+            map.layers.insert(layer);
+            return new BingTileLayer(layer, map, options);
+        });
+    }
+
     /**
      * Deletes a layer from the map.
      *
@@ -339,7 +424,13 @@ export class BingMapService implements MapService {
      */
     public DeleteLayer(layer: Layer): Promise<void> {
         return this._map.then((map: Microsoft.Maps.Map) => {
-            map.layers.remove(layer.NativePrimitve);
+            if (layer.NativePrimitve instanceof BingClusterEngineAdapter) {
+                layer.NativePrimitve.dispose();
+                map.layers.remove(layer.NativePrimitve.NativeLayer);
+            }
+            else {
+                map.layers.remove(layer.NativePrimitve);
+            }
         });
     }
 
@@ -412,6 +503,33 @@ export class BingMapService implements MapService {
         });
     }
 
+    /**
+     * Obtains geo coordinates for the click location of a map mouse event.
+     *
+     * @param e - The mouse event. Expected to implement {@link Microsoft.Maps.IMouseEventArgs}.
+     * @returns - {@link ILatLong} containing the geo coordinates of the clicked location.
+     *
+     * @memberof BingMapService
+     */
+    public GetCoordinatesFromClick(e: MouseEvent | any): ILatLong {
+        const x: Microsoft.Maps.IMouseEventArgs = <Microsoft.Maps.IMouseEventArgs>e;
+        if (!x || !x.location) { return null; }
+        return { latitude: x.location.latitude, longitude: x.location.longitude };
+    }
+
+    /**
+     * Gets a synchronous projection capturing the current view (center, zoom and size).
+     *
+     * @returns - The {@link MapProjection}, or null if the map has not been created yet.
+     *
+     * @memberof BingMapService
+     */
+    public GetProjection(): MapProjection {
+        const m: Microsoft.Maps.Map = this.MapInstance;
+        if (m == null) { return null; }
+        return new MapProjection(<ILatLong>m.getCenter(), m.getZoom(), this.MapSize);
+    }
+
     /**
      * Gets the current zoom level of the map.
      *
@@ -539,7 +657,8 @@ export class BingMapService implements MapService {
     }
 
     /**
-     * Sets the generic map options.
+     * Sets the generic map options. Bing Maps has no option to disable double click zoom only, so zooming is disabled
+     * altogether while disableDoubleClickZoom is set. The disableZooming setting is restored when it is cleared.
      *
      * @param options - Options to set.
      *
@@ -548,6 +667,11 @@ export class BingMapService implements MapService {
     public SetMapOptions(options: IMapOptions) {
         this._map.then((m: Microsoft.Maps.Map) => {
             const o: Microsoft.Maps.IMapOptions = BingConversions.TranslateOptions(options);
+            if (options.disableZooming != null) { this._disableZooming = options.disableZooming; }
+            if (options.disableDoubleClickZoom != null) { this._disableDoubleClickZoom = options.disableDoubleClickZoom; }
+            if (options.disableZooming != null || options.disableDoubleClickZoom != null) {
+                o.disableZooming = this._disableZooming || this._disableDoubleClickZoom;
+            }
             m.setOptions(o);
         });
     }
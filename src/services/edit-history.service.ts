@@ -0,0 +1,352 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, Subscription } from 'rxjs';
+import { ILatLong } from '../interfaces/ilatlong';
+import { IPolygonEvent } from '../interfaces/ipolygon-event';
+import { Polygon } from '../models/polygon';
+import { Polyline } from '../models/polyline';
+import { MapPolygonDirective } from '../components/map-polygon';
+import { MapPolylineDirective } from '../components/map-polyline';
+import { DocumentRef } from './mapapiloader';
+
+/**
+ * Records the edit history of a polygon or polyline and allows the user to undo and redo path edits. Provide the
+ * service in the component hosting the map and bind it to an editable shape:
+ *
+ * ### Example
+ * ```typescript
+ * @Component({
+ *  selector: 'my-map-cmp',
+ *  providers: [EditHistoryService],
+ *  template: `
+ *   <x-map [Latitude]="lat" [Longitude]="lng" [Zoom]="zoom">
+ *      <x-map-polygon #poly [Paths]="paths" [Editable]="true"></x-map-polygon>
+ *   </x-map>
+ *   <button [disabled]="!(history.CanUndo | async)" (click)="history.Undo()">Undo</button>
+ * `
+ * })
+ * export class MyMapComponent implements AfterViewInit {
+ *   @ViewChild('poly') poly: MapPolygonDirective;
+ *   constructor(public history: EditHistoryService) { }
+ *   ngAfterViewInit() { this.history.Bind(this.poly); }
+ * }
+ * ```
+ *
+ * Snapshots are recorded from the PathChanged and vertex events of the bound shape, or explicitly via {@link Record}. Undo and
+ * redo re-apply the snapshot on the underlying model and are reported through {@link Restored} rather than PathChanged,
+ * so that binding the restored paths back into the directive does not produce a feedback loop.
+ *
+ * @export
+ */
+@Injectable()
+export class EditHistoryService implements OnDestroy {
+
+    ///
+    /// Field declarations
+    ///
+    private _canRedo: BehaviorSubject<boolean> = new BehaviorSubject<boolean>(false);
+    private _canUndo: BehaviorSubject<boolean> = new BehaviorSubject<boolean>(false);
+    private _history: Array<Array<Array<ILatLong>>> = new Array<Array<Array<ILatLong>>>();
+    private _index: number = -1;
+    private _isApplying: boolean = false;
+    private _keyHandler: (e: KeyboardEvent) => void = null;
+    private _restored: Subject<Array<Array<ILatLong>>> = new Subject<Array<Array<ILatLong>>>();
+    private _subscriptions: Array<Subscription> = new Array<Subscription>();
+    private _target: Polygon | Array<Polyline> = null;
+
+    /**
+     * The maximum number of snapshots kept. Older snapshots are discarded. Defaults to 100.
+     *
+     * @memberof EditHistoryService
+     */
+    public MaxSize: number = 100;
+
+    ///
+    /// Property declarations
+    ///
+
+    /**
+     * Gets an observable indicating whether there is an edit that can be redone.
+     *
+     * @readonly
+     * @memberof EditHistoryService
+     */
+    public get CanRedo(): Observable<boolean> { return this._canRedo.asObservable(); }
+
+    /**
+     * Gets an observable indicating whether there is an edit that can be undone.
+     *
+     * @readonly
+     * @memberof EditHistoryService
+     */
+    public get CanUndo(): Observable<boolean> { return this._canUndo.asObservable(); }
+
+    /**
+     * Gets an observable emitting the paths re-applied by {@link Undo} and {@link Redo}. For polylines with a single
+     * path, the array contains one path.
+     *
+     * @readonly
+     * @memberof EditHistoryService
+     */
+    public get Restored(): Observable<Array<Array<ILatLong>>> { return this._restored.asObservable(); }
+
+    ///
+    /// Private static methods
+    ///
+
+    /**
+     * Creates a deep copy of a snapshot.
+     *
+     * @param paths - The paths to copy.
+     * @returns - The copy.
+     *
+     * @memberof EditHistoryService
+     */
+    private static Copy(paths: Array<Array<ILatLong>>): Array<Array<ILatLong>> {
+        return paths.map(p => p.map(l => ({ latitude: l.latitude, longitude: l.longitude })));
+    }
+
+    /**
+     * Determines whether two snapshots are identical.
+     *
+     * @param a - The first snapshot.
+     * @param b - The second snapshot.
+     * @returns - True if the snapshots are identical, false otherwise.
+     *
+     * @memberof EditHistoryService
+     */
+    private static Equals(a: Array<Array<ILatLong>>, b: Array<Array<ILatLong>>): boolean {
+        if (a.length !== b.length) { return false; }
+        return a.every((p, i) => p.length === b[i].length &&
+            p.every((l, j) => l.latitude === b[i][j].latitude && l.longitude === b[i][j].longitude));
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of EditHistoryService.
+     * @param _zone - Concreate implementation of a {@link NgZone} service.
+     * @param _documentRef - An instance of {@link DocumentRef}.
+     *
+     * @memberof EditHistoryService
+     */
+    constructor(private _zone: NgZone, private _documentRef: DocumentRef) { }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Binds the history to a polygon or polyline, discarding any previous history. The current path is recorded as
+     * the initial snapshot.
+     *
+     * @param target - The polygon or polyline directive to bind to.
+     * @param enableKeyboard - Optional. Whether to undo and redo on Ctrl+Z and Ctrl+Y (or Ctrl+Shift+Z). Defaults to true.
+     * @returns - A promise fullfilled once the history is bound.
+     *
+     * @memberof EditHistoryService
+     */
+    public Bind(target: MapPolygonDirective | MapPolylineDirective, enableKeyboard: boolean = true): Promise<void> {
+        this.Unbind();
+        let p: Promise<Polygon | Polyline | Array<Polyline>>;
+        if (target instanceof MapPolygonDirective) {
+            this._subscriptions.push(
+                target.PathChanged.subscribe((e: IPolygonEvent) => this.OnPathChanged(e)),
+                target.VertexInserted.subscribe(() => this.OnVertexChanged()),
+                target.VertexMoved.subscribe(() => this.OnVertexChanged()),
+                target.VertexRemoved.subscribe(() => this.OnVertexChanged())
+            );
+            p = target.GetNativePolygon();
+        }
+        else {
+            this._subscriptions.push(
+                target.PathChanged.subscribe(() => this.OnVertexChanged()),
+                target.VertexInserted.subscribe(() => this.OnVertexChanged()),
+                target.VertexMoved.subscribe(() => this.OnVertexChanged()),
+                target.VertexRemoved.subscribe(() => this.OnVertexChanged())
+            );
+            p = target.GetNativePolyline();
+        }
+        if (enableKeyboard && this._documentRef.IsAvailable) {
+            this._keyHandler = (e: KeyboardEvent) => this.OnKeyDown(e);
+            this._zone.runOutsideAngular(() => this._documentRef.GetNativeDocument().addEventListener('keydown', this._keyHandler));
+        }
+        return p.then(m => {
+            this._target = m instanceof Polygon ? m : (Array.isArray(m) ? m : [m]);
+            this.Record();
+        });
+    }
+
+    /**
+     * Discards the history and records the current path as the initial snapshot.
+     *
+     * @memberof EditHistoryService
+     */
+    public Clear(): void {
+        this._history.splice(0);
+        this._index = -1;
+        this.Record();
+    }
+
+    /**
+     * Called on service destruction. Unbinds the history. Part of the ng life cycle.
+     *
+     * @memberof EditHistoryService
+     */
+    public ngOnDestroy(): void {
+        this.Unbind();
+    }
+
+    /**
+     * Records a snapshot. Any edits that have been undone can no longer be redone.
+     *
+     * @param paths - Optional. The paths to record. Defaults to the current paths of the bound shape.
+     *
+     * @memberof EditHistoryService
+     */
+    public Record(paths?: Array<Array<ILatLong>>): void {
+        if (this._target == null) { return; }
+        const s: Array<Array<ILatLong>> = EditHistoryService.Copy(paths || this.GetPaths());
+        if (this._index >= 0 && EditHistoryService.Equals(this._history[this._index], s)) { return; }
+        this._history.splice(this._index + 1);
+        this._history.push(s);
+        if (this._history.length > this.MaxSize) { this._history.splice(0, this._history.length - this.MaxSize); }
+        this._index = this._history.length - 1;
+        this.UpdateState();
+    }
+
+    /**
+     * Re-applies the most recently undone edit.
+     *
+     * @returns - True if an edit was redone, false otherwise.
+     *
+     * @memberof EditHistoryService
+     */
+    public Redo(): boolean {
+        if (this._index >= this._history.length - 1) { return false; }
+        this._index++;
+        this.Apply(this._history[this._index]);
+        return true;
+    }
+
+    /**
+     * Unbinds the history from the shape and discards it.
+     *
+     * @memberof EditHistoryService
+     */
+    public Unbind(): void {
+        this._subscriptions.forEach(s => s.unsubscribe());
+        this._subscriptions.splice(0);
+        if (this._keyHandler) { this._documentRef.GetNativeDocument().removeEventListener('keydown', this._keyHandler); }
+        this._keyHandler = null;
+        this._target = null;
+        this._history.splice(0);
+        this._index = -1;
+        this.UpdateState();
+    }
+
+    /**
+     * Reverts the last edit.
+     *
+     * @returns - True if an edit was undone, false otherwise.
+     *
+     * @memberof EditHistoryService
+     */
+    public Undo(): boolean {
+        if (this._index <= 0) { return false; }
+        this._index--;
+        this.Apply(this._history[this._index]);
+        return true;
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Re-applies a snapshot on the bound shape.
+     *
+     * @param paths - The snapshot to apply.
+     *
+     * @memberof EditHistoryService
+     */
+    private Apply(paths: Array<Array<ILatLong>>): void {
+        const s: Array<Array<ILatLong>> = EditHistoryService.Copy(paths);
+        this._isApplying = true;
+        try {
+            if (this._target instanceof Polygon) { this._target.SetPaths(s); }
+            else { this._target.forEach((p, i) => { if (s[i]) { p.SetPath(s[i]); } }); }
+        }
+        finally {
+            this._isApplying = false;
+        }
+        this.UpdateState();
+        this._restored.next(EditHistoryService.Copy(paths));
+    }
+
+    /**
+     * Gets the current paths of the bound shape.
+     *
+     * @returns - The paths.
+     *
+     * @memberof EditHistoryService
+     */
+    private GetPaths(): Array<Array<ILatLong>> {
+        if (this._target instanceof Polygon) { return this._target.GetPaths(); }
+        return this._target.map(p => p.GetPath());
+    }
+
+    /**
+     * Handles the undo and redo keyboard shortcuts. Shortcuts typed into form fields are ignored.
+     *
+     * @param e - The keyboard event.
+     *
+     * @memberof EditHistoryService
+     */
+    private OnKeyDown(e: KeyboardEvent): void {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) { return; }
+        const t: HTMLElement = <HTMLElement>e.target;
+        if (t && (t.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].indexOf(t.tagName) !== -1)) { return; }
+        const key: string = (e.key || '').toLowerCase();
+        let handled: boolean = false;
+        if (key === 'z' && !e.shiftKey) { handled = this._zone.run(() => this.Undo()); }
+        else if (key === 'y' || (key === 'z' && e.shiftKey)) { handled = this._zone.run(() => this.Redo()); }
+        if (handled) { e.preventDefault(); }
+    }
+
+    /**
+     * Records the edit reported by the PathChanged event of the bound polygon.
+     *
+     * @param e - The event.
+     *
+     * @memberof EditHistoryService
+     */
+    private OnPathChanged(e: IPolygonEvent): void {
+        if (this._isApplying || this._target == null) { return; }
+        if (this._index < 0 && e.OriginalPath) { this.Record(e.OriginalPath); }
+        this.Record(e.NewPath);
+    }
+
+    /**
+     * Records the current path after the user edited a vertex of the bound shape, or finished editing a polyline.
+     *
+     * @memberof EditHistoryService
+     */
+    private OnVertexChanged(): void {
+        if (this._isApplying || this._target == null) { return; }
+        this.Record();
+    }
+
+    /**
+     * Publishes the undo and redo availability.
+     *
+     * @memberof EditHistoryService
+     */
+    private UpdateState(): void {
+        const canUndo: boolean = this._index > 0;
+        const canRedo: boolean = this._index >= 0 && this._index < this._history.length - 1;
+        if (this._canUndo.value !== canUndo) { this._canUndo.next(canUndo); }
+        if (this._canRedo.value !== canRedo) { this._canRedo.next(canRedo); }
+    }
+}
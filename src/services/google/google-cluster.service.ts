@@ -8,7 +8,10 @@ import { Marker } from '../../models/marker';
 import { Layer } from '../../models/layer';
 import { MarkerTypeId } from '../../models/marker-type-id';
 import { ClusterClickAction } from '../../models/cluster-click-action';
+import { ClusterAggregator } from '../../models/cluster-aggregator';
+import { ClusterMemberList } from '../../models/cluster-member-list';
 import { ClusterLayerDirective } from '../../components/cluster-layer';
+import { MapLayerDirective } from '../../components/map-layer';
 import { ClusterService } from '../cluster.service';
 import { MapService } from '../map.service';
 import { GoogleLayerBase } from './google-layer-base';
@@ -16,8 +19,12 @@ import { IPolygonOptions } from '../../interfaces/ipolygon-options';
 import { IPolylineOptions } from '../../interfaces/ipolyline-options';
 import { Polygon } from '../../models/polygon';
 import { Polyline } from '../../models/polyline';
+import { GoogleMarkerClusterer } from '../../models/google/google-marker-clusterer';
+import { GoogleClusterEngineAdapter } from '../../models/google/google-cluster-engine-adapter';
 import * as GoogleMapTypes from './google-map-types';
 
+declare var google: any;
+
 @Injectable()
 export class GoogleClusterService extends GoogleLayerBase implements ClusterService {
 
@@ -26,6 +33,7 @@ export class GoogleClusterService extends GoogleLayerBase implements ClusterServ
     ///
     protected _layers: Map<number, Promise<Layer>> = new Map<number, Promise<Layer>>();
     protected _layerStyles: Map<number, Array<GoogleMapTypes.ClusterStyle>> = new Map<number, Array<GoogleMapTypes.ClusterStyle>>();
+    protected _memberLists: Map<number, ClusterMemberList> = new Map<number, ClusterMemberList>();
 
     ///
     /// Static methods
@@ -115,12 +123,15 @@ export class GoogleClusterService extends GoogleLayerBase implements ClusterServ
             id: layer.Id,
             visible: layer.Visible,
             clusteringEnabled: layer.ClusteringEnabled,
+            placementMode: layer.ClusterPlacementMode,
+            useClusterEngine: layer.UseClusterEngine,
             zoomOnClick: layer.ClusterClickAction === ClusterClickAction.ZoomIntoCluster
         };
         if (layer.GridSize) { options.gridSize = layer.GridSize; }
         if (layer.MinimumClusterSize) { options.minimumClusterSize = layer.MinimumClusterSize; }
         if (layer.Styles) { options.styles = layer.Styles; }
-        if (layer.UseDynamicSizeMarkers) {
+        if (layer.SpiderClusterOptions) { options.spiderClusterOptions = layer.SpiderClusterOptions; }
+        if (layer.UseDynamicSizeMarkers || layer.UsePieChartMarkers) {
             options.styles = null;
             // do not to attempt to setup styles here as the dynamic call back will generate them.
         }
@@ -140,8 +151,19 @@ export class GoogleClusterService extends GoogleLayerBase implements ClusterServ
                 }
             }];
         }
+        const resolve = (markers: Array<GoogleMapTypes.Marker>, l: GoogleMarkerClusterer): Array<Marker> => {
+            return markers.map(p => l.GetMarkerFromGoogleMarker(p)).filter(p => p != null);
+        };
+        const aggregate = (markers: Array<GoogleMapTypes.Marker>, l: GoogleMarkerClusterer): Map<string, any> => {
+            if (!layer.Aggregations) { return undefined; }
+            return ClusterAggregator.Aggregate(resolve(markers, l), layer.Aggregations);
+        };
+        const clusterText = (markers: Array<GoogleMapTypes.Marker>, a: Map<string, any>): string => {
+            if (a && layer.AggregateText && a.has(layer.AggregateText)) { return ClusterAggregator.ToText(a.get(layer.AggregateText)); }
+            return markers.length.toString();
+        };
         const dynamicClusterCallback = (markers: Array<GoogleMapTypes.Marker>, numStyles: number,
-            clusterer: GoogleMapTypes.MarkerClusterer) => {
+            clusterer: GoogleMapTypes.MarkerClusterer, l: GoogleMarkerClusterer) => {
             // dynamically ensure that the necessary style for this cluster icon exists and
             // the clusterer is already hooked up to the styles array via pointer, so we only
             // need to update the style. Since the clusterer re-renders a cluster icon is the
@@ -151,9 +173,10 @@ export class GoogleClusterService extends GoogleLayerBase implements ClusterServ
             const iconInfo: IMarkerIconInfo = {
                 markerType: MarkerTypeId.None
             };
-            const icon: string = layer.CustomMarkerCallback(<any>markers, iconInfo);
+            const a: Map<string, any> = aggregate(markers, l);
+            const icon: string = layer.CustomMarkerCallback(resolve(markers, l), iconInfo, a);
             styles[0] = {
-                url: `\"data:image/svg+xml;utf8,${icon}\"`,
+                url: `\"data:image/svg+xml;charset=UTF-8,${encodeURIComponent(icon)}\"`,
                 height: iconInfo.size.height,
                 width: iconInfo.size.width,
                 textColor: 'white',
@@ -161,7 +184,7 @@ export class GoogleClusterService extends GoogleLayerBase implements ClusterServ
                 backgroundPosition: 'center',
             };
             return {
-                text: markers.length.toString(),
+                text: clusterText(markers, a),
                 index: 1
             };
         };
@@ -183,11 +206,23 @@ export class GoogleClusterService extends GoogleLayerBase implements ClusterServ
         this._layers.set(layer.Id, layerPromise);
         layerPromise.then(l => {
             const clusterer: GoogleMapTypes.MarkerClusterer = <GoogleMapTypes.MarkerClusterer>l.NativePrimitve;
+            if (layer.Aggregations) {
+                google.maps.event.addListener(clusterer, 'clusterclick', (c: GoogleMapTypes.Cluster) => {
+                    c.aggregates = aggregate(c.getMarkers(), <GoogleMarkerClusterer>l);
+                });
+            }
             if (options.styles) {
                 const s  = GoogleClusterService.CreateClusterIcons(options.styles);
                 s.then(x => {
                     clusterer.setStyles(<Array<GoogleMapTypes.ClusterStyle>>x);
                 });
+                if (layer.Aggregations && layer.AggregateText) {
+                    clusterer.setCalculator((m, n) => {
+                        const c: { text: string, index: number } = GoogleClusterEngineAdapter.DefaultCalculator(m, n);
+                        c.text = clusterText(m, aggregate(m, <GoogleMarkerClusterer>l));
+                        return c;
+                    });
+                }
             }
             else {
                 resetStyles(clusterer);
@@ -197,12 +232,34 @@ export class GoogleClusterService extends GoogleLayerBase implements ClusterServ
                     });
                 });
                 clusterer.setCalculator((m, n) => {
-                    return dynamicClusterCallback(m, n, clusterer);
+                    return dynamicClusterCallback(m, n, clusterer, <GoogleMarkerClusterer>l);
                 });
             }
+            if (layer.ClusterClickAction === ClusterClickAction.Spider) {
+                (<GoogleMarkerClusterer>l).InitializeSpiderClusterSupport(layer.SpiderClusterOptions);
+            }
+            if (layer.ClusterClickAction === ClusterClickAction.ListMembers) {
+                this.AddMemberList(<GoogleMarkerClusterer>l, layer);
+            }
         });
     }
 
+    /**
+     * Deletes the layer and closes the member list of the layer, if any.
+     *
+     * @param layer - MapLayerDirective component object for which to retrieve the layer.
+     * @returns - A promise that is fullfilled when the layer has been removed.
+     *
+     * @memberof GoogleClusterService
+     */
+    public DeleteLayer(layer: MapLayerDirective): Promise<void> {
+        if (this._memberLists.has(layer.Id)) {
+            this._memberLists.get(layer.Id).Dispose();
+            this._memberLists.delete(layer.Id);
+        }
+        return super.DeleteLayer(layer);
+    }
+
     /**
      * Create a marker in the cluster
      *
@@ -301,4 +358,31 @@ export class GoogleClusterService extends GoogleLayerBase implements ClusterServ
     public CreatePolylines(layer: number, options: Array<IPolylineOptions>): Promise<Array<Polyline|Array<Polyline>>> {
         throw (new Error('Polylines are not supported in clustering layers. You can only use markers.'));
     }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Sets up the member list shown on cluster click for {@link ClusterClickAction.ListMembers}. Selecting a member
+     * in the list emits the member through the MarkerClick event of the layer.
+     *
+     * @param l - The cluster layer model.
+     * @param layer - The {@link ClusterLayerDirective} component representing the layer.
+     *
+     * @memberof GoogleClusterService
+     */
+    private AddMemberList(l: GoogleMarkerClusterer, layer: ClusterLayerDirective): void {
+        const list: ClusterMemberList = new ClusterMemberList(this._mapService, (m: Marker, e: MouseEvent) => {
+            this._zone.run(() => {
+                if (layer.MarkerClick) { layer.MarkerClick.emit({ Marker: m, Click: e, Location: m.Location, Pixels: null }); }
+            });
+        }, layer.MemberListTemplate, layer.MemberListPageSize);
+        this._memberLists.set(layer.Id, list);
+        google.maps.event.addListener(l.NativePrimitve, 'clusterclick', (c: GoogleMapTypes.Cluster) => {
+            const center: GoogleMapTypes.LatLng = c.getCenter();
+            list.Show(c.getMarkers().map(p => l.GetMarkerFromGoogleMarker(p)).filter(p => p != null),
+                { latitude: center.lat(), longitude: center.lng() });
+        });
+    }
 }
@@ -1,5 +1,6 @@
 ﻿import { IInfoWindowOptions } from '../../interfaces/iinfo-window-options';
 import { IBox } from '../../interfaces/ibox';
+import { ICircleOptions } from '../../interfaces/icircle-options';
 import { IMapOptions } from '../../interfaces/imap-options';
 import { IMarkerOptions } from '../../interfaces/imarker-options';
 import { IPolygonOptions } from '../../interfaces/ipolygon-options';
@@ -163,6 +164,26 @@ export class GoogleConversions {
         'zIndex'
     ];
 
+    /**
+     * Circle option attributes that are supported for conversion to Google Map properties
+     *
+     * @memberof GoogleConversions
+     */
+    private static _circleOptionsAttributes: string[] = [
+        'center',
+        'clickable',
+        'draggable',
+        'editable',
+        'fillColor',
+        'fillOpacity',
+        'radius',
+        'strokeColor',
+        'strokeOpacity',
+        'strokeWeight',
+        'visible',
+        'zIndex'
+    ];
+
     /**
      * Maps an IBox object to a GoogleMapTypes.LatLngBoundsLiteral object.
      *
@@ -181,6 +202,29 @@ export class GoogleConversions {
         return b;
     }
 
+    /**
+     * Maps an ICircleOptions object to a GoogleMapTypes.CircleOptions object.
+     *
+     * @param options - Object to be mapped.
+     * @returns - Mapped object.
+     *
+     * @memberof GoogleConversions
+     */
+    public static TranslateCircleOptions(options: ICircleOptions): GoogleMapTypes.CircleOptions {
+        const o: GoogleMapTypes.CircleOptions | any = {};
+        Object.keys(options)
+            .filter(k => GoogleConversions._circleOptionsAttributes.indexOf(k) !== -1 && (<any>options)[k] != null)
+            .forEach((k) => {
+                if (k === 'center') {
+                    o.center = GoogleConversions.TranslateLocation(options.center);
+                }
+                else {
+                    o[k] = (<any>options)[k];
+                }
+            });
+        return o;
+    }
+
     /**
      * Maps an IInfoWindowOptions object to a GoogleMapTypes.InfoWindowOptions object.
      *
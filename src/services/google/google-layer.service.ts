@@ -15,6 +15,7 @@ import { GoogleLayerBase } from './google-layer-base';
 import { MapService } from '../map.service';
 import { GoogleConversions } from './google-conversions';
 import * as GoogleMapTypes from './google-map-types';
+import { PolylineEncoding } from '../../models/polyline-encoding';
 
 declare var google: any;
 
@@ -95,6 +96,7 @@ export class GoogleLayerService extends GoogleLayerBase implements LayerService
      * @memberof GoogleLayerService
      */
     public CreatePolygons(layer: number, options: Array<IPolygonOptions>): Promise<Array<Polygon>> {
+        options = options.map(o => PolylineEncoding.ResolvePolygonOptions(o));
         //
         // Note: we attempted using data.Polygons in an attempt to improve performance, but either data.Polygon
         // or data.MultiPolygon actually operate significantly slower than generating the polygons this way.
@@ -153,6 +155,7 @@ export class GoogleLayerService extends GoogleLayerBase implements LayerService
      * @memberof GoogleLayerService
      */
     public CreatePolylines(layer: number, options: Array<IPolylineOptions>): Promise<Array<Polyline|Array<Polyline>>> {
+        options = options.map(o => PolylineEncoding.ResolvePolylineOptions(o));
         const p: Promise<Layer> = this.GetLayerById(layer);
         if (p == null) { throw (new Error(`Layer with id ${layer} not found in Layer Map`)); }
         return p.then((l: Layer) => {
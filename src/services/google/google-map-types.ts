@@ -2,6 +2,7 @@ export let google: any;
 
 export interface GoogleMap extends MVCObject {
   data?: Data;
+  overlayMapTypes?: MVCArray<any>;
   constructor(el: HTMLElement, opts?: MapOptions): void;
   panTo(latLng: LatLng|LatLngLiteral): void;
   setZoom(zoom: number): void;
@@ -37,6 +38,7 @@ export interface Marker extends MVCObject {
   setZIndex(zIndex: number): void;
   getLabel(): MarkerLabel;
   getPosition(): LatLng;
+  getTitle(): string;
   getVisible(): boolean;
 }
 
@@ -71,6 +73,13 @@ export interface ClusterStyle {
   backgroundPosition?: string;
 }
 
+export interface Cluster {
+  aggregates?: Map<string, any>;
+  getCenter(): LatLng;
+  getMarkers(): Array<Marker>;
+  getSize(): number;
+}
+
 export interface MarkerClusterer {
   isZoomOnClick(): boolean;
   isAverageCenter(): boolean;
@@ -356,6 +365,32 @@ export interface Polygon extends MVCObject {
   setVisible(visible: boolean): void;
 }
 
+export interface ImageMapType extends MVCObject {
+  getOpacity(): number;
+  setOpacity(opacity: number): void;
+}
+
+export interface ImageMapTypeOptions {
+  alt?: string;
+  getTileUrl: (tileCoord: Point, zoom: number) => string;
+  maxZoom?: number;
+  minZoom?: number;
+  name?: string;
+  opacity?: number;
+  tileSize: Size;
+}
+
+export interface MVCArray<T> extends MVCObject {
+  clear(): void;
+  forEach(callback: (elem: T, i: number) => void): void;
+  getArray(): Array<T>;
+  getAt(i: number): T;
+  getLength(): number;
+  insertAt(i: number, elem: T): void;
+  push(elem: T): number;
+  removeAt(i: number): T;
+}
+
 export interface KmlLayer extends MVCObject {
   getDefaultViewport(): LatLngBounds;
   getMap(): GoogleMap;
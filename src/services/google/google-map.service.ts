@@ -1,4 +1,5 @@
 import { GoogleMarkerClusterer } from '../../models/google/google-marker-clusterer';
+import { GoogleClusterEngineAdapter } from '../../models/google/google-cluster-engine-adapter';
 import { GoogleInfoWindow } from '../../models/google/google-info-window';
 import { Injectable, NgZone } from '@angular/core';
 import { Observable, Observer } from 'rxjs';
@@ -25,6 +26,13 @@ import { MixinMapLabelWithOverlayView } from '../../models/google/google-label';
 import { MixinCanvasOverlay } from '../../models/google/google-canvas-overlay';
 import { GoogleCanvasOverlay } from '../../models/google/google-canvas-overlay';
 import { CanvasOverlay } from '../../models/canvas-overlay';
+import { MapProjection } from '../../models/map-projection';
+import { TileLayer } from '../../models/tile-layer';
+import { GoogleTileLayer } from '../../models/google/google-tile-layer';
+import { GroundOverlay } from '../../models/ground-overlay';
+import { GoogleGroundOverlay } from '../../models/google/google-ground-overlay';
+import { Circle } from '../../models/circle';
+import { GoogleCircle } from '../../models/google/google-circle';
 import { Layer } from '../../models/layer';
 import { InfoWindow } from '../../models/info-window';
 import { GooglePolygon } from '../../models/google/google-polygon';
@@ -33,8 +41,12 @@ import { GoogleConversions } from './google-conversions';
 import { GoogleMarker } from '../../models/google/google-marker';
 import { GoogleLayer } from '../../models/google/google-layer';
 import { IBox } from '../../interfaces/ibox';
+import { ITileLayerOptions } from '../../interfaces/itile-layer-options';
+import { IGroundOverlayOptions } from '../../interfaces/iground-overlay-options';
+import { ICircleOptions } from '../../interfaces/icircle-options';
 import { GoogleMapEventsLookup } from '../../models/google/google-events-lookup';
 import * as GoogleMapTypes from './google-map-types';
+import { PolylineEncoding } from '../../models/polyline-encoding';
 
 declare const google: any;
 declare const MarkerClusterer: any;
@@ -115,15 +127,35 @@ export class GoogleMapService implements MapService {
     /// Public methods and MapService interface implementation
     ///
 
+    /**
+     * Creates a circle within the map context
+     *
+     * @param options - Options for the circle. See {@link ICircleOptions}.
+     * @returns - Promise of a {@link Circle} object, which models the underlying google.maps.Circle.
+     *
+     * @memberof GoogleMapService
+     */
+    public CreateCircle(options: ICircleOptions): Promise<Circle> {
+        return this._map.then((map: GoogleMapTypes.GoogleMap) => {
+            const o: GoogleMapTypes.CircleOptions = GoogleConversions.TranslateCircleOptions(options);
+            const circle: GoogleMapTypes.Circle = new google.maps.Circle(o);
+            circle.setMap(map);
+
+            const c: GoogleCircle = new GoogleCircle(circle);
+            if (options.metadata) { options.metadata.forEach((val: any, key: string) => c.Metadata.set(key, val)); }
+            return c;
+        });
+    }
+
     /**
      * Creates a canvas overlay layer to perform custom drawing over the map with out
      * some of the overhead associated with going through the Map objects.
      * @param drawCallback A callback function that is triggered when the canvas is ready to be
-     * rendered for the current map view.
+     * rendered for the current map view. The callback receives a {@link MapProjection} for the view.
      * @returns - Promise of a {@link CanvasOverlay} object.
      * @memberof GoogleMapService
      */
-    public CreateCanvasOverlay(drawCallback: (canvas: HTMLCanvasElement) => void): Promise<CanvasOverlay> {
+    public CreateCanvasOverlay(drawCallback: (canvas: HTMLCanvasElement, projection: MapProjection) => void): Promise<CanvasOverlay> {
         return this._map.then((map: GoogleMapTypes.GoogleMap) => {
             const overlay: GoogleCanvasOverlay = new GoogleCanvasOverlay(drawCallback);
             overlay.SetMap(map);
@@ -132,7 +164,8 @@ export class GoogleMapService implements MapService {
     }
 
     /*
-     * Creates a Google map cluster layer within the map context
+     * Creates a Google map cluster layer within the map context. If {@link IClusterOptions.useClusterEngine} is set, the layer
+     * is backed by the built-in {@link ClusterEngine} and the markerclusterer script is not required.
      *
      * @param options - Options for the layer. See {@link IClusterOptions}.
      * @returns - Promise of a {@link Layer} object, which models the underlying Microsoft.Maps.ClusterLayer object.
@@ -142,7 +175,9 @@ export class GoogleMapService implements MapService {
     public CreateClusterLayer(options: IClusterOptions): Promise<Layer> {
         return this._map.then((map: GoogleMapTypes.GoogleMap) => {
             let updateOptions: boolean = false;
-            const markerClusterer: GoogleMapTypes.MarkerClusterer = new MarkerClusterer(map, [], options);
+            const markerClusterer: GoogleMapTypes.MarkerClusterer = options.useClusterEngine ?
+                new GoogleClusterEngineAdapter(map, [], options) :
+                new MarkerClusterer(map, [], options);
             const clusterLayer = new GoogleMarkerClusterer(markerClusterer);
             const o: IClusterOptions = {
                 id: options.id
@@ -162,6 +197,18 @@ export class GoogleMapService implements MapService {
         });
     }
 
+    /**
+     * Creates a ground overlay within the Google Maps map context. The image is hosted in a custom OverlayView.
+     *
+     * @param options - Options for the overlay. See {@link IGroundOverlayOptions}.
+     * @returns - Promise of a {@link GroundOverlay} object.
+     *
+     * @memberof GoogleMapService
+     */
+    public CreateGroundOverlay(options: IGroundOverlayOptions): Promise<GroundOverlay> {
+        return this._map.then((map: GoogleMapTypes.GoogleMap) => new GoogleGroundOverlay(map, options));
+    }
+
     /**
      * Creates an information window for a map position
      *
@@ -272,6 +319,7 @@ export class GoogleMapService implements MapService {
      * @memberof MapService
      */
     public CreatePolygon(options: IPolygonOptions): Promise<Polygon> {
+        options = PolylineEncoding.ResolvePolygonOptions(options);
         return this._map.then((map: GoogleMapTypes.GoogleMap) => {
             const o: GoogleMapTypes.PolygonOptions = GoogleConversions.TranslatePolygonOptions(options);
             const polygon: GoogleMapTypes.Polygon = new google.maps.Polygon(o);
@@ -299,6 +347,7 @@ export class GoogleMapService implements MapService {
      * @memberof MapService
      */
     public CreatePolyline(options: IPolylineOptions): Promise<Polyline|Array<Polyline>> {
+        options = PolylineEncoding.ResolvePolylineOptions(options);
         let polyline: GoogleMapTypes.Polyline;
         return this._map.then((map: GoogleMapTypes.GoogleMap) => {
             const o: GoogleMapTypes.PolylineOptions = GoogleConversions.TranslatePolylineOptions(options);
@@ -332,6 +381,36 @@ export class GoogleMapService implements MapService {
         });
     }
 
+    /**
+     * Creates a tile layer within the Google Maps map context. The layer is implemented as an image map type in the overlay
+     * map types of the map.
+     *
+     * @param options - Options for the tile layer. See {@link ITileLayerOptions}.
+     * @returns - Promise of a {@link TileLayer} object, which models the underlying GoogleMapTypes.ImageMapType.
+     *
+     * @memberof GoogleMapService
+     */
+    public CreateTileLayer(options: ITileLayerOptions): Promise<TileLayer> {
+        return this._map.then((map: GoogleMapTypes.GoogleMap) => {
+            const size: number = options.tileSize || 256;
+            const o: GoogleMapTypes.ImageMapTypeOptions = {
+                getTileUrl: (coord: GoogleMapTypes.Point, zoom: number) => {
+                    const n: number = Math.pow(2, zoom);
+                    const x: number = ((coord.x % n) + n) % n;
+                    if (coord.y < 0 || coord.y >= n) { return null; }
+                    if (options.bounds && !TileLayer.TileIntersects(x, coord.y, zoom, options.bounds)) { return null; }
+                    return TileLayer.GetTileUrl(options.tileUrl, x, coord.y, zoom);
+                },
+                opacity: options.opacity != null ? options.opacity : 1,
+                tileSize: new google.maps.Size(size, size)
+            };
+            if (options.maxZoom != null) { o.maxZoom = options.maxZoom; }
+            if (options.minZoom != null) { o.minZoom = options.minZoom; }
+            const mapType: GoogleMapTypes.ImageMapType = new google.maps.ImageMapType(o);
+            return new GoogleTileLayer(mapType, map, options);
+        });
+    }
+
     /**
      * Deletes a layer from the map.
      *
@@ -396,6 +475,33 @@ export class GoogleMapService implements MapService {
         });
     }
 
+    /**
+     * Obtains geo coordinates for the click location of a map mouse event.
+     *
+     * @param e - The mouse event. Expected to implement {@link GoogleMapTypes.MouseEvent}.
+     * @returns - {@link ILatLong} containing the geo coordinates of the clicked location.
+     *
+     * @memberof GoogleMapService
+     */
+    public GetCoordinatesFromClick(e: MouseEvent | any): ILatLong {
+        if (!e || !e.latLng) { return null; }
+        return { latitude: e.latLng.lat(), longitude: e.latLng.lng() };
+    }
+
+    /**
+     * Gets a synchronous projection capturing the current view (center, zoom and size).
+     *
+     * @returns - The {@link MapProjection}, or null if the map has not been created yet.
+     *
+     * @memberof GoogleMapService
+     */
+    public GetProjection(): MapProjection {
+        const m: GoogleMapTypes.GoogleMap = this.MapInstance;
+        if (m == null) { return null; }
+        const c: GoogleMapTypes.LatLng = m.getCenter();
+        return new MapProjection({ latitude: c.lat(), longitude: c.lng() }, m.getZoom(), this.MapSize);
+    }
+
     /**
      * Gets the current zoom level of the map.
      *
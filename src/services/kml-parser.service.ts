@@ -0,0 +1,463 @@
+import { Injectable } from '@angular/core';
+import { ILatLong } from '../interfaces/ilatlong';
+import { IGeoJsonStyle } from '../interfaces/igeojson-style';
+import { IKmlParseResult } from '../interfaces/ikml-parse-result';
+import { IMarkerOptions } from '../interfaces/imarker-options';
+import { IPolygonOptions } from '../interfaces/ipolygon-options';
+import { IPolylineOptions } from '../interfaces/ipolyline-options';
+import { WindowRef } from './mapapiloader';
+
+/**
+ * Parses KML and GPX documents into marker, polyline and polygon options that can be passed to the layer services or
+ * rendered with the {@link MapKmlLayerDirective}. Parsing happens locally; linked resources are not fetched.
+ *
+ * KML Placemarks with Point, LineString, LinearRing, Polygon, MultiGeometry and gx:Track geometries are supported, styled with
+ * inline or shared Style and StyleMap (normal state) definitions. The name, description and ExtendedData of a Placemark
+ * are copied into the Metadata. GPX waypoints become markers, routes and tracks become polylines; tracks with multiple
+ * segments become complex polylines. The simple child elements (name, desc, ele, time, etc.) are copied into the Metadata.
+ *
+ * @export
+ */
+@Injectable()
+export class KmlParserService {
+
+    ///
+    /// Private static methods
+    ///
+
+    /**
+     * Gets the first child element with a given local name.
+     *
+     * @param el - The parent element.
+     * @param name - The local name of the child.
+     * @returns - The child element, or null if there is none.
+     *
+     * @memberof KmlParserService
+     */
+    private static Child(el: Element, name: string): Element {
+        const children: Array<Element> = KmlParserService.Children(el, name);
+        return children.length > 0 ? children[0] : null;
+    }
+
+    /**
+     * Gets the child elements with a given local name, regardless of their namespace.
+     *
+     * @param el - The parent element.
+     * @param name - Optional. The local name of the children. Defaults to all child elements.
+     * @returns - The child elements.
+     *
+     * @memberof KmlParserService
+     */
+    private static Children(el: Element, name?: string): Array<Element> {
+        if (el == null) { return []; }
+        return Array.prototype.filter.call(el.childNodes, (n: Node) =>
+            n.nodeType === 1 && (name == null || (<Element>n).localName === name));
+    }
+
+    /**
+     * Gets the trimmed text of the first child element with a given local name.
+     *
+     * @param el - The parent element.
+     * @param name - The local name of the child.
+     * @returns - The text, or null if there is no such child.
+     *
+     * @memberof KmlParserService
+     */
+    private static ChildText(el: Element, name: string): string {
+        const child: Element = KmlParserService.Child(el, name);
+        return child ? (child.textContent || '').trim() : null;
+    }
+
+    /**
+     * Copies the GPX simple child elements (name, desc, ele, time, etc.) of an element into a metadata map.
+     *
+     * @param el - The GPX element.
+     * @returns - The metadata.
+     *
+     * @memberof KmlParserService
+     */
+    private static GetGpxMetadata(el: Element): Map<string, any> {
+        const metadata: Map<string, any> = new Map<string, any>();
+        KmlParserService.Children(el).forEach(c => {
+            if (['rtept', 'trkpt', 'trkseg'].indexOf(c.localName) !== -1 || KmlParserService.Children(c).length > 0) { return; }
+            metadata.set(c.localName, (c.textContent || '').trim());
+        });
+        return metadata;
+    }
+
+    /**
+     * Gets the location of a GPX point (wpt, rtept, trkpt).
+     *
+     * @param el - The GPX point element.
+     * @returns - The location.
+     *
+     * @memberof KmlParserService
+     */
+    private static GetGpxPoint(el: Element): ILatLong {
+        return { latitude: parseFloat(el.getAttribute('lat')), longitude: parseFloat(el.getAttribute('lon')) };
+    }
+
+    /**
+     * Copies the name, description and ExtendedData (Data and SchemaData) of a KML Placemark into a metadata map.
+     *
+     * @param placemark - The KML Placemark.
+     * @returns - The metadata.
+     *
+     * @memberof KmlParserService
+     */
+    private static GetKmlMetadata(placemark: Element): Map<string, any> {
+        const metadata: Map<string, any> = new Map<string, any>();
+        const name: string = KmlParserService.ChildText(placemark, 'name');
+        const description: string = KmlParserService.ChildText(placemark, 'description');
+        if (name != null) { metadata.set('name', name); }
+        if (description != null) { metadata.set('description', description); }
+        const data: Element = KmlParserService.Child(placemark, 'ExtendedData');
+        KmlParserService.Children(data, 'Data').forEach(d => metadata.set(d.getAttribute('name'), KmlParserService.ChildText(d, 'value')));
+        KmlParserService.Children(data, 'SchemaData').forEach(s => KmlParserService.Children(s, 'SimpleData').forEach(d =>
+            metadata.set(d.getAttribute('name'), (d.textContent || '').trim())));
+        return metadata;
+    }
+
+    /**
+     * Collects the shared Style and StyleMap definitions of a KML document. StyleMaps resolve to their normal style.
+     *
+     * @param doc - The KML document.
+     * @returns - The styles, keyed by their fragment reference ('#id').
+     *
+     * @memberof KmlParserService
+     */
+    private static GetKmlStyles(doc: Document): Map<string, IGeoJsonStyle> {
+        const styles: Map<string, IGeoJsonStyle> = new Map<string, IGeoJsonStyle>();
+        const elements = (name: string): Array<Element> => Array.prototype.slice.call(doc.getElementsByTagNameNS('*', name));
+        elements('Style').forEach(s => {
+            if (s.getAttribute('id')) { styles.set('#' + s.getAttribute('id'), KmlParserService.ParseKmlStyle(s)); }
+        });
+        elements('StyleMap').forEach(m => {
+            if (!m.getAttribute('id')) { return; }
+            const pair: Element = KmlParserService.Children(m, 'Pair').find(p => KmlParserService.ChildText(p, 'key') === 'normal');
+            if (pair == null) { return; }
+            const inline: Element = KmlParserService.Child(pair, 'Style');
+            const style: IGeoJsonStyle = inline ?
+                KmlParserService.ParseKmlStyle(inline) : styles.get(KmlParserService.ChildText(pair, 'styleUrl'));
+            if (style) { styles.set('#' + m.getAttribute('id'), style); }
+        });
+        return styles;
+    }
+
+    /**
+     * Translates a KML color (aabbggrr) into a CSS color and an opacity.
+     *
+     * @param color - The KML color.
+     * @returns - The CSS color ('#rrggbb') and the opacity, or null if the color is invalid.
+     *
+     * @memberof KmlParserService
+     */
+    private static ParseKmlColor(color: string): { color: string, opacity: number } {
+        const c: string = (color || '').trim().replace(/^#/, '');
+        if (!/^[0-9a-fA-F]{8}$/.test(c)) { return null; }
+        return {
+            color: '#' + c.substr(6, 2) + c.substr(4, 2) + c.substr(2, 2),
+            opacity: Math.round(parseInt(c.substr(0, 2), 16) / 255 * 100) / 100
+        };
+    }
+
+    /**
+     * Parses a KML coordinates string (longitude,latitude[,altitude] tuples separated by whitespace).
+     *
+     * @param coordinates - The coordinates string.
+     * @returns - The path.
+     *
+     * @memberof KmlParserService
+     */
+    private static ParseKmlCoordinates(coordinates: string): Array<ILatLong> {
+        return (coordinates || '').trim().split(/\s+/).filter(t => t.length > 0).map(t => {
+            const c: Array<string> = t.split(',');
+            return { latitude: parseFloat(c[1]), longitude: parseFloat(c[0]) };
+        }).filter(l => !isNaN(l.latitude) && !isNaN(l.longitude));
+    }
+
+    /**
+     * Translates a KML Style element into the style of the generated entities.
+     *
+     * @param el - The Style element.
+     * @returns - The style.
+     *
+     * @memberof KmlParserService
+     */
+    private static ParseKmlStyle(el: Element): IGeoJsonStyle {
+        const style: IGeoJsonStyle = {};
+        const line: Element = KmlParserService.Child(el, 'LineStyle');
+        const poly: Element = KmlParserService.Child(el, 'PolyStyle');
+        const icon: string = KmlParserService.ChildText(KmlParserService.Child(KmlParserService.Child(el, 'IconStyle'), 'Icon'), 'href');
+        const stroke = KmlParserService.ParseKmlColor(KmlParserService.ChildText(line, 'color'));
+        const fill = KmlParserService.ParseKmlColor(KmlParserService.ChildText(poly, 'color'));
+        const width: number = parseFloat(KmlParserService.ChildText(line, 'width'));
+        if (stroke) {
+            style.strokeColor = stroke.color;
+            style.strokeOpacity = stroke.opacity;
+        }
+        if (!isNaN(width)) { style.strokeWeight = width; }
+        if (fill) {
+            style.fillColor = fill.color;
+            style.fillOpacity = fill.opacity;
+        }
+        if (KmlParserService.ChildText(poly, 'fill') === '0') { style.fillOpacity = 0; }
+        if (KmlParserService.ChildText(poly, 'outline') === '0') { style.strokeOpacity = 0; }
+        if (icon) { style.icon = icon; }
+        return style;
+    }
+
+    /**
+     * Drops the closing vertex of a KML linear ring, as the providers close the polygon paths themselves.
+     *
+     * @param path - The ring.
+     * @returns - The path.
+     *
+     * @memberof KmlParserService
+     */
+    private static ToPath(path: Array<ILatLong>): Array<ILatLong> {
+        if (path.length > 1 &&
+            path[0].latitude === path[path.length - 1].latitude &&
+            path[0].longitude === path[path.length - 1].longitude) {
+            path.pop();
+        }
+        return path;
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of KmlParserService.
+     * @param _windowRef - An instance of {@link WindowRef}.
+     *
+     * @memberof KmlParserService
+     */
+    constructor(private _windowRef: WindowRef) { }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Parses a KML or GPX document. The format is detected from the root element.
+     *
+     * @param text - The document.
+     * @returns - The marker, polygon and polyline options.
+     *
+     * @memberof KmlParserService
+     */
+    public Parse(text: string): IKmlParseResult {
+        const doc: Document = this.GetDocument(text);
+        switch (doc.documentElement.localName) {
+            case 'kml': return this.ParseKmlDocument(doc);
+            case 'gpx': return this.ParseGpxDocument(doc);
+            default:
+                throw (new Error(`Documents with root element ${doc.documentElement.localName} are not supported. Use KML or GPX.`));
+        }
+    }
+
+    /**
+     * Parses a GPX document.
+     *
+     * @param text - The document.
+     * @returns - The marker and polyline options.
+     *
+     * @memberof KmlParserService
+     */
+    public ParseGpx(text: string): IKmlParseResult {
+        return this.ParseGpxDocument(this.GetDocument(text));
+    }
+
+    /**
+     * Parses a KML document.
+     *
+     * @param text - The document.
+     * @returns - The marker, polygon and polyline options.
+     *
+     * @memberof KmlParserService
+     */
+    public ParseKml(text: string): IKmlParseResult {
+        return this.ParseKmlDocument(this.GetDocument(text));
+    }
+
+    /**
+     * Reads and parses a local KML or GPX file, for example a file selected with a file input.
+     *
+     * @param file - The file.
+     * @returns - A promise fullfilled with the marker, polygon and polyline options.
+     *
+     * @memberof KmlParserService
+     */
+    public ReadFile(file: Blob): Promise<IKmlParseResult> {
+        return new Promise<IKmlParseResult>((resolve, reject) => {
+            if (/\.kmz$/i.test((<File>file).name || '')) {
+                reject(new Error('KMZ archives are not supported. Extract the doc.kml from the archive and load that instead.'));
+                return;
+            }
+            const w: any = this._windowRef.GetNativeWindow();
+            if (w == null || w.FileReader == null) {
+                reject(new Error('Reading files requires a FileReader implementation.'));
+                return;
+            }
+            const reader: FileReader = new w.FileReader();
+            reader.onload = () => {
+                try {
+                    resolve(this.Parse(<string>reader.result));
+                } catch (e) {
+                    reject(e);
+                }
+            };
+            reader.onerror = () => reject(reader.error || new Error('The file could not be read.'));
+            reader.readAsText(file);
+        });
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Parses an XML document.
+     *
+     * @param text - The XML text.
+     * @returns - The document.
+     *
+     * @memberof KmlParserService
+     */
+    private GetDocument(text: string): Document {
+        const w: any = this._windowRef.GetNativeWindow();
+        if (w == null || w.DOMParser == null) { throw (new Error('Parsing KML and GPX requires a DOMParser implementation.')); }
+        const doc: Document = new w.DOMParser().parseFromString(text || '', 'application/xml');
+        const error: Element = doc.getElementsByTagName('parsererror')[0];
+        if (error || doc.documentElement == null) {
+            throw (new Error(`The document is not valid XML. ${error ? (error.textContent || '').trim() : ''}`));
+        }
+        return doc;
+    }
+
+    /**
+     * Translates a GPX document.
+     *
+     * @param doc - The GPX document.
+     * @returns - The marker and polyline options.
+     *
+     * @memberof KmlParserService
+     */
+    private ParseGpxDocument(doc: Document): IKmlParseResult {
+        const result: IKmlParseResult = { markers: [], polygons: [], polylines: [] };
+        const root: Element = doc.documentElement;
+        const addPolyline = (el: Element, path: Array<ILatLong> | Array<Array<ILatLong>>) => {
+            const metadata: Map<string, any> = KmlParserService.GetGpxMetadata(el);
+            const o: IPolylineOptions = { id: result.polylines.length, path: path, metadata: metadata };
+            if (metadata.has('name')) { o.title = metadata.get('name'); }
+            result.polylines.push(o);
+        };
+
+        KmlParserService.Children(root, 'wpt').forEach(w => {
+            const metadata: Map<string, any> = KmlParserService.GetGpxMetadata(w);
+            const o: IMarkerOptions = { position: KmlParserService.GetGpxPoint(w), metadata: metadata };
+            if (metadata.has('name')) { o.title = metadata.get('name'); }
+            result.markers.push(o);
+        });
+        KmlParserService.Children(root, 'rte').forEach(r => {
+            addPolyline(r, KmlParserService.Children(r, 'rtept').map(p => KmlParserService.GetGpxPoint(p)));
+        });
+        KmlParserService.Children(root, 'trk').forEach(t => {
+            const segments: Array<Array<ILatLong>> = KmlParserService.Children(t, 'trkseg')
+                .map(s => KmlParserService.Children(s, 'trkpt').map(p => KmlParserService.GetGpxPoint(p)))
+                .filter(s => s.length > 0);
+            if (segments.length > 0) { addPolyline(t, segments.length === 1 ? segments[0] : segments); }
+        });
+        return result;
+    }
+
+    /**
+     * Translates a KML document.
+     *
+     * @param doc - The KML document.
+     * @returns - The marker, polygon and polyline options.
+     *
+     * @memberof KmlParserService
+     */
+    private ParseKmlDocument(doc: Document): IKmlParseResult {
+        const result: IKmlParseResult = { markers: [], polygons: [], polylines: [] };
+        const styles: Map<string, IGeoJsonStyle> = KmlParserService.GetKmlStyles(doc);
+        const placemarks: Array<Element> = Array.prototype.slice.call(doc.getElementsByTagNameNS('*', 'Placemark'));
+        placemarks.forEach(p => {
+            const url: string = KmlParserService.ChildText(p, 'styleUrl');
+            const inline: Element = KmlParserService.Child(p, 'Style');
+            const style: IGeoJsonStyle = Object.assign({}, (url && styles.get(url.substr(url.indexOf('#')))) || {},
+                inline ? KmlParserService.ParseKmlStyle(inline) : {});
+            style.title = KmlParserService.ChildText(p, 'name');
+            if (KmlParserService.ChildText(p, 'visibility') === '0') { style.visible = false; }
+            const metadata: Map<string, any> = KmlParserService.GetKmlMetadata(p);
+            KmlParserService.Children(p).forEach(g => this.TranslateKmlGeometry(g, style, metadata, result));
+        });
+        return result;
+    }
+
+    /**
+     * Translates a KML geometry into marker, polygon and polyline options. MultiGeometry and gx:MultiTrack elements are
+     * processed recursively, other elements are ignored.
+     *
+     * @param el - The geometry element.
+     * @param style - The style of the Placemark.
+     * @param metadata - The metadata of the Placemark.
+     * @param result - The options collections to which to add the translated options.
+     *
+     * @memberof KmlParserService
+     */
+    private TranslateKmlGeometry(el: Element, style: IGeoJsonStyle, metadata: Map<string, any>, result: IKmlParseResult): void {
+        const common = (): any => {
+            const o: any = { metadata: metadata };
+            if (style.title) { o.title = style.title; }
+            if (style.visible != null) { o.visible = style.visible; }
+            ['strokeColor', 'strokeOpacity', 'strokeWeight'].forEach(k => { if ((<any>style)[k] != null) { o[k] = (<any>style)[k]; } });
+            return o;
+        };
+        const addMarker = (path: Array<ILatLong>) => {
+            if (path.length === 0) { return; }
+            const o: IMarkerOptions = { position: path[0], metadata: metadata };
+            if (style.title) { o.title = style.title; }
+            if (style.icon) { o.icon = style.icon; }
+            if (style.visible != null) { o.visible = style.visible; }
+            result.markers.push(o);
+        };
+        const addPolygon = (rings: Array<Element>) => {
+            const paths: Array<Array<ILatLong>> = rings.filter(r => r != null)
+                .map(r => KmlParserService.ToPath(KmlParserService.ParseKmlCoordinates(KmlParserService.ChildText(r, 'coordinates'))))
+                .filter(r => r.length > 0);
+            if (paths.length === 0) { return; }
+            const o: IPolygonOptions = Object.assign(common(), { id: result.polygons.length, paths: paths });
+            if (style.fillColor != null) { o.fillColor = style.fillColor; }
+            if (style.fillOpacity != null) { o.fillOpacity = style.fillOpacity; }
+            result.polygons.push(o);
+        };
+        const addPolyline = (path: Array<ILatLong>) => {
+            if (path.length > 0) { result.polylines.push(Object.assign(common(), { id: result.polylines.length, path: path })); }
+        };
+        const toTrackPoint = (coord: Element): ILatLong => {
+            const t: Array<string> = (coord.textContent || '').trim().split(/\s+/);
+            return { latitude: parseFloat(t[1]), longitude: parseFloat(t[0]) };
+        };
+
+        switch (el.localName) {
+            case 'Point': addMarker(KmlParserService.ParseKmlCoordinates(KmlParserService.ChildText(el, 'coordinates'))); break;
+            case 'LineString':
+            case 'LinearRing': addPolyline(KmlParserService.ParseKmlCoordinates(KmlParserService.ChildText(el, 'coordinates'))); break;
+            case 'Track':
+                addPolyline(KmlParserService.Children(el, 'coord').map(c => toTrackPoint(c)).filter(l => !isNaN(l.latitude)));
+                break;
+            case 'Polygon':
+                addPolygon([KmlParserService.Child(KmlParserService.Child(el, 'outerBoundaryIs'), 'LinearRing')]
+                    .concat(KmlParserService.Children(el, 'innerBoundaryIs').map(b => KmlParserService.Child(b, 'LinearRing'))));
+                break;
+            case 'MultiGeometry':
+            case 'MultiTrack':
+                KmlParserService.Children(el).forEach(g => this.TranslateKmlGeometry(g, style, metadata, result));
+                break;
+        }
+    }
+}
@@ -10,12 +10,19 @@ import { IPolygonOptions } from '../interfaces/ipolygon-options';
 import { IPolylineOptions } from '../interfaces/ipolyline-options';
 import { IMarkerOptions } from '../interfaces/imarker-options';
 import { IInfoWindowOptions } from '../interfaces/iinfo-window-options';
+import { ITileLayerOptions } from '../interfaces/itile-layer-options';
+import { IGroundOverlayOptions } from '../interfaces/iground-overlay-options';
+import { ICircleOptions } from '../interfaces/icircle-options';
 import { Marker } from '../models/marker';
 import { Layer } from '../models/layer';
 import { Polygon } from '../models/polygon';
 import { Polyline } from '../models/polyline';
 import { InfoWindow } from '../models/info-window';
 import { CanvasOverlay } from '../models/canvas-overlay';
+import { MapProjection } from '../models/map-projection';
+import { TileLayer } from '../models/tile-layer';
+import { GroundOverlay } from '../models/ground-overlay';
+import { Circle } from '../models/circle';
 
 /**
  * Abstract class to implement map api. A concrete implementation should be created for each
@@ -105,12 +112,24 @@ export abstract class MapService {
      * Creates a canvas overlay layer to perform custom drawing over the map with out
      * some of the overhead associated with going through the Map objects.
      * @param drawCallback A callback function that is triggered when the canvas is ready to be
-     * rendered for the current map view.
+     * rendered for the current map view. The callback receives a {@link MapProjection} for the view.
      * @returns - Promise of a {@link CanvasOverlay} object.
      * @memberof MapService
      * @abstract
      */
-    public abstract CreateCanvasOverlay(drawCallback: (canvas: HTMLCanvasElement) => void): Promise<CanvasOverlay>;
+    public abstract CreateCanvasOverlay(
+        drawCallback: (canvas: HTMLCanvasElement, projection: MapProjection) => void): Promise<CanvasOverlay>;
+
+    /**
+     * Creates a circle within the map context
+     *
+     * @abstract
+     * @param options - Options for the circle. See {@link ICircleOptions}.
+     * @returns - Promise of a {@link Circle} object, which models the underlying native circle.
+     *
+     * @memberof MapService
+     */
+    abstract CreateCircle(options: ICircleOptions): Promise<Circle>;
 
     /**
      * Creates a map cluster layer within the map context
@@ -122,6 +141,17 @@ export abstract class MapService {
      */
     abstract CreateClusterLayer(options: ILayerOptions): Promise<Layer>;
 
+    /**
+     * Creates a ground overlay (an image draped over a geographic bounding box) within the map context
+     *
+     * @abstract
+     * @param options - Options for the overlay. See {@link IGroundOverlayOptions}.
+     * @returns - Promise of a {@link GroundOverlay} object.
+     *
+     * @memberof MapService
+     */
+    abstract CreateGroundOverlay(options: IGroundOverlayOptions): Promise<GroundOverlay>;
+
     /**
      * Creates an information window for a map position
      *
@@ -186,6 +216,17 @@ export abstract class MapService {
      */
     abstract CreatePolyline(options: IPolylineOptions): Promise<Polyline|Array<Polyline>>;
 
+    /**
+     * Creates a tile layer within the map context
+     *
+     * @abstract
+     * @param options - Options for the tile layer. See {@link ITileLayerOptions}.
+     * @returns - Promise of a {@link TileLayer} object, which models the underlying native tile layer.
+     *
+     * @memberof MapService
+     */
+    abstract CreateTileLayer(options: ITileLayerOptions): Promise<TileLayer>;
+
     /**
      * Deletes a layer from the map.
      *
@@ -221,6 +262,27 @@ export abstract class MapService {
      */
     abstract GetCenter(): Promise<ILatLong>;
 
+    /**
+     * Obtains geo coordinates for the click location of a map mouse event.
+     *
+     * @abstract
+     * @param e - The native mouse event raised by the map (for example via {@link SubscribeToMapEvent}).
+     * @returns - {@link ILatLong} containing the geo coordinates of the clicked location.
+     *
+     * @memberof MapService
+     */
+    abstract GetCoordinatesFromClick(e: MouseEvent | any): ILatLong;
+
+    /**
+     * Gets a synchronous projection capturing the current view (center, zoom and size). Use it to convert large numbers
+     * of locations to pixels without the promise round trip of {@link LocationsToPoints}.
+     *
+     * @returns - The {@link MapProjection}, or null if the map has not been created yet.
+     *
+     * @memberof MapService
+     */
+    abstract GetProjection(): MapProjection;
+
     /**
      * Gets the current zoom level of the map.
      *
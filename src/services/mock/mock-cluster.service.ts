@@ -0,0 +1,165 @@
+import { Injectable, NgZone } from '@angular/core';
+import { IPolygonOptions } from '../../interfaces/ipolygon-options';
+import { IPolylineOptions } from '../../interfaces/ipolyline-options';
+import { IClusterOptions } from '../../interfaces/icluster-options';
+import { Polygon } from '../../models/polygon';
+import { Polyline } from '../../models/polyline';
+import { Layer } from '../../models/layer';
+import { MockClusterLayer } from '../../models/mock/mock-cluster-layer';
+import { MapService } from '../map.service';
+import { ClusterLayerDirective } from '../../components/cluster-layer';
+import { ClusterService } from '../cluster.service';
+import { MockLayerBase } from './mock-layer-base';
+
+/**
+ * Implements the {@link ClusterService} contract for the in-memory mock provider. The mock cluster layer does not
+ * compute clusters, it only records the clustering state.
+ *
+ * @export
+ */
+@Injectable()
+export class MockClusterService extends MockLayerBase implements ClusterService {
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockClusterService.
+     * @param _mapService - Concrete {@link MapService} implementation for the mock provider. An instance of {@link MockMapService}.
+     * @param _zone - NgZone instance to provide zone aware promises.
+     *
+     * @memberof MockClusterService
+     */
+    constructor(_mapService: MapService, _zone: NgZone) {
+        super(_mapService, _zone);
+    }
+
+    ///
+    /// Public methods
+    ///
+
+    /**
+     * Adds a layer to the map.
+     *
+     * @abstract
+     * @param layer - ClusterLayerDirective component object.
+     * Generally, MapLayer will be injected with an instance of the
+     * LayerService and then self register on initialization.
+     *
+     * @memberof MockClusterService
+     */
+    public AddLayer(layer: ClusterLayerDirective): void {
+        const options: IClusterOptions = {
+            id: layer.Id,
+            visible: layer.Visible,
+            clusteringEnabled: layer.ClusteringEnabled,
+            placementMode: layer.ClusterPlacementMode,
+            useClusterEngine: layer.UseClusterEngine
+        };
+        if (layer.GridSize) { options.gridSize = layer.GridSize; }
+        if (layer.MinimumClusterSize) { options.minimumClusterSize = layer.MinimumClusterSize; }
+        if (layer.LayerOffset) { options.layerOffset = layer.LayerOffset; }
+        if (layer.ZIndex) { options.zIndex = layer.ZIndex; }
+        if (layer.SpiderClusterOptions) { options.spiderClusterOptions = layer.SpiderClusterOptions; }
+
+        const layerPromise: Promise<Layer> = this._mapService.CreateClusterLayer(options);
+        this._layers.set(layer.Id, layerPromise);
+    }
+
+    /**
+     * Adds a polygon to the layer.
+     *
+     * @abstract
+     * @param layer - The id of the layer to which to add the polygon.
+     * @param options - Polygon options defining the polygon.
+     * @returns - A promise that when fullfilled contains the an instance of the Polygon model.
+     *
+     * @memberof MockClusterService
+     */
+    public CreatePolygon(layer: number, options: IPolygonOptions): Promise<Polygon> {
+        throw (new Error('Polygons are not supported in clustering layers. You can only use markers.'));
+    }
+
+    /**
+     * Creates an array of unbound polygons. Use this method to create arrays of polygons to be used in bulk
+     * operations.
+     *
+     * @param layer - The id of the layer to which to add the polygon.
+     * @param options - Polygon options defining the polygons.
+     * @returns - A promise that when fullfilled contains the an arrays of the Polygon models.
+     *
+     * @memberof MockClusterService
+     */
+    public CreatePolygons(layer: number, options: Array<IPolygonOptions>): Promise<Array<Polygon>> {
+        throw (new Error('Polygons are not supported in clustering layers. You can only use markers.'));
+    }
+
+    /**
+     * Adds a polyline to the layer.
+     *
+     * @abstract
+     * @param layer - The id of the layer to which to add the line.
+     * @param options - Polyline options defining the line.
+     * @returns - A promise that when fullfilled contains the an instance of the Polyline (or an array
+     * of polygons for complex paths) model.
+     *
+     * @memberof MockClusterService
+     */
+    public CreatePolyline(layer: number, options: IPolylineOptions): Promise<Polyline|Array<Polyline>> {
+        throw (new Error('Polylines are not supported in clustering layers. You can only use markers.'));
+    }
+
+    /**
+     * Creates an array of unbound polylines. Use this method to create arrays of polylines to be used in bulk
+     * operations.
+     *
+     * @param layer - The id of the layer to which to add the polylines.
+     * @param options - Polyline options defining the polylines.
+     * @returns - A promise that when fullfilled contains the an arrays of the Polyline models.
+     *
+     * @memberof MockClusterService
+     */
+    public CreatePolylines(layer: number, options: Array<IPolylineOptions>): Promise<Array<Polyline|Array<Polyline>>> {
+        throw (new Error('Polylines are not supported in clustering layers. You can only use markers.'));
+    }
+
+    /**
+     * Start to actually cluster the entities in a cluster layer.
+     *
+     * @param layer - ClusterLayerDirective component object for which to retrieve the layer.
+     *
+     * @memberof MockClusterService
+     */
+    public StartClustering(layer: ClusterLayerDirective): Promise<void> {
+        const l = this._layers.get(layer.Id);
+        if (l == null) {
+            return Promise.resolve();
+        }
+        return l.then((l1: MockClusterLayer) => {
+            return this._zone.run(() => {
+                l1.StartClustering();
+            });
+        });
+    }
+
+    /**
+     * Stop to actually cluster the entities in a cluster layer.
+     *
+     * @param layer - ClusterLayerDirective component object for which to retrieve the layer.
+     *
+     * @memberof MockClusterService
+     */
+    public StopClustering(layer: ClusterLayerDirective): Promise<void> {
+        const l = this._layers.get(layer.Id);
+        if (l == null) {
+            return Promise.resolve();
+        }
+        return l.then((l1: MockClusterLayer) => {
+            return this._zone.run(() => {
+                l1.StopClustering();
+            });
+        });
+    }
+
+}
@@ -0,0 +1,167 @@
+import { Injectable, NgZone } from '@angular/core';
+import { IPolygonOptions } from '../../interfaces/ipolygon-options';
+import { IPolylineOptions } from '../../interfaces/ipolyline-options';
+import { ILatLong } from '../../interfaces/ilatlong';
+import { Polygon } from '../../models/polygon';
+import { Polyline } from '../../models/polyline';
+import { Layer } from '../../models/layer';
+import { MockMap } from '../../models/mock/mock-map';
+import { MockPolygon } from '../../models/mock/mock-polygon';
+import { MockPolyline } from '../../models/mock/mock-polyline';
+import { MapService } from '../map.service';
+import { MapLayerDirective } from '../../components/map-layer';
+import { LayerService } from '../layer.service';
+import { MockLayerBase } from './mock-layer-base';
+import { PolylineEncoding } from '../../models/polyline-encoding';
+
+/**
+ * Implements the {@link LayerService} contract for the in-memory mock provider.
+ *
+ * @export
+ */
+@Injectable()
+export class MockLayerService extends MockLayerBase implements LayerService {
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockLayerService.
+     * @param _mapService - Instance of the mock Map Service. Will generally be injected.
+     * @param _zone - NgZone instance to provide zone aware promises.
+     *
+     * @memberof MockLayerService
+     */
+    constructor(_mapService: MapService, _zone: NgZone) {
+        super(_mapService, _zone);
+    }
+
+    /**
+     * Adds a layer to the map.
+     *
+     * @abstract
+     * @param layer - MapLayerDirective component object.
+     * Generally, MapLayerDirective will be injected with an instance of the
+     * LayerService and then self register on initialization.
+     *
+     * @memberof MockLayerService
+     */
+    public AddLayer(layer: MapLayerDirective): void {
+        const layerPromise = this._mapService.CreateLayer({ id: layer.Id });
+        this._layers.set(layer.Id, layerPromise);
+        layerPromise.then(l => l.SetVisible(layer.Visible));
+    }
+
+    /**
+     * Adds a polygon to the layer.
+     *
+     * @abstract
+     * @param layer - The id of the layer to which to add the polygon.
+     * @param options - Polygon options defining the polygon.
+     * @returns - A promise that when fullfilled contains the an instance of the Polygon model.
+     *
+     * @memberof MockLayerService
+     */
+    public CreatePolygon(layer: number, options: IPolygonOptions): Promise<Polygon> {
+        options = PolylineEncoding.ResolvePolygonOptions(options);
+        const p: Promise<Layer> = this.GetLayerById(layer);
+        if (p == null) { throw (new Error(`Layer with id ${layer} not found in Layer Map`)); }
+        return p.then((l: Layer) => {
+            const polygon: Polygon = new MockPolygon(options, <MockMap>this._mapService.MapInstance, l);
+            if (options.metadata) { options.metadata.forEach((v, k) => polygon.Metadata.set(k, v)); }
+            l.AddEntity(polygon);
+            return polygon;
+        });
+    }
+
+    /**
+     * Creates an array of unbound polygons. Use this method to create arrays of polygons to be used in bulk
+     * operations.
+     *
+     * @param layer - The id of the layer to which to add the polygon.
+     * @param options - Polygon options defining the polygons.
+     * @returns - A promise that when fullfilled contains the an arrays of the Polygon models.
+     *
+     * @memberof MockLayerService
+     */
+    public CreatePolygons(layer: number, options: Array<IPolygonOptions>): Promise<Array<Polygon>> {
+        options = options.map(o => PolylineEncoding.ResolvePolygonOptions(o));
+        const p: Promise<Layer> = this.GetLayerById(layer);
+        if (p == null) { throw (new Error(`Layer with id ${layer} not found in Layer Map`)); }
+        return p.then((l: Layer) => {
+            return options.map(o => {
+                const polygon: MockPolygon = new MockPolygon(o, <MockMap>this._mapService.MapInstance, l);
+                if (o.metadata) { o.metadata.forEach((v, k) => polygon.Metadata.set(k, v)); }
+                return polygon;
+            });
+        });
+    }
+
+    /**
+     * Adds a polyline to the layer.
+     *
+     * @abstract
+     * @param layer - The id of the layer to which to add the line.
+     * @param options - Polyline options defining the line.
+     * @returns - A promise that when fullfilled contains the an instance of the Polyline (or an array
+     * of polygons for complex paths) model.
+     *
+     * @memberof MockLayerService
+     */
+    public CreatePolyline(layer: number, options: IPolylineOptions): Promise<Polyline|Array<Polyline>> {
+        options = PolylineEncoding.ResolvePolylineOptions(options);
+        const p: Promise<Layer> = this.GetLayerById(layer);
+        if (p == null) { throw (new Error(`Layer with id ${layer} not found in Layer Map`)); }
+        return p.then((l: Layer) => {
+            const lines: Polyline|Array<Polyline> = this.CreateLines(options, l);
+            if (Array.isArray(lines)) { lines.forEach(x => l.AddEntity(x)); }
+            else { l.AddEntity(lines); }
+            return lines;
+        });
+    }
+
+    /**
+     * Creates an array of unbound polylines. Use this method to create arrays of polylines to be used in bulk
+     * operations.
+     *
+     * @param layer - The id of the layer to which to add the polylines.
+     * @param options - Polyline options defining the polylines.
+     * @returns - A promise that when fullfilled contains the an arrays of the Polyline models.
+     *
+     * @memberof MockLayerService
+     */
+    public CreatePolylines(layer: number, options: Array<IPolylineOptions>): Promise<Array<Polyline|Array<Polyline>>> {
+        options = options.map(o => PolylineEncoding.ResolvePolylineOptions(o));
+        const p: Promise<Layer> = this.GetLayerById(layer);
+        if (p == null) { throw (new Error(`Layer with id ${layer} not found in Layer Map`)); }
+        return p.then((l: Layer) => options.map(o => this.CreateLines(o, l)));
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Creates the polyline model(s) for a set of polyline options. Complex paths result in an array of lines.
+     *
+     * @param options - Polyline options defining the line.
+     * @param l - The layer the lines belong to.
+     * @returns - A single polyline or an array of polylines.
+     *
+     * @memberof MockLayerService
+     */
+    private CreateLines(options: IPolylineOptions, l: Layer): Polyline|Array<Polyline> {
+        const create = (path: Array<ILatLong>): MockPolyline => {
+            const o: IPolylineOptions = Object.assign({}, options, { path: path });
+            const line: MockPolyline = new MockPolyline(o, <MockMap>this._mapService.MapInstance, l);
+            if (options.metadata) { options.metadata.forEach((v, k) => line.Metadata.set(k, v)); }
+            return line;
+        };
+        if (options.path && options.path.length > 0 && Array.isArray(options.path[0])) {
+            return (<Array<Array<ILatLong>>>options.path).map(x => create(x));
+        }
+        return create(<Array<ILatLong>>options.path);
+    }
+
+}
@@ -0,0 +1,58 @@
+import { Injectable } from '@angular/core';
+import { MapAPILoader } from '../mapapiloader';
+
+/**
+ * In-memory implementation for the {@link MapAPILoader} service. There is no script to load, so the
+ * loader resolves immediately.
+ *
+ * @export
+ */
+@Injectable()
+export class MockMapAPILoader extends MapAPILoader {
+
+    ///
+    /// Field defintitions.
+    ///
+    private _loadCount: number = 0;
+
+    ///
+    /// Property Definitions
+    ///
+
+    /**
+     * Gets the number of times {@link Load} has been called.
+     *
+     * @readonly
+     * @memberof MockMapAPILoader
+     */
+    public get LoadCount(): number { return this._loadCount; }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockMapAPILoader.
+     *
+     * @memberof MockMapAPILoader
+     */
+    constructor() {
+        super();
+    }
+
+    ///
+    /// Public methods and MapAPILoader implementation.
+    ///
+
+    /**
+     * Resolves immediately as there is nothing to load.
+     *
+     * @returns - A promise that is fullfilled right away.
+     *
+     * @memberof MockMapAPILoader
+     */
+    public Load(): Promise<void> {
+        this._loadCount++;
+        return Promise.resolve();
+    }
+}
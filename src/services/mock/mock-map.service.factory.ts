@@ -0,0 +1,156 @@
+import { Injectable, NgZone } from '@angular/core';
+import { MapServiceFactory } from '../mapservicefactory';
+import { MapService } from '../map.service';
+import { MapAPILoader } from '../mapapiloader';
+import { MarkerService } from '../marker.service';
+import { InfoBoxService } from '../infobox.service';
+import { LayerService } from '../layer.service';
+import { ClusterService } from '../cluster.service';
+import { PolygonService } from '../polygon.service';
+import { PolylineService } from '../polyline.service';
+import { MockMapAPILoader } from './mock-map.api-loader.service';
+import { MockInfoBoxService } from './mock-infobox.service';
+import { MockMarkerService } from './mock-marker.service';
+import { MockMapService } from './mock-map.service';
+import { MockLayerService } from './mock-layer.service';
+import { MockClusterService } from './mock-cluster.service';
+import { MockPolygonService } from './mock-polygon.service';
+import { MockPolylineService } from './mock-polyline.service';
+
+/**
+ * Implements a factory to create thre necessary in-memory mock service instances.
+ *
+ * @export
+ */
+@Injectable()
+export class MockMapServiceFactory implements MapServiceFactory {
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockMapServiceFactory.
+     * @param _loader - {@link MapAPILoader} implementation for the in-memory mock provider.
+     * @param _zone - NgZone object to implement zone aware promises.
+     *
+     * @memberof MockMapServiceFactory
+     */
+    constructor(private _loader: MapAPILoader, private _zone: NgZone) { }
+
+    ///
+    /// Public methods and MapServiceFactory implementation.
+    ///
+
+    /**
+     * Creates the map service for the in-memory mock implementation.
+     *
+     * @returns - {@link MapService}. A concreted instance of the {@link MockMapService}.
+     *
+     * @memberof MockMapServiceFactory
+     */
+    public Create(): MapService {
+        return new MockMapService(this._loader, this._zone);
+    }
+
+    /**
+     * Creates the cluster service for the in-memory mock implementation.
+     *
+     * @param map - {@link MapService}. A concreted instance of the {@link MockMapService}.
+     * @returns - {@link ClusterService}. A concreted instance of the {@link MockClusterService}.
+     *
+     * @memberof MockMapServiceFactory
+     */
+    public CreateClusterService(_mapService: MockMapService): ClusterService {
+        return new MockClusterService(_mapService, this._zone);
+    }
+
+    /**
+     * Creates thh info box service for the in-memory mock implementation.
+     *
+     * @param map - {@link MapService}. A concreted instance of the {@link MockMapService}.
+     * @returns - {@link InfoBoxService}. A concreted instance of the {@link MockInfoBoxService}.
+     *
+     * @memberof MockMapServiceFactory
+     */
+    public CreateInfoBoxService(_mapService: MockMapService): InfoBoxService {
+        return new MockInfoBoxService(_mapService, this._zone);
+    }
+
+    /**
+     * Creates the layer service for the in-memory mock implementation.
+     *
+     * @param map - {@link MapService}. A concreted instance of the {@link MockMapService}.
+     * @returns - {@link LayerService}. A concreted instance of the {@link MockLayerService}.
+     *
+     * @memberof MockMapServiceFactory
+     */
+    public CreateLayerService(_mapService: MockMapService): LayerService {
+        return new MockLayerService(_mapService, this._zone);
+    }
+
+    /**
+     * Creates the marker service for the in-memory mock implementation.
+     *
+     * @param map - {@link MapService}. A concreted instance of the {@link MockMapService}.
+     * @param layers - {@link LayerService}. A concreted instance of the {@link MockLayerService}.
+     * @param clusters  - {@link ClusterService}. A concreted instance of the {@link MockClusterService}.
+     * @returns - {@link MarkerService}. A concreted instance of the {@link MockMarkerService}.
+     *
+     * @memberof MockMapServiceFactory
+     */
+    public CreateMarkerService(_mapService: MockMapService,
+        _layerService: MockLayerService, _clusterService: MockClusterService): MarkerService {
+        return new MockMarkerService(_mapService, _layerService, _clusterService, this._zone);
+    }
+
+    /**
+     * Creates the polygon service for the in-memory mock implementation.
+     *
+     * @param map - {@link MapService} implementation for thh underlying map archticture.
+     * @param layers - {@link LayerService} implementation for the underlying map architecture.
+     * @returns - {@link PolygonService} implementation for the underlying map architecture.
+     *
+     * @memberof MapServiceFactory
+     */
+    public CreatePolygonService(map: MapService, layers: LayerService): PolygonService {
+        return new MockPolygonService(map, layers, this._zone);
+    }
+
+    /**
+     * Creates the polyline service for the in-memory mock implementation.
+     *
+     * @param map - {@link MapService} implementation for thh underlying map archticture.
+     * @param layers - {@link LayerService} implementation for the underlying map architecture.
+     * @returns - {@link PolylineService} implementation for the underlying map architecture.
+     *
+     * @memberof MapServiceFactory
+     */
+    public CreatePolylineService(map: MapService, layers: LayerService): PolylineService {
+        return new MockPolylineService(map, layers, this._zone);
+    }
+
+}
+
+/**
+ * Creates a new instance of a plaform specific MapServiceFactory.
+ *
+ * @export
+ * @param apiLoader - An {@link MapAPILoader} instance. This is expected to the a {@link MockMapAPILoader}.
+ * @param zone - An NgZone instance to provide zone aware promises.
+ *
+ * @returns -  A {@link MapServiceFactory} instance.
+ */
+export function MockMapServiceFactoryFactory(apiLoader: MapAPILoader, zone: NgZone): MapServiceFactory {
+    return new MockMapServiceFactory(apiLoader, zone);
+}
+
+/**
+ * Creates a new instance of a plaform specific MapLoaderFactory.
+ *
+ * @export
+ * @returns - A {@link MapAPILoader} instance.
+ */
+export function MockMapLoaderFactory(): MapAPILoader {
+    return new MockMapAPILoader();
+}
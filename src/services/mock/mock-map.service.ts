@@ -0,0 +1,550 @@
+import { Injectable, NgZone } from '@angular/core';
+import { Observer, Observable } from 'rxjs';
+
+import { MapService } from '../map.service';
+import { MapAPILoader } from '../mapapiloader';
+import { Marker } from '../../models/marker';
+import { Polygon } from '../../models/polygon';
+import { Polyline } from '../../models/polyline';
+import { InfoWindow } from '../../models/info-window';
+import { Layer } from '../../models/layer';
+import { CanvasOverlay } from '../../models/canvas-overlay';
+import { MapProjection } from '../../models/map-projection';
+import { MockMap } from '../../models/mock/mock-map';
+import { MockMarker } from '../../models/mock/mock-marker';
+import { MockLayer } from '../../models/mock/mock-layer';
+import { MockClusterLayer } from '../../models/mock/mock-cluster-layer';
+import { MockInfoWindow } from '../../models/mock/mock-info-window';
+import { MockPolygon } from '../../models/mock/mock-polygon';
+import { MockPolyline } from '../../models/mock/mock-polyline';
+import { MockCanvasOverlay } from '../../models/mock/mock-canvas-overlay';
+import { MockTileLayer } from '../../models/mock/mock-tile-layer';
+import { MockGroundOverlay } from '../../models/mock/mock-ground-overlay';
+import { Circle } from '../../models/circle';
+import { MockCircle } from '../../models/mock/mock-circle';
+import { GroundOverlay } from '../../models/ground-overlay';
+import { TileLayer } from '../../models/tile-layer';
+import { ILayerOptions } from '../../interfaces/ilayer-options';
+import { IClusterOptions } from '../../interfaces/icluster-options';
+import { IMapOptions } from '../../interfaces/imap-options';
+import { ILatLong } from '../../interfaces/ilatlong';
+import { IPoint } from '../../interfaces/ipoint';
+import { ISize } from '../../interfaces/isize';
+import { IMarkerOptions } from '../../interfaces/imarker-options';
+import { IInfoWindowOptions } from '../../interfaces/iinfo-window-options';
+import { IPolygonOptions } from '../../interfaces/ipolygon-options';
+import { IPolylineOptions } from '../../interfaces/ipolyline-options';
+import { IBox } from '../../interfaces/ibox';
+import { ITileLayerOptions } from '../../interfaces/itile-layer-options';
+import { IGroundOverlayOptions } from '../../interfaces/iground-overlay-options';
+import { ICircleOptions } from '../../interfaces/icircle-options';
+import { PolylineEncoding } from '../../models/polyline-encoding';
+
+/**
+ * Concrete implementation of the MapService abstract implementing an in-memory provider. The mock provider does not need
+ * any map api to be loaded and is intended for unit testing components hosting a map. Entities are kept in plain objects,
+ * pixel conversions use Web Mercator math and map events can be fired programmatically via {@link TriggerMapEvent}.
+ *
+ * @export
+ */
+@Injectable()
+export class MockMapService implements MapService {
+    ///
+    /// Field Declarations
+    ///
+
+    private _map: Promise<MockMap>;
+    private _mapInstance: MockMap;
+    private _mapResolver: (value?: MockMap) => void;
+
+    ///
+    /// Property Definitions
+    ///
+
+    /**
+     * Gets the in-memory map instance underlying the implementation
+     *
+     * @readonly
+     * @memberof MockMapService
+     */
+    public get MapInstance(): MockMap { return this._mapInstance; }
+
+    /**
+     * Gets a Promise for the in-memory map instance underlying the implementation. Use this instead of {@link MapInstance} if you
+     * are not sure if and when the instance will be created.
+     * @readonly
+     * @memberof MockMapService
+     */
+    public get MapPromise(): Promise<MockMap> { return this._map; }
+
+    /**
+     * Gets the maps physical size.
+     *
+     * @readonly
+     * @memberof MockMapService
+     */
+    public get MapSize(): ISize {
+        if (this.MapInstance) {
+            const s: ISize = { width: this.MapInstance.Size.width, height: this.MapInstance.Size.height };
+            return s;
+        }
+        return null;
+    }
+
+    ///
+    /// Constructor
+    ///
+
+    /**
+     * Creates an instance of MockMapService.
+     * @param _loader MapAPILoader instance. This instance will generally be injected.
+     * @param _zone NgZone object to enable zone aware promises. This will generally be injected.
+     *
+     * @memberof MockMapService
+     */
+    constructor(private _loader: MapAPILoader, private _zone: NgZone) {
+        this._map = new Promise<MockMap>((resolve: () => void) => { this._mapResolver = resolve; });
+    }
+
+    ///
+    /// Public methods and MapService interface implementation
+    ///
+
+    /**
+     * Creates a canvas overlay layer to perform custom drawing over the map with out
+     * some of the overhead associated with going through the Map objects.
+     * @param drawCallback A callback function that is triggered when the canvas is ready to be
+     * rendered for the current map view. The callback receives a {@link MapProjection} for the view.
+     * @returns - Promise of a {@link CanvasOverlay} object.
+     * @memberof MockMapService
+     */
+    public CreateCanvasOverlay(drawCallback: (canvas: HTMLCanvasElement, projection: MapProjection) => void): Promise<CanvasOverlay> {
+        return this._map.then((map: MockMap) => {
+            const overlay: MockCanvasOverlay = new MockCanvasOverlay(drawCallback);
+            overlay.SetMap(map);
+            return overlay;
+        });
+    }
+
+    /**
+     * Creates a circle within the map context
+     *
+     * @param options - Options for the circle. See {@link ICircleOptions}.
+     * @returns - Promise of a {@link Circle} object, which models the underlying in-memory circle.
+     *
+     * @memberof MockMapService
+     */
+    public CreateCircle(options: ICircleOptions): Promise<Circle> {
+        return this._map.then((map: MockMap) => {
+            const c: MockCircle = new MockCircle(options, map);
+            if (options.metadata) { options.metadata.forEach((v, k) => c.Metadata.set(k, v)); }
+            map.Entities.push(c);
+            return c;
+        });
+    }
+
+    /**
+     * Creates an in-memory cluster layer within the map context
+     *
+     * @param options - Options for the layer. See {@link IClusterOptions}.
+     * @returns - Promise of a {@link Layer} object, which models the underlying layer object.
+     *
+     * @memberof MockMapService
+     */
+    public CreateClusterLayer(options: IClusterOptions): Promise<Layer> {
+        return this._map.then((map: MockMap) => {
+            const layer: MockClusterLayer = new MockClusterLayer(Object.assign({}, options), this);
+            map.Layers.push(layer);
+            return layer;
+        });
+    }
+
+    /**
+     * Creates a ground overlay within the map context
+     *
+     * @param options - Options for the overlay. See {@link IGroundOverlayOptions}.
+     * @returns - Promise of a {@link GroundOverlay} object.
+     *
+     * @memberof MockMapService
+     */
+    public CreateGroundOverlay(options: IGroundOverlayOptions): Promise<GroundOverlay> {
+        return this._map.then((map: MockMap) => new MockGroundOverlay(map, options));
+    }
+
+    /**
+     * Creates an information window for a map position
+     *
+     * @param [options] - Infowindow options. See {@link IInfoWindowOptions}
+     * @returns - Promise of a {@link InfoWindow} object.
+     *
+     * @memberof MockMapService
+     */
+    public CreateInfoWindow(options?: IInfoWindowOptions): Promise<InfoWindow> {
+        return this._map.then((map: MockMap) => {
+            const o: IInfoWindowOptions = Object.assign({}, options);
+            if (o.position == null) {
+                o.position = { latitude: map.Center.latitude, longitude: map.Center.longitude };
+            }
+            const info: MockInfoWindow = new MockInfoWindow(o);
+            map.Entities.push(info);
+            return info;
+        });
+    }
+
+    /**
+     * Creates a map layer within the map context
+     *
+     * @param options - Options for the layer. See {@link ILayerOptions}
+     * @returns - Promise of a {@link Layer} object.
+     *
+     * @memberof MockMapService
+     */
+    public CreateLayer(options: ILayerOptions): Promise<Layer> {
+        return this._map.then((map: MockMap) => {
+            const layer: MockLayer = new MockLayer(Object.assign({}, options), this);
+            map.Layers.push(layer);
+            return layer;
+        });
+    }
+
+    /**
+     * Creates a map instance
+     *
+     * @param el - HTML element to host the map.
+     * @param mapOptions - Map options
+     * @returns - Promise fullfilled once the map has been created.
+     *
+     * @memberof MockMapService
+     */
+    public CreateMap(el: HTMLElement, mapOptions: IMapOptions): Promise<void> {
+        return this._loader.Load().then(() => {
+            if (this._mapInstance != null) {
+                this.DisposeMap();
+            }
+            const map = new MockMap(el, mapOptions);
+            this._mapInstance = map;
+            this._mapResolver(map);
+        });
+    }
+
+    /**
+     * Creates a map marker within the map context
+     *
+     * @param [options=<IMarkerOptions>{}] - Options for the marker. See {@link IMarkerOptions}.
+     * @returns - Promise of a {@link Marker} object.
+     *
+     * @memberof MockMapService
+     */
+    public CreateMarker(options: IMarkerOptions = <IMarkerOptions>{}): Promise<Marker> {
+        const payload = (icon: string, map: MockMap): MockMarker => {
+            const o: IMarkerOptions = Object.assign({}, options);
+            if (icon && icon !== '') { o.icon = icon; }
+            const marker: MockMarker = new MockMarker(o, map, null);
+            if (options.metadata) { options.metadata.forEach((v, k) => marker.Metadata.set(k, v)); }
+            map.Entities.push(marker);
+            return marker;
+        };
+        return this._map.then((map: MockMap) => {
+            if (options.iconInfo && options.iconInfo.markerType) {
+                const s = Marker.CreateMarker(options.iconInfo);
+                if (typeof (s) === 'string') { return (payload(s, map)); }
+                else {
+                    return s.then(x => {
+                        return (payload(x.icon, map));
+                    });
+                }
+            }
+            else {
+                return (payload(null, map));
+            }
+        });
+    }
+
+    /**
+     * Creates a polygon within the map context
+     *
+     * @param options - Options for the polygon. See {@link IPolygonOptions}.
+     * @returns - Promise of a {@link Polygon} object.
+     *
+     * @memberof MockMapService
+     */
+    public CreatePolygon(options: IPolygonOptions): Promise<Polygon> {
+        options = PolylineEncoding.ResolvePolygonOptions(options);
+        return this._map.then((map: MockMap) => {
+            const p: MockPolygon = new MockPolygon(options, map, null);
+            if (options.metadata) { options.metadata.forEach((v, k) => p.Metadata.set(k, v)); }
+            map.Entities.push(p);
+            return p;
+        });
+    }
+
+    /**
+     * Creates a polyline within the map context
+     *
+     * @param options - Options for the polyline. See {@link IPolylineOptions}.
+     * @returns - Promise of a {@link Polyline} object (or an array thereof for complex paths).
+     *
+     * @memberof MockMapService
+     */
+    public CreatePolyline(options: IPolylineOptions): Promise<Polyline | Array<Polyline>> {
+        options = PolylineEncoding.ResolvePolylineOptions(options);
+        return this._map.then((map: MockMap) => {
+            const create = (path: Array<ILatLong>): MockPolyline => {
+                const o: IPolylineOptions = Object.assign({}, options, { path: path });
+                const pl: MockPolyline = new MockPolyline(o, map, null);
+                if (options.metadata) { options.metadata.forEach((v, k) => pl.Metadata.set(k, v)); }
+                map.Entities.push(pl);
+                return pl;
+            };
+            if (options.path && options.path.length > 0 && Array.isArray(options.path[0])) {
+                return (<Array<Array<ILatLong>>>options.path).map(p => create(p));
+            }
+            return create(<Array<ILatLong>>options.path);
+        });
+    }
+
+    /**
+     * Creates a tile layer within the map context
+     *
+     * @param options - Options for the tile layer. See {@link ITileLayerOptions}.
+     * @returns - Promise of a {@link TileLayer} object.
+     *
+     * @memberof MockMapService
+     */
+    public CreateTileLayer(options: ITileLayerOptions): Promise<TileLayer> {
+        return this._map.then((map: MockMap) => {
+            const layer: MockTileLayer = new MockTileLayer(map, Object.assign({}, options));
+            map.Layers.push(layer);
+            return layer;
+        });
+    }
+
+    /**
+     * Deletes a layer from the map.
+     *
+     * @param layer - Layer to delete. See {@link Layer}.
+     * @returns - Promise fullfilled when the layer has been removed.
+     *
+     * @memberof MockMapService
+     */
+    public DeleteLayer(layer: Layer): Promise<void> {
+        return this._map.then((map: MockMap) => {
+            const i: number = map.Layers.indexOf(layer.NativePrimitve);
+            if (i > -1) { map.Layers.splice(i, 1); }
+        });
+    }
+
+    /**
+     * Dispaose the map and associated resoures.
+     *
+     * @memberof MockMapService
+     */
+    public DisposeMap(): void {
+        if (this._map == null && this._mapInstance == null) {
+            return;
+        }
+        if (this._mapInstance != null) {
+            this._mapInstance.Dispose();
+            this._mapInstance = null;
+            this._map = new Promise<MockMap>((resolve: () => void) => { this._mapResolver = resolve; });
+        }
+    }
+
+    /**
+     * Gets the geo coordinates of the map center
+     *
+     * @returns - A promise that when fullfilled contains the goe location of the center. See {@link ILatLong}.
+     *
+     * @memberof MockMapService
+     */
+    public GetCenter(): Promise<ILatLong> {
+        return this._map.then((map: MockMap) => {
+            return <ILatLong>{
+                latitude: map.Center.latitude,
+                longitude: map.Center.longitude
+            };
+        });
+    }
+
+    /**
+     * Gets the geo coordinates of the map bounding box
+     *
+     * @returns - A promise that when fullfilled contains the goe location of the bounding box. See {@link IBox}.
+     *
+     * @memberof MockMapService
+     */
+    public GetBounds(): Promise<IBox> {
+        return this._map.then((map: MockMap) => map.GetBounds());
+    }
+
+    /**
+     * Obtains geo coordinates for the click location of a map mouse event.
+     *
+     * @param e - The mouse event. Expected to implement {@link IMockEventArgs}.
+     * @returns - {@link ILatLong} containing the geo coordinates of the clicked location.
+     *
+     * @memberof MockMapService
+     */
+    public GetCoordinatesFromClick(e: MouseEvent | any): ILatLong {
+        if (!e || !e.location) { return null; }
+        return { latitude: e.location.latitude, longitude: e.location.longitude };
+    }
+
+    /**
+     * Gets a synchronous projection capturing the current view (center, zoom and size).
+     *
+     * @returns - The {@link MapProjection}, or null if the map has not been created yet.
+     *
+     * @memberof MockMapService
+     */
+    public GetProjection(): MapProjection {
+        const m: MockMap = this.MapInstance;
+        if (m == null) { return null; }
+        return new MapProjection(m.Center, m.Zoom, this.MapSize);
+    }
+
+    /**
+     * Gets the current zoom level of the map.
+     *
+     * @returns - A promise that when fullfilled contains the zoom level.
+     *
+     * @memberof MockMapService
+     */
+    public GetZoom(): Promise<number> {
+        return this._map.then((map: MockMap) => map.Zoom);
+    }
+
+    /**
+     * Provides a conversion of geo coordinates to pixels on the map control.
+     *
+     * @param loc - The geo coordinates to translate.
+     * @returns - Promise of an {@link IPoint} interface representing the pixels. This promise resolves to null
+     * if the goe coordinates are not in the view port.
+     *
+     * @memberof MockMapService
+     */
+    public LocationToPoint(loc: ILatLong): Promise<IPoint> {
+        return this._map.then((m: MockMap) => {
+            const p: IPoint = m.LocationToPixel(loc);
+            if (p.x >= 0 && p.y >= 0 && p.x <= m.Size.width && p.y <= m.Size.height) {
+                return p;
+            }
+            return null;
+        });
+    }
+
+    /**
+     * Provides a conversion of geo coordinates to pixels on the map control.
+     *
+     * @param loc - The geo coordinates to translate.
+     * @returns - Promise of an {@link IPoint} interface array representing the pixels.
+     *
+     * @memberof MockMapService
+     */
+    public LocationsToPoints(locs: Array<ILatLong>): Promise<Array<IPoint>> {
+        return this._map.then((m: MockMap) => locs.map(loc => m.LocationToPixel(loc)));
+    }
+
+    /**
+     * Centers the map on a geo location.
+     *
+     * @param latLng - GeoCoordinates around which to center the map. See {@link ILatLong}
+     * @returns - Promise that is fullfilled when the center operations has been completed.
+     *
+     * @memberof MockMapService
+     */
+    public SetCenter(latLng: ILatLong): Promise<void> {
+        return this._map.then((map: MockMap) => this.UpdateView(map, { center: latLng }));
+    }
+
+    /**
+     * Sets the generic map options.
+     *
+     * @param options - Options to set.
+     *
+     * @memberof MockMapService
+     */
+    public SetMapOptions(options: IMapOptions) {
+        this._map.then((m: MockMap) => this.UpdateView(m, options));
+    }
+
+    /**
+     * Sets the view options of the map.
+     *
+     * @param options - Options to set.
+     *
+     * @memberof MockMapService
+     */
+    public SetViewOptions(options: IMapOptions) {
+        this._map.then((m: MockMap) => this.UpdateView(m, options));
+    }
+
+    /**
+     * Sets the zoom level of the map.
+     *
+     * @param zoom - Zoom level to set.
+     * @returns - A Promise that is fullfilled once the zoom operation is complete.
+     *
+     * @memberof MockMapService
+     */
+    public SetZoom(zoom: number): Promise<void> {
+        return this._map.then((map: MockMap) => this.UpdateView(map, { zoom: zoom }));
+    }
+
+    /**
+     * Creates an event subscription
+     *
+     * @param eventName - The name of the event (e.g. 'click')
+     * @returns - An observable of type E that fires when the event occurs.
+     *
+     * @memberof MockMapService
+     */
+    public SubscribeToMapEvent<E>(eventName: string): Observable<E> {
+        return Observable.create((observer: Observer<E>) => {
+            this._map.then((m: MockMap) => {
+                m.AddListener(eventName, (e: any) => {
+                    this._zone.run(() => observer.next(e));
+                });
+            });
+        });
+    }
+
+    /**
+     * Triggers the given event name on the map instance. Use this in tests to simulate user interaction
+     * with the map.
+     *
+     * @param eventName - Event to trigger (e.g. 'click', 'dblclick' or 'boundschanged').
+     * @param args - Optional event arguments. Supply a location or pixel to simulate a mouse event
+     * at a specific position. See {@link IMockEventArgs}.
+     * @returns - A promise that is fullfilled once the event is triggered.
+     *
+     * @memberof MockMapService
+     */
+    public TriggerMapEvent(eventName: string, args?: any): Promise<void> {
+        return this._map.then((m: MockMap) => m.Invoke(eventName, args));
+    }
+
+    ///
+    /// Private methods
+    ///
+
+    /**
+     * Applies view options to the map and raises the corresponding change events.
+     *
+     * @param map - The map to update.
+     * @param options - The options to apply.
+     *
+     * @memberof MockMapService
+     */
+    private UpdateView(map: MockMap, options: IMapOptions): void {
+        const center: ILatLong = map.Center;
+        const zoom: number = map.Zoom;
+        map.SetOptions(options);
+        const centerChanged: boolean = center.latitude !== map.Center.latitude || center.longitude !== map.Center.longitude;
+        const zoomChanged: boolean = zoom !== map.Zoom;
+        if (centerChanged) { map.Invoke('centerchanged'); }
+        if (zoomChanged) { map.Invoke('zoomchanged'); }
+        if (centerChanged || zoomChanged) { map.Invoke('boundschanged'); }
+    }
+
+}